@@ -78,6 +78,67 @@ describe('SQL Guard - Safety Validations', () => {
       expect(result.valid).toBe(true);
       expect(result.sanitizedSQL).toMatch(/ORDER BY created_at DESC LIMIT 200/);
     });
+
+    it('should use the maxRows option', () => {
+      const result = validateSQL('SELECT id FROM users', { maxRows: 50 });
+      expect(result.sanitizedSQL).toBe('SELECT id FROM users LIMIT 50;');
+    });
+
+    it('should only limit the outermost query of a windowed CTE', () => {
+      const sql = 'WITH ranked AS (SELECT id, ROW_NUMBER() OVER (ORDER BY created_at) AS rn FROM users ORDER BY id) SELECT id FROM ranked ORDER BY rn';
+      const result = validateSQL(sql);
+      expect(result.valid).toBe(true);
+      expect(result.sanitizedSQL).toBe(`${sql} LIMIT 200;`);
+    });
+
+    it('should not treat a LIMIT inside a subquery as the outer limit', () => {
+      const result = validateSQL('SELECT id FROM (SELECT id FROM users LIMIT 10) recent');
+      expect(result.sanitizedSQL).toBe('SELECT id FROM (SELECT id FROM users LIMIT 10) recent LIMIT 200;');
+    });
+
+    it('should limit the combined result of UNION queries', () => {
+      const result = validateSQL('SELECT id FROM users UNION SELECT user_id FROM orders ORDER BY 1;');
+      expect(result.sanitizedSQL).toBe('SELECT id FROM users UNION SELECT user_id FROM orders ORDER BY 1 LIMIT 200;');
+    });
+
+    it('should clamp an existing LIMIT above maxRows', () => {
+      const result = validateSQL('SELECT id FROM users LIMIT 5000 OFFSET 10');
+      expect(result.sanitizedSQL).toBe('SELECT id FROM users LIMIT 200 OFFSET 10;');
+    });
+
+    it('should clamp LIMIT ALL', () => {
+      const result = validateSQL('SELECT id FROM users LIMIT ALL');
+      expect(result.sanitizedSQL).toBe('SELECT id FROM users LIMIT 200;');
+    });
+
+    it('should clamp FETCH FIRST and keep smaller counts', () => {
+      expect(validateSQL('SELECT id FROM users FETCH FIRST 1000 ROWS ONLY').sanitizedSQL)
+        .toBe('SELECT id FROM users FETCH FIRST 200 ROWS ONLY;');
+      expect(validateSQL('SELECT id FROM users FETCH FIRST 5 ROWS ONLY').sanitizedSQL)
+        .toBe('SELECT id FROM users FETCH FIRST 5 ROWS ONLY;');
+    });
+
+    it('should add LIMIT after OFFSET without a LIMIT', () => {
+      const result = validateSQL('SELECT id FROM users ORDER BY id OFFSET 20');
+      expect(result.sanitizedSQL).toBe('SELECT id FROM users ORDER BY id OFFSET 20 LIMIT 200;');
+    });
+
+    it('should place LIMIT before a trailing comment', () => {
+      const result = validateSQL('SELECT id FROM users -- Grain: user_level');
+      expect(result.sanitizedSQL).toBe('SELECT id FROM users LIMIT 200;');
+    });
+
+    it('should wrap FETCH FIRST WITH TIES, whose ties can exceed maxRows', () => {
+      expect(validateSQL('SELECT id FROM users ORDER BY score FETCH FIRST 5 ROWS WITH TIES').sanitizedSQL)
+        .toBe('SELECT * FROM (SELECT id FROM users ORDER BY score FETCH FIRST 5 ROWS WITH TIES) AS limited_query LIMIT 200;');
+      expect(validateSQL('SELECT id FROM users ORDER BY score FETCH FIRST 1000 ROWS WITH TIES').sanitizedSQL)
+        .toBe('SELECT * FROM (SELECT id FROM users ORDER BY score FETCH FIRST 1000 ROWS WITH TIES) AS limited_query LIMIT 200;');
+    });
+
+    it('should wrap queries with a non-constant LIMIT', () => {
+      const result = validateSQL('SELECT id FROM users LIMIT 500 + 500');
+      expect(result.sanitizedSQL).toBe('SELECT * FROM (SELECT id FROM users LIMIT 500 + 500) AS limited_query LIMIT 200;');
+    });
   });
 
   describe('Multiple statement detection', () => {
@@ -96,6 +157,193 @@ describe('SQL Guard - Safety Validations', () => {
     });
   });
 
+  describe('Structural read-only checks', () => {
+    it('should allow dangerous keywords inside string literals', () => {
+      const result = validateSQL("SELECT id FROM audit_log WHERE action = 'DELETE'");
+      expect(result.valid).toBe(true);
+    });
+
+    it('should allow columns named like keywords', () => {
+      const result = validateSQL('SELECT "call", id FROM phone_logs');
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject SELECT INTO', () => {
+      const result = validateSQL('SELECT id INTO backup_users FROM users');
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('SELECT INTO');
+      expect(result.position).toBe(16);
+    });
+
+    it('should reject data-modifying CTEs', () => {
+      const result = validateSQL('WITH gone AS (DELETE FROM users RETURNING id) SELECT id FROM gone');
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('DELETE');
+      expect(result.reason).toContain('gone');
+    });
+
+    it('should reject row-locking clauses', () => {
+      const result = validateSQL('SELECT id FROM users FOR UPDATE');
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('FOR UPDATE');
+    });
+
+    it('should reject non-SELECT statements such as EXPLAIN ANALYZE', () => {
+      const result = validateSQL('EXPLAIN ANALYZE SELECT id FROM users');
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('Only SELECT');
+    });
+
+    it('should allow UNION and INTERSECT queries', () => {
+      expect(validateSQL('SELECT id FROM users UNION SELECT user_id FROM orders').valid).toBe(true);
+      expect(validateSQL('SELECT id FROM users INTERSECT SELECT user_id FROM orders').valid).toBe(true);
+    });
+
+    it('should report syntax errors with position', () => {
+      const result = validateSQL('SELECT id FROM WHERE id = 1');
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('syntax error');
+      expect(result.position).toBe(16);
+    });
+  });
+
+  describe('Dangerous function detection', () => {
+    it('should reject pg_sleep with position', () => {
+      const result = validateSQL('SELECT id, pg_sleep(10) FROM users');
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('pg_sleep');
+      expect(result.position).toBe(12);
+    });
+
+    it('should reject schema-qualified and nested calls', () => {
+      expect(validateSQL('SELECT pg_catalog.pg_read_file(\'/etc/passwd\')').reason).toContain('pg_read_file');
+      expect(validateSQL('WITH t AS (SELECT nextval(\'seq\') AS n) SELECT n FROM t').reason).toContain('nextval');
+      expect(validateSQL('SELECT id FROM users WHERE id IN (SELECT pg_terminate_backend(pid) FROM pg_stat_activity)').valid).toBe(false);
+    });
+
+    it('should match prefix entries', () => {
+      expect(validateSQL('SELECT lo_import(\'/tmp/x\')').reason).toContain('lo_import');
+      expect(validateSQL('SELECT * FROM dblink(\'host=x\', \'SELECT 1\') AS t(a int)').valid).toBe(false);
+    });
+
+    it('should allow ordinary functions', () => {
+      const result = validateSQL('SELECT COUNT(*), date_trunc(\'day\', created_at) FROM orders GROUP BY 2');
+      expect(result.valid).toBe(true);
+    });
+
+    it('should honor configured denied and allowed functions', () => {
+      expect(validateSQL('SELECT nextval(\'seq\')', { allowedFunctions: ['nextval'] }).valid).toBe(true);
+      const result = validateSQL('SELECT audit_export(id) FROM users', { deniedFunctions: ['audit_*'] });
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('denied by configuration');
+    });
+  });
+
+  describe('Access policy enforcement', () => {
+    const accessPolicy = {
+      allowedSchemas: [],
+      deniedSchemas: ['audit'],
+      allowedTables: [],
+      deniedTables: ['api_keys'],
+      allowedColumns: [],
+      deniedColumns: ['users.password_hash'],
+    };
+
+    it('should reject denied columns through aliases and CTEs', () => {
+      const result = validateSQL('WITH u AS (SELECT x.id, x.password_hash FROM users x) SELECT id FROM u', { accessPolicy });
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('users.password_hash');
+      expect(result.policyViolations?.[0].kind).toBe('column');
+    });
+
+    it('should reject denied schemas and tables', () => {
+      expect(validateSQL('SELECT id FROM audit.events', { accessPolicy }).reason).toContain('schema "audit"');
+      expect(validateSQL('SELECT o.id FROM orders o JOIN api_keys k ON k.user_id = o.user_id', { accessPolicy }).reason)
+        .toContain('api_keys');
+    });
+
+    it('should resolve unqualified tables through the whole search_path', () => {
+      const searchPath = ['audit', 'public'];
+      const tables = [{ schemaName: 'audit', tableName: 'log' }, { schemaName: 'public', tableName: 'log' }, { schemaName: 'public', tableName: 'orders' }];
+
+      expect(validateSQL('SELECT id FROM log', { accessPolicy, searchPath, tables }).reason).toContain('schema "audit"');
+      expect(validateSQL('SELECT id FROM log', { accessPolicy, searchPath: ['public', 'audit'], tables }).valid).toBe(true);
+      expect(validateSQL('SELECT id FROM orders', { accessPolicy, searchPath, tables }).valid).toBe(true);
+    });
+
+    it('should check unresolved tables against every search_path schema', () => {
+      expect(validateSQL('SELECT id FROM log', { accessPolicy, searchPath: ['public', 'audit'] }).reason).toContain('schema "audit"');
+      expect(validateSQL('SELECT id FROM orders', { accessPolicy, searchPath: ['public', 'sales'] }).valid).toBe(true);
+    });
+
+    it('should reject SELECT * on tables with restricted columns', () => {
+      const result = validateSQL('SELECT * FROM users', { accessPolicy });
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('SELECT *');
+    });
+
+    it('should reject whole-row references to tables with restricted columns', () => {
+      for (const sql of [
+        'SELECT row_to_json(u) FROM users u',
+        'SELECT (u).password_hash FROM users u',
+        'SELECT to_jsonb(users) FROM users',
+        'SELECT u FROM users u',
+        'SELECT public.users FROM public.users',
+      ]) {
+        const result = validateSQL(sql, { accessPolicy });
+        expect(result.valid, sql).toBe(false);
+        expect(result.reason, sql).toContain('whole-row reference on "users"');
+      }
+      expect(validateSQL('SELECT row_to_json(o) FROM orders o', { accessPolicy }).valid).toBe(true);
+    });
+
+    it('should reject views that read restricted tables or columns', () => {
+      const tables = [
+        { schemaName: 'public', tableName: 'users' },
+        { schemaName: 'public', tableName: 'user_logins', tableType: 'view' as const, viewDefinition: 'SELECT u.id, u.password_hash FROM users u' },
+        { schemaName: 'public', tableName: 'key_owners', tableType: 'materialized_view' as const, viewDefinition: 'SELECT k.user_id FROM api_keys k' },
+        { schemaName: 'public', tableName: 'recent_logins', tableType: 'view' as const, viewDefinition: 'SELECT id FROM user_logins' },
+        { schemaName: 'public', tableName: 'user_emails', tableType: 'view' as const, viewDefinition: 'SELECT u.id, u.email FROM users u' },
+        { schemaName: 'public', tableName: 'opaque', tableType: 'view' as const },
+      ];
+
+      expect(validateSQL('SELECT id FROM user_logins', { accessPolicy, tables }).reason)
+        .toContain('view "public.user_logins" reads restricted tables or columns');
+      expect(validateSQL('SELECT user_id FROM key_owners', { accessPolicy, tables }).valid).toBe(false);
+      expect(validateSQL('SELECT id FROM recent_logins', { accessPolicy, tables }).valid).toBe(false);
+      expect(validateSQL('SELECT id FROM opaque', { accessPolicy, tables }).valid).toBe(false);
+      expect(validateSQL('SELECT id, email FROM user_emails', { accessPolicy, tables }).valid).toBe(true);
+    });
+
+    it('should reject statistics views that expose column values', () => {
+      expect(validateSQL("SELECT most_common_vals FROM pg_stats WHERE tablename = 'users'", { accessPolicy }).reason)
+        .toContain('"pg_stats" exposes column values');
+      expect(validateSQL('SELECT * FROM pg_catalog.pg_statistic', { accessPolicy }).valid).toBe(false);
+    });
+
+    it('should reject statistics views when only row filters are set', () => {
+      const rowFilters = [{ table: 'orders', predicate: 'region = :user_region' }];
+      const emptyPolicy = { allowedSchemas: [], deniedSchemas: [], allowedTables: [], deniedTables: [], allowedColumns: [], deniedColumns: [] };
+
+      const result = validateSQL("SELECT most_common_vals FROM pg_stats WHERE tablename = 'orders'", { accessPolicy: emptyPolicy, rowFilters });
+      expect(result.valid).toBe(false);
+      expect(result.reason).toContain('"pg_stats" exposes column values');
+      expect(validateSQL('SELECT * FROM pg_catalog.pg_statistic_ext_data', { rowFilters }).valid).toBe(false);
+      expect(validateSQL('SELECT * FROM pg_stats', { accessPolicy: emptyPolicy }).valid).toBe(true);
+    });
+
+    it('should allow permitted tables and columns', () => {
+      expect(validateSQL('SELECT u.id, u.email, o.total FROM users u JOIN orders o ON o.user_id = u.id', { accessPolicy }).valid).toBe(true);
+      expect(validateSQL('SELECT * FROM orders', { accessPolicy }).valid).toBe(true);
+    });
+
+    it('should only allow listed tables when an allowlist is set', () => {
+      const policy = { ...accessPolicy, allowedTables: ['orders'] };
+      expect(validateSQL('SELECT id FROM orders', { accessPolicy: policy }).valid).toBe(true);
+      expect(validateSQL('SELECT id FROM products', { accessPolicy: policy }).valid).toBe(false);
+    });
+  });
+
   describe('Empty SQL detection', () => {
     it('should reject empty string', () => {
       const result = validateSQL('');
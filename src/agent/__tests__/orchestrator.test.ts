@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Orchestrator } from '../orchestrator.js';
+import { explainSQL, runSQL } from '../../tools/inspectedDb.js';
+import { config } from '../../config.js';
+import { createLLMProvider } from '../../llm/provider.js';
+
+// Runs before the imports above: config.ts reads the environment on import (no control DB, fake LLM)
+vi.hoisted(() => {
+  process.env.DATABASE_URL = 'postgresql://offline/inspected';
+  process.env.CONTROL_DB_URL = '';
+  process.env.LLM_PROVIDER = 'fake';
+  process.env.LLM_CASSETTE = '';
+  process.env.LLM_FAKE_FIXTURE = new URL('./fixtures/orchestrator.llm.json', import.meta.url).pathname;
+});
+
+vi.mock('../../tools/inspectedDb.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../../tools/inspectedDb.js')>(),
+  getInspectedDbPool: () => ({ connect: async () => ({ release: () => undefined }) }),
+  getSchemaWithMetadata: async () => [{
+    tableName: 'customers',
+    schemaName: 'public',
+    columns: [
+      { columnName: 'id', dataType: 'integer', isNullable: false },
+      { columnName: 'region', dataType: 'text', isNullable: true },
+    ],
+  }],
+  explainSQL: vi.fn(async () => ({ 'Node Type': 'Aggregate', 'Startup Cost': 0, 'Total Cost': 12, 'Plan Rows': 2 })),
+  runSQL: vi.fn(async () => ({
+    columns: ['region', 'customers'],
+    rows: [['EU', 3], ['US', 5]],
+    rowCount: 2,
+    durationMs: 4,
+  })),
+}));
+
+const defaultBudget = config.budget;
+
+describe('Orchestrator', () => {
+  beforeEach(() => {
+    vi.mocked(runSQL).mockClear();
+  });
+  
+  afterEach(() => {
+    config.budget = defaultBudget;
+  });
+  
+  it('should answer a question end to end with the fake LLM', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    
+    const result = await new Orchestrator().execute('How many customers are in each region?');
+    
+    expect(result.answer).toBe('EU has 3 customers and US has 5.');
+    expect(result.sqlQueries).toEqual([
+      expect.stringMatching(/^SELECT region, COUNT\(\*\) AS customers FROM customers GROUP BY region ORDER BY region LIMIT \d+/),
+    ]);
+    expect(runSQL).toHaveBeenCalledTimes(1);
+    // Planner, SQL writer, two interpretations and three orchestration decisions
+    expect(result.logs.llmCalls).toBe(7);
+    expect(result.logs.outputFailures).toEqual([]);
+  });
+  
+  it('should answer without LLM decisions once a budget runs low', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    config.budget = { ...defaultBudget, question: { llmCalls: 4 }, degradeAtPercent: 50 };
+    
+    const result = await new Orchestrator().execute('How many customers are in each region?');
+    
+    expect(result.answer).toBe('EU has 3 customers and US has 5.');
+    expect(runSQL).toHaveBeenCalledTimes(1);
+    // Planner, the PLAN decision, SQL writer and one interpretation
+    expect(result.logs.llmCalls).toBe(4);
+    expect(result.logs.budgetStop).toBeUndefined();
+  });
+  
+  it('should stop and record the budget that ran out', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    config.budget = { ...defaultBudget, question: { llmCalls: 2 }, degradeAtPercent: 100 };
+    
+    const result = await new Orchestrator().execute('How many customers are in each region?');
+    
+    expect(result.answer).toBe('No results returned from queries.');
+    expect(runSQL).not.toHaveBeenCalled();
+    expect(result.logs.budgetStop).toEqual({ scope: 'question', metric: 'llmCalls', used: 2, limit: 2 });
+  });
+  
+  it('should count earlier questions against the session budget', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    config.budget = { ...defaultBudget, session: { queries: 1 } };
+    const orchestrator = new Orchestrator();
+    
+    await orchestrator.execute('How many customers are in each region?');
+    const second = await orchestrator.execute('How many customers are in each region?');
+    
+    expect(runSQL).toHaveBeenCalledTimes(1);
+    expect(second.logs.budgetStop).toEqual({ scope: 'session', metric: 'queries', used: 1, limit: 1 });
+  });
+  
+  it('should count LLM calls made between questions against the session budget', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    config.budget = { ...defaultBudget, session: { llmCalls: 3 }, degradeAtPercent: 100 };
+    const orchestrator = new Orchestrator();
+    
+    // Like the learner after a correction: a call outside any question
+    await createLLMProvider(config.llm, 'sqlWriter').generateText('Analyze this correction');
+    const result = await orchestrator.execute('How many customers are in each region?');
+    
+    expect(runSQL).not.toHaveBeenCalled();
+    expect(result.logs.llmCalls).toBe(2);
+    expect(result.logs.budgetStop).toEqual({ scope: 'session', metric: 'llmCalls', used: 3, limit: 3 });
+  });
+  
+  it('should ask before running a query the cost gate could not estimate', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const timeout = Object.assign(new Error('canceling statement due to statement timeout'), { code: '57014' });
+    
+    vi.mocked(explainSQL).mockRejectedValueOnce(timeout);
+    await expect(new Orchestrator().execute('How many customers are in each region?'))
+      .rejects.toThrow('Cost could not be estimated (EXPLAIN failed: canceling statement due to statement timeout)');
+    expect(runSQL).not.toHaveBeenCalled();
+    
+    vi.mocked(explainSQL).mockRejectedValueOnce(timeout);
+    const requestPermission = vi.fn(async () => false);
+    await new Orchestrator().execute('How many customers are in each region?', undefined, requestPermission);
+    expect(requestPermission).toHaveBeenCalledWith(
+      expect.any(String), 1, 1, false, expect.any(String),
+      expect.objectContaining({ costAnalysis: expect.objectContaining({ decision: 'confirm', explainError: timeout.message }) })
+    );
+    expect(runSQL).not.toHaveBeenCalled();
+  });
+});
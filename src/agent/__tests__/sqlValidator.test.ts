@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import { parseSQL, validateSQLAgainstMetadata } from '../sqlValidator.js';
+import { TableMetadata, TableSchema } from '../../types.js';
+
+function table(tableName: string, columns: string[], schemaName = 'public'): { schema: TableSchema; metadata: TableMetadata } {
+  return {
+    schema: {
+      tableName,
+      schemaName,
+      columns: columns.map(columnName => ({ columnName, dataType: 'integer', isNullable: true })),
+    },
+    metadata: {
+      tableName,
+      schemaName,
+      estimatedRowCount: 0,
+      totalSizeBytes: 0,
+      tableSizeBytes: 0,
+      indexSizeBytes: 0,
+      primaryKeyColumns: ['id'],
+      indexes: [],
+      foreignKeys: [],
+      lastAnalyzed: new Date(),
+      lastUpdated: new Date(),
+    },
+  };
+}
+
+const tables = [
+  table('customers', ['id', 'name', 'region']),
+  table('orders', ['id', 'customer_id', 'status', 'total', 'created_at']),
+  table('order_items', ['id', 'order_id', 'price', 'quantity']),
+  table('invoices', ['id', 'order_id', 'amount'], 'billing'),
+];
+const schema = tables.map(t => t.schema);
+const metadata = tables.map(t => t.metadata);
+
+async function issuesOf(sql: string): Promise<string[]> {
+  return (await validateSQLAgainstMetadata(sql, schema, metadata)).issues;
+}
+
+describe('SQL Parser', () => {
+  describe('Tables', () => {
+    it('should collect tables from every FROM and JOIN', () => {
+      const parsed = parseSQL(
+        `SELECT c.name FROM customers c
+         JOIN orders o ON o.customer_id = c.id
+         LEFT JOIN billing.invoices i ON i.order_id = o.id`
+      );
+      expect(parsed.tables).toEqual(['customers', 'orders', 'billing.invoices']);
+      expect(parsed.tableRefs).toEqual([
+        { table: 'customers', alias: 'c' },
+        { table: 'orders', alias: 'o' },
+        { schema: 'billing', table: 'invoices', alias: 'i' },
+      ]);
+    });
+
+    it('should collect tables of comma joins, subqueries and LATERAL', () => {
+      const parsed = parseSQL(
+        `SELECT * FROM customers c, orders o,
+           LATERAL (SELECT SUM(price) AS spent FROM order_items i WHERE i.order_id = o.id) s
+         WHERE o.customer_id = c.id
+           AND o.id IN (SELECT order_id FROM billing.invoices)`
+      );
+      expect(parsed.tables).toEqual(['customers', 'orders', 'order_items', 'billing.invoices']);
+    });
+
+    it('should not treat CTE names as tables', () => {
+      const parsed = parseSQL(
+        `WITH recent AS (SELECT * FROM orders WHERE created_at > now() - interval '7 days'),
+              big AS (SELECT * FROM recent WHERE total > 100)
+         SELECT id FROM big`
+      );
+      expect(parsed.tables).toEqual(['orders']);
+      expect(Array.from(parsed.cteNames)).toEqual(['recent', 'big']);
+    });
+
+    it('should keep quoted identifiers as written', () => {
+      const parsed = parseSQL('SELECT "Name" FROM "Sales"."Customers"');
+      expect(parsed.tables).toEqual(['"Sales"."Customers"']);
+      expect(parsed.columns).toEqual([{ schema: 'Sales', table: 'Customers', column: 'Name' }]);
+    });
+
+    it('should return an empty structure for SQL that does not parse', () => {
+      const parsed = parseSQL('SELECT FROM WHERE');
+      expect(parsed.tables).toEqual([]);
+      expect(parsed.columns).toEqual([]);
+    });
+
+    it('should detect aggregation and GROUP BY from the query, not its literals or comments', () => {
+      const grouped = parseSQL("SELECT status, count(*) FROM orders WHERE status <> '--' GROUP BY status");
+      expect(grouped.hasAggregations).toBe(true);
+      expect(grouped.hasGroupBy).toBe(true);
+
+      const plain = parseSQL("SELECT id FROM orders WHERE status = 'sum(x) GROUP BY y' -- max(total)\n/* GROUP BY id */");
+      expect(plain.hasAggregations).toBe(false);
+      expect(plain.hasGroupBy).toBe(false);
+
+      expect(parseSQL('SELECT id, sum(total) OVER (PARTITION BY customer_id) FROM orders').hasAggregations).toBe(false);
+      expect(parseSQL('SELECT * FROM orders WHERE total > (SELECT avg(total) FROM orders)').hasAggregations).toBe(true);
+    });
+  });
+
+  describe('Columns', () => {
+    it('should resolve aliases to tables within their scope', () => {
+      const parsed = parseSQL(
+        `SELECT o.id FROM orders o
+         WHERE EXISTS (SELECT 1 FROM order_items o WHERE o.price > 10)`
+      );
+      expect(parsed.columns).toEqual([
+        { table: 'orders', column: 'id' },
+        { table: 'order_items', column: 'price' },
+      ]);
+    });
+
+    it('should resolve correlated references to the outer query', () => {
+      const parsed = parseSQL(
+        'SELECT c.name FROM customers c WHERE EXISTS (SELECT 1 FROM orders o WHERE o.customer_id = c.id)'
+      );
+      expect(parsed.columns).toContainEqual({ table: 'customers', column: 'id' });
+      expect(parsed.columns).toContainEqual({ table: 'orders', column: 'customer_id' });
+    });
+
+    it('should qualify unqualified columns of a single-table scope', () => {
+      const parsed = parseSQL('SELECT status, COUNT(*) AS n FROM orders GROUP BY status ORDER BY n DESC');
+      expect(parsed.columns).toEqual([
+        { table: 'orders', column: 'status' },
+        { table: 'orders', column: 'status' },
+      ]);
+    });
+
+    it('should expand wildcards to the tables they cover', () => {
+      const parsed = parseSQL('SELECT o.*, c.name FROM orders o JOIN customers c ON c.id = o.customer_id');
+      expect(parsed.wildcards).toEqual([{ table: 'orders' }]);
+      expect(parseSQL('SELECT * FROM orders, billing.invoices').wildcards).toEqual([
+        { table: 'orders' },
+        { schema: 'billing', table: 'invoices' },
+      ]);
+    });
+
+    it('should record literal comparisons', () => {
+      const parsed = parseSQL("SELECT id FROM orders WHERE status IN ('OPEN', 'PAID') AND status <> 'VOID'");
+      expect(parsed.valueComparisons).toEqual([
+        { table: 'orders', column: 'status', values: ['OPEN', 'PAID'], negated: false },
+        { table: 'orders', column: 'status', values: ['VOID'], negated: true },
+      ]);
+    });
+  });
+
+  describe('CTE and subquery output columns', () => {
+    it('should know the output columns of CTEs', () => {
+      const parsed = parseSQL(
+        `WITH totals(order_id, amount) AS (SELECT order_id, SUM(price) FROM order_items GROUP BY order_id),
+              ranked AS (SELECT t.*, RANK() OVER (ORDER BY amount DESC) AS position FROM totals t),
+              everything AS (SELECT * FROM orders)
+         SELECT order_id FROM ranked`
+      );
+      expect(Object.fromEntries(parsed.cteColumns)).toEqual({
+        totals: ['order_id', 'amount'],
+        ranked: ['order_id', 'amount', 'position'],
+      });
+    });
+
+    it('should accept columns CTEs and derived tables provide', async () => {
+      expect(await issuesOf(
+        `WITH totals AS (SELECT order_id, SUM(price * quantity) AS amount FROM order_items GROUP BY order_id)
+         SELECT o.id, t.amount, paid.invoiced
+         FROM orders o
+         JOIN totals t ON t.order_id = o.id
+         JOIN (SELECT order_id, SUM(amount) AS invoiced FROM billing.invoices GROUP BY order_id) paid USING (order_id)
+         WHERE amount > 100
+         ORDER BY invoiced DESC`
+      )).toEqual([]);
+    });
+
+    it('should report columns a CTE or derived table does not provide', async () => {
+      expect(await issuesOf(
+        `WITH totals AS (SELECT order_id, SUM(price) AS amount FROM order_items GROUP BY order_id)
+         SELECT t.total FROM totals t`
+      )).toEqual(['Columns not found in CTE/subquery output: t.total (has: order_id, amount)']);
+      expect(await issuesOf(
+        'SELECT revenue FROM (SELECT customer_id, SUM(total) AS spent FROM orders GROUP BY 1) s'
+      )).toEqual(['Columns not found in CTE/subquery output: s.revenue (has: customer_id, spent)']);
+    });
+
+    it('should follow column aliases of derived tables and VALUES lists', async () => {
+      expect(await issuesOf(
+        `SELECT x.a, v.label FROM (SELECT id, status FROM orders) AS x(a, b)
+         JOIN (VALUES ('OPEN', 'Open order')) AS v(code, label) ON v.code = x.b`
+      )).toEqual([]);
+    });
+
+    it('should not guess columns hidden behind * over a table', async () => {
+      expect(await issuesOf(
+        'WITH recent AS (SELECT * FROM orders) SELECT r.status, r.anything FROM recent r'
+      )).toEqual([]);
+    });
+
+    it('should handle recursive CTEs', async () => {
+      expect(await issuesOf(
+        `WITH RECURSIVE days(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM days WHERE n < 7)
+         SELECT n FROM days`
+      )).toEqual([]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should report unknown tables and columns', async () => {
+      expect(await issuesOf('SELECT o.amount FROM orders o JOIN refunds r ON r.order_id = o.id')).toEqual(
+        expect.arrayContaining([
+          'Tables not found in metadata: refunds',
+          expect.stringContaining('orders.amount'),
+        ])
+      );
+    });
+
+    it('should validate every branch of a UNION', async () => {
+      expect(await issuesOf('SELECT name FROM customers UNION SELECT nickname FROM customers')).toEqual([
+        'Columns not found: public.customers.nickname',
+      ]);
+    });
+  });
+});
@@ -1,3 +1,99 @@
+import { parsePostgres, walkAst, byteOffsetToCharIndex, findCodeEnd, AstNode } from '../utils/sqlAst.js';
+import { parseSQL } from './sqlValidator.js';
+import { checkAccessPolicy, checkStatisticsViews, formatPolicyViolations, PolicyTable } from '../services/accessPolicy.js';
+import { AccessPolicy, Config, PolicyViolation, RowFilter } from '../types.js';
+
+/**
+ * Row cap applied when no maxRows option is given (matches the MAX_ROWS default in config).
+ */
+export const DEFAULT_MAX_ROWS = 200;
+
+/**
+ * Functions blocked by default, with the reason shown to the user.
+ * Entries ending in `*` match any function name with that prefix.
+ * Names are matched case-insensitively, with or without a schema qualifier (pg_catalog.pg_sleep).
+ */
+export const DEFAULT_DENIED_FUNCTIONS: Record<string, string> = {
+  'pg_sleep': 'delays execution and holds connections open',
+  'pg_sleep_for': 'delays execution and holds connections open',
+  'pg_sleep_until': 'delays execution and holds connections open',
+  'pg_read_file': 'reads files on the database server',
+  'pg_read_binary_file': 'reads files on the database server',
+  'pg_stat_file': 'inspects files on the database server',
+  'pg_ls_*': 'lists directories on the database server',
+  'pg_file_*': 'writes or removes files on the database server',
+  'lo_*': 'reads or writes server-side large objects and files',
+  'dblink*': 'opens connections to other databases',
+  'query_to_xml*': 'executes an arbitrary query string',
+  'cursor_to_xml*': 'reads from an arbitrary cursor',
+  'table_to_xml*': 'reads a whole table, bypassing row filters and the access policy',
+  'schema_to_xml*': 'reads whole tables, bypassing row filters and the access policy',
+  'database_to_xml*': 'reads whole tables, bypassing row filters and the access policy',
+  'pg_terminate_backend': 'terminates other database sessions',
+  'pg_cancel_backend': 'cancels queries in other database sessions',
+  'pg_reload_conf': 'reloads server configuration',
+  'pg_rotate_logfile': 'changes server state',
+  'pg_promote': 'changes server state',
+  'pg_switch_wal': 'changes server state',
+  'pg_create_restore_point': 'changes server state',
+  'pg_backup_start': 'changes server state',
+  'pg_backup_stop': 'changes server state',
+  'pg_create_physical_replication_slot': 'changes replication state',
+  'pg_create_logical_replication_slot': 'changes replication state',
+  'pg_drop_replication_slot': 'changes replication state',
+  'pg_logical_emit_message': 'writes to the WAL',
+  'set_config': 'changes session settings',
+  'nextval': 'advances a sequence (side effect)',
+  'setval': 'changes a sequence (side effect)',
+  'pg_advisory_*': 'takes advisory locks',
+  'pg_try_advisory_*': 'takes advisory locks',
+  'pg_notify': 'sends notifications to other sessions',
+  'txid_current': 'assigns a transaction ID (write)',
+  'pg_current_xact_id': 'assigns a transaction ID (write)',
+};
+
+/**
+ * Options for validateSQL.
+ */
+export interface GuardOptions {
+  /** Maximum rows the outermost query may return (from config.maxRows) */
+  maxRows?: number;
+  /** Additional functions to block on top of DEFAULT_DENIED_FUNCTIONS (from config.deniedFunctions) */
+  deniedFunctions?: string[];
+  /** Functions to permit even though they match the denylist (from config.allowedFunctions) */
+  allowedFunctions?: string[];
+  /** Table/column access policy (from config.accessPolicy) */
+  accessPolicy?: AccessPolicy;
+  /** Row filters (from config.rowFilters); statistics views are rejected while any are set */
+  rowFilters?: RowFilter[];
+  /** Schemas unqualified table names resolve against, in order (from config.searchPath) */
+  searchPath?: string[];
+  /**
+   * All tables and views of the inspected database, to resolve unqualified names
+   * and check view definitions for the access policy. Names that do not resolve
+   * are checked against every searchPath schema.
+   */
+  tables?: PolicyTable[];
+}
+
+/**
+ * Build guard options from the application config.
+ * Takes the config as a parameter so the guard itself stays free of environment loading.
+ *
+ * @param tables - All tables of the inspected database (not filtered by the access policy)
+ */
+export function guardOptionsFromConfig(config: Config, tables?: PolicyTable[]): GuardOptions {
+  return {
+    maxRows: config.maxRows,
+    deniedFunctions: config.deniedFunctions,
+    allowedFunctions: config.allowedFunctions,
+    accessPolicy: config.accessPolicy,
+    rowFilters: config.rowFilters,
+    searchPath: config.searchPath,
+    tables,
+  };
+}
+
 /**
  * Result of SQL validation, including sanitized query if valid.
  */
@@ -6,24 +102,81 @@ export interface ValidationResult {
   valid: boolean;
   /** Reason for validation failure (only present if valid is false) */
   reason?: string;
+  /** 1-based character position of the offending node in the SQL (only present for failures that can be located) */
+  position?: number;
+  /** Access policy violations (only present if the SQL was rejected by the access policy) */
+  policyViolations?: PolicyViolation[];
   /** Sanitized SQL with auto-added LIMIT and semicolon (only present if valid is true) */
   sanitizedSQL?: string;
 }
 
+/**
+ * Keyword shown to the user for each rejected top-level statement type.
+ * Statement types not listed here are reported by their parser node name.
+ */
+const STATEMENT_KEYWORDS: Record<string, string> = {
+  InsertStmt: 'INSERT',
+  UpdateStmt: 'UPDATE',
+  DeleteStmt: 'DELETE',
+  MergeStmt: 'MERGE',
+  DropStmt: 'DROP',
+  TruncateStmt: 'TRUNCATE',
+  CreateStmt: 'CREATE',
+  CreateTableAsStmt: 'CREATE',
+  CreateSchemaStmt: 'CREATE',
+  CreateFunctionStmt: 'CREATE',
+  CreateRoleStmt: 'CREATE',
+  ViewStmt: 'CREATE',
+  IndexStmt: 'CREATE',
+  AlterTableStmt: 'ALTER',
+  AlterRoleStmt: 'ALTER',
+  RenameStmt: 'ALTER',
+  GrantStmt: 'GRANT',
+  GrantRoleStmt: 'GRANT',
+  ExecuteStmt: 'EXECUTE',
+  CallStmt: 'CALL',
+  DoStmt: 'DO',
+  CopyStmt: 'COPY',
+  VacuumStmt: 'VACUUM',
+  LockStmt: 'LOCK',
+};
+
+/**
+ * Statement types that modify data; rejected wherever they appear inside a SELECT (e.g. in a CTE).
+ */
+const DATA_MODIFYING_NODES: Record<string, string> = {
+  InsertStmt: 'INSERT',
+  UpdateStmt: 'UPDATE',
+  DeleteStmt: 'DELETE',
+  MergeStmt: 'MERGE',
+};
+
 /**
  * Validates SQL queries for safety before execution.
  * 
+ * The query is parsed with the real PostgreSQL parser (libpg-query) and checked
+ * structurally, so keywords inside string literals or identifiers (e.g. 'DELETE',
+ * a column named "call") do not cause false positives.
+ * 
  * Safety checks performed:
- * - Only allows SELECT or WITH ... SELECT statements
- * - Rejects dangerous keywords (DROP, DELETE, INSERT, UPDATE, etc.)
- * - Blocks SELECT * queries (zero hallucination rule - must list columns explicitly)
+ * - SQL must parse as PostgreSQL (syntax errors are reported with their position)
+ * - Only a single read-only SELECT statement is allowed (WITH ... SELECT, UNION, VALUES included)
+ * - Rejects any other statement type (DROP, DELETE, INSERT, UPDATE, COPY, EXPLAIN, SET, etc.)
+ * - Rejects data-modifying CTEs (WITH x AS (DELETE ... RETURNING ...) SELECT ...)
+ * - Rejects SELECT INTO (creates a table)
+ * - Rejects row-locking clauses (FOR UPDATE / FOR SHARE)
+ * - Rejects calls to dangerous functions (pg_sleep, pg_read_file, dblink, set_config, nextval, ...)
+ *   - see DEFAULT_DENIED_FUNCTIONS; extended/overridden via deniedFunctions/allowedFunctions options
  * - Blocks queries with "undefined" table names (common LLM error)
+ * - Enforces the table/column access policy (accessPolicy option) on the parseSQL output
+ * - Rejects statistics views (pg_stats, ...) while row filters are set (rowFilters option)
  * - Prevents multiple statement execution
- * - Auto-appends LIMIT 200 if not present
+ * - Caps the outermost query at maxRows: appends LIMIT if missing, clamps a larger LIMIT/FETCH FIRST
  * - Ensures query ends with semicolon
  * 
  * @param sql - The SQL query string to validate
- * @returns ValidationResult with valid flag, optional reason for failure, and sanitized SQL
+ * @param options - Guard options (maxRows defaults to 200, function deny/allow lists)
+ * @returns ValidationResult with valid flag, optional reason (and position) for failure, and sanitized SQL
  * 
  * @example
  * ```typescript
@@ -35,90 +188,242 @@ export interface ValidationResult {
  * }
  * ```
  */
-export function validateSQL(sql: string): ValidationResult {
+export function validateSQL(sql: string, options: GuardOptions = {}): ValidationResult {
   const trimmed = sql.trim();
   
   if (!trimmed) {
     return { valid: false, reason: 'Empty SQL statement' };
   }
   
-  // Check for dangerous keywords
-  const dangerousKeywords = [
-    'INSERT', 'UPDATE', 'DELETE', 'DROP', 'CREATE', 'ALTER', 
-    'TRUNCATE', 'GRANT', 'REVOKE', 'EXEC', 'EXECUTE', 'CALL'
-  ];
-  
-  for (const keyword of dangerousKeywords) {
-    // Use word boundaries to avoid false positives
-    const regex = new RegExp(`\\b${keyword}\\b`, 'i');
-    if (regex.test(trimmed)) {
-      return { valid: false, reason: `Dangerous keyword detected: ${keyword}` };
-    }
+  const parsed = parsePostgres(trimmed);
+  if (!parsed.success) {
+    const position = parsed.position !== undefined ? parsed.position + 1 : undefined;
+    return {
+      valid: false,
+      reason: `SQL syntax error: ${parsed.error}${position !== undefined ? ` (at position ${position})` : ''}`,
+      position,
+    };
   }
   
-  // Only allow SELECT or WITH ... SELECT
-  const hasSelect = /\bSELECT\b/i.test(trimmed);
-  const hasWith = /\bWITH\b/i.test(trimmed);
+  const statements = parsed.statements;
+  if (statements.length === 0) {
+    return { valid: false, reason: 'Empty SQL statement' };
+  }
   
-  if (!hasSelect && !hasWith) {
-    return { valid: false, reason: 'Only SELECT or WITH ... SELECT statements are allowed' };
+  // Every statement must be a SELECT - report the first offending one (e.g. "SELECT 1; DROP TABLE x")
+  for (const statement of statements) {
+    const [type] = Object.keys(statement.stmt || {});
+    if (type !== 'SelectStmt') {
+      const position = toPosition(trimmed, statement.stmt_location ?? 0);
+      const keyword = type === 'GrantStmt' && (statement.stmt as AstNode).GrantStmt.is_grant === false
+        ? 'REVOKE'
+        : STATEMENT_KEYWORDS[type];
+      return {
+        valid: false,
+        reason: keyword
+          ? `Dangerous statement detected: ${keyword} (at position ${position}). Only SELECT or WITH ... SELECT statements are allowed`
+          : `Only SELECT or WITH ... SELECT statements are allowed (found ${type || 'unknown statement'} at position ${position})`,
+        position,
+      };
+    }
   }
   
-  // Check for SELECT * (zero hallucination rule)
-  if (/\bSELECT\s+\*\b/i.test(trimmed)) {
-    return { 
-      valid: false, 
-      reason: 'SELECT * is not allowed. Always list columns explicitly. This ensures zero hallucination and validates against metadata.' 
-    };
+  if (statements.length > 1) {
+    const position = toPosition(trimmed, statements[1].stmt_location ?? 0);
+    return { valid: false, reason: `Multiple statements are not allowed (second statement at position ${position})`, position };
   }
   
-  // Check for undefined table names (common LLM error)
-  if (/\bFROM\s+["']?undefined["']?/i.test(trimmed) || /\bJOIN\s+["']?undefined["']?/i.test(trimmed)) {
-    return { valid: false, reason: 'SQL contains "undefined" as table name - this indicates the LLM did not properly identify the table. Please check the schema and try again.' };
+  const violation = findReadOnlyViolation(trimmed, statements[0].stmt)
+    || findDeniedFunctionCall(trimmed, statements[0].stmt, options);
+  if (violation) {
+    return { valid: false, ...violation };
   }
   
-  // Check for multiple statements (semicolon followed by non-comment content)
-  const statements = trimmed.split(';').filter(s => s.trim().length > 0);
-  if (statements.length > 1) {
-    return { valid: false, reason: 'Multiple statements are not allowed' };
+  if (options.accessPolicy || options.rowFilters?.length) {
+    const parsed = parseSQL(trimmed);
+    const policyViolations = options.accessPolicy
+      ? checkAccessPolicy(parsed, options.accessPolicy, options.searchPath, options.tables)
+      : [];
+    if (policyViolations.length === 0 && options.rowFilters?.length) {
+      policyViolations.push(...checkStatisticsViews(parsed));
+    }
+    if (policyViolations.length > 0) {
+      return { valid: false, reason: formatPolicyViolations(policyViolations), policyViolations };
+    }
   }
   
-  // Auto-append LIMIT if not present
-  let sanitized = trimmed;
-  if (!/\bLIMIT\s+\d+/i.test(sanitized)) {
-    // Check if it's a CTE (WITH clause) - LIMIT should go after the final SELECT
-    if (hasWith) {
-      // Find the last SELECT in the query
-      const lastSelectIndex = sanitized.lastIndexOf('SELECT');
-      if (lastSelectIndex !== -1) {
-        const afterSelect = sanitized.substring(lastSelectIndex);
-        
-        // Check if there's already an ORDER BY, then LIMIT goes after it
-        if (/\bORDER\s+BY\b/i.test(afterSelect)) {
-          sanitized = sanitized.replace(/\bORDER\s+BY\s+[^;]+/i, (match) => {
-            return match + ' LIMIT 200';
-          });
-        } else {
-          // No ORDER BY, add LIMIT at the end before semicolon
-          sanitized = sanitized.replace(/;?\s*$/, ' LIMIT 200;');
-        }
-      }
-    } else {
-      // Simple SELECT, add LIMIT before semicolon or at end
-      if (/\bORDER\s+BY\b/i.test(sanitized)) {
-        sanitized = sanitized.replace(/\bORDER\s+BY\s+[^;]+/i, (match) => {
-          return match + ' LIMIT 200';
-        });
-      } else {
-        sanitized = sanitized.replace(/;?\s*$/, ' LIMIT 200;');
+  const sanitized = applyRowLimit(trimmed, (statements[0].stmt as AstNode).SelectStmt, options.maxRows ?? DEFAULT_MAX_ROWS);
+  
+  return { valid: true, sanitizedSQL: sanitized };
+}
+
+/**
+ * Cap the number of rows returned by the outermost query.
+ * 
+ * - No LIMIT/FETCH FIRST: appends `LIMIT maxRows` after the last token (after ORDER BY/OFFSET, before trailing comments)
+ * - Constant LIMIT/FETCH FIRST above maxRows (or LIMIT ALL): clamps the count in place
+ * - Non-constant count (e.g. LIMIT $1, LIMIT 5 + 5) or FETCH FIRST ... WITH TIES (ties can
+ *   return any number of extra rows): wraps the query as a subquery with the cap
+ * 
+ * Only the outermost SelectStmt is inspected, so LIMITs inside CTEs, subqueries and
+ * window clauses are never touched, and for UNION/INTERSECT/EXCEPT the cap applies to the combined result.
+ */
+function applyRowLimit(sql: string, select: AstNode, maxRows: number): string {
+  const body = sql.slice(0, findCodeEnd(sql));
+  const limitCount: AstNode | undefined = select.limitCount;
+  
+  if (!limitCount) {
+    return `${body} LIMIT ${maxRows};`;
+  }
+  
+  const constant: AstNode | undefined = select.limitOption === 'LIMIT_OPTION_WITH_TIES' ? undefined : limitCount.A_Const;
+  if (constant && (constant.isnull || constant.ival)) {
+    // ival is omitted by the parser for LIMIT 0
+    const count: number | undefined = constant.isnull ? undefined : (constant.ival.ival ?? 0);
+    if (count !== undefined && count <= maxRows) {
+      return `${body};`;
+    }
+    if (constant.location !== undefined && constant.location >= 0) {
+      const start = byteOffsetToCharIndex(body, constant.location);
+      const token = (constant.isnull ? /^(ALL|NULL)\b/i : /^\d+/).exec(body.slice(start));
+      if (token) {
+        return `${body.slice(0, start)}${maxRows}${body.slice(start + token[0].length)};`;
       }
     }
   }
   
-  // Ensure it ends with semicolon
-  if (!sanitized.trim().endsWith(';')) {
-    sanitized = sanitized.trim() + ';';
+  return `SELECT * FROM (${body}) AS limited_query LIMIT ${maxRows};`;
+}
+
+/**
+ * Walk a parsed SELECT and return the first construct that could write data or take locks.
+ */
+function findReadOnlyViolation(sql: string, root: unknown): { reason: string; position?: number } | undefined {
+  let violation: { reason: string; position?: number } | undefined;
+  
+  walkAst(root, (type, node, ancestors) => {
+    if (violation) {
+      return false;
+    }
+    
+    const dmlKeyword = DATA_MODIFYING_NODES[type];
+    if (dmlKeyword) {
+      const cte = [...ancestors].reverse().find(a => a.type === 'CommonTableExpr');
+      const location = cte?.node.location ?? node.relation?.location;
+      const position = location !== undefined && location >= 0 ? toPosition(sql, location) : undefined;
+      violation = {
+        reason: cte
+          ? `Data-modifying statement detected: ${dmlKeyword} in WITH clause "${cte.node.ctename}"${formatAt(position)}`
+          : `Data-modifying statement detected: ${dmlKeyword}${formatAt(position)}`,
+        position,
+      };
+      return false;
+    }
+    
+    if (type === 'IntoClause') {
+      const location = node.rel?.location;
+      const position = location !== undefined && location >= 0 ? toPosition(sql, location) : undefined;
+      violation = {
+        reason: `SELECT INTO is not allowed - it creates table "${node.rel?.relname}"${formatAt(position)}`,
+        position,
+      };
+      return false;
+    }
+    
+    if (type === 'LockingClause') {
+      violation = { reason: `Row-locking clause ${describeLockStrength(node)} is not allowed in read-only queries` };
+      return false;
+    }
+    
+    // Check for undefined table names (common LLM error)
+    if (type === 'RangeVar' && (node.relname || '').toLowerCase() === 'undefined') {
+      const position = node.location !== undefined && node.location >= 0 ? toPosition(sql, node.location) : undefined;
+      violation = {
+        reason: `SQL contains "undefined" as table name${formatAt(position)} - this indicates the LLM did not properly identify the table. Please check the schema and try again.`,
+        position,
+      };
+      return false;
+    }
+    
+    return undefined;
+  });
+  
+  return violation;
+}
+
+/**
+ * Return the first call to a denied function (default denylist + configured extras, minus the allowlist).
+ */
+function findDeniedFunctionCall(sql: string, root: unknown, options: GuardOptions): { reason: string; position?: number } | undefined {
+  const denied: Record<string, string> = { ...DEFAULT_DENIED_FUNCTIONS };
+  for (const name of options.deniedFunctions || []) {
+    denied[name.toLowerCase()] = 'denied by configuration';
   }
+  const allowed = new Set((options.allowedFunctions || []).map(name => name.toLowerCase()));
   
-  return { valid: true, sanitizedSQL: sanitized };
+  let violation: { reason: string; position?: number } | undefined;
+  
+  walkAst(root, (type, node) => {
+    if (violation) {
+      return false;
+    }
+    if (type !== 'FuncCall') {
+      return undefined;
+    }
+    
+    const nameParts: string[] = (node.funcname || []).map((part: AstNode) => String(part.String?.sval || '').toLowerCase());
+    const name = nameParts[nameParts.length - 1];
+    const qualifiedName = nameParts.join('.');
+    if (!name || allowed.has(name) || allowed.has(qualifiedName)) {
+      return undefined;
+    }
+    
+    const pattern = Object.keys(denied).find(entry => matchesFunctionPattern(entry, name, qualifiedName));
+    if (pattern) {
+      const position = node.location !== undefined && node.location >= 0 ? toPosition(sql, node.location) : undefined;
+      violation = {
+        reason: `Dangerous function detected: ${qualifiedName}()${formatAt(position)} - ${denied[pattern]}`,
+        position,
+      };
+      return false;
+    }
+    return undefined;
+  });
+  
+  return violation;
+}
+
+/**
+ * Match a denylist entry ("pg_sleep", "pg_catalog.pg_sleep", "lo_*") against a called function.
+ */
+function matchesFunctionPattern(pattern: string, name: string, qualifiedName: string): boolean {
+  const target = pattern.includes('.') ? qualifiedName : name;
+  if (pattern.endsWith('*')) {
+    return target.startsWith(pattern.slice(0, -1));
+  }
+  return target === pattern;
+}
+
+/**
+ * Convert a parser byte offset into a 1-based character position.
+ */
+function toPosition(sql: string, byteOffset: number): number {
+  return byteOffsetToCharIndex(sql, byteOffset) + 1;
+}
+
+function formatAt(position?: number): string {
+  return position !== undefined ? ` (at position ${position})` : '';
+}
+
+function describeLockStrength(node: AstNode): string {
+  switch (node.strength) {
+    case 'LCS_FORKEYSHARE':
+      return 'FOR KEY SHARE';
+    case 'LCS_FORSHARE':
+      return 'FOR SHARE';
+    case 'LCS_FORNOKEYUPDATE':
+      return 'FOR NO KEY UPDATE';
+    default:
+      return 'FOR UPDATE';
+  }
 }
@@ -1,16 +1,39 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { Interpretation, SQLResult, PlanStep, OrchestratorState, InterpreterNeeds } from '../types.js';
+import { Interpretation, SQLResult, PlanStep, OrchestratorState, InterpreterNeeds, LLMProvider, LLMOutputSchema } from '../types.js';
 import { config } from '../config.js';
+import { createLLMProvider } from '../llm/provider.js';
+import { renderPrompt } from '../llm/prompts.js';
+import { generateStructured } from '../llm/structured.js';
 import { retryWithBackoff } from '../utils/retry.js';
 import { formatSemanticsForLLM, getSemantics } from '../tools/controlDb.js';
+import { maskResultForLLM, maskSQL, unmaskText } from '../services/piiMasking.js';
+import { parseSQL } from './sqlValidator.js';
+import { computeLineage, formatLineageForLLM } from '../services/columnLineage.js';
+
+/**
+ * Response of the interpretation prompt
+ */
+const INTERPRETATION_OUTPUT: LLMOutputSchema<Interpretation> = {
+  name: 'interpretation',
+  schema: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: ['FINAL_ANSWER', 'NEEDS_REFINEMENT'] },
+      answer: { type: 'string' },
+      nextStep: { type: 'string' },
+      confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+    },
+    required: ['status'],
+  },
+  check: interpretation => interpretation.status === 'FINAL_ANSWER' && !interpretation.answer
+    ? ['$.answer is required when status is FINAL_ANSWER']
+    : [],
+};
 
 export class Interpreter {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+  private llm: LLMProvider;
   
   constructor() {
-    this.genAI = new GoogleGenerativeAI(config.geminiApiKey);
-    this.model = this.genAI.getGenerativeModel({ model: config.geminiModel });
+    this.llm = createLLMProvider(config.llm, 'interpreter');
   }
   
   async interpret(
@@ -19,87 +42,57 @@ export class Interpreter {
     sqlResult: SQLResult,
     allSteps: PlanStep[],
     completedSteps: number[],
-    state?: OrchestratorState
+    state?: OrchestratorState,
+    maxRows: number = config.maxResultRowsForLLM
   ): Promise<Interpretation> {
-    // Limit the result rows sent to LLM
-    const limitedRows = sqlResult.rows.slice(0, config.maxResultRowsForLLM);
-    const hasMoreRows = sqlResult.rows.length > config.maxResultRowsForLLM;
+    // Limit the result rows sent to LLM (fewer once a budget runs low)
+    const limitedRows = sqlResult.rows.slice(0, maxRows);
+    const hasMoreRows = sqlResult.rows.length > maxRows;
+    
+    // Personal data never goes into the prompt; pseudonyms in the answer are mapped back below
+    const sourceTables = step.sqlQuery ? parseSQL(step.sqlQuery).tables : undefined;
+    const maskedRows = maskResultForLLM({ ...sqlResult, rows: limitedRows }, sourceTables).rows;
+    
+    // Where each result column comes from, so reported numbers can cite their sources
+    const lineage = step.sqlQuery ? computeLineage(step.sqlQuery) : undefined;
+    const lineageText = lineage && lineage.columns.length > 0
+      ? `\nColumn Lineage (source columns and filters behind each result column):\n${formatLineageForLLM(lineage, '  ')}\n`
+      : '';
     
     // Load semantics for context
     const semantics = await getSemantics();
     const semanticsText = await formatSemanticsForLLM(semantics);
     
-    const prompt = `You are a SQL result interpretation assistant. Analyze the query results and determine if we have enough information to answer the user's question, or if we need more queries.
-
-${semanticsText}
-
-User Question: ${question}
-
-Current Step: ${step.description} (Step ${step.stepNumber} of ${allSteps.length})
-SQL Executed: ${step.sqlQuery || 'N/A'}
-
-Query Results:
-- Columns: ${sqlResult.columns.join(', ')}
-- Rows returned: ${sqlResult.rowCount}${hasMoreRows ? ` (showing first ${limitedRows.length} rows)` : ''}
-- Execution time: ${sqlResult.durationMs}ms
-
-Sample Data (first ${limitedRows.length} rows):
-${JSON.stringify(limitedRows, null, 2)}
-
-Completed Steps: ${completedSteps.join(', ')}
-Remaining Steps: ${allSteps.filter(s => !completedSteps.includes(s.stepNumber)).map(s => s.stepNumber).join(', ')}
-
-CRITICAL RULES:
-1. If the query returned results that directly answer the user's question, return FINAL_ANSWER
-2. LIMIT clauses are safety features - they don't invalidate an answer. If a query returns data that answers the question (even if limited), it's a FINAL_ANSWER
-3. "Show me all X" or "list all X" questions are answered by showing a representative sample (the LIMIT is intentional for safety)
-4. Only return NEEDS_REFINEMENT if:
-   - The query returned NO results and we need to try a different approach
-   - The query returned results but they're clearly wrong/irrelevant to the question
-   - We need additional data from other tables to complete the answer
-5. DO NOT return NEEDS_REFINEMENT just because there's a LIMIT clause - that's expected behavior
-
-ANSWER FORMATTING REQUIREMENTS:
-- For "how many" or "count" questions: Include the ACTUAL NUMBERS from the query results. Show the counts, totals, or aggregated values.
-- For aggregation queries (COUNT, SUM, AVG, etc.): Display the aggregated results with the actual numbers.
-- For "show me" or "list" questions: Include the actual data rows in a readable format (table or list).
-- For questions asking for specific values: Include the actual values from the results.
-- NEVER just say "the query returned results" - ALWAYS include the actual data/numbers.
-- Format numbers clearly (e.g., "29 orders" not "the query found some orders").
-- If results are grouped/aggregated, show the breakdown clearly.
-
-Determine if:
-1. We have enough information to provide a FINAL_ANSWER
-2. We need to continue with more steps (NEEDS_REFINEMENT)
-
-Respond with ONLY a JSON object in this exact format:
-{
-  "status": "FINAL_ANSWER" or "NEEDS_REFINEMENT",
-  "answer": "The answer to the user's question WITH ACTUAL NUMBERS AND DATA from the query results (only if status is FINAL_ANSWER)",
-  "nextStep": "What to do next (only if status is NEEDS_REFINEMENT)",
-  "confidence": "high" or "medium" or "low"
-}`;
+    const prompt = renderPrompt('interpreter', {
+      semantics: semanticsText,
+      question: question,
+      stepDescription: step.description,
+      stepNumber: step.stepNumber,
+      totalSteps: allSteps.length,
+      sql: step.sqlQuery ? maskSQL(step.sqlQuery) : 'N/A',
+      columns: sqlResult.columns.join(', '),
+      rowCount: sqlResult.rowCount,
+      durationMs: sqlResult.durationMs,
+      lineage: lineageText,
+      hasMoreRows: hasMoreRows,
+      sampleSize: limitedRows.length,
+      rows: JSON.stringify(maskedRows, null, 2),
+      completedSteps: completedSteps.join(', '),
+      remainingSteps: allSteps.filter(s => !completedSteps.includes(s.stepNumber)).map(s => s.stepNumber).join(', '),
+    });
 
     try {
       // Wrap the LLM call with retry logic for handling API overload
       const llmResponse = await retryWithBackoff(async () => {
-        return await this.model.generateContent(prompt);
+        return await generateStructured(this.llm, INTERPRETATION_OUTPUT, prompt, config.llm.jsonRepairAttempts);
       });
       
-      const response = llmResponse.response;
-      let text = response.text().trim();
-      
-      // Extract JSON from response
-      if (text.startsWith('```')) {
-        text = text.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
-      }
-      
-      const interpretation = JSON.parse(text);
+      const interpretation = llmResponse.data;
       
       const interpretationResult: Interpretation = {
-        status: interpretation.status === 'FINAL_ANSWER' ? 'FINAL_ANSWER' : 'NEEDS_REFINEMENT',
-        answer: interpretation.answer,
-        nextStep: interpretation.nextStep,
+        status: interpretation.status,
+        answer: interpretation.answer ? unmaskText(interpretation.answer) : interpretation.answer,
+        nextStep: interpretation.nextStep ? unmaskText(interpretation.nextStep) : interpretation.nextStep,
         confidence: interpretation.confidence || 'medium',
       };
       
@@ -115,7 +108,7 @@ Respond with ONLY a JSON object in this exact format:
       // User-friendly error message for API overload
       if (error?.status === 503 || error?.status === 429) {
         throw new Error(
-          `Google Gemini API is currently overloaded. Please try again in a few minutes.\n\n` +
+          `${this.llm.name} API is currently overloaded. Please try again in a few minutes.\n\n` +
           `Suggestions:\n` +
           `  1. Wait 2-3 minutes and retry your question\n` +
           `  2. Switch to GEMINI_MODEL=gemini-2.5-pro in .env (less traffic)\n` +
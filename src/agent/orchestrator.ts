@@ -17,28 +17,112 @@ import {
   DiscoveryResult,
   SemanticSuggestion,
   AgentNeeds,
-  OrchestrationDecision
+  OrchestrationDecision,
+  PolicyViolation,
+  QueryCostAnalysis,
+  SQLValidationResult,
+  TableMetadata,
+  TableSchema,
+  PlanStep,
+  SQLResult,
+  SQLRepairAttempt,
+  LLMProvider,
+  LLMOutputSchema,
+  BudgetUsage,
+  LLMCallRecord
 } from '../types.js';
-import { runSQL, getSchemaWithMetadata, getInspectedDbPool } from '../tools/inspectedDb.js';
-import { validateSQL } from './guard.js';
-import { saveRunLog, detectSemantics, getAllTableMetadata, insertSuggestion, approveSuggestion } from '../tools/controlDb.js';
-import { validateSQLAgainstMetadata, calculateConfidence } from './sqlValidator.js';
+import { runSQL, explainSQL, getSchemaWithMetadata, getInspectedDbPool } from '../tools/inspectedDb.js';
+import { validateSQL, guardOptionsFromConfig } from './guard.js';
+import { saveRunLog, insertLLMCalls, detectSemantics, getSemantics, getAllTableMetadata, insertSuggestion, approveSuggestion, getPiiClassifications, getColumnProfiles, countRepairFixes, hasRepairSuggestion } from '../tools/controlDb.js';
+import { validateSQLAgainstMetadata, calculateConfidence, parseSQL } from './sqlValidator.js';
 import { config } from '../config.js';
 import { SemanticLearner } from './semanticLearner.js';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { filterSchemaByPolicy } from '../services/accessPolicy.js';
+import { filterSchemaByRowFilters } from '../services/rowFilter.js';
+import { setPiiMaskingEnabled, setPiiClassifications, classifyTableColumns } from '../services/piiMasking.js';
+import { analyzeQueryPlan, formatCostFindings, unestimatedCostAnalysis } from '../services/costGate.js';
+import { computeLineage } from '../services/columnLineage.js';
+import { addBudgetUsage, emptyBudgetUsage, findExhaustedBudget, findLowBudget, formatBudgetStop } from '../services/budget.js';
+import {
+  extractPostgresError,
+  isRepairableError,
+  formatPostgresErrorForLLM,
+  selectRepairSchema,
+  fixSignature,
+  buildRepairSuggestion
+} from '../services/sqlRepair.js';
+import { createLLMProvider } from '../llm/provider.js';
+import { getLLMUsageTotals, takeLLMCalls } from '../llm/usage.js';
+import { generateStructured, takeLLMOutputFailures } from '../llm/structured.js';
+import { renderPrompt, setPromptOverridesDir, takePromptVersions } from '../llm/prompts.js';
+import { setLLMCacheContext, takeLLMCacheHits } from '../llm/cache.js';
+import { llmCacheContext } from '../services/llmCache.js';
 import { retryWithBackoff } from '../utils/retry.js';
+import { setTraceEnabled } from '../utils/trace.js';
+
+/**
+ * Sub-states each mode can move to (null terminates the mode)
+ */
+const VALID_SUB_STATES: Record<Mode, SubState[]> = {
+  QUERY: ['PLAN', 'CLARIFICATION', 'EXECUTE', 'INTERPRET', 'ANSWER', null],
+  DISCOVERY: ['GET_DATA', 'ANALYZE', 'VALIDATE', 'SUGGEST', 'APPROVE', 'STORE', null],
+  SEMANTIC_STORING: ['VALIDATE', 'APPROVE', 'STORE', null],
+};
+
+const SUB_STATE_NAMES = Array.from(new Set(Object.values(VALID_SUB_STATES).flat().filter((s): s is Exclude<SubState, null> => s !== null)));
+
+/**
+ * Response of the orchestration decision prompt
+ */
+const DECISION_OUTPUT: LLMOutputSchema<OrchestrationDecision> = {
+  name: 'decision',
+  schema: {
+    type: 'object',
+    properties: {
+      nextMode: { type: 'string', enum: Object.keys(VALID_SUB_STATES) },
+      nextSubState: { type: 'string', enum: SUB_STATE_NAMES, nullable: true },
+      reasoning: { type: 'string' },
+      confidence: { type: 'number' },
+      alternativeOptions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            mode: { type: 'string', enum: Object.keys(VALID_SUB_STATES) },
+            subState: { type: 'string', enum: SUB_STATE_NAMES, nullable: true },
+            reasoning: { type: 'string' },
+            confidence: { type: 'number' },
+          },
+        },
+      },
+    },
+    required: ['nextMode', 'nextSubState', 'reasoning', 'confidence'],
+  },
+  check: decision => VALID_SUB_STATES[decision.nextMode].includes(decision.nextSubState)
+    ? []
+    : [`$.nextSubState ${decision.nextSubState} is not valid for mode ${decision.nextMode} (valid: ${VALID_SUB_STATES[decision.nextMode].join(', ')})`],
+};
 
 export class Orchestrator {
   private planner: Planner;
   private sqlWriter: SQLWriter;
   private interpreter: Interpreter;
   private semanticLearner: SemanticLearner;
+  private llm: LLMProvider;
+  private finishedUsage: BudgetUsage = emptyBudgetUsage(); // Finished questions of this session
+  private llmUsageAtCreation = getLLMUsageTotals(); // LLM totals when the session started
+  private llmUsageAtStart = getLLMUsageTotals(); // LLM totals when the current question started
+  private inspectedTables: TableSchema[] = []; // Every table, for the guard to resolve unqualified names
   
   constructor() {
     this.planner = new Planner();
     this.sqlWriter = new SQLWriter();
     this.interpreter = new Interpreter();
     this.semanticLearner = new SemanticLearner();
+    this.llm = createLLMProvider(config.llm, 'orchestrator');
+    setPiiMaskingEnabled(config.piiMasking);
+    setTraceEnabled(config.trace);
+    setPromptOverridesDir(config.promptOverridesDir);
   }
   
   // ============================================================================
@@ -162,7 +246,7 @@ export class Orchestrator {
   private async callTool(
     toolId: string,
     state: OrchestratorState,
-    requestPermission?: (sql: string, stepNumber: number, totalSteps: number, hasSemantics: boolean, confidence: 'high' | 'medium' | 'low', validationResult?: import('../types.js').SQLValidationResult) => Promise<boolean>,
+    requestPermission?: (sql: string, stepNumber: number, totalSteps: number, hasSemantics: boolean, confidence: 'high' | 'medium' | 'low', validationResult?: import('../types.js').SQLValidationResult, guardRejection?: string) => Promise<boolean>,
     askQuestion?: (prompt: string) => Promise<string>
   ): Promise<ToolResult> {
     const [mode, subState] = toolId.split(':') as [Mode, SubState];
@@ -172,10 +256,34 @@ export class Orchestrator {
       const pool = getInspectedDbPool();
       const client = await pool.connect();
       try {
-        state.context.schema = await getSchemaWithMetadata(client);
+        // Restricted tables/columns and views over row-filtered tables are removed so no agent ever sees them
+        this.inspectedTables = await getSchemaWithMetadata(client);
+        state.context.schema = filterSchemaByRowFilters(
+          filterSchemaByPolicy(this.inspectedTables, config.accessPolicy, config.searchPath),
+          config.rowFilters,
+          config.searchPath,
+          this.inspectedTables
+        );
       } finally {
         client.release();
       }
+      
+      // PII columns: cached classifications (incl. value-based) plus name/type rules on the current schema
+      const schema = state.context.schema;
+      const cached = await getPiiClassifications().catch(() => []); // Cache is optional
+      setPiiClassifications([
+        ...cached,
+        ...schema.flatMap(table => classifyTableColumns(table, table.schemaName || config.searchPath[0])),
+      ]);
+      
+      // Cached LLM responses are only reused with the schema and semantics they were generated with
+      if (config.llm.cache) {
+        await setLLMCacheContext(llmCacheContext(
+          schema,
+          await getSemantics().catch(() => []),
+          await getColumnProfiles().catch(() => []) // Profiles are optional
+        ));
+      }
     }
     
     if (mode === 'QUERY') {
@@ -195,7 +303,7 @@ export class Orchestrator {
   private async callQueryTool(
     subState: QuerySubState,
     state: OrchestratorState,
-    requestPermission?: (sql: string, stepNumber: number, totalSteps: number, hasSemantics: boolean, confidence: 'high' | 'medium' | 'low', validationResult?: import('../types.js').SQLValidationResult) => Promise<boolean>,
+    requestPermission?: (sql: string, stepNumber: number, totalSteps: number, hasSemantics: boolean, confidence: 'high' | 'medium' | 'low', validationResult?: import('../types.js').SQLValidationResult, guardRejection?: string) => Promise<boolean>,
     _askQuestion?: (prompt: string) => Promise<string>
   ): Promise<ToolResult> {
     // _askQuestion is not used in QUERY mode - "all" request handling is done in execute() method
@@ -284,8 +392,23 @@ export class Orchestrator {
         );
         
         // Validate SQL
-        const safetyValidation = validateSQL(sql);
+        const safetyValidation = validateSQL(sql, guardOptionsFromConfig(config, this.inspectedTables));
         if (!safetyValidation.valid) {
+          // Let the debug-mode prompt show the blocked query and why (it can never approve execution)
+          if (requestPermission) {
+            await requestPermission(
+              sql,
+              step.stepNumber,
+              plan.steps.length,
+              (state.context.detectedSemanticIds?.length || 0) > 0,
+              'low',
+              undefined,
+              safetyValidation.reason
+            );
+          }
+          if (safetyValidation.policyViolations) {
+            await this.recordPolicyViolations(state, question, sql, safetyValidation.policyViolations);
+          }
           throw new Error(`SQL validation failed: ${safetyValidation.reason}`);
         }
         
@@ -293,14 +416,16 @@ export class Orchestrator {
         step.sqlQuery = sanitizedSQL;
         
         // Metadata validation
-        let metadataValidation;
+        let metadataValidation: SQLValidationResult | undefined;
+        let metadata: TableMetadata[] = [];
         let confidence: 'high' | 'medium' | 'low' = 'medium';
         const hasSemantics = (state.context.detectedSemanticIds?.length || 0) > 0;
         
         try {
-          const metadata = await getAllTableMetadata();
+          metadata = await getAllTableMetadata();
           if (metadata.length > 0) {
-            metadataValidation = await validateSQLAgainstMetadata(sanitizedSQL, schema, metadata);
+            const semantics = await getSemantics().catch(() => []); // Join rules
+            metadataValidation = await validateSQLAgainstMetadata(sanitizedSQL, schema, metadata, config.searchPath, semantics);
             if (!metadataValidation.valid) {
               throw new Error(`SQL metadata validation failed: ${metadataValidation.issues.join(', ')}`);
             }
@@ -314,6 +439,38 @@ export class Orchestrator {
           console.warn(`   ⚠️  Metadata validation warning: ${error.message}`);
         }
         
+        // Cost gate: the planner's estimate replaces the row-count heuristic for performance risk
+        const costAnalysis = config.costGate.enabled ? await this.checkQueryCost(sanitizedSQL, metadata) : undefined;
+        if (costAnalysis) {
+          metadataValidation = {
+            ...(metadataValidation ?? this.planOnlyValidation()),
+            performanceRisk: costAnalysis.risk,
+            costAnalysis,
+          };
+          if (step.validationResult) {
+            confidence = calculateConfidence(metadataValidation, hasSemantics);
+          }
+          step.validationResult = metadataValidation;
+          
+          if (costAnalysis.decision === 'block') {
+            if (requestPermission) {
+              await requestPermission(
+                sanitizedSQL,
+                step.stepNumber,
+                plan.steps.length,
+                hasSemantics,
+                confidence,
+                metadataValidation,
+                formatCostFindings(costAnalysis)
+              );
+            }
+            throw new Error(formatCostFindings(costAnalysis));
+          }
+          if (costAnalysis.decision === 'confirm' && !requestPermission) {
+            throw new Error(`${formatCostFindings(costAnalysis)} (no interactive session to confirm it)`);
+          }
+        }
+        
         console.log(`   📄 SQL: ${sanitizedSQL}`);
         
         if (metadataValidation) {
@@ -328,6 +485,9 @@ export class Orchestrator {
           }
           console.log(`   📊 Confidence: ${(metadataValidation.confidence * 100).toFixed(0)}% (${confidence}) | Performance Risk: ${metadataValidation.performanceRisk}`);
         }
+        if (costAnalysis && !costAnalysis.explainError) {
+          console.log(`   💸 Estimated cost: ${costAnalysis.totalCost.toFixed(0)} | Estimated rows: ${costAnalysis.estimatedRows}${costAnalysis.decision === 'confirm' ? ' | ⚠️  Needs confirmation' : ''}`);
+        }
         
         // Request permission if callback provided
         if (requestPermission) {
@@ -349,11 +509,31 @@ export class Orchestrator {
           }
         }
         
-        // Execute SQL
+        // Execute SQL, repairing it if PostgreSQL rejects it
         console.log('   Executing query...');
+        let executedSQL = sanitizedSQL;
+        let result: SQLResult;
+        let duration: number;
+        let repairAttempts: SQLRepairAttempt[] = [];
         const startTime = Date.now();
-        const result = await runSQL(sanitizedSQL);
-        const duration = Date.now() - startTime;
+        try {
+          result = await runSQL(sanitizedSQL);
+          duration = Date.now() - startTime;
+        } catch (error) {
+          const repair = await this.repairAndRun(error, sanitizedSQL, step, plan.steps.length, question, schema, state, requestPermission);
+          if (!repair.result) {
+            return {
+              type: 'sqlWriter',
+              success: false,
+              data: { sql: repair.sql, step },
+            };
+          }
+          executedSQL = repair.sql;
+          result = repair.result;
+          duration = repair.durationMs;
+          repairAttempts = repair.attempts;
+          step.sqlQuery = executedSQL;
+        }
         
         console.log(`   ✓ Query executed: ${result.rowCount} rows in ${duration}ms`);
         
@@ -361,16 +541,17 @@ export class Orchestrator {
           type: 'sqlExecution',
           success: true,
           data: {
-            sql: sanitizedSQL,
+            sql: executedSQL,
             result,
             step,
           },
           contextUpdates: {
-            sqlQueries: [...(state.context.sqlQueries || []), sanitizedSQL],
+            sqlQueries: [...(state.context.sqlQueries || []), executedSQL],
             rowsReturned: [...(state.context.rowsReturned || []), result.rowCount],
             durationsMs: [...(state.context.durationsMs || []), duration],
             previousResults: [...state.context.previousResults, { step: step.stepNumber, result }],
             executedSteps: [...state.context.executedSteps, step],
+            repairAttempts: [...(state.context.repairAttempts || []), ...repairAttempts],
           },
           nextState: { mode: 'QUERY', subState: 'INTERPRET' },
         };
@@ -394,7 +575,8 @@ export class Orchestrator {
           lastResult.result,
           plan.steps,
           state.context.executedSteps.map(s => s.stepNumber),
-          state
+          state,
+          state.context.budgetLow ? config.budget.degradedResultRows : undefined
         );
         
         console.log(`   Interpretation: ${interpretation.status} (confidence: ${interpretation.confidence})`);
@@ -473,8 +655,8 @@ export class Orchestrator {
     const schema = state.context.schema!;
     const question = state.context.question || '';
     
-    // Extract exploration target from question (e.g., "/explore orders" or "/explore orders status")
-    const exploreMatch = question.match(/\/explore\s+(\w+)(?:\s+(\w+))?/i);
+    // Extract exploration target from question (e.g., "/explore orders", "/explore sales.orders status")
+    const exploreMatch = question.match(/\/explore\s+([\w.]+)(?:\s+(\w+))?/i);
     const tableName = exploreMatch?.[1] || '';
     const columnName = exploreMatch?.[2];
     
@@ -568,6 +750,18 @@ export class Orchestrator {
         console.log('\n✅ Validating pattern...');
         console.log(`   📄 Validation SQL: ${lastDiscovery.validationQuery}`);
         
+        // Validation is optional - skip it rather than run an expensive LLM-written query
+        const costAnalysis = config.costGate.enabled ? await this.checkQueryCost(lastDiscovery.validationQuery) : undefined;
+        if (costAnalysis && costAnalysis.decision !== 'allow') {
+          console.log(`   ⚠️  ${formatCostFindings(costAnalysis)} - skipping validation`);
+          return {
+            type: 'semanticLearner',
+            success: true,
+            data: { discovery: lastDiscovery },
+            nextState: { mode: 'DISCOVERY', subState: 'SUGGEST' },
+          };
+        }
+        
         const startTime = Date.now();
         const validationResult = await runSQL(lastDiscovery.validationQuery);
         const duration = Date.now() - startTime;
@@ -856,32 +1050,333 @@ export class Orchestrator {
    * Check if guards pass
    */
   private passesGuards(state: OrchestratorState, _result: ToolResult): boolean {
-    // Guard checks: iteration limits, time limits, loop detection, resource limits
-    const iterationCount = state.context.iterationCount || 0;
-    const maxIterations = 50; // Safety limit
+    // Guard checks: question and session budgets (iterations, time, queries, LLM tokens/cost/calls)
+    const usage = this.questionUsage(state);
+    const stop = findExhaustedBudget(usage, this.sessionUsage(usage), config.budget);
     
-    if (iterationCount >= maxIterations) {
-      console.log('⚠️  Max iterations reached');
+    if (stop) {
+      if (!state.context.budgetStop) {
+        console.log(`⚠️  Budget exhausted: ${formatBudgetStop(stop)}`);
+      }
+      state.context.budgetStop = stop;
       return false;
     }
     
-    const startTime = state.context.startTime || Date.now();
-    const maxDurationMs = 60000; // 60 seconds
-    
-    if (Date.now() - startTime > maxDurationMs) {
-      console.log('⚠️  Time limit reached');
-      return false;
+    return true;
+  }
+  
+  /**
+   * What the current question has used so far
+   */
+  private questionUsage(state: OrchestratorState): BudgetUsage {
+    const llmUsage = getLLMUsageTotals();
+    return {
+      tokens: llmUsage.tokens - this.llmUsageAtStart.tokens,
+      costUsd: llmUsage.costUsd - this.llmUsageAtStart.costUsd,
+      llmCalls: llmUsage.llmCalls - this.llmUsageAtStart.llmCalls,
+      wallTimeMs: Date.now() - (state.context.startTime || Date.now()),
+      dbTimeMs: state.context.durationsMs?.reduce((a, b) => a + b, 0) || 0,
+      iterations: state.context.iterationCount || 0,
+      queries: state.context.sqlQueries?.length || 0,
+    };
+  }
+  
+  /**
+   * What the session has used so far, given the current question's usage.
+   * LLM usage counts every call since the session started - including the
+   * learner and correction analysis between questions - not just per-question
+   * deltas.
+   */
+  private sessionUsage(usage: BudgetUsage): BudgetUsage {
+    const llmUsage = getLLMUsageTotals();
+    return {
+      ...addBudgetUsage(this.finishedUsage, usage),
+      tokens: llmUsage.tokens - this.llmUsageAtCreation.tokens,
+      costUsd: llmUsage.costUsd - this.llmUsageAtCreation.costUsd,
+      llmCalls: llmUsage.llmCalls - this.llmUsageAtCreation.llmCalls,
+    };
+  }
+  
+  /**
+   * Start counting a new question against the budgets
+   */
+  private startBudget(): void {
+    this.llmUsageAtStart = getLLMUsageTotals();
+  }
+  
+  /**
+   * Add the finished question to the session budgets
+   */
+  private finishBudget(state: OrchestratorState): void {
+    this.finishedUsage = addBudgetUsage(this.finishedUsage, this.questionUsage(state));
+  }
+  
+  /**
+   * Once a budget runs low, follow the tool's suggested next state instead of
+   * asking the LLM, and answer instead of refining or running further steps.
+   * Returns null while budgets are fine (or the tool suggests nothing).
+   */
+  private budgetDecision(state: OrchestratorState, toolResult: ToolResult): OrchestrationDecision | null {
+    if (!toolResult.nextState) {
+      return null;
     }
     
-    const queriesExecuted = state.context.sqlQueries?.length || 0;
-    const maxQueries = 20;
+    if (!state.context.budgetLow) {
+      const usage = this.questionUsage(state);
+      const low = findLowBudget(usage, this.sessionUsage(usage), config.budget);
+      if (!low) {
+        return null;
+      }
+      console.log(`⚠️  Budget running low (${formatBudgetStop(low)}) - answering with the results so far`);
+      state.context.budgetLow = low;
+    }
     
-    if (queriesExecuted >= maxQueries) {
-      console.log('⚠️  Max queries reached');
-      return false;
+    const { mode, subState } = toolResult.nextState;
+    const answerNow = toolResult.type === 'interpreter' && mode === 'QUERY' && subState !== 'ANSWER';
+    return {
+      nextMode: mode,
+      nextSubState: answerNow ? 'ANSWER' : subState,
+      reasoning: 'Budget running low - following the tool result without an LLM decision',
+      confidence: 1.0,
+    };
+  }
+  
+  /**
+   * Run the EXPLAIN-based cost gate for a query.
+   * Fails closed: when the plan cannot be obtained (timeout, connection, ...)
+   * the query needs confirmation. Returns undefined only when PostgreSQL rejects
+   * the query itself - it fails the same way before running, and execution
+   * reports the error to the repair loop.
+   */
+  private async checkQueryCost(sql: string, metadata?: TableMetadata[]): Promise<QueryCostAnalysis | undefined> {
+    try {
+      const plan = await explainSQL(sql);
+      return analyzeQueryPlan(plan, config.costGate, metadata ?? await getAllTableMetadata());
+    } catch (error: any) {
+      const details = extractPostgresError(error, sql);
+      if (details && isRepairableError(details) && details.code !== '57014') {
+        return undefined;
+      }
+      console.warn(`   ⚠️  Cost gate could not estimate the query: ${error.message}`);
+      return unestimatedCostAnalysis(error.message);
+    }
+  }
+  
+  /**
+   * Validation result for a query checked only by its plan (no table metadata available)
+   */
+  private planOnlyValidation(): SQLValidationResult {
+    return {
+      valid: true,
+      issues: [],
+      confidence: 0.7,
+      facts: [],
+      assumptions: [],
+      unknowns: ['Table metadata not available - only the query plan was checked'],
+      performanceRisk: 'low',
+      tablesValidated: false,
+      columnsValidated: false,
+      joinsValidated: false,
+    };
+  }
+  
+  /**
+   * SQL self-repair loop: feed PostgreSQL's error (code, message, hint, position)
+   * and the schema of the tables involved back to the SQL writer, and run the fix.
+   * Every fix passes the guard, the cost gate and the permission prompt again.
+   * Up to config.sqlRepair.maxAttempts fixes are tried; errors that cannot be
+   * fixed by rewriting the query are rethrown unchanged.
+   * 
+   * @returns The executed SQL and its result, or no result if the user declined the fix
+   */
+  private async repairAndRun(
+    error: any,
+    failedSql: string,
+    step: PlanStep,
+    totalSteps: number,
+    question: string,
+    schema: TableSchema[],
+    state: OrchestratorState,
+    requestPermission?: (sql: string, stepNumber: number, totalSteps: number, hasSemantics: boolean, confidence: 'high' | 'medium' | 'low', validationResult?: SQLValidationResult, guardRejection?: string) => Promise<boolean>
+  ): Promise<{ sql: string; result?: SQLResult; durationMs: number; attempts: SQLRepairAttempt[] }> {
+    const maxAttempts = config.sqlRepair.maxAttempts;
+    const hasSemantics = (state.context.detectedSemanticIds?.length || 0) > 0;
+    const attempts: SQLRepairAttempt[] = [];
+    let currentSql = failedSql;
+    let currentError = error;
+    
+    while (attempts.length < maxAttempts) {
+      const details = extractPostgresError(currentError, currentSql);
+      if (!details || !isRepairableError(details)) {
+        break;
+      }
+      
+      const attempt: SQLRepairAttempt = {
+        stepNumber: step.stepNumber,
+        attempt: attempts.length + 1,
+        failedSql: currentSql,
+        error: details,
+        succeeded: false,
+      };
+      attempts.push(attempt);
+      console.log(`   🔧 PostgreSQL error ${details.code}: ${details.message}`);
+      console.log(`   Repairing SQL (attempt ${attempt.attempt}/${maxAttempts})...`);
+      
+      const repaired = await this.sqlWriter.repairSQL(
+        step,
+        question,
+        currentSql,
+        formatPostgresErrorForLLM(details),
+        selectRepairSchema(schema, parseSQL(currentSql).tableRefs, details, config.searchPath),
+        attempts.slice(0, -1).map(a => ({ sql: a.failedSql, error: formatPostgresErrorForLLM(a.error) }))
+      );
+      
+      const safetyValidation = validateSQL(repaired, guardOptionsFromConfig(config, this.inspectedTables));
+      if (!safetyValidation.valid) {
+        console.log(`   ⛔ Repaired SQL rejected: ${safetyValidation.reason}`);
+        break;
+      }
+      const repairedSql = safetyValidation.sanitizedSQL || repaired;
+      attempt.repairedSql = repairedSql;
+      attempt.fixSignature = fixSignature(details.code, currentSql, repairedSql) ?? undefined;
+      if (!attempt.fixSignature) {
+        console.log('   ⚠️  Repair returned the same query');
+        break;
+      }
+      
+      const costAnalysis = config.costGate.enabled ? await this.checkQueryCost(repairedSql) : undefined;
+      if (costAnalysis && costAnalysis.decision !== 'allow' && (costAnalysis.decision === 'block' || !requestPermission)) {
+        console.log(`   ⛔ ${formatCostFindings(costAnalysis)}`);
+        break;
+      }
+      
+      console.log(`   📄 Repaired SQL: ${repairedSql}`);
+      
+      if (requestPermission) {
+        const validationResult = costAnalysis
+          ? { ...this.planOnlyValidation(), performanceRisk: costAnalysis.risk, costAnalysis }
+          : undefined;
+        const approved = await requestPermission(repairedSql, step.stepNumber, totalSteps, hasSemantics, 'medium', validationResult);
+        if (!approved) {
+          return { sql: repairedSql, durationMs: 0, attempts };
+        }
+      }
+      
+      try {
+        const startTime = Date.now();
+        const result = await runSQL(repairedSql);
+        attempt.succeeded = true;
+        console.log(`   ✓ Repaired SQL succeeded`);
+        return { sql: repairedSql, result, durationMs: Date.now() - startTime, attempts };
+      } catch (retryError) {
+        currentSql = repairedSql;
+        currentError = retryError;
+      }
     }
     
-    return true;
+    if (attempts.length === 0) {
+      throw currentError;
+    }
+    await this.recordRepairAttempts(state, question, attempts);
+    throw new Error(`Query failed after ${attempts.length} repair attempt(s): ${currentError?.message ?? String(currentError)}`);
+  }
+  
+  /**
+   * Record the attempts of a repair loop that gave up on the run log.
+   * The run ends with the query error, so this is the run's only log entry.
+   */
+  private async recordRepairAttempts(
+    state: OrchestratorState,
+    question: string,
+    attempts: SQLRepairAttempt[]
+  ): Promise<void> {
+    try {
+      await saveRunLog({
+        question,
+        sql: state.context.sqlQueries || [],
+        rowsReturned: state.context.rowsReturned || [],
+        durationsMs: state.context.durationsMs || [],
+        detectedSemantics: state.context.detectedSemanticIds || [],
+        repairAttempts: [...(state.context.repairAttempts || []), ...attempts],
+        lineage: (state.context.sqlQueries || []).map(computeLineage),
+        budgetStop: state.context.budgetStop,
+        promptVersions: takePromptVersions(),
+      });
+    } catch (error) {
+      // Silently ignore - control DB is optional
+    }
+  }
+  
+  /**
+   * Turn fixes the repair loop keeps making into semantic suggestions.
+   * Called after the run log is saved, so the current run is counted.
+   */
+  private async suggestRepeatedRepairs(
+    question: string,
+    attempts: SQLRepairAttempt[],
+    runLogId?: string
+  ): Promise<void> {
+    for (const attempt of attempts) {
+      if (!attempt.succeeded || !attempt.fixSignature) {
+        continue;
+      }
+      try {
+        const occurrences = await countRepairFixes(attempt.fixSignature);
+        if (occurrences < config.sqlRepair.suggestAfter || await hasRepairSuggestion(attempt.fixSignature)) {
+          continue;
+        }
+        const suggestion = buildRepairSuggestion(attempt, occurrences, question, runLogId);
+        if (suggestion) {
+          const saved = await insertSuggestion(suggestion);
+          if (saved) {
+            console.log(`\n💡 Repeated SQL fix saved as suggestion: "${saved.suggested_name}" (seen ${occurrences} times)`);
+          }
+        }
+      } catch (error) {
+        // Silently ignore - control DB is optional
+      }
+    }
+  }
+  
+  /**
+   * Record access policy violations on the run log.
+   * The run ends with the validation error, so this is the run's only log entry.
+   */
+  private async recordPolicyViolations(
+    state: OrchestratorState,
+    question: string,
+    blockedSql: string,
+    violations: PolicyViolation[]
+  ): Promise<void> {
+    console.log(`   ⛔ Blocked by access policy: ${violations.map(v => v.reason).join('; ')}`);
+    try {
+      await saveRunLog({
+        question,
+        sql: state.context.sqlQueries || [],
+        rowsReturned: state.context.rowsReturned || [],
+        durationsMs: state.context.durationsMs || [],
+        detectedSemantics: state.context.detectedSemanticIds || [],
+        policyViolations: violations.map(v => ({ ...v, sql: blockedSql })),
+        lineage: (state.context.sqlQueries || []).map(computeLineage),
+        budgetStop: state.context.budgetStop,
+        promptVersions: takePromptVersions(),
+      });
+    } catch (error) {
+      // Silently ignore - control DB is optional
+    }
+  }
+  
+  /**
+   * Save the LLM calls made since the last save (cost accounting), linked to a run
+   */
+  private async saveLLMCalls(runLogId?: string, question?: string): Promise<LLMCallRecord[]> {
+    const calls = takeLLMCalls();
+    try {
+      await insertLLMCalls(calls, runLogId, question, config.userName);
+    } catch (error) {
+      // Silently ignore - control DB is optional
+    }
+    return calls;
   }
   
   // ============================================================================
@@ -919,55 +1414,19 @@ export class Orchestrator {
   ): string {
     const agentNeedsText = this.formatAgentNeeds(agentNeeds);
     
-    return `You are an intelligent orchestrator for a SQL query assistant system.
-
-CURRENT STATE:
-- Active Mode: ${currentMode || 'null'}
-- Current Sub-State: ${currentSubState || 'null'}
-- Query State: ${state.queryState || 'null'}
-- Discovery State: ${state.discoveryState || 'null'}
-- Semantic Storing State: ${state.semanticStoringState || 'null'}
-
-AGENT NEEDS:
-${agentNeedsText}
-
-CONTEXT:
-- Question: ${state.context.question || 'N/A'}
-- Plan Goal: ${state.context.plan?.overallGoal || 'N/A'}
-- Executed Steps: ${state.context.executedSteps.length}
-- Iteration: ${state.context.iterationCount || 0}
-- Queries Executed: ${state.context.sqlQueries?.length || 0}
-
-DECISION GUIDELINES:
-1. If Planner needs discovery, consider switching to DISCOVERY mode
-2. If SQLWriter is blocked, identify what unblocks it
-3. If Interpreter needs refinement, decide whether to re-plan or continue
-4. Prioritize answering user question efficiently
-5. Respect mode priorities: QUERY > DISCOVERY > SEMANTIC_STORING
-6. Only transition to null sub-state when mode is truly complete
-7. If current mode is QUERY and sub-state is CLARIFICATION, stay in CLARIFICATION (requires user input)
-8. If current mode is QUERY and sub-state is ANSWER, transition to null (query complete)
-
-VALID MODE/SUB-STATE COMBINATIONS:
-- QUERY: PLAN, CLARIFICATION, EXECUTE, INTERPRET, ANSWER, null
-- DISCOVERY: GET_DATA, ANALYZE, VALIDATE, SUGGEST, APPROVE, STORE, null
-- SEMANTIC_STORING: VALIDATE, APPROVE, STORE, null
-
-Respond with ONLY a JSON object in this exact format:
-{
-  "nextMode": "QUERY" | "DISCOVERY" | "SEMANTIC_STORING",
-  "nextSubState": "..." | null,
-  "reasoning": "Why this decision",
-  "confidence": 0.0-1.0,
-  "alternativeOptions": [
-    {
-      "mode": "...",
-      "subState": "..." | null,
-      "reasoning": "...",
-      "confidence": 0.0-1.0
-    }
-  ]
-}`;
+    return renderPrompt('orchestratorDecision', {
+      mode: currentMode || 'null',
+      subState: currentSubState || 'null',
+      queryState: state.queryState || 'null',
+      discoveryState: state.discoveryState || 'null',
+      semanticStoringState: state.semanticStoringState || 'null',
+      agentNeeds: agentNeedsText,
+      question: state.context.question || 'N/A',
+      planGoal: state.context.plan?.overallGoal || 'N/A',
+      executedSteps: state.context.executedSteps.length,
+      iteration: state.context.iterationCount || 0,
+      queriesExecuted: state.context.sqlQueries?.length || 0,
+    });
   }
   
   /**
@@ -1031,23 +1490,14 @@ Respond with ONLY a JSON object in this exact format:
    * Get valid sub-states for a given mode
    */
   private getValidSubStates(mode: Mode): SubState[] {
-    switch (mode) {
-      case 'QUERY':
-        return ['PLAN', 'CLARIFICATION', 'EXECUTE', 'INTERPRET', 'ANSWER', null];
-      case 'DISCOVERY':
-        return ['GET_DATA', 'ANALYZE', 'VALIDATE', 'SUGGEST', 'APPROVE', 'STORE', null];
-      case 'SEMANTIC_STORING':
-        return ['VALIDATE', 'APPROVE', 'STORE', null];
-      default:
-        return [];
-    }
+    return VALID_SUB_STATES[mode] || [];
   }
   
   /**
    * Validate LLM decision output
    */
   private validateDecision(
-    decision: any,
+    decision: OrchestrationDecision,
     state: OrchestratorState
   ): OrchestrationDecision {
     // Validate mode is valid
@@ -1084,27 +1534,12 @@ Respond with ONLY a JSON object in this exact format:
    * Generate decision using LLM
    */
   private async llmGenerateDecision(prompt: string): Promise<OrchestrationDecision> {
-    const genAI = new GoogleGenerativeAI(config.geminiApiKey);
-    const model = genAI.getGenerativeModel({ model: config.geminiModel });
-    
     const result = await retryWithBackoff(
-      async () => {
-        const response = await model.generateContent(prompt);
-        const text = response.response.text();
-        
-        // Extract JSON from response (may have markdown code blocks)
-        let jsonText = text.trim();
-        if (jsonText.startsWith('```')) {
-          // Remove markdown code block markers
-          jsonText = jsonText.replace(/^```(?:json)?\n?/i, '').replace(/\n?```$/i, '');
-        }
-        
-        return JSON.parse(jsonText);
-      },
+      () => generateStructured(this.llm, DECISION_OUTPUT, prompt, config.llm.jsonRepairAttempts),
       config.retry
     );
     
-    return result as OrchestrationDecision;
+    return result.data;
   }
   
   /**
@@ -1121,6 +1556,7 @@ Respond with ONLY a JSON object in this exact format:
     }
     
     console.log(`\n🔍 Discovery Mode: ${question}\n`);
+    this.startBudget();
     
     // Initialize state machine for DISCOVERY mode
     const initialState = this.initializeState('DISCOVERY', question, {
@@ -1197,8 +1633,8 @@ Respond with ONLY a JSON object in this exact format:
         });
       }
       
-      // LLM decides next action based on agent needs
-      const decision = await this.selectNextAction(state);
+      // LLM decides next action based on agent needs (unless a budget runs low)
+      const decision = this.budgetDecision(state, toolResult) || await this.selectNextAction(state);
       
       // Apply decision
       const previousState = { ...state };
@@ -1224,6 +1660,8 @@ Respond with ONLY a JSON object in this exact format:
       }
     }
     
+    this.finishBudget(state);
+    
     // Extract discoveries and suggestions
     const discoveries = state.context.discoveries;
     const suggestions: SemanticSuggestion[] = discoveries
@@ -1239,6 +1677,7 @@ Respond with ONLY a JSON object in this exact format:
         queries: state.context.sqlQueries?.length || 0,
         totalRows: state.context.rowsReturned?.reduce((a, b) => a + b, 0) || 0,
         totalDuration: state.context.durationsMs?.reduce((a, b) => a + b, 0) || 0,
+        budgetStop: state.context.budgetStop,
       },
     };
   }
@@ -1264,7 +1703,8 @@ Respond with ONLY a JSON object in this exact format:
    * 
    * @param question - The natural language question to answer
    * @param conversationHistory - Optional array of previous conversation turns for context
-   * @param requestPermission - Optional callback for debug mode (returns true to execute, false to cancel)
+   * @param requestPermission - Optional callback for debug mode (returns true to execute, false to cancel).
+   *   When guardRejection is set the query was blocked by the guard and is only shown, never executed.
    * @param askQuestion - Optional callback for interactive prompts
    * @returns Object containing answer, execution logs, and cancelled flag
    * 
@@ -1284,7 +1724,8 @@ Respond with ONLY a JSON object in this exact format:
       totalSteps: number,
       hasSemantics: boolean,
       confidence: 'high' | 'medium' | 'low',
-      validationResult?: import('../types.js').SQLValidationResult
+      validationResult?: import('../types.js').SQLValidationResult,
+      guardRejection?: string
     ) => Promise<boolean>,
     askQuestion?: (prompt: string) => Promise<string>
   ): Promise<{ answer: string; logs: any; cancelled?: boolean; runLogId?: string; sqlQueries?: string[] }> {
@@ -1295,6 +1736,13 @@ Respond with ONLY a JSON object in this exact format:
     
     console.log(`\n🤔 Question: ${question}\n`);
     
+    // Calls made since the last question (discovery, correction analysis) belong to no run
+    await this.saveLLMCalls();
+    takeLLMOutputFailures();
+    takeLLMCacheHits();
+    takePromptVersions();
+    this.startBudget();
+    
     // Detect relevant semantics
     const detectedSemanticIds = await detectSemantics(question);
     const hasSemantics = detectedSemanticIds.length > 0;
@@ -1497,8 +1945,8 @@ Respond with ONLY a JSON object in this exact format:
         }
       }
       
-      // LLM decides next action based on agent needs
-      const decision = await this.selectNextAction(state);
+      // LLM decides next action based on agent needs (unless a budget runs low)
+      const decision = this.budgetDecision(state, toolResult) || await this.selectNextAction(state);
       
       // Apply decision
       const previousState = { ...state };
@@ -1520,7 +1968,10 @@ Respond with ONLY a JSON object in this exact format:
       
       // Handle ANSWER state (terminal)
       if (state.queryState === 'ANSWER') {
-        const lastInterpretation = state.context.previousResults.length > 0 
+        // With a budget running low, the interpretation just made is the answer
+        const lastInterpretation = state.context.budgetLow && toolResult.type === 'interpreter'
+          ? toolResult.data.interpretation
+          : state.context.previousResults.length > 0
           ? await this.interpreter.interpret(
               state.context.question || '',
               state.context.executedSteps[state.context.executedSteps.length - 1],
@@ -1562,20 +2013,28 @@ Respond with ONLY a JSON object in this exact format:
     // Save run log
     let runLogId: string | undefined;
     try {
-      const runLog = await saveRunLog(
-        state.context.question || question,
-        state.context.sqlQueries || [],
-        state.context.rowsReturned || [],
-        state.context.durationsMs || [],
-        state.context.detectedSemanticIds || []
-      );
+      const runLog = await saveRunLog({
+        question: state.context.question || question,
+        sql: state.context.sqlQueries || [],
+        rowsReturned: state.context.rowsReturned || [],
+        durationsMs: state.context.durationsMs || [],
+        detectedSemantics: state.context.detectedSemanticIds || [],
+        repairAttempts: state.context.repairAttempts || [],
+        lineage: (state.context.sqlQueries || []).map(computeLineage),
+        budgetStop: state.context.budgetStop,
+        promptVersions: takePromptVersions(),
+      });
       if (runLog) {
         runLogId = runLog.id;
+        await this.suggestRepeatedRepairs(state.context.question || question, state.context.repairAttempts || [], runLogId);
       }
     } catch (error) {
       // Silently ignore - control DB is optional
     }
     
+    const llmCalls = await this.saveLLMCalls(runLogId, state.context.question || question);
+    this.finishBudget(state);
+    
     return {
       answer: finalAnswer,
       logs: {
@@ -1583,6 +2042,11 @@ Respond with ONLY a JSON object in this exact format:
         queries: state.context.sqlQueries?.length || 0,
         totalRows: state.context.rowsReturned?.reduce((a, b) => a + b, 0) || 0,
         totalDuration: state.context.durationsMs?.reduce((a, b) => a + b, 0) || 0,
+        llmCalls: llmCalls.length,
+        llmCostUsd: llmCalls.reduce((sum, call) => sum + (call.costUsd ?? 0), 0),
+        budgetStop: state.context.budgetStop,
+        outputFailures: takeLLMOutputFailures(),
+        cacheHits: takeLLMCacheHits(),
         runLogId,
       },
       cancelled,
@@ -1,20 +1,95 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { CorrectionCapture, SemanticSuggestion, TableSchema, SQLResult, Discovery } from '../types.js';
+import {
+  CorrectionCapture,
+  SemanticSuggestion,
+  TableSchema,
+  SQLResult,
+  Discovery,
+  LLMProvider,
+  LLMOutputSchema,
+  JSONSchema,
+  LearnedSemanticResponse,
+  PatternDiscoveryResponse
+} from '../types.js';
 import { config } from '../config.js';
+import { createLLMProvider } from '../llm/provider.js';
+import { renderPrompt } from '../llm/prompts.js';
+import { generateStructured } from '../llm/structured.js';
 import { formatSchemaForLLM } from '../tools/inspectedDb.js';
 import { retryWithBackoff } from '../utils/retry.js';
+import { maskResultForLLM, maskSQL, unmaskSQL } from '../services/piiMasking.js';
+import { resolveTableName } from '../services/schemaResolution.js';
+
+const STRING_LIST: JSONSchema = { type: 'array', items: { type: 'string' } };
+
+const SEMANTIC_PROPERTIES: Record<string, JSONSchema> = {
+  suggested_name: { type: 'string' },
+  suggested_type: { type: 'string', enum: ['TIME_PERIOD', 'METRIC', 'DIMENSION', 'BUSINESS_RULE', 'FIELD_DEFINITION', 'ANTI_PATTERN'] },
+  category: { type: 'string' },
+  description: { type: 'string' },
+  sql_fragment: { type: 'string' },
+  primary_table: { type: 'string' },
+  primary_column: { type: 'string' },
+  synonyms: STRING_LIST,
+  example_questions: STRING_LIST,
+};
+
+/**
+ * Response of the correction and SQL edit analysis prompts
+ */
+const SUGGESTION_OUTPUT: LLMOutputSchema<LearnedSemanticResponse> = {
+  name: 'semantic suggestion',
+  schema: {
+    type: 'object',
+    properties: {
+      ...SEMANTIC_PROPERTIES,
+      aggregation: { type: 'string', nullable: true },
+      anti_patterns: {
+        type: 'object',
+        properties: { wrong: { type: 'string' }, why: { type: 'string' }, correct: { type: 'string' } },
+      },
+      notes: STRING_LIST,
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      reasoning: { type: 'string' },
+    },
+    required: ['suggested_name', 'suggested_type', 'description'],
+  },
+};
+
+/**
+ * Response of the pattern discovery prompt. Evidence is free-form, so
+ * providers only get JSON mode here, not the schema.
+ */
+const DISCOVERY_OUTPUT: LLMOutputSchema<PatternDiscoveryResponse> = {
+  name: 'discovery',
+  schema: {
+    type: 'object',
+    properties: {
+      pattern: { type: 'string' },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      suggestedSemantic: {
+        type: 'object',
+        nullable: true,
+        properties: SEMANTIC_PROPERTIES,
+        required: ['suggested_name', 'suggested_type'],
+      },
+      validationQuery: { type: 'string' },
+      tableName: { type: 'string' },
+      columnName: { type: 'string', nullable: true },
+      evidence: { type: 'object' },
+    },
+    required: ['pattern'],
+  },
+};
 
 /**
  * SemanticLearner analyzes user corrections and extracts reusable semantic patterns.
  * This is the core of Phase 3: Learning from User Corrections.
  */
 export class SemanticLearner {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+  private llm: LLMProvider;
   
   constructor() {
-    this.genAI = new GoogleGenerativeAI(config.geminiApiKey);
-    this.model = this.genAI.getGenerativeModel({ model: config.geminiModel });
+    this.llm = createLLMProvider(config.llm, 'semanticLearner');
   }
   
   /**
@@ -32,97 +107,24 @@ export class SemanticLearner {
     schema: TableSchema[]
   ): Promise<Omit<SemanticSuggestion, 'id' | 'created_at'> | null> {
     
-    const schemaText = formatSchemaForLLM(schema);
+    const schemaText = formatSchemaForLLM(schema, undefined, config.accessPolicy, config.searchPath);
     
-    const prompt = `You are a semantic learning system. Analyze this user correction and extract reusable semantic knowledge.
-
-CONTEXT:
-Database Schema:
-${schemaText}
-
-Original Question: ${correction.original_question}
-Generated SQL: ${correction.original_sql}
-User Correction: ${correction.user_feedback}
-Correction Type: ${correction.correction_type}
-
-TASK:
-Extract the semantic knowledge that was missing. What rule should the system learn for future queries?
-
-Consider:
-1. What concept/term needs definition? (name)
-2. What type is it? Choose ONE:
-   - TIME_PERIOD: Date/time ranges (yesterday, last month, etc.)
-   - METRIC: Measurable values (revenue, count, average, etc.)
-   - DIMENSION: Categorical attributes (customer type, region, status, etc.)
-   - BUSINESS_RULE: Complex calculation rules or logic
-   - FIELD_DEFINITION: Database field meaning/usage explanation
-3. What category? (Time Periods, Financial Metrics, User Dimensions, etc.)
-4. What's the correct SQL pattern/fragment?
-5. What are common synonyms or related terms?
-6. What mistakes should be avoided (anti_patterns)?
-7. How confident are you? (0.0 to 1.0)
-   - 0.90-1.00: Very strong evidence (explicit correction with SQL example)
-   - 0.70-0.89: Good evidence (clear correction)
-   - 0.50-0.69: Moderate evidence (inferred pattern)
-   - 0.30-0.49: Weak evidence (tentative)
-
-IMPORTANT GUIDELINES:
-- For TIME_PERIOD: Focus on date range logic, intervals, and time calculations
-- For METRIC: Include aggregation function (SUM, AVG, COUNT, etc.)
-- For DIMENSION: Identify the categorical attribute and table/column
-- For BUSINESS_RULE: Capture complex logic, anti-patterns, and correct approaches
-- For FIELD_DEFINITION: Explain field meaning and common mistakes
-
-OUTPUT (JSON only, no markdown, no code blocks):
-{
-  "suggested_name": "yesterday",
-  "suggested_type": "TIME_PERIOD",
-  "category": "Time Periods",
-  "description": "The full calendar day before today (00:00:00 to 23:59:59). Use date range for accurate 24-hour period coverage.",
-  "sql_fragment": "created_date >= CURRENT_DATE - INTERVAL '1 day' AND created_date < CURRENT_DATE",
-  "primary_table": "orders",
-  "primary_column": "created_date",
-  "synonyms": ["past day", "the day before", "previous day"],
-  "aggregation": null,
-  "anti_patterns": {
-    "wrong": "created_date = CURRENT_DATE - 1",
-    "why": "Date equality doesn't capture full 24-hour period",
-    "correct": "Use INTERVAL-based date range"
-  },
-  "example_questions": ["How many orders yesterday?", "Show sales from yesterday"],
-  "notes": ["Works with DATE and TIMESTAMP columns", "Ensures full 24-hour period"],
-  "confidence": 0.90,
-  "reasoning": "User provided explicit SQL correction with clear date range pattern"
-}
-
-Generate suggestion now:`;
+    const prompt = renderPrompt('learnerCorrection', {
+      schema: schemaText,
+      question: correction.original_question,
+      sql: maskSQL(correction.original_sql),
+      correction: correction.user_feedback,
+      correctionType: correction.correction_type,
+    });
 
     try {
-      const result: any = await retryWithBackoff(
-        () => this.model.generateContent(prompt),
+      // Invalid responses are re-prompted with the problems found (throws when still invalid)
+      const result = await retryWithBackoff(
+        () => generateStructured(this.llm, SUGGESTION_OUTPUT, prompt, config.llm.jsonRepairAttempts),
         config.retry
       );
       
-      const text = result.response.text();
-      
-      // Extract JSON from response (LLM might wrap it in markdown)
-      let jsonText = text.trim();
-      
-      // Remove markdown code blocks if present
-      if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/```json\s*\n?/g, '').replace(/```\s*$/g, '').trim();
-      }
-      
-      // Find JSON object
-      const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-      
-      if (!jsonMatch) {
-        console.error('❌ Failed to extract JSON from LLM response');
-        console.error('LLM Response:', text.substring(0, 500));
-        return null;
-      }
-      
-      const extracted = JSON.parse(jsonMatch[0]);
+      const extracted = result.data;
       
       // Build full suggestion with proper structure
       const suggestion: Omit<SemanticSuggestion, 'id' | 'created_at'> = {
@@ -192,92 +194,23 @@ Generate suggestion now:`;
     schema: TableSchema[]
   ): Promise<Omit<SemanticSuggestion, 'id' | 'created_at'> | null> {
     
-    const schemaText = formatSchemaForLLM(schema);
+    const schemaText = formatSchemaForLLM(schema, undefined, config.accessPolicy, config.searchPath);
     
-    const prompt = `You are a semantic learning system. Analyze the difference between the original (incorrect) SQL and the user's edited (correct) SQL to extract reusable semantic knowledge.
-
-CONTEXT:
-Database Schema:
-${schemaText}
-
-Original Question: ${originalQuestion}
-
-INCORRECT SQL (generated):
-${originalSql}
-
-CORRECT SQL (user edited):
-${editedSql}
-
-TASK:
-Compare the two SQL queries and identify:
-1. What semantic knowledge was missing that caused the incorrect SQL?
-2. What pattern/rule should be learned for future queries?
-3. What specific change did the user make (added WHERE clause, changed JOIN, etc.)?
-
-Focus on extracting the SEMANTIC concept that was missing, not just the SQL syntax difference.
-
-Examples of what to learn:
-- If user added "WHERE status != 'deleted'", learn: "active users = users excluding deleted"
-- If user changed "DATE = X" to "DATE >= X AND DATE < Y", learn: time period definitions
-- If user added a JOIN, learn: relationship between entities
-- If user changed aggregation, learn: metric calculation rules
-
-Choose the correct type:
-- TIME_PERIOD: Date/time ranges (yesterday, last month, etc.)
-- METRIC: Measurable values (revenue, count, average, etc.)
-- DIMENSION: Categorical attributes (customer type, region, status, etc.)
-- BUSINESS_RULE: Complex calculation rules or logic
-- FIELD_DEFINITION: Database field meaning/usage explanation
-
-OUTPUT (JSON only, no markdown):
-{
-  "suggested_name": "active users",
-  "suggested_type": "BUSINESS_RULE",
-  "category": "User Filters",
-  "description": "Users that are not deleted. Active users should always exclude records where status is 'deleted' or 'inactive'.",
-  "sql_fragment": "status NOT IN ('deleted', 'inactive')",
-  "primary_table": "users",
-  "primary_column": "status",
-  "synonyms": ["non-deleted users", "valid users"],
-  "aggregation": null,
-  "anti_patterns": {
-    "wrong": "SELECT * FROM users",
-    "why": "Doesn't filter out deleted users",
-    "correct": "SELECT * FROM users WHERE status NOT IN ('deleted', 'inactive')"
-  },
-  "example_questions": ["How many active users?", "Show me valid users"],
-  "notes": ["Always check status column", "Multiple inactive statuses exist"],
-  "confidence": 0.95,
-  "reasoning": "User explicitly added WHERE clause to exclude deleted users. The intent is clear from the SQL diff."
-}
-
-Generate suggestion:`;
+    const prompt = renderPrompt('learnerSqlEdit', {
+      schema: schemaText,
+      question: originalQuestion,
+      originalSql: maskSQL(originalSql),
+      editedSql: maskSQL(editedSql),
+    });
 
     try {
-      const result: any = await retryWithBackoff(
-        () => this.model.generateContent(prompt),
+      // Invalid responses are re-prompted with the problems found (throws when still invalid)
+      const result = await retryWithBackoff(
+        () => generateStructured(this.llm, SUGGESTION_OUTPUT, prompt, config.llm.jsonRepairAttempts),
         config.retry
       );
       
-      const text = result.response.text();
-      
-      // Extract JSON from response
-      let jsonText = text.trim();
-      
-      // Remove markdown code blocks if present
-      if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/```json\s*\n?/g, '').replace(/```\s*$/g, '').trim();
-      }
-      
-      const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-      
-      if (!jsonMatch) {
-        console.error('❌ Failed to extract JSON from LLM response');
-        console.error('LLM Response:', text.substring(0, 500));
-        return null;
-      }
-      
-      const extracted = JSON.parse(jsonMatch[0]);
+      const extracted = result.data;
       
       // Build suggestion (similar to analyzeCorrection)
       const suggestion: Omit<SemanticSuggestion, 'id' | 'created_at'> = {
@@ -349,12 +282,12 @@ Generate suggestion:`;
     tableName: string,
     columnName?: string
   ): Promise<Discovery> {
-    const schemaText = formatSchemaForLLM(schema);
-    const tableSchema = schema.find(t => t.tableName === tableName);
+    const schemaText = formatSchemaForLLM(schema, undefined, config.accessPolicy, config.searchPath);
+    const tableSchema = resolveTableName(tableName, schema, config.searchPath);
     const columnSchema = columnName ? tableSchema?.columns.find(c => c.columnName === columnName) : undefined;
     
-    // Limit data sent to LLM
-    const sampleRows = data.rows.slice(0, 20);
+    // Limit data sent to LLM, with personal data masked
+    const sampleRows = maskResultForLLM({ ...data, rows: data.rows.slice(0, 20) }, [tableName]).rows;
     const sampleData = sampleRows.map((row) => {
       const rowObj: Record<string, any> = {};
       data.columns.forEach((col, colIdx) => {
@@ -363,92 +296,27 @@ Generate suggestion:`;
       return rowObj;
     });
     
-    const prompt = `You are a semantic discovery system. Analyze the sample data from a database table to identify patterns and infer semantic rules.
-
-CONTEXT:
-Database Schema:
-${schemaText}
-
-Table: ${tableName}
-${columnName ? `Column: ${columnName} (${columnSchema?.dataType || 'unknown type'})` : 'Exploring entire table'}
-
-Sample Data (${sampleRows.length} of ${data.rowCount} rows):
-${JSON.stringify(sampleData, null, 2)}
-
-TASK:
-Analyze the data patterns and identify semantic rules that could be learned:
-
-1. **Data Patterns**: What patterns do you see in the data?
-   - Value distributions (e.g., status values, date ranges, numeric ranges)
-   - Relationships between columns
-   - Common value sets or enumerations
-   - Business logic indicators (e.g., active/inactive flags, date-based rules)
-
-2. **Semantic Inferences**: What semantic knowledge could be extracted?
-   - Field definitions (what does this column mean?)
-   - Business rules (what logic governs these values?)
-   - Time periods (if date columns exist)
-   - Metrics (if numeric aggregations are relevant)
-   - Dimensions (if categorical data exists)
-
-3. **Confidence**: How confident are you in these patterns? (0.0-1.0)
-   - 0.90-1.00: Very clear patterns (e.g., enum values, clear date logic)
-   - 0.70-0.89: Strong patterns (e.g., consistent value ranges)
-   - 0.50-0.69: Moderate patterns (e.g., inferred relationships)
-   - 0.30-0.49: Weak patterns (e.g., tentative observations)
-
-4. **Validation Query**: Suggest a SQL query to validate the pattern
-
-OUTPUT (JSON only, no markdown):
-{
-  "pattern": "Description of the detected pattern (e.g., 'status column contains enum values: active, inactive, pending')",
-  "confidence": 0.85,
-  "suggestedSemantic": {
-    "suggested_name": "active users",
-    "suggested_type": "BUSINESS_RULE",
-    "category": "User Status",
-    "description": "Users with status='active' are considered active users",
-    "sql_fragment": "status = 'active'",
-    "primary_table": "${tableName}",
-    "primary_column": "${columnName || 'status'}",
-    "synonyms": ["enabled users", "live users"],
-    "example_questions": ["How many active users?", "Show active users"]
-  },
-  "validationQuery": "SELECT DISTINCT ${columnName || 'status'} FROM ${tableName} ORDER BY ${columnName || 'status'}",
-  "tableName": "${tableName}",
-  "columnName": "${columnName || null}",
-  "evidence": {
-    "sampleData": ${JSON.stringify(sampleData.slice(0, 5))},
-    "statistics": {
-      "uniqueValues": ${columnName ? `Number of unique ${columnName} values` : 'N/A'},
-      "rowCount": ${data.rowCount}
-    },
-    "reasoning": "Explanation of why this pattern was detected"
-  }
-}
-
-Generate discovery:`;
+    const prompt = renderPrompt('learnerDiscovery', {
+      schema: schemaText,
+      tableName: tableName,
+      columnName: columnName || '',
+      columnType: columnSchema?.dataType || 'unknown type',
+      sampleSize: sampleRows.length,
+      rowCount: data.rowCount,
+      sampleData: JSON.stringify(sampleData, null, 2),
+      exampleColumn: columnName || 'status',
+      columnNameOrNull: columnName || 'null',
+      evidenceSample: JSON.stringify(sampleData.slice(0, 5)),
+    });
 
     try {
-      const result: any = await retryWithBackoff(
-        () => this.model.generateContent(prompt),
+      // Invalid responses are re-prompted with the problems found (throws when still invalid)
+      const result = await retryWithBackoff(
+        () => generateStructured(this.llm, DISCOVERY_OUTPUT, prompt, config.llm.jsonRepairAttempts),
         config.retry
       );
       
-      const text = result.response.text();
-      
-      // Extract JSON from response
-      let jsonText = text.trim();
-      if (jsonText.startsWith('```')) {
-        jsonText = jsonText.replace(/```json\s*\n?/g, '').replace(/```\s*$/g, '').trim();
-      }
-      
-      const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('Failed to extract JSON from LLM response');
-      }
-      
-      const extracted = JSON.parse(jsonMatch[0]);
+      const extracted = result.data;
       
       const discovery: Discovery = {
         pattern: extracted.pattern,
@@ -462,7 +330,7 @@ Generate discovery:`;
             description: extracted.suggestedSemantic.description,
             tableName: extracted.suggestedSemantic.primary_table,
             columnName: extracted.suggestedSemantic.primary_column,
-            sqlPattern: extracted.suggestedSemantic.sql_fragment,
+            sqlPattern: extracted.suggestedSemantic.sql_fragment ? unmaskSQL(extracted.suggestedSemantic.sql_fragment) : undefined,
             metadata: {
               category: extracted.suggestedSemantic.category,
               synonyms: extracted.suggestedSemantic.synonyms || [],
@@ -474,7 +342,7 @@ Generate discovery:`;
           status: 'pending',
           requires_expert_review: (extracted.confidence || 0.70) < 0.70,
         } : undefined,
-        validationQuery: extracted.validationQuery,
+        validationQuery: extracted.validationQuery ? unmaskSQL(extracted.validationQuery) : undefined,
         tableName: extracted.tableName || tableName,
         columnName: extracted.columnName || columnName,
         evidence: extracted.evidence || {},
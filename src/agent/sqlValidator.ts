@@ -6,235 +6,803 @@
  * zero hallucination and correctness.
  */
 
-import { TableSchema, TableMetadata, SQLValidationResult, GrainLevel } from '../types.js';
+import { TableSchema, TableMetadata, SQLValidationResult, Semantic } from '../types.js';
+import { parsePostgres, walkAst, matchValueComparison, outputColumnName, AstNode } from '../utils/sqlAst.js';
+import { trace } from '../utils/trace.js';
+import { findDisallowedValues, formatDisallowedValue } from '../services/allowedValues.js';
+import { buildJoinGraph, findEdges, findJoinPath, followsJoinEdge, describeJoinPath, formatJoinCondition } from '../services/joinGraph.js';
+import { findFanOuts, formatFanOut, detectGrain } from '../services/aggregationGrain.js';
+import {
+  DEFAULT_SCHEMA,
+  formatTableReference,
+  parseTableName,
+  qualifiedTableName,
+  resolveTable,
+  findTablesNamed,
+  isSameTable,
+} from '../services/schemaResolution.js';
+
+/**
+ * Functions that make a query aggregate (hasAggregations) when not used as window functions
+ */
+const AGGREGATE_FUNCTIONS = new Set(['count', 'sum', 'avg', 'min', 'max', 'string_agg', 'array_agg']);
+
+/**
+ * A real (non-CTE, non-subquery) table referenced in a query
+ */
+export interface TableReference {
+  schema?: string;  // Only present when the SQL schema-qualifies the table
+  table: string;
+  alias?: string;
+}
+
+type ColumnReference = { schema?: string; table?: string; column: string };
+
+/**
+ * A SUM/AVG/COUNT call of a SELECT (window functions excluded)
+ */
+export interface AggregateCall {
+  func: 'sum' | 'avg' | 'count';
+  distinct: boolean;
+  columns: ColumnReference[]; // Column arguments; empty for COUNT(*)
+  text: string; // As written, for messages ("sum(o.total)")
+}
+
+/**
+ * A GROUP BY key: a column, a day/month bucket of a column, or another expression
+ */
+export interface GroupKey {
+  column?: ColumnReference;
+  timeBucket?: 'daily' | 'monthly';
+}
+
+/**
+ * One aggregating SELECT: the tables and joins its aggregates run over
+ */
+export interface AggregationScope {
+  tables: string[]; // Real tables of its FROM clause, formatted like ParsedSQL.tables
+  joins: ParsedSQL['joins'];
+  aggregates: AggregateCall[];
+  groupBy: GroupKey[];
+  outermost: boolean; // The statement's own SELECT (not a CTE or subquery)
+}
 
 /**
  * Parsed SQL structure
  */
 export interface ParsedSQL {
-  tables: string[];
-  columns: Array<{ table?: string; column: string }>;
-  joins: Array<{ from: string; to: string; condition: string }>;
+  tables: string[]; // Distinct tables as written, SQL-quoted ("orders", "sales.orders", "\"Sales\".orders")
+  tableRefs: TableReference[]; // Every real table reference, with schema/alias as written
+  columns: ColumnReference[];
+  wildcards: Array<{ schema?: string; table: string }>; // Real tables expanded by * or alias.*
+  valueComparisons: Array<{ schema?: string; table?: string; column: string; values: string[]; negated: boolean }>; // col = 'x', col IN (...)
+  joins: Array<{ from: string; to: string; condition: string; keys?: Array<{ from: string; to: string }> }>; // from/to formatted like tables; keys = equated columns
   cteNames: Set<string>; // CTE names for validation skipping
-  grain?: GrainLevel;
+  cteColumns: Map<string, string[]>; // CTE name -> output columns (only CTEs whose columns are known without the schema)
+  derivedColumns: Array<{ source: string; column: string; outputColumns: string[] }>; // References to columns of CTEs/subqueries with known output columns
+  aggregations: AggregationScope[]; // SELECTs with SUM/AVG/COUNT, innermost first
   hasAggregations: boolean;
   hasGroupBy: boolean;
 }
 
 /**
- * Parse SQL query to extract structural elements
+ * A name visible in a query's FROM clause.
+ * `table` is set for real tables; CTEs, subqueries and functions are derived (no table).
+ * `columns` lists a derived source's output columns when they are known (no * over real tables).
+ */
+interface ScopeSource {
+  table?: TableReference;
+  columns?: string[];
+  rows?: DerivedRows;
+}
+
+/**
+ * A subquery that passes the rows of its tables through unaggregated (no
+ * GROUP BY, DISTINCT, LIMIT or aggregates), so aggregates over it run over
+ * the rows of its joins
+ */
+interface DerivedRows {
+  tables: string[]; // Real tables, including those of nested pass-through subqueries
+  origins: Map<string, ColumnReference>; // Output column -> real table column it selects
+}
+
+interface Scope {
+  sources: Map<string, ScopeSource>;
+  outputAliases: Set<string>;
+  parent?: Scope;
+}
+
+/**
+ * Parse SQL query to extract structural elements.
+ * 
+ * Uses the PostgreSQL parser: table references are collected from every FROM/JOIN
+ * (including CTEs and subqueries), and column references are resolved through
+ * table aliases within their query scope. Returns an empty structure if the SQL
+ * does not parse (the guard rejects such SQL before it gets here).
  */
 export function parseSQL(sql: string): ParsedSQL {
-  // Remove SQL comments first (-- and /* */)
-  let cleaned = sql.replace(/--[^\n]*/g, ''); // Remove -- comments
-  cleaned = cleaned.replace(/\/\*[\s\S]*?\*\//g, ''); // Remove /* */ comments
-  const normalized = cleaned.replace(/\s+/g, ' ').trim();
+  const parsed: ParsedSQL = {
+    tables: [],
+    tableRefs: [],
+    columns: [],
+    wildcards: [],
+    valueComparisons: [],
+    joins: [],
+    cteNames: new Set<string>(),
+    cteColumns: new Map<string, string[]>(),
+    derivedColumns: [],
+    aggregations: [],
+    hasAggregations: false,
+    hasGroupBy: false,
+  };
   
-  // #region agent log
-  fetch('http://127.0.0.1:7242/ingest/dd8d4512-6558-4f07-82a0-826080c144b8',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'sqlValidator.ts:26',message:'parseSQL entry',data:{sql:sql.substring(0,200),normalized:normalized.substring(0,200)},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'E'})}).catch(()=>{});
-  // #endregion
+  const parseOutcome = parsePostgres(sql);
+  if (parseOutcome.success) {
+    // CTE names are collected up front so references to them are never mistaken for tables
+    walkAst(parseOutcome.statements, (type, node) => {
+      if (type === 'CommonTableExpr' && node.ctename) {
+        parsed.cteNames.add(String(node.ctename).toLowerCase());
+      }
+      // Aggregation level (grain), at any query level
+      if (type === 'FuncCall' && !node.over && AGGREGATE_FUNCTIONS.has(functionName(node))) {
+        parsed.hasAggregations = true;
+      }
+      if (type === 'SelectStmt' && (node.groupClause || []).length > 0) {
+        parsed.hasGroupBy = true;
+      }
+    });
+    
+    for (const statement of parseOutcome.statements) {
+      const select = (statement.stmt as AstNode | undefined)?.SelectStmt;
+      if (select) {
+        collectSelect(select, undefined, parsed, true);
+      }
+    }
+  } else {
+    trace('sqlValidator.parseSQL', 'SQL does not parse', { error: parseOutcome.error, sql: sql.substring(0, 200) });
+  }
+  
+  trace('sqlValidator.parseSQL', 'parsed', {
+    tables: parsed.tables,
+    cteColumns: Object.fromEntries(parsed.cteColumns),
+    columns: parsed.columns.length,
+    joins: parsed.joins.map(j => `${j.from} -> ${j.to}`),
+  });
   
-  // Extract CTE names from WITH clauses
-  const cteNames = new Set<string>();
-  const withMatches = normalized.matchAll(/\bWITH\s+([a-zA-Z_][a-zA-Z0-9_]*)\s+AS\s*\(/gi);
-  for (const match of withMatches) {
-    if (match[1]) {
-      cteNames.add(match[1].toLowerCase());
+  return parsed;
+}
+
+/**
+ * Collect tables, columns and joins from one SELECT (and everything nested in it).
+ * 
+ * @returns The SELECT's output column names, or undefined when they depend on the
+ *   schema (* over a real table, or over a source whose columns are unknown)
+ */
+function collectSelect(
+  select: AstNode,
+  parent: Scope | undefined,
+  parsed: ParsedSQL,
+  outermost = false,
+  rows?: DerivedRows
+): string[] | undefined {
+  for (const item of select.withClause?.ctes || []) {
+    const cte = item.CommonTableExpr;
+    const query = cte?.ctequery?.SelectStmt;
+    if (!query) continue;
+    const name = String(cte.ctename).toLowerCase();
+    const aliases: AstNode[] = cte.aliascolnames || [];
+    if (select.withClause.recursive && aliases.length > 0) {
+      // The recursive term can only see the declared column names
+      parsed.cteColumns.set(name, aliases.map(a => String(a.String?.sval)));
+    }
+    const columns = renameColumns(collectSelect(query, parent, parsed), aliases);
+    if (columns) {
+      parsed.cteColumns.set(name, columns);
     }
   }
   
-  // #region agent log
-  fetch('http://127.0.0.1:7242/ingest/dd8d4512-6558-4f07-82a0-826080c144b8',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'sqlValidator.ts:38',message:'CTEs detected',data:{cteNames:Array.from(cteNames)},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'E'})}).catch(()=>{});
-  // #endregion
+  // UNION / INTERSECT / EXCEPT: each branch is its own scope; the first names the columns
+  if (select.op && select.op !== 'SETOP_NONE') {
+    const columns = select.larg ? collectSelect(select.larg, parent, parsed, outermost) : undefined;
+    if (select.rarg) collectSelect(select.rarg, parent, parsed, outermost);
+    return columns;
+  }
   
-  // Extract table names and aliases from FROM and JOIN clauses
+  const scope: Scope = { sources: new Map(), outputAliases: new Set(), parent };
   const tables: string[] = [];
-  const tableAliases = new Map<string, string>(); // alias -> actual table name
-  
-  // Extract FROM clause with optional alias: FROM table_name [alias] or FROM table_name AS alias
-  // Must be after SELECT or after a closing paren (for subqueries/CTEs)
-  const fromMatch = normalized.match(/\bFROM\s+([a-zA-Z_][a-zA-Z0-9_]*)(?:\s+(?:AS\s+)?([a-zA-Z_][a-zA-Z0-9_]*))?/i);
-  if (fromMatch) {
-    const tableName = fromMatch[1];
-    const alias = fromMatch[2];
-    // Validate table name is not a SQL keyword or common word
-    const sqlKeywords = new Set(['the', 'a', 'an', 'this', 'that', 'these', 'those', 'select', 'where', 'group', 'order', 'having', 'limit', 'offset']);
-    if (!sqlKeywords.has(tableName.toLowerCase())) {
-      tables.push(tableName);
-      if (alias && alias.toLowerCase() !== tableName.toLowerCase()) {
-        tableAliases.set(alias, tableName);
+  for (const item of select.fromClause || []) {
+    tables.push(...collectFromItem(item, scope, parsed).map(formatTableReference));
+  }
+  for (const target of select.targetList || []) {
+    if (target.ResTarget?.name) {
+      scope.outputAliases.add(String(target.ResTarget.name).toLowerCase());
+    }
+  }
+  
+  collectExpressions(select.targetList, scope, parsed, false);
+  collectExpressions(select.whereClause, scope, parsed, false);
+  collectExpressions(select.havingClause, scope, parsed, false);
+  collectExpressions(select.windowClause, scope, parsed, false);
+  collectExpressions(select.valuesLists, scope, parsed, false);
+  collectExpressions(select.distinctClause, scope, parsed, true);
+  // GROUP BY / ORDER BY may name output columns ("ORDER BY total")
+  collectExpressions(select.groupClause, scope, parsed, true);
+  collectExpressions(select.sortClause, scope, parsed, true);
+  
+  // Subqueries passing their rows through: their tables and joins count as this SELECT's
+  for (const source of scope.sources.values()) {
+    tables.push(...(source.rows?.tables || []));
+  }
+  
+  const aggregates = collectAggregates([select.targetList, select.havingClause, select.sortClause], scope, parsed);
+  const grouped = aggregates.length > 0 || (select.groupClause || []).length > 0;
+  if (grouped) {
+    parsed.aggregations.push({
+      tables,
+      joins: parsed.joins.filter(j => tables.includes(j.from) && tables.includes(j.to)),
+      aggregates,
+      groupBy: (select.groupClause || []).map((key: AstNode) => collectGroupKey(key, select, scope, parsed)),
+      outermost,
+    });
+  }
+  
+  if (rows && !grouped && !select.distinctClause && !select.limitCount && !select.havingClause) {
+    rows.tables.push(...tables);
+    for (const target of select.targetList || []) {
+      const names = columnRefNames(target.ResTarget?.val);
+      const origin = names.length > 0 ? resolveAggregatedColumn(names, scope, parsed) : undefined;
+      if (origin?.table) {
+        rows.origins.set((target.ResTarget.name ? String(target.ResTarget.name) : names[names.length - 1]).toLowerCase(), origin);
       }
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/dd8d4512-6558-4f07-82a0-826080c144b8',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'sqlValidator.ts:50',message:'FROM table extracted',data:{tableName,alias},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'E'})}).catch(()=>{});
-      // #endregion
-    } else {
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/dd8d4512-6558-4f07-82a0-826080c144b8',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'sqlValidator.ts:56',message:'FROM table filtered as keyword',data:{tableName},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'E'})}).catch(()=>{});
-      // #endregion
     }
   }
   
-  // Extract JOIN tables with optional aliases: JOIN table_name [alias] or JOIN table_name AS alias
-  const joinMatches = normalized.matchAll(/\b(?:INNER|LEFT|RIGHT|FULL|CROSS)?\s*JOIN\s+([a-zA-Z_][a-zA-Z0-9_]*)(?:\s+(?:AS\s+)?([a-zA-Z_][a-zA-Z0-9_]*))?/gi);
-  for (const match of joinMatches) {
-    const tableName = match[1];
-    const alias = match[2];
-    // Validate table name is not a SQL keyword or common word
-    const sqlKeywords = new Set(['the', 'a', 'an', 'this', 'that', 'these', 'those', 'select', 'where', 'group', 'order', 'having', 'limit', 'offset']);
-    if (tableName && !sqlKeywords.has(tableName.toLowerCase()) && !tables.includes(tableName)) {
-      tables.push(tableName);
+  return outputColumns(select, scope);
+}
+
+/**
+ * Output column names of a SELECT (VALUES lists: column1, column2, ...).
+ * Undefined when a * expands a real table or a source with unknown columns.
+ */
+function outputColumns(select: AstNode, scope: Scope): string[] | undefined {
+  const values: AstNode[] | undefined = select.valuesLists?.[0]?.List?.items;
+  if (values) {
+    return values.map((_, i) => `column${i + 1}`);
+  }
+  
+  const columns: string[] = [];
+  for (const target of select.targetList || []) {
+    const resTarget = target.ResTarget;
+    if (!resTarget?.val) continue;
+    const fields: AstNode[] = resTarget.val.ColumnRef?.fields || [];
+    if (fields.length > 0 && fields[fields.length - 1].A_Star !== undefined) {
+      const qualifier = fields.length > 1 ? String(fields[fields.length - 2].String?.sval) : undefined;
+      const sources = qualifier
+        ? [lookupSource(scope, qualifier)]
+        : Array.from(nearestScopeWithSources(scope)?.sources.values() || []);
+      for (const source of sources) {
+        if (!source?.columns) {
+          return undefined;
+        }
+        columns.push(...source.columns);
+      }
+      continue;
     }
-    if (alias && alias.toLowerCase() !== tableName.toLowerCase()) {
-      tableAliases.set(alias, tableName);
+    columns.push(resTarget.name ? String(resTarget.name) : outputColumnName(resTarget.val));
+  }
+  return columns;
+}
+
+/**
+ * Apply a column alias list (cte(a, b), AS sub(a, b)) to output columns
+ */
+function renameColumns(columns: string[] | undefined, aliases: AstNode[] | undefined): string[] | undefined {
+  if (!aliases || aliases.length === 0 || !columns) {
+    return aliases && aliases.length > 0 ? undefined : columns;
+  }
+  return columns.map((column, i) => aliases[i]?.String?.sval ? String(aliases[i].String.sval) : column);
+}
+
+/**
+ * SUM/AVG/COUNT calls of one SELECT level (not of its sub-selects, not window functions).
+ */
+function collectAggregates(expressions: unknown[], scope: Scope, parsed: ParsedSQL): AggregateCall[] {
+  const aggregates: AggregateCall[] = [];
+  
+  walkAst(expressions, (type, node) => {
+    if (type === 'SelectStmt') {
+      return false;
+    }
+    if (type !== 'FuncCall') {
+      return;
+    }
+    const func = functionName(node);
+    if ((func !== 'sum' && func !== 'avg' && func !== 'count') || node.over) {
+      return;
+    }
+    
+    const columns: ColumnReference[] = [];
+    walkAst(node.args || [], (argType, arg) => {
+      if (argType === 'ColumnRef') {
+        const column = resolveAggregatedColumn(columnRefNames({ ColumnRef: arg }), scope, parsed);
+        if (column) columns.push(column);
+      }
+      return argType === 'SelectStmt' ? false : undefined;
+    });
+    const args = node.agg_star ? '*' : (node.args || []).map(describeOperand).join(', ');
+    aggregates.push({ func, distinct: !!node.agg_distinct, columns, text: `${func}(${node.agg_distinct ? 'DISTINCT ' : ''}${args})` });
+    return false;
+  });
+  
+  return aggregates;
+}
+
+/**
+ * Classify a GROUP BY item. Ordinals (GROUP BY 1) and output aliases are
+ * followed to the select-list expression they name.
+ */
+function collectGroupKey(key: AstNode, select: AstNode, scope: Scope, parsed: ParsedSQL): GroupKey {
+  let expression = key;
+  const targets: AstNode[] = select.targetList || [];
+  const ordinal = key.A_Const?.ival?.ival;
+  if (ordinal !== undefined && targets[ordinal - 1]?.ResTarget?.val) {
+    expression = targets[ordinal - 1].ResTarget.val;
+  } else if (key.ColumnRef?.fields?.length === 1) {
+    const name = String(key.ColumnRef.fields[0].String?.sval || '').toLowerCase();
+    const target = targets.find(t => String(t.ResTarget?.name || '').toLowerCase() === name);
+    if (target?.ResTarget?.val) {
+      expression = target.ResTarget.val;
     }
   }
   
-  // Extract columns from SELECT, WHERE, GROUP BY, ORDER BY clauses
-  const columns: Array<{ table?: string; column: string }> = [];
+  const timeBucket = matchTimeBucket(expression);
+  if (timeBucket) {
+    return { timeBucket };
+  }
+  if (expression.ColumnRef) {
+    const column = resolveAggregatedColumn(columnRefNames(expression), scope, parsed);
+    return column ? { column } : {};
+  }
+  return {};
+}
+
+/**
+ * Name parts of a column reference expression (empty for anything else, and for *)
+ */
+function columnRefNames(expression: AstNode | undefined): string[] {
+  const fields: AstNode[] = expression?.ColumnRef?.fields || [];
+  if (fields.some(f => f.A_Star !== undefined)) {
+    return [];
+  }
+  return fields.filter(f => f.String).map(f => String(f.String.sval));
+}
+
+/**
+ * Resolve a column for aggregation analysis: columns of pass-through
+ * subqueries are followed to the real table column they select
+ */
+function resolveAggregatedColumn(names: string[], scope: Scope, parsed: ParsedSQL): ColumnReference | undefined {
+  const column = resolveColumnRef(names, scope, parsed);
+  if (column?.table || names.length === 0 || names.length > 2) {
+    return column;
+  }
+  const name = names[names.length - 1].toLowerCase();
+  if (names.length === 2) {
+    return lookupSource(scope, names[0])?.rows?.origins.get(name) ?? column;
+  }
+  const origins = Array.from(nearestScopeWithSources(scope)?.sources.values() || [])
+    .map(source => source.rows?.origins.get(name))
+    .filter((origin): origin is ColumnReference => !!origin);
+  return origins.length === 1 ? origins[0] : column;
+}
+
+/**
+ * Lowercased name of a called function, without its schema
+ */
+function functionName(call: AstNode): string {
+  return String(call.funcname?.[call.funcname.length - 1]?.String?.sval || '').toLowerCase();
+}
+
+/**
+ * date_trunc('day' | 'month', col), col::date and date(col)
+ */
+function matchTimeBucket(expression: AstNode): GroupKey['timeBucket'] {
+  const typeName = expression.TypeCast?.typeName?.names;
+  if (typeName && typeName[typeName.length - 1]?.String?.sval === 'date') {
+    return 'daily';
+  }
+  const call = expression.FuncCall;
+  const func = call ? functionName(call) : '';
+  if (func === 'date') {
+    return 'daily';
+  }
+  if (func === 'date_trunc') {
+    const unit = String(call.args?.[0]?.A_Const?.sval?.sval || '').toLowerCase();
+    if (unit === 'day') return 'daily';
+    if (unit === 'month') return 'monthly';
+  }
+  return undefined;
+}
+
+/**
+ * Register a FROM clause item in the scope, returning the real tables it contributes.
+ */
+function collectFromItem(item: AstNode, scope: Scope, parsed: ParsedSQL): TableReference[] {
+  if (item.RangeVar) {
+    const rangeVar = item.RangeVar;
+    const relname = String(rangeVar.relname);
+    const alias: string | undefined = rangeVar.alias?.aliasname;
+    const key = (alias || relname).toLowerCase();
+    
+    if (!rangeVar.schemaname && parsed.cteNames.has(relname.toLowerCase())) {
+      scope.sources.set(key, { columns: renameColumns(parsed.cteColumns.get(relname.toLowerCase()), rangeVar.alias?.colnames) });
+      return [];
+    }
+    
+    const ref: TableReference = { table: relname };
+    if (rangeVar.schemaname) ref.schema = rangeVar.schemaname;
+    if (alias) ref.alias = alias;
+    
+    parsed.tableRefs.push(ref);
+    const name = formatTableReference(ref);
+    if (!parsed.tables.includes(name)) {
+      parsed.tables.push(name);
+    }
+    scope.sources.set(key, { table: ref });
+    return [ref];
+  }
   
-  // Helper function to extract table.column references from a clause
-  const extractTableColumns = (clause: string) => {
-    // Match table.column patterns (handles aliases and CTEs)
-    const tableColPattern = /([a-zA-Z_][a-zA-Z0-9_]*)\.([a-zA-Z_][a-zA-Z0-9_]*)/g;
-    let match;
-    while ((match = tableColPattern.exec(clause)) !== null) {
-      const tableRef = match[1];
-      const columnName = match[2];
-      
-      // Check if this is a CTE - if so, skip validation (CTEs are virtual tables)
-      if (cteNames.has(tableRef.toLowerCase())) {
-        // CTE column - don't validate against schema, but still track it
-        columns.push({
-          table: tableRef, // Keep CTE name as-is
-          column: columnName,
-        });
-        continue;
-      }
-      
-      // Resolve alias to actual table name
-      const actualTable = tableAliases.get(tableRef) || tableRef;
-      
-      columns.push({
-        table: actualTable,
-        column: columnName,
+  if (item.RangeSubselect) {
+    const subselect = item.RangeSubselect;
+    const query = subselect.subquery?.SelectStmt;
+    const rows: DerivedRows = { tables: [], origins: new Map() };
+    // Only LATERAL subqueries can see sibling FROM items
+    const columns = query ? collectSelect(query, subselect.lateral ? scope : scope.parent, parsed, false, rows) : undefined;
+    if (subselect.alias?.aliasname) {
+      scope.sources.set(String(subselect.alias.aliasname).toLowerCase(), {
+        columns: renameColumns(columns, subselect.alias.colnames),
+        rows: rows.tables.length > 0 && !subselect.alias.colnames ? rows : undefined,
       });
     }
-  };
+    return [];
+  }
   
-  // Extract from SELECT clause
-  const selectMatch = normalized.match(/\bSELECT\s+(.+?)\s+FROM/i);
-  if (selectMatch) {
-    const selectClause = selectMatch[1];
+  if (item.JoinExpr) {
+    const join = item.JoinExpr;
+    const leftTables = join.larg ? collectFromItem(join.larg, scope, parsed) : [];
+    const rightTables = join.rarg ? collectFromItem(join.rarg, scope, parsed) : [];
     
-    // Skip SELECT * case (will be caught by guard)
-    if (!selectClause.includes('*')) {
-      extractTableColumns(selectClause);
-      
-      // Also handle unqualified columns in SELECT
-      const columnParts = selectClause.split(',').map(c => c.trim());
-      for (const part of columnParts) {
-        // Skip if already matched as table.column
-        if (!part.includes('.')) {
-          const colMatch = part.match(/([a-zA-Z_][a-zA-Z0-9_]*)/);
-          if (colMatch && !['COUNT', 'SUM', 'AVG', 'MIN', 'MAX', 'DISTINCT'].includes(colMatch[1].toUpperCase())) {
-            columns.push({ column: colMatch[1] });
-          }
-        }
+    if (join.quals) {
+      collectExpressions(join.quals, scope, parsed, false);
+    }
+    // USING columns between CTEs/subqueries are not table columns
+    for (const using of leftTables.length > 0 && rightTables.length > 0 ? join.usingClause || [] : []) {
+      if (using.String?.sval) {
+        parsed.columns.push({ column: using.String.sval });
       }
     }
+    
+    if (leftTables.length > 0 && rightTables.length > 0 && (join.quals || join.usingClause)) {
+      // Equated columns tell which tables the condition really joins (a JOIN b ... JOIN c ON c.b_id = b.id)
+      const keyed = join.quals ? collectJoinKeys(join.quals, scope, parsed) : [];
+      if (keyed.length > 0) {
+        parsed.joins.push(...keyed.map(k => ({ ...k, condition: describeCondition(join.quals) })));
+      } else if (join.usingClause && leftTables.length === 1 && rightTables.length === 1) {
+        // USING (a, b) equates same-named columns; with several tables on a side, which one has them is unknown
+        const using: string[] = join.usingClause.map((u: AstNode) => String(u.String?.sval));
+        parsed.joins.push({
+          from: formatTableReference(leftTables[0]),
+          to: formatTableReference(rightTables[0]),
+          condition: `USING (${using.join(', ')})`,
+          keys: using.map(column => ({ from: column, to: column })),
+        });
+      } else {
+        parsed.joins.push({
+          from: formatTableReference(leftTables[0]),
+          to: formatTableReference(rightTables[0]),
+          condition: join.quals
+            ? describeCondition(join.quals)
+            : `USING (${join.usingClause.map((u: AstNode) => u.String?.sval).join(', ')})`,
+        });
+      }
+    }
+    if (join.alias?.aliasname) {
+      scope.sources.set(String(join.alias.aliasname).toLowerCase(), {});
+    }
+    return [...leftTables, ...rightTables];
   }
   
-  // Extract from WHERE clause
-  const whereMatch = normalized.match(/\bWHERE\s+(.+?)(?:\s+GROUP\s+BY|\s+ORDER\s+BY|\s+HAVING|\s+LIMIT|$)/i);
-  if (whereMatch) {
-    extractTableColumns(whereMatch[1]);
+  if (item.RangeFunction) {
+    collectExpressions(item.RangeFunction.functions, scope, parsed, false);
+    if (item.RangeFunction.alias?.aliasname) {
+      scope.sources.set(String(item.RangeFunction.alias.aliasname).toLowerCase(), {});
+    }
+    return [];
   }
   
-  // Extract from GROUP BY clause
-  const groupByMatch = normalized.match(/\bGROUP\s+BY\s+(.+?)(?:\s+ORDER\s+BY|\s+HAVING|\s+LIMIT|$)/i);
-  if (groupByMatch) {
-    extractTableColumns(groupByMatch[1]);
+  collectExpressions(item, scope, parsed, false);
+  return [];
+}
+
+/**
+ * Walk an expression tree, resolving column references and descending into sub-selects.
+ */
+function collectExpressions(expression: unknown, scope: Scope, parsed: ParsedSQL, allowOutputAliases: boolean): void {
+  if (Array.isArray(expression)) {
+    for (const item of expression) {
+      collectExpressions(item, scope, parsed, allowOutputAliases);
+    }
+    return;
+  }
+  if (!expression || typeof expression !== 'object') {
+    return;
   }
   
-  // Extract from ORDER BY clause
-  const orderByMatch = normalized.match(/\bORDER\s+BY\s+(.+?)(?:\s+LIMIT|$)/i);
-  if (orderByMatch) {
-    extractTableColumns(orderByMatch[1]);
+  for (const [key, value] of Object.entries(expression as AstNode)) {
+    if (key === 'A_Expr') {
+      collectValueComparison(value, scope, parsed);
+    }
+    if (key === 'ColumnRef') {
+      collectColumnRef(value, scope, parsed, allowOutputAliases);
+    } else if (key === 'SelectStmt') {
+      collectSelect(value, scope, parsed);
+    } else if (value && typeof value === 'object') {
+      collectExpressions(value, scope, parsed, allowOutputAliases);
+    }
   }
+}
+
+function collectColumnRef(columnRef: AstNode, scope: Scope, parsed: ParsedSQL, allowOutputAliases: boolean): void {
+  const fields: AstNode[] = columnRef.fields || [];
+  const isStar = fields.length > 0 && fields[fields.length - 1].A_Star !== undefined;
+  const names: string[] = fields.filter(f => f.String).map(f => String(f.String.sval));
   
-  // Extract JOIN relationships
-  const joins: Array<{ from: string; to: string; condition: string }> = [];
-  const joinPattern = /\b(?:INNER|LEFT|RIGHT|FULL)?\s*JOIN\s+([a-zA-Z_][a-zA-Z0-9_]*)\s+ON\s+([^WHERE|GROUP|ORDER|LIMIT]+)/gi;
-  const joinMatches2 = normalized.matchAll(joinPattern);
+  if (isStar) {
+    if (names.length === 0) {
+      // Bare * expands every source of the nearest scope with a FROM clause
+      const target = nearestScopeWithSources(scope);
+      for (const source of target?.sources.values() || []) {
+        if (source.table) {
+          parsed.wildcards.push(toWildcard(source.table));
+        }
+      }
+      return;
+    }
+    const qualifier = names[names.length - 1];
+    const source = lookupSource(scope, qualifier);
+    if (source?.table) {
+      parsed.wildcards.push(toWildcard(source.table));
+    } else if (!source) {
+      parsed.wildcards.push(names.length > 1 ? { schema: names[names.length - 2], table: qualifier } : { table: qualifier });
+    }
+    return;
+  }
   
-  for (const match of joinMatches2) {
-    const joinTable = match[1];
-    const condition = match[2]?.trim() || '';
-    
-    // Try to extract the FROM table (first table in query)
-    const fromTable = tables[0] || '';
-    
-    if (joinTable && fromTable) {
-      joins.push({
-        from: fromTable,
-        to: joinTable,
-        condition: condition,
-      });
+  if (names.length === 1 && allowOutputAliases && scope.outputAliases.has(names[0].toLowerCase())) {
+    return;
+  }
+  // A table or alias used as a value (SELECT u, row_to_json(u), (u).col) is its whole row, like u.*
+  const wholeRow = lookupWholeRow(names, scope);
+  if (wholeRow) {
+    parsed.wildcards.push(toWildcard(wholeRow));
+    return;
+  }
+  collectDerivedColumn(names, scope, parsed);
+  const column = resolveColumnRef(names, scope, parsed);
+  if (column) {
+    parsed.columns.push(column);
+  }
+}
+
+/**
+ * Record a reference to a column of a CTE or subquery whose output columns are known.
+ * Unqualified names count only when every source in reach is such a CTE or subquery.
+ */
+function collectDerivedColumn(names: string[], scope: Scope, parsed: ParsedSQL): void {
+  if (names.length === 2) {
+    const source = lookupSource(scope, names[0]);
+    if (source && !source.table && source.columns) {
+      parsed.derivedColumns.push({ source: names[0], column: names[1], outputColumns: source.columns });
     }
+    return;
+  }
+  if (names.length !== 1) {
+    return;
   }
   
-  // Detect aggregation level (grain)
-  const hasAggregations = /\b(COUNT|SUM|AVG|MIN|MAX|GROUP_CONCAT)\s*\(/i.test(normalized);
-  const hasGroupBy = /\bGROUP\s+BY\b/i.test(normalized);
-  
-  let grain: GrainLevel | undefined;
-  if (hasGroupBy) {
-    // Try to infer grain from GROUP BY columns
-    const groupByMatch = normalized.match(/\bGROUP\s+BY\s+([^HAVING|ORDER|LIMIT]+)/i);
-    if (groupByMatch) {
-      const groupByCols = groupByMatch[1].trim();
-      if (groupByCols.includes('date') || groupByCols.includes('day') || groupByCols.includes('created_at')) {
-        grain = 'daily';
-      } else if (groupByCols.includes('month')) {
-        grain = 'monthly';
-      } else if (groupByCols.includes('customer') || groupByCols.includes('user')) {
-        grain = 'customer_level';
-      } else if (groupByCols.includes('order')) {
-        grain = 'order_level';
-      } else {
-        grain = 'custom';
+  const searched: string[] = [];
+  const outputColumns: string[] = [];
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    for (const [name, source] of current.sources) {
+      if (source.table || !source.columns) {
+        return; // Could be a table column (validated against the schema) or one we cannot list
       }
+      searched.push(name);
+      outputColumns.push(...source.columns);
     }
-  } else if (hasAggregations) {
-    // Aggregation without GROUP BY = single row result
-    grain = 'row_level';
-  } else {
-    // No aggregation = row-level
-    grain = 'row_level';
+  }
+  if (searched.length > 0) {
+    parsed.derivedColumns.push({ source: searched.join(', '), column: names[0], outputColumns });
+  }
+}
+
+/**
+ * Record a column compared with literals (checked against allowed value sets).
+ */
+function collectValueComparison(expr: AstNode, scope: Scope, parsed: ParsedSQL): void {
+  const comparison = matchValueComparison(expr);
+  const column = comparison ? resolveColumnRef(comparison.columnNames, scope, parsed) : undefined;
+  if (comparison && column) {
+    parsed.valueComparisons.push({ ...column, values: comparison.values, negated: comparison.negated });
+  }
+}
+
+/**
+ * Resolve a column reference to the real table it belongs to, as far as the scope tells.
+ * Undefined when the column comes from a CTE or subquery in scope (nothing to validate).
+ */
+function resolveColumnRef(names: string[], scope: Scope, parsed: ParsedSQL): ColumnReference | undefined {
+  if (names.length === 1) {
+    const column = names[0];
+    const target = nearestScopeWithSources(scope);
+    const sources = target ? Array.from(target.sources.values()) : [];
+    const realTables = sources.filter(s => s.table);
+    if (sources.length === 1 && realTables.length === 1) {
+      return { ...schemaOf(realTables[0].table!), table: realTables[0].table!.table, column };
+    }
+    if (sources.some(s => !s.table && (!s.columns || s.columns.includes(column)))) {
+      // Comes (or may come) from a CTE/subquery next to the tables - nothing to validate
+      return undefined;
+    }
+    if (realTables.length > 0) {
+      // Ambiguous between several tables - left unqualified
+      return { column };
+    }
+    // Only CTEs/subqueries in scope: the column comes from the query itself
+    return undefined;
   }
   
-  // #region agent log
-  fetch('http://127.0.0.1:7242/ingest/dd8d4512-6558-4f07-82a0-826080c144b8',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'sqlValidator.ts:200',message:'parseSQL exit',data:{tables,cteNames:Array.from(cteNames),columnsCount:columns.length},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'E'})}).catch(()=>{});
-  // #endregion
+  if (names.length === 2) {
+    const [qualifier, column] = names;
+    const source = lookupSource(scope, qualifier);
+    if (source?.table) {
+      return { ...schemaOf(source.table), table: source.table.table, column };
+    }
+    if (!source || parsed.cteNames.has(qualifier.toLowerCase())) {
+      // Unknown qualifier (likely a hallucinated table) or CTE column - kept for metadata validation
+      return { table: qualifier, column };
+    }
+    return undefined;
+  }
   
-  return {
-    tables,
-    columns,
-    joins,
-    cteNames,
-    grain,
-    hasAggregations,
-    hasGroupBy,
-  };
+  if (names.length >= 3) {
+    const [schema, table, column] = names.slice(-3);
+    return { schema, table, column };
+  }
+  return undefined;
+}
+
+function lookupSource(scope: Scope | undefined, name: string): ScopeSource | undefined {
+  const key = name.toLowerCase();
+  for (let current = scope; current; current = current.parent) {
+    const source = current.sources.get(key);
+    if (source) {
+      return source;
+    }
+  }
+  return undefined;
 }
 
 /**
- * Validate parsed SQL against metadata
+ * The real table a reference names as a whole row: "u" (table or alias) or "schema.table"
+ */
+function lookupWholeRow(names: string[], scope: Scope): TableReference | undefined {
+  if (names.length === 1) {
+    return lookupSource(scope, names[0])?.table;
+  }
+  if (names.length === 2 && !lookupSource(scope, names[0])) {
+    const table = lookupSource(scope, names[1])?.table;
+    return table?.schema?.toLowerCase() === names[0].toLowerCase() ? table : undefined;
+  }
+  return undefined;
+}
+
+function nearestScopeWithSources(scope: Scope | undefined): Scope | undefined {
+  for (let current = scope; current; current = current.parent) {
+    if (current.sources.size > 0) {
+      return current;
+    }
+  }
+  return undefined;
+}
+
+function schemaOf(ref: TableReference): { schema?: string } {
+  return ref.schema ? { schema: ref.schema } : {};
+}
+
+function toWildcard(ref: TableReference): { schema?: string; table: string } {
+  return { ...schemaOf(ref), table: ref.table };
+}
+
+/**
+ * Column equalities of a join condition (AND-ed col = col), grouped by the pair of tables they equate.
+ */
+function collectJoinKeys(quals: AstNode, scope: Scope, parsed: ParsedSQL): ParsedSQL['joins'] {
+  const terms: AstNode[] = quals.BoolExpr?.boolop === 'AND_EXPR' ? quals.BoolExpr.args || [] : [quals];
+  const joins: ParsedSQL['joins'] = [];
+  
+  for (const term of terms) {
+    const expr = term.A_Expr;
+    if (!expr || expr.kind !== 'AEXPR_OP' || expr.name?.[0]?.String?.sval !== '=' ||
+        !expr.lexpr?.ColumnRef || !expr.rexpr?.ColumnRef) {
+      continue;
+    }
+    const names = (ref: AstNode): string[] => (ref.ColumnRef.fields || []).filter((f: AstNode) => f.String).map((f: AstNode) => String(f.String.sval));
+    const left = resolveColumnRef(names(expr.lexpr), scope, parsed);
+    const right = resolveColumnRef(names(expr.rexpr), scope, parsed);
+    if (!left?.table || !right?.table) {
+      continue;
+    }
+    
+    const from = formatTableReference({ schema: left.schema, table: left.table });
+    const to = formatTableReference({ schema: right.schema, table: right.table });
+    if (from === to || !parsed.tables.includes(from) || !parsed.tables.includes(to)) {
+      continue; // Self-comparison, or a CTE/subquery column
+    }
+    const existing = joins.find(j => (j.from === from && j.to === to) || (j.from === to && j.to === from));
+    if (existing) {
+      existing.keys!.push(existing.from === from ? { from: left.column, to: right.column } : { from: right.column, to: left.column });
+    } else {
+      joins.push({ from, to, condition: '', keys: [{ from: left.column, to: right.column }] });
+    }
+  }
+  
+  return joins;
+}
+
+/**
+ * Render a join condition for display ("orders.user_id = users.id AND ...").
+ */
+function describeCondition(quals: AstNode): string {
+  if (quals.BoolExpr?.boolop === 'AND_EXPR') {
+    return (quals.BoolExpr.args || []).map(describeCondition).join(' AND ');
+  }
+  if (quals.A_Expr) {
+    const operator = quals.A_Expr.name?.[0]?.String?.sval || '?';
+    return `${describeOperand(quals.A_Expr.lexpr)} ${operator} ${describeOperand(quals.A_Expr.rexpr)}`;
+  }
+  return '(expression)';
+}
+
+function describeOperand(operand: AstNode | undefined): string {
+  if (operand?.ColumnRef) {
+    return (operand.ColumnRef.fields || []).map((f: AstNode) => f.String?.sval ?? '*').join('.');
+  }
+  if (operand?.A_Const) {
+    const constant = operand.A_Const;
+    if (constant.sval) return `'${constant.sval.sval}'`;
+    if (constant.ival) return String(constant.ival.ival ?? 0);
+    if (constant.boolval) return String(constant.boolval.boolval ?? false);
+  }
+  return '(expression)';
+}
+
+/**
+ * Validate parsed SQL against metadata.
+ * 
+ * Table references resolve the way PostgreSQL's search_path does: qualified
+ * names must exist in their schema, unqualified names resolve to the first
+ * schema in the path that has the table.
+ * 
+ * @param searchPath - Schemas in resolution order (config.searchPath)
+ * @param semantics - Approved semantics; their join rules count as known joins
  */
 export function validateAgainstMetadata(
   parsed: ParsedSQL,
   schema: TableSchema[],
-  metadata: TableMetadata[]
+  metadata: TableMetadata[],
+  searchPath: string[] = [DEFAULT_SCHEMA],
+  semantics: Semantic[] = []
 ): SQLValidationResult {
   const issues: string[] = [];
   const facts: string[] = [];
@@ -247,26 +815,38 @@ export function validateAgainstMetadata(
   let joinsValidated = true;
   
   // Validate tables exist in metadata
-  const metadataTableNames = new Set(metadata.map(m => m.tableName));
   const missingTables: string[] = [];
+  const usedMetadata: TableMetadata[] = [];
+  const checkedTables = new Set<string>();
   
-  // Filter out CTE names from table validation (CTEs are virtual tables)
-  const realTables = parsed.tables.filter(table => !parsed.cteNames.has(table.toLowerCase()));
-  
-  // #region agent log
-  fetch('http://127.0.0.1:7242/ingest/dd8d4512-6558-4f07-82a0-826080c144b8',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'sqlValidator.ts:232',message:'Validating tables',data:{allTables:parsed.tables,realTables,cteNames:Array.from(parsed.cteNames),metadataTables:Array.from(metadataTableNames).slice(0,10)},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'E'})}).catch(()=>{});
-  // #endregion
+  trace('sqlValidator.validateAgainstMetadata', 'validating tables', {
+    tables: parsed.tables,
+    cteNames: Array.from(parsed.cteNames),
+    searchPath,
+    metadataTables: metadata.length,
+  });
   
-  for (const table of realTables) {
-    if (!metadataTableNames.has(table)) {
-      missingTables.push(table);
+  // CTE references never reach tableRefs (CTEs are virtual tables)
+  for (const ref of parsed.tableRefs) {
+    const name = formatTableReference(ref);
+    if (checkedTables.has(name)) {
+      continue;
+    }
+    checkedTables.add(name);
+    
+    const tableMeta = resolveTable(ref, metadata, searchPath);
+    if (!tableMeta) {
+      // An unqualified name that exists outside the search_path needs its schema
+      const elsewhere = ref.schema ? [] : findTablesNamed(ref.table, metadata);
+      missingTables.push(elsewhere.length > 0
+        ? `${name} (not on the search_path - did you mean ${elsewhere.map(qualifiedTableName).join(' or ')}?)`
+        : name);
       tablesValidated = false;
       confidence -= 0.2;
-      // #region agent log
-      fetch('http://127.0.0.1:7242/ingest/dd8d4512-6558-4f07-82a0-826080c144b8',{method:'POST',headers:{'Content-Type':'application/json'},body:JSON.stringify({location:'sqlValidator.ts:242',message:'Table not found',data:{table,isCTE:parsed.cteNames.has(table.toLowerCase())},timestamp:Date.now(),sessionId:'debug-session',runId:'run3',hypothesisId:'E'})}).catch(()=>{});
-      // #endregion
-    } else {
-      facts.push(`Table "${table}" exists in metadata`);
+      trace('sqlValidator.validateAgainstMetadata', 'table not found', { table: name, elsewhere: elsewhere.map(qualifiedTableName) });
+    } else if (!usedMetadata.some(m => isSameTable(m, tableMeta))) {
+      usedMetadata.push(tableMeta);
+      facts.push(`Table "${qualifiedTableName(tableMeta)}" exists in metadata`);
     }
   }
   
@@ -275,50 +855,45 @@ export function validateAgainstMetadata(
   }
   
   // Validate columns exist for each table
-  const schemaMap = new Map<string, TableSchema>();
-  for (const table of schema) {
-    schemaMap.set(table.tableName, table);
-  }
+  const queryTables = parsed.tableRefs
+    .map(ref => resolveTable(ref, schema, searchPath))
+    .filter((table): table is TableSchema => table !== undefined);
   
   const missingColumns: Array<{ table: string; column: string }> = [];
   
   for (const col of parsed.columns) {
     if (col.table) {
+      const tableName = formatTableReference({ schema: col.schema, table: col.table });
+      
       // Check if this is a CTE - CTEs are virtual tables, skip schema validation
-      if (parsed.cteNames.has(col.table.toLowerCase())) {
+      if (!col.schema && parsed.cteNames.has(col.table.toLowerCase())) {
         // CTE column - assume valid (defined in query itself)
-        assumptions.push(`Column "${col.table}.${col.column}" from CTE (assumed valid)`);
+        assumptions.push(`Column "${tableName}.${col.column}" from CTE (assumed valid)`);
         continue; // Skip validation for CTE columns
       }
       
       // Table-qualified column - validate against schema
-      const tableSchema = schemaMap.get(col.table);
+      const tableSchema = resolveTable({ schema: col.schema, table: col.table }, schema, searchPath);
       if (!tableSchema) {
-        missingColumns.push({ table: col.table, column: col.column });
+        missingColumns.push({ table: tableName, column: col.column });
         columnsValidated = false;
         confidence -= 0.1;
       } else {
         const columnExists = tableSchema.columns.some(c => c.columnName === col.column);
         if (!columnExists) {
-          missingColumns.push({ table: col.table, column: col.column });
+          missingColumns.push({ table: qualifiedTableName(tableSchema), column: col.column });
           columnsValidated = false;
           confidence -= 0.1;
         } else {
-          facts.push(`Column "${col.table}.${col.column}" exists in schema`);
+          facts.push(`Column "${qualifiedTableName(tableSchema)}.${col.column}" exists in schema`);
         }
       }
     } else {
-      // Unqualified column - check all tables
-      let found = false;
-      for (const table of parsed.tables) {
-        const tableSchema = schemaMap.get(table);
-        if (tableSchema?.columns.some(c => c.columnName === col.column)) {
-          found = true;
-          facts.push(`Column "${col.column}" found in table "${table}"`);
-          break;
-        }
-      }
-      if (!found) {
+      // Unqualified column - check all tables of the query
+      const owner = queryTables.find(table => table.columns.some(c => c.columnName === col.column));
+      if (owner) {
+        facts.push(`Column "${col.column}" found in table "${qualifiedTableName(owner)}"`);
+      } else {
         missingColumns.push({ table: 'unknown', column: col.column });
         columnsValidated = false;
         confidence -= 0.1;
@@ -331,12 +906,49 @@ export function validateAgainstMetadata(
     issues.push(`Columns not found: ${missingColumns.map(c => `${c.table}.${c.column}`).join(', ')}`);
   }
   
-  // Validate joins against foreign keys
+  // CTE and subquery columns must be among their output columns
+  const missingDerived = parsed.derivedColumns.filter(ref => !ref.outputColumns.includes(ref.column));
+  for (const ref of missingDerived) {
+    columnsValidated = false;
+    confidence -= 0.1;
+    trace('sqlValidator.validateAgainstMetadata', 'derived column not found', ref);
+  }
+  if (missingDerived.length > 0) {
+    issues.push(`Columns not found in CTE/subquery output: ${missingDerived
+      .map(ref => `${ref.source}.${ref.column} (has: ${ref.outputColumns.join(', ') || 'no columns'})`)
+      .join(', ')}`);
+  }
+  
+  // Validate literals against enum / CHECK / domain value sets
+  const invalidValues: string[] = [];
+  
+  for (const comparison of parsed.valueComparisons) {
+    if (comparison.table && !comparison.schema && parsed.cteNames.has(comparison.table.toLowerCase())) {
+      continue;
+    }
+    const tableMeta = comparison.table
+      ? resolveTable({ schema: comparison.schema, table: comparison.table }, metadata, searchPath)
+      : usedMetadata.find(m => m.allowedValues?.some(a => a.columnName === comparison.column));
+    if (!tableMeta) {
+      continue;
+    }
+    for (const found of findDisallowedValues(tableMeta, comparison.column, comparison.values)) {
+      invalidValues.push(formatDisallowedValue(qualifiedTableName(tableMeta), found));
+      confidence -= 0.2;
+    }
+  }
+  
+  if (invalidValues.length > 0) {
+    issues.push(`Values not allowed: ${invalidValues.join('; ')}`);
+  }
+  
+  // Validate joins against the join graph (foreign keys and approved join rules)
   const invalidJoins: string[] = [];
+  const joinGraph = buildJoinGraph(metadata, semantics, searchPath);
   
   for (const join of parsed.joins) {
-    const fromMetadata = metadata.find(m => m.tableName === join.from);
-    const toMetadata = metadata.find(m => m.tableName === join.to);
+    const fromMetadata = resolveTable(parseTableName(join.from), metadata, searchPath);
+    const toMetadata = resolveTable(parseTableName(join.to), metadata, searchPath);
     
     if (!fromMetadata || !toMetadata) {
       invalidJoins.push(`${join.from} -> ${join.to} (metadata missing)`);
@@ -345,17 +957,23 @@ export function validateAgainstMetadata(
       continue;
     }
     
-    // Check if there's a foreign key relationship
-    const fkExists = fromMetadata.foreignKeys.some(fk => fk.toTable === join.to) ||
-                     toMetadata.foreignKeys.some(fk => fk.toTable === join.from);
+    const fromTable = qualifiedTableName(fromMetadata);
+    const toTable = qualifiedTableName(toMetadata);
+    const edges = findEdges(joinGraph, fromTable, toTable);
     
-    if (fkExists) {
-      facts.push(`Join "${join.from}" -> "${join.to}" validated against foreign key metadata`);
-    } else {
-      invalidJoins.push(`${join.from} -> ${join.to} (no FK relationship found)`);
+    if (edges.length === 0) {
+      const path = findJoinPath(joinGraph, fromTable, toTable);
+      const hint = path ? `; known path: ${describeJoinPath(fromTable, path)}` : '';
+      invalidJoins.push(`${join.from} -> ${join.to} (no FK relationship found${hint})`);
       joinsValidated = false;
       confidence -= 0.15;
       assumptions.push(`Join "${join.from}" -> "${join.to}" assumed valid (no FK metadata found)`);
+    } else if (join.keys && !followsJoinEdge(edges, fromTable, join.keys)) {
+      // The tables are related, but not on these columns - a warning, not an error
+      confidence -= 0.1;
+      unknowns.push(`Join "${join.from}" -> "${join.to}" does not follow a known join path (expected ${edges.map(formatJoinCondition).join(' or ')})`);
+    } else {
+      facts.push(`Join "${join.from}" -> "${join.to}" validated against foreign key metadata`);
     }
   }
   
@@ -363,12 +981,20 @@ export function validateAgainstMetadata(
     issues.push(`Invalid joins: ${invalidJoins.join(', ')}`);
   }
   
+  // Aggregates over one-to-many joins count rows more than once
+  const fanOuts = parsed.aggregations.flatMap(scope => findFanOuts(scope, schema, metadata, joinGraph, searchPath));
+  
+  if (fanOuts.length > 0) {
+    issues.push(`Aggregation fan-out (double counting): ${fanOuts.map(formatFanOut).join('; ')}`);
+    confidence -= 0.3;
+  }
+  
   // Assess performance risk
   let performanceRisk: 'low' | 'medium' | 'high' = 'low';
   
-  for (const table of parsed.tables) {
-    const tableMeta = metadata.find(m => m.tableName === table);
-    if (tableMeta && (tableMeta.estimatedRowCount > 100000 || tableMeta.totalSizeBytes > 1000000000)) {
+  for (const tableMeta of usedMetadata) {
+    if (tableMeta.estimatedRowCount > 100000 || tableMeta.totalSizeBytes > 1000000000) {
+      const table = qualifiedTableName(tableMeta);
       // Check if indexes are used in WHERE clause
       const hasIndexedFilter = checkIndexUsage(parsed, tableMeta);
       if (!hasIndexedFilter) {
@@ -393,7 +1019,7 @@ export function validateAgainstMetadata(
     facts,
     assumptions,
     unknowns,
-    grain: parsed.grain,
+    grain: detectGrain(parsed, schema, metadata, searchPath),
     performanceRisk,
     tablesValidated,
     columnsValidated,
@@ -456,12 +1082,17 @@ export function calculateConfidence(
 
 /**
  * Main validation function - combines parsing and validation
+ * 
+ * @param searchPath - Schemas unqualified table names resolve against (config.searchPath)
+ * @param semantics - Approved semantics (join rules)
  */
 export async function validateSQLAgainstMetadata(
   sql: string,
   schema: TableSchema[],
-  metadata: TableMetadata[]
+  metadata: TableMetadata[],
+  searchPath: string[] = [DEFAULT_SCHEMA],
+  semantics: Semantic[] = []
 ): Promise<SQLValidationResult> {
   const parsedSQL = parseSQL(sql);
-  return validateAgainstMetadata(parsedSQL, schema, metadata);
+  return validateAgainstMetadata(parsedSQL, schema, metadata, searchPath, semantics);
 }
@@ -1,17 +1,20 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { PlanStep, TableSchema, ConversationTurn, OrchestratorState, SQLWriterNeeds } from '../types.js';
+import { PlanStep, TableSchema, TableMetadata, ConversationTurn, OrchestratorState, SQLWriterNeeds, LLMProvider } from '../types.js';
 import { config } from '../config.js';
+import { createLLMProvider } from '../llm/provider.js';
+import { renderPrompt } from '../llm/prompts.js';
 import { formatSchemaForLLM } from '../tools/inspectedDb.js';
-import { formatSemanticsForLLM, getSemantics, formatMetadataForLLM } from '../tools/controlDb.js';
+import { formatSemanticsForLLM, getSemantics, formatMetadataForLLM, getColumnProfiles } from '../tools/controlDb.js';
 import { retryWithBackoff } from '../utils/retry.js';
+import { maskResultForLLM, maskSQL, maskText, unmaskSQL } from '../services/piiMasking.js';
+import { qualifiedTableName } from '../services/schemaResolution.js';
+import { selectProfilesForStep, formatProfilesForLLM } from '../services/columnProfiling.js';
+import { buildJoinGraph, findJoinPlan, selectJoinTables, formatJoinPlanForLLM } from '../services/joinGraph.js';
 
 export class SQLWriter {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+  private llm: LLMProvider;
   
   constructor() {
-    this.genAI = new GoogleGenerativeAI(config.geminiApiKey);
-    this.model = this.genAI.getGenerativeModel({ model: config.geminiModel });
+    this.llm = createLLMProvider(config.llm, 'sqlWriter');
   }
   
   async generateSQL(
@@ -27,127 +30,60 @@ export class SQLWriter {
       throw new Error('Schema is empty - cannot generate SQL without table information');
     }
     
-    const schemaText = formatSchemaForLLM(schema);
+    const schemaText = formatSchemaForLLM(schema, undefined, config.accessPolicy, config.searchPath);
     const semantics = await getSemantics();
     const semanticsText = await formatSemanticsForLLM(semantics);
     const metadataText = formatMetadataForLLM(schema);
     
-    // Extract table names for explicit reference
-    const tableNames = schema.map(t => t.tableName).join(', ');
+    const stepText = `${question}\n${step.description}\n${step.reasoning}`;
+    
+    // Real values of the columns this step touches (profiles are optional)
+    const profiles = await getColumnProfiles().catch(() => []);
+    const profilesText = formatProfilesForLLM(selectProfilesForStep(profiles, schema, stepText));
+    
+    // Ready-made join path between the tables this step mentions (FKs and approved join rules)
+    const metadata = schema.map(t => t.metadata).filter((m): m is TableMetadata => m !== undefined);
+    const joinText = formatJoinPlanForLLM(
+      findJoinPlan(buildJoinGraph(metadata, semantics, config.searchPath), selectJoinTables(schema, stepText))
+    );
+    
+    // Extract schema-qualified table names for explicit reference
+    const tableNames = schema.map(t => qualifiedTableName(t)).join(', ');
     
     const previousContext = previousResults && previousResults.length > 0
-      ? `\nPrevious query results:\n${previousResults.map(pr => `Step ${pr.step}: ${JSON.stringify(pr.result.rows.slice(0, 5), null, 2)} (showing first 5 rows of ${pr.result.rowCount} total)`).join('\n\n')}\n`
+      ? `\nPrevious query results:\n${previousResults.map(pr => `Step ${pr.step}: ${JSON.stringify(maskResultForLLM({ ...pr.result, rows: pr.result.rows.slice(0, 5) }).rows, null, 2)} (showing first 5 rows of ${pr.result.rowCount} total)`).join('\n\n')}\n`
       : '';
     
     // Build conversation history context
     const conversationContext = conversationHistory && conversationHistory.length > 0
       ? `\nRecent Conversation History (for context awareness):\n${conversationHistory.map((turn, i) => {
           const turnNum = conversationHistory.length - i; // Most recent is last
-          return `Turn ${turnNum}:\n  Q: ${turn.question}\n  SQL: ${turn.sqlQueries[0] || 'N/A'}\n  Table: ${turn.resultTable || 'unknown'}\n  Columns: ${turn.resultColumns?.join(', ') || 'unknown'}\n`;
+          return `Turn ${turnNum}:\n  Q: ${turn.question}\n  SQL: ${turn.sqlQueries[0] ? maskSQL(turn.sqlQueries[0]) : 'N/A'}\n  Table: ${turn.resultTable || 'unknown'}\n  Columns: ${turn.resultColumns?.join(', ') || 'unknown'}\n`;
         }).join('\n')}\n`
       : '';
     
-    const prompt = `You are a SQL query generation assistant. Generate a PostgreSQL SELECT query to answer the user's question.
-
-Database Schema:
-${schemaText}
-
-${metadataText ? `Table Metadata (for query optimization):
-${metadataText}` : ''}
-
-Available table names: ${tableNames}
-
-${semanticsText}
-
-${conversationContext}${previousContext}User Question: ${question}
-
-CONTEXT AWARENESS RULES:
-${conversationHistory && conversationHistory.length > 0
-  ? `- If the question uses pronouns ("them", "it", "those") or references ("also", "and", "by country", "group by"), 
-    it likely refers to the PREVIOUS query shown in "Recent Conversation History" above
-- Use the previous query's table and columns as the base for follow-up operations
-- If asking to "group by X", modify the previous query to add "GROUP BY X"
-- If asking to "display by X" or "show by X", add "GROUP BY X" and appropriate aggregations
-- Maintain the same WHERE clauses and filters from the previous query unless explicitly changed`
-  : ''}
-
-Current Step: ${step.description}
-Reasoning: ${step.reasoning}
-
-METADATA AS SOURCE OF TRUTH:
-1. ONLY use table names from metadata: ${tableNames}
-2. ONLY use column names that exist in the schema above
-3. If it's not in the metadata, it does not exist - DO NOT invent names
-4. Database metadata tables are the sole source of truth
-
-VALIDATION REQUIREMENTS:
-1. Validate all tables against metadata before generating SQL - check that every table name appears in the "Available table names" list
-2. Validate all columns exist for each table - verify each column name in the Database Schema section
-3. Validate all JOINs against foreign_keys metadata - use the Foreign keys section to ensure correct relationships
-4. Push WHERE filters before JOINs for performance - filter large tables early
-5. Use indexed columns for filtering when available - check the Indexes section for each table
-
-GRAIN MANAGEMENT:
-1. State the aggregation level explicitly in comments (e.g., -- Grain: customer_level)
-2. Ensure JOINs don't change the intended grain unintentionally
-3. Prefer canonical/pre-aggregated tables if grain matches - check metadata for summary tables (e.g., daily_summary, monthly_aggregates)
-4. If joining fact tables, ensure the grain is maintained or explicitly changed
-
-ZERO HALLUCINATION:
-1. NEVER use SELECT * - always list columns explicitly
-2. NEVER invent table or column names - if it's not in the schema, it doesn't exist
-3. NEVER create joins without FK validation - only join tables that have foreign key relationships in metadata
-4. NEVER use placeholders or "undefined" - always use actual table/column names from schema
-
-PERFORMANCE OPTIMIZATION:
-1. Assume large tables (check estimated_row_count) are expensive - tables with >100k rows need careful handling
-2. Push filters early (before JOINs) - apply WHERE clauses to large tables first
-3. Use indexed columns (check indexes JSONB) for WHERE clauses - prefer indexed columns for filtering
-4. Join smaller tables first (check total_size_bytes) - order JOINs by table size (smallest first)
-
-CRITICAL INSTRUCTIONS FOR BUSINESS SEMANTICS:
-1. If the user question contains ANY terms from Business Semantics (e.g., "yesterday", "this month", "revenue"):
-   - You MUST use the EXACT "SQL Pattern" provided in that semantic definition
-   - DO NOT create your own interpretation of time ranges, metrics, or business logic
-   - Copy the SQL Pattern directly and adapt column/table names to match the actual schema
-   - If an "AVOID" pattern is shown, you MUST NOT use that approach
-   - Example: For "yesterday", use the provided SQL Pattern, not your own date calculation
-
-FACTS vs ASSUMPTIONS vs UNKNOWNS:
-- Facts: Verified against metadata (table exists, column exists, FK valid) - state these explicitly
-- Assumptions: Explicit assumptions made (e.g., "assuming user_id is unique") - note these in comments
-- Unknowns: Things that couldn't be validated (e.g., "could not verify index usage") - flag these if critical
-
-Generate a single PostgreSQL SELECT query that:
-1. Uses ONLY table names from the "Available table names" list (${tableNames.split(', ').slice(0, 5).join(', ')}...)
-2. Uses EXACT SQL Patterns from Business Semantics for any matching terms
-3. Only uses SELECT or WITH ... SELECT (no INSERT, UPDATE, DELETE, etc.)
-4. Is syntactically correct for PostgreSQL
-5. Answers the specific step described above
-6. Uses appropriate JOINs, WHERE clauses, and aggregations as needed
-7. Optimizes query performance using metadata (indexes, table sizes, foreign keys) when available
-8. Does NOT include a LIMIT clause (it will be added automatically)
-9. Lists all columns explicitly (NEVER use SELECT *)
-10. Validates all elements against metadata before generating
-
-Respond with ONLY the SQL query, nothing else. No explanations, no markdown formatting, just the raw SQL.`;
+    const prompt = renderPrompt('sqlWriter', {
+      schema: schemaText,
+      metadata: metadataText,
+      profiles: profilesText,
+      joins: joinText,
+      tableNames: tableNames,
+      tableNamesPreview: tableNames.split(', ').slice(0, 5).join(', '),
+      semantics: semanticsText,
+      conversationHistory: conversationContext,
+      previousResults: previousContext,
+      question: question,
+      stepDescription: step.description,
+      stepReasoning: step.reasoning,
+    });
 
     try {
       // Wrap the LLM call with retry logic for handling API overload
       const result = await retryWithBackoff(async () => {
-        return await this.model.generateContent(prompt);
+        return await this.llm.generateText(prompt);
       });
       
-      const response = result.response;
-      let sql = response.text().trim();
-      
-      // Clean up the SQL (remove markdown code blocks if present)
-      if (sql.startsWith('```')) {
-        sql = sql.replace(/^```(?:sql)?\n?/, '').replace(/\n?```$/, '');
-      }
-      
-      // Remove trailing semicolon if present (we'll add it in guard)
-      sql = sql.replace(/;+\s*$/, '').trim();
+      const sql = this.cleanSQL(result.text);
       
       // Express needs
       if (state) {
@@ -161,7 +97,7 @@ Respond with ONLY the SQL query, nothing else. No explanations, no markdown form
       // User-friendly error message for API overload
       if (error?.status === 503 || error?.status === 429) {
         throw new Error(
-          `Google Gemini API is currently overloaded. Please try again in a few minutes.\n\n` +
+          `${this.llm.name} API is currently overloaded. Please try again in a few minutes.\n\n` +
           `Suggestions:\n` +
           `  1. Wait 2-3 minutes and retry your question\n` +
           `  2. Switch to GEMINI_MODEL=gemini-2.5-pro in .env (less traffic)\n` +
@@ -173,6 +109,70 @@ Respond with ONLY the SQL query, nothing else. No explanations, no markdown form
     }
   }
   
+  /**
+   * Repair a query PostgreSQL rejected.
+   * Gets the server's error (code, message, hint, position) and the schema of
+   * the tables involved, and returns a corrected query.
+   * 
+   * @param errorText - Error details formatted by formatPostgresErrorForLLM
+   * @param schemaSlice - Schema of the tables the failed query references
+   * @param previousAttempts - Earlier failed fixes for the same step
+   */
+  async repairSQL(
+    step: PlanStep,
+    question: string,
+    failedSql: string,
+    errorText: string,
+    schemaSlice: TableSchema[],
+    previousAttempts: Array<{ sql: string; error: string }> = []
+  ): Promise<string> {
+    const schemaText = formatSchemaForLLM(schemaSlice, undefined, config.accessPolicy, config.searchPath);
+    const metadataText = formatMetadataForLLM(schemaSlice);
+    
+    // The SQL and errors carry real values, which go back in as their pseudonyms
+    const attemptsText = previousAttempts.length > 0
+      ? `\nEarlier fixes that also failed (do not repeat them):\n${previousAttempts.map((a, i) => `Attempt ${i + 1}:\n${maskSQL(a.sql)}\n${maskText(a.error)}`).join('\n\n')}\n`
+      : '';
+    
+    const prompt = renderPrompt('sqlRepair', {
+      question: question,
+      stepDescription: step.description,
+      failedSql: maskSQL(failedSql),
+      error: maskText(errorText),
+      previousAttempts: attemptsText,
+      schema: schemaText,
+      metadata: metadataText,
+    });
+
+    try {
+      const result = await retryWithBackoff(async () => {
+        return await this.llm.generateText(prompt);
+      });
+      
+      return this.cleanSQL(result.text);
+    } catch (error: any) {
+      throw new Error(`Failed to repair SQL: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  
+  /**
+   * Turn an LLM response into plain SQL
+   */
+  private cleanSQL(text: string): string {
+    let sql = text.trim();
+    
+    // Clean up the SQL (remove markdown code blocks if present)
+    if (sql.startsWith('```')) {
+      sql = sql.replace(/^```(?:sql)?\n?/, '').replace(/\n?```$/, '');
+    }
+    
+    // Remove trailing semicolon if present (we'll add it in guard)
+    sql = sql.replace(/;+\s*$/, '').trim();
+    
+    // Values from previous results were pseudonymized in the prompt
+    return unmaskSQL(sql);
+  }
+  
   /**
    * Express SQL writer needs in state
    */
@@ -248,7 +248,7 @@ Respond with ONLY the SQL query, nothing else. No explanations, no markdown form
     
     // Check if SQL references unknown tables
     const sqlUpper = sql.toUpperCase();
-    const tableNames = schema.map((t: TableSchema) => t.tableName.toUpperCase());
+    const tableNames = schema.flatMap((t: TableSchema) => [t.tableName, qualifiedTableName(t)]).map(name => name.toUpperCase());
     const sqlWords = sqlUpper.split(/\s+/);
     const fromIndex = sqlWords.indexOf('FROM');
     
@@ -1,5 +1,5 @@
 import dotenv from 'dotenv';
-import { Config } from './types.js';
+import { BudgetLimits, BudgetMetric, Config, LLMCacheConfig, LLMCacheStoreName, LLMConfig, LLMModelConfig, LLMPrice, LLMProviderName, LLMRole, RowFilter } from './types.js';
 import { RetryConfig } from './utils/retry.js';
 
 dotenv.config();
@@ -22,6 +22,215 @@ function getEnvNumber(name: string, defaultValue: number): number {
   return parsed;
 }
 
+function getEnvList(name: string): string[] {
+  const value = process.env[name];
+  if (!value) return [];
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+const BUDGET_ENV_NAMES: Record<BudgetMetric, string> = {
+  tokens: 'MAX_TOKENS',
+  costUsd: 'MAX_COST_USD',
+  llmCalls: 'MAX_LLM_CALLS',
+  wallTimeMs: 'MAX_WALL_TIME_MS',
+  dbTimeMs: 'MAX_DB_TIME_MS',
+  iterations: 'MAX_ITERATIONS',
+  queries: 'MAX_QUERIES',
+};
+
+/**
+ * Parse the budgets of one scope: <prefix>_MAX_TOKENS, <prefix>_MAX_COST_USD, ...
+ * Unset metrics keep their default (if any); 0 means unlimited.
+ */
+function getBudgetLimits(prefix: string, defaults: BudgetLimits): BudgetLimits {
+  const limits: BudgetLimits = {};
+  for (const [metric, suffix] of Object.entries(BUDGET_ENV_NAMES) as [BudgetMetric, string][]) {
+    const name = `${prefix}_${suffix}`;
+    const value = process.env[name];
+    const limit = value ? parseFloat(value) : defaults[metric];
+    if (limit !== undefined && (isNaN(limit) || limit < 0)) {
+      throw new Error(`Invalid number for environment variable: ${name}`);
+    }
+    if (limit) {
+      limits[metric] = limit;
+    }
+  }
+  return limits;
+}
+
+/**
+ * Parse ROW_FILTERS: "table: predicate" entries separated by semicolons
+ * (predicates may contain commas, e.g. region IN (:region_a, :region_b)).
+ */
+function getRowFilters(name: string): RowFilter[] {
+  const value = process.env[name];
+  if (!value) return [];
+  return value.split(';').map(item => item.trim()).filter(item => item.length > 0).map(item => {
+    const separator = item.indexOf(':');
+    const table = separator === -1 ? '' : item.slice(0, separator).trim();
+    const predicate = separator === -1 ? '' : item.slice(separator + 1).trim();
+    if (!table || !predicate) {
+      throw new Error(`Invalid entry in ${name}: "${item}" (expected "table: predicate")`);
+    }
+    return { table, predicate };
+  });
+}
+
+/**
+ * Parse SESSION_PARAMS: comma-separated name=value pairs.
+ */
+function getSessionParams(name: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const item of getEnvList(name)) {
+    const separator = item.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid entry in ${name}: "${item}" (expected "name=value")`);
+    }
+    params[item.slice(0, separator).trim()] = item.slice(separator + 1).trim();
+  }
+  return params;
+}
+
+/**
+ * USD per million input/output tokens (list prices; override with LLM_PRICES)
+ */
+const DEFAULT_LLM_PRICES: Record<string, LLMPrice> = {
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'fake': { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+/**
+ * Parse LLM_PRICES: comma-separated model=input/output entries in USD per
+ * million tokens (e.g. "gpt-4o-mini=0.15/0.60, llama3.1:8b=0/0").
+ */
+function getLLMPrices(name: string): Record<string, LLMPrice> {
+  const prices = { ...DEFAULT_LLM_PRICES };
+  for (const item of getEnvList(name)) {
+    const match = item.match(/^(.+)=\s*([\d.]+)\s*\/\s*([\d.]+)$/);
+    if (!match) {
+      throw new Error(`Invalid entry in ${name}: "${item}" (expected "model=input/output")`);
+    }
+    prices[match[1].trim()] = { inputPerMillion: parseFloat(match[2]), outputPerMillion: parseFloat(match[3]) };
+  }
+  return prices;
+}
+
+const LLM_PROVIDERS: LLMProviderName[] = ['gemini', 'openai', 'fake'];
+
+/**
+ * Parse an LLM selection: "provider:model" or just "model" (default provider).
+ * Only a known provider name counts as prefix, so "llama3.1:8b" is a model.
+ */
+function parseLLMModel(name: string, value: string, fallback: LLMModelConfig): LLMModelConfig {
+  const separator = value.indexOf(':');
+  const prefix = separator === -1 ? '' : value.slice(0, separator).trim().toLowerCase();
+  if (LLM_PROVIDERS.includes(prefix as LLMProviderName)) {
+    const model = value.slice(separator + 1).trim();
+    if (!model) {
+      throw new Error(`Invalid value for ${name}: "${value}" (expected "provider:model")`);
+    }
+    return { provider: prefix as LLMProviderName, model };
+  }
+  return { provider: fallback.provider, model: value.trim() };
+}
+
+function defaultLLMModel(provider: LLMProviderName): string {
+  switch (provider) {
+    case 'gemini':
+      return process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+    case 'fake':
+      return 'fake';
+    default:
+      return getEnvVar('LLM_MODEL'); // OpenAI-compatible servers have no common default
+  }
+}
+
+const LLM_CACHE_STORES: LLMCacheStoreName[] = ['memory', 'file', 'db'];
+
+/**
+ * LLM_CACHE selects the store (off by default); LLM_CACHE_TTL (seconds) applies
+ * to every role unless <ROLE>_LLM_CACHE_TTL overrides it (0 = do not cache).
+ */
+function getLLMCacheConfig(roleVars: Record<LLMRole, string>): LLMCacheConfig | undefined {
+  const store = (process.env.LLM_CACHE || 'off').toLowerCase();
+  if (store === 'off') {
+    return undefined;
+  }
+  if (!LLM_CACHE_STORES.includes(store as LLMCacheStoreName)) {
+    throw new Error(`Invalid LLM_CACHE: "${store}" (expected off, ${LLM_CACHE_STORES.join(', ')})`);
+  }
+  if (store === 'db' && !process.env.CONTROL_DB_URL) {
+    throw new Error('LLM_CACHE=db needs CONTROL_DB_URL');
+  }
+  
+  const defaultTtl = getEnvNumber('LLM_CACHE_TTL', 86400);
+  const ttlSeconds = {} as Record<LLMRole, number>;
+  for (const [role, name] of Object.entries(roleVars) as Array<[LLMRole, string]>) {
+    ttlSeconds[role] = getEnvNumber(`${name}_CACHE_TTL`, defaultTtl);
+  }
+  return {
+    store: store as LLMCacheStoreName,
+    path: process.env.LLM_CACHE_FILE || 'data/llm_cache.json',
+    maxEntries: getEnvNumber('LLM_CACHE_MAX_ENTRIES', 500),
+    ttlSeconds,
+  };
+}
+
+/**
+ * LLM_PROVIDER/LLM_MODEL select the default model; PLANNER_LLM, SQL_WRITER_LLM,
+ * INTERPRETER_LLM, LEARNER_LLM and ORCHESTRATOR_LLM override it per role.
+ */
+function getLLMConfig(): LLMConfig {
+  const provider = (process.env.LLM_PROVIDER || 'gemini').toLowerCase() as LLMProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Invalid LLM_PROVIDER: "${provider}" (expected one of ${LLM_PROVIDERS.join(', ')})`);
+  }
+  const defaultModel: LLMModelConfig = {
+    provider,
+    model: process.env.LLM_MODEL || defaultLLMModel(provider),
+  };
+  
+  const roleVars: Record<LLMRole, string> = {
+    planner: 'PLANNER_LLM',
+    sqlWriter: 'SQL_WRITER_LLM',
+    interpreter: 'INTERPRETER_LLM',
+    semanticLearner: 'LEARNER_LLM',
+    orchestrator: 'ORCHESTRATOR_LLM',
+  };
+  const models = {} as Record<LLMRole, LLMModelConfig>;
+  for (const [role, name] of Object.entries(roleVars) as Array<[LLMRole, string]>) {
+    const value = process.env[name];
+    models[role] = value ? parseLLMModel(name, value, defaultModel) : defaultModel;
+  }
+  
+  const cassettePath = process.env.LLM_CASSETTE;
+  const cassetteMode = process.env.LLM_CASSETTE_MODE || 'replay';
+  if (cassetteMode !== 'record' && cassetteMode !== 'replay') {
+    throw new Error(`Invalid LLM_CASSETTE_MODE: "${cassetteMode}" (expected record or replay)`);
+  }
+  const replaying = !!cassettePath && cassetteMode === 'replay';
+  
+  // Replayed cassettes need no provider credentials
+  const uses = (name: LLMProviderName) => !replaying && Object.values(models).some(model => model.provider === name);
+  return {
+    models,
+    geminiApiKey: uses('gemini') ? getEnvVar('GEMINI_API_KEY') : process.env.GEMINI_API_KEY,
+    openaiBaseUrl: (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    openaiApiKey: process.env.OPENAI_API_KEY || undefined,
+    openaiJsonMode: process.env.OPENAI_JSON_MODE !== 'false',
+    fakeFixture: uses('fake') ? getEnvVar('LLM_FAKE_FIXTURE') : process.env.LLM_FAKE_FIXTURE,
+    cassette: cassettePath ? { path: cassettePath, mode: cassetteMode } : undefined,
+    prices: getLLMPrices('LLM_PRICES'),
+    jsonRepairAttempts: getEnvNumber('LLM_JSON_REPAIR_ATTEMPTS', 1),
+    cache: getLLMCacheConfig(roleVars),
+  };
+}
+
 export function loadConfig(): Config {
   const controlDbUrl = process.env.CONTROL_DB_URL;
   
@@ -33,14 +242,49 @@ export function loadConfig(): Config {
   };
   
   return {
-    geminiApiKey: getEnvVar('GEMINI_API_KEY'),
+    llm: getLLMConfig(),
     databaseUrl: getEnvVar('DATABASE_URL'),
     controlDbUrl: controlDbUrl ? controlDbUrl : undefined,
     maxRows: getEnvNumber('MAX_ROWS', 200),
     statementTimeoutMs: getEnvNumber('STATEMENT_TIMEOUT_MS', 10000),
+    idleInTransactionTimeoutMs: getEnvNumber('IDLE_IN_TRANSACTION_TIMEOUT_MS', 30000),
+    workMem: process.env.WORK_MEM || '64MB',
+    searchPath: getEnvList('SEARCH_PATH').length > 0 ? getEnvList('SEARCH_PATH') : ['public'],
     maxResultRowsForLLM: getEnvNumber('MAX_RESULT_ROWS_FOR_LLM', 50),
-    geminiModel: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
     debugModeConfidenceThreshold: getEnvNumber('DEBUG_MODE_CONFIDENCE_THRESHOLD', 95),
+    deniedFunctions: getEnvList('GUARD_DENIED_FUNCTIONS'),
+    allowedFunctions: getEnvList('GUARD_ALLOWED_FUNCTIONS'),
+    accessPolicy: {
+      allowedSchemas: getEnvList('POLICY_ALLOWED_SCHEMAS'),
+      deniedSchemas: getEnvList('POLICY_DENIED_SCHEMAS'),
+      allowedTables: getEnvList('POLICY_ALLOWED_TABLES'),
+      deniedTables: getEnvList('POLICY_DENIED_TABLES'),
+      allowedColumns: getEnvList('POLICY_ALLOWED_COLUMNS'),
+      deniedColumns: getEnvList('POLICY_DENIED_COLUMNS'),
+    },
+    rowFilters: getRowFilters('ROW_FILTERS'),
+    sessionParams: getSessionParams('SESSION_PARAMS'),
+    piiMasking: process.env.PII_MASKING !== 'false',
+    trace: process.env.SQL_TRACE === 'true',
+    userName: process.env.SAGE_USER || process.env.USER || process.env.USERNAME || 'unknown',
+    costGate: {
+      enabled: process.env.COST_GATE_ENABLED !== 'false',
+      confirmCost: getEnvNumber('COST_GATE_CONFIRM_COST', 100000),
+      blockCost: getEnvNumber('COST_GATE_BLOCK_COST', 10000000),
+      largeTableRows: getEnvNumber('COST_GATE_LARGE_TABLE_ROWS', 100000),
+      nestedLoopRows: getEnvNumber('COST_GATE_NESTED_LOOP_ROWS', 10000000),
+    },
+    sqlRepair: {
+      maxAttempts: getEnvNumber('SQL_REPAIR_MAX_ATTEMPTS', 2),
+      suggestAfter: getEnvNumber('SQL_REPAIR_SUGGEST_AFTER', 3),
+    },
+    promptOverridesDir: process.env.PROMPT_OVERRIDES_DIR || undefined,
+    budget: {
+      question: getBudgetLimits('BUDGET_QUESTION', { wallTimeMs: 60000, iterations: 50, queries: 20 }),
+      session: getBudgetLimits('BUDGET_SESSION', {}),
+      degradeAtPercent: getEnvNumber('BUDGET_DEGRADE_AT_PERCENT', 80),
+      degradedResultRows: getEnvNumber('BUDGET_DEGRADED_RESULT_ROWS', 10),
+    },
     retry: retryConfig,
   };
 }
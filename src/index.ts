@@ -8,6 +8,19 @@ import {
   formatSemanticsForLLM,
   refreshAllMetadata,
   initializeMetadataTable,
+  initializeRunLogColumns,
+  initializePiiClassificationTable,
+  initializeColumnProfileTable,
+  initializeSchemaChangeTable,
+  initializeLLMCallTable,
+  initializeLLMCacheTable,
+  getLLMCacheEntry,
+  saveLLMCacheEntry,
+  deleteLLMCacheEntries,
+  getSchemaChanges,
+  insertLLMCalls,
+  getLLMCostTotals,
+  getPromptVersionStats,
   getAllTableMetadata,
   saveCorrection,
   getRunLogById,
@@ -19,6 +32,17 @@ import {
 import { config } from './config.js';
 import { DebugMode, confidenceToPercentage, meetsConfidenceThreshold, CorrectionCapture, SemanticSuggestion, ConversationTurn, SQLValidationResult } from './types.js';
 import { SemanticLearner } from './agent/semanticLearner.js';
+import { setSessionParam, resolveSessionParams, filterSchemaByRowFilters } from './services/rowFilter.js';
+import { formatSchemaChange } from './services/schemaDrift.js';
+import { computeLineage, formatLineage } from './services/columnLineage.js';
+import { formatCostTotals, formatUsd, sumCostTotals } from './services/llmCost.js';
+import { formatBudgetStop } from './services/budget.js';
+import { takeLLMCalls } from './llm/usage.js';
+import { formatLLMOutputFailures } from './llm/structured.js';
+import { getLLMResponseCache } from './llm/cache.js';
+import { formatLLMCacheHits } from './services/llmCache.js';
+import { listPromptTemplates } from './llm/prompts.js';
+import { formatPromptTemplates } from './services/promptVersions.js';
 
 const rl = readline.createInterface({
   input: process.stdin,
@@ -183,7 +207,8 @@ async function handleCommand(cmd: string, args: string[]): Promise<boolean> {
         const pool = getInspectedDbPool();
         const client = await pool.connect();
         try {
-          await refreshAllMetadata(client);
+          // /refresh-metadata <table...> refreshes (and re-profiles) only those tables
+          await refreshAllMetadata(client, args, config.searchPath, config.rowFilters);
           console.log('\n✅ Metadata refreshed successfully!\n');
         } finally {
           client.release();
@@ -195,13 +220,113 @@ async function handleCommand(cmd: string, args: string[]): Promise<boolean> {
       return false;
     }
     
+    case '/schema-changes': {
+      if (!config.controlDbUrl) {
+        console.log('\n⚠️  Control database not configured. Set CONTROL_DB_URL to track schema changes.\n');
+        return false;
+      }
+      
+      const limit = parseInt(args[0], 10) || 10;
+      const records = await getSchemaChanges(limit);
+      if (records.length === 0) {
+        console.log('\nNo schema fingerprints recorded yet. Run /refresh-metadata to record a baseline.\n');
+        return false;
+      }
+      
+      console.log('\nSchema change history (newest first):');
+      for (const record of records) {
+        const when = record.detectedAt ? record.detectedAt.toLocaleString() : 'unknown';
+        const label = record.previousFingerprint ? `${record.changes.length} change(s)` : 'baseline';
+        console.log(`\n  ${when}  [${record.fingerprint.slice(0, 12)}]  ${label}`);
+        for (const change of record.changes) {
+          console.log(`    ${formatSchemaChange(change)}`);
+        }
+        for (const affected of record.affectedSemantics) {
+          console.log(`    ⚠️  Semantic "${affected.name}" flagged for review: ${affected.reason}`);
+        }
+      }
+      console.log('');
+      return false;
+    }
+    
+    case '/lineage': {
+      if (lastSqlQueries.length === 0) {
+        console.log('\nNo previous answer. Ask a question first.\n');
+        return false;
+      }
+      
+      console.log(`\nColumn lineage of the last answer ("${lastQuestion}"):`);
+      lastSqlQueries.forEach((sql, i) => {
+        const lineage = computeLineage(sql);
+        console.log(`\n  Query ${i + 1}: ${sql.replace(/\s+/g, ' ').trim()}`);
+        console.log(lineage.columns.length > 0 ? formatLineage(lineage, '    ') : '    (no lineage - not a SELECT)');
+      });
+      console.log('');
+      return false;
+    }
+    
+    case '/cost-summary': {
+      if (!config.controlDbUrl) {
+        console.log('\n⚠️  Control database not configured. Set CONTROL_DB_URL to track LLM costs.\n');
+        return false;
+      }
+      
+      const byRole = await getLLMCostTotals('role');
+      const total = sumCostTotals(byRole);
+      console.log(`\nLLM usage (all time): ${total.calls} calls, ${total.inputTokens.toLocaleString('en-US')} input / ${total.outputTokens.toLocaleString('en-US')} output tokens, ${formatUsd(total.costUsd)}`);
+      if (total.unpricedCalls > 0) {
+        console.log(`  ${total.unpricedCalls} call(s) used models without a price - add them to LLM_PRICES`);
+      }
+      console.log('\nBy role:');
+      console.log(formatCostTotals(byRole));
+      console.log('\nBy model:');
+      console.log(formatCostTotals(await getLLMCostTotals('model')));
+      console.log('\nTop questions:');
+      console.log(formatCostTotals(await getLLMCostTotals('question', undefined, 5)));
+      console.log('');
+      return false;
+    }
+    
+    case '/cost-breakdown': {
+      if (!config.controlDbUrl) {
+        console.log('\n⚠️  Control database not configured. Set CONTROL_DB_URL to track LLM costs.\n');
+        return false;
+      }
+      
+      const days = parseInt(args[0], 10) || 7;
+      const byRole = await getLLMCostTotals('role', days);
+      const total = sumCostTotals(byRole);
+      console.log(`\nLLM usage in the last ${days} day(s): ${total.calls} calls, ${formatUsd(total.costUsd)}`);
+      console.log('\nBy role:');
+      console.log(formatCostTotals(byRole));
+      console.log('\nBy model:');
+      console.log(formatCostTotals(await getLLMCostTotals('model', days)));
+      console.log('\nBy user:');
+      console.log(formatCostTotals(await getLLMCostTotals('user', days)));
+      console.log('\nBy question (top 10):');
+      console.log(formatCostTotals(await getLLMCostTotals('question', days, 10)));
+      console.log('');
+      return false;
+    }
+    
+    case '/prompts': {
+      const stats = config.controlDbUrl ? await getPromptVersionStats() : [];
+      console.log(`\nActive prompt templates${config.promptOverridesDir ? ` (overrides: ${config.promptOverridesDir})` : ''}:`);
+      console.log(formatPromptTemplates(listPromptTemplates(), stats));
+      if (!config.controlDbUrl) {
+        console.log('\n⚠️  Control database not configured. Set CONTROL_DB_URL to compare versions by run outcome.');
+      }
+      console.log('');
+      return false;
+    }
+    
     case '/show-schema': {
       const tableName = args[0];
       const pool = getInspectedDbPool();
       const client = await pool.connect();
       try {
-        const schema = await getSchema(client);
-        const formatted = formatSchemaForLLM(schema, tableName);
+        const schema = filterSchemaByRowFilters(await getSchema(client), config.rowFilters, config.searchPath);
+        const formatted = formatSchemaForLLM(schema, tableName, config.accessPolicy, config.searchPath);
         console.log('\n' + formatted + '\n');
       } finally {
         client.release();
@@ -209,6 +334,38 @@ async function handleCommand(cmd: string, args: string[]): Promise<boolean> {
       return false;
     }
     
+    case '/session': {
+      // /session <name> <value> sets a parameter for row filters; /session alone shows them
+      const [name, ...valueParts] = args;
+      if (name && valueParts.length > 0) {
+        try {
+          setSessionParam(name, valueParts.join(' '));
+          console.log(`✓ Session parameter ${name} set\n`);
+        } catch (error: any) {
+          console.log(`\n❌ ${error.message}\n`);
+        }
+        return false;
+      }
+      
+      const params = resolveSessionParams(config.sessionParams);
+      console.log('\nSession parameters:');
+      if (Object.keys(params).length === 0) {
+        console.log('  (none)');
+      }
+      for (const [key, value] of Object.entries(params)) {
+        console.log(`  ${key} = ${value}`);
+      }
+      console.log('\nRow filters:');
+      if (config.rowFilters.length === 0) {
+        console.log('  (none)');
+      }
+      for (const filter of config.rowFilters) {
+        console.log(`  ${filter.table}: ${filter.predicate}`);
+      }
+      console.log('\nUsage: /session <name> <value>\n');
+      return false;
+    }
+    
     case '/show-semantics': {
       if (!config.controlDbUrl) {
         console.log('\n⚠️  Control database not configured. Set CONTROL_DB_URL to use semantics.\n');
@@ -303,10 +460,16 @@ Available commands:
       off   - Execute all queries automatically
       smart - Review only queries without semantics OR confidence < ${config.debugModeConfidenceThreshold}%
   /refresh-schema          - Refresh the database schema cache
-  /refresh-metadata        - Refresh table metadata (indexes, sizes, FKs) from inspected DB
+  /refresh-metadata [tbl]  - Refresh table metadata (indexes, sizes, FKs) and column value profiles
+  /schema-changes [n]      - Show the last n detected schema changes and the semantics they broke
+  /lineage                 - Show where each column of the last answer comes from (source columns, filters, joins)
+  /cost-summary            - Show LLM token usage and cost by role, model and question
+  /cost-breakdown [days]   - Show LLM cost of the last n days (default 7) by role, model, user and question
+  /prompts                 - Show active prompt templates and their versions with run outcomes per version
   /refresh-semantics       - Refresh semantics from control database (force fresh query)
   /show-schema [table]     - Show database schema (optionally filtered by table)
   /show-semantics          - Show business semantics definitions
+  /session [name value]    - Show or set session parameters used by row filters
   /review-suggestions      - Review pending semantic suggestions for approval
   /explore <table> [col]   - Explore database schema to discover semantic patterns
   /help                    - Show this help message
@@ -534,7 +697,17 @@ function displayValidationDetails(validation: SQLValidationResult): void {
   }
   
   console.log(`\n📈 Confidence: ${(validation.confidence * 100).toFixed(0)}% (${validation.confidence >= 0.8 ? 'high' : validation.confidence >= 0.5 ? 'medium' : 'low'})`);
-  console.log(`⚡ Performance Risk: ${validation.performanceRisk.toUpperCase()}`);
+  console.log(`⚡ Performance Risk: ${validation.performanceRisk.toUpperCase()}${validation.costAnalysis ? ' (from query plan)' : ''}`);
+  
+  if (validation.costAnalysis) {
+    const cost = validation.costAnalysis;
+    if (!cost.explainError) {
+      console.log(`💸 Estimated cost: ${cost.totalCost.toFixed(0)} | Estimated rows: ${cost.estimatedRows}`);
+    }
+    cost.findings.forEach(finding => {
+      console.log(`   • ${finding}`);
+    });
+  }
   
   if (validation.grain) {
     console.log(`📊 Grain: ${validation.grain.replace('_', ' ')}`);
@@ -741,6 +914,50 @@ async function main() {
         console.warn('⚠️  Metadata table initialization failed:', error);
       }
       
+      // Add newer run_logs columns (policy violations, ...)
+      try {
+        await initializeRunLogColumns();
+      } catch (error) {
+        console.warn('⚠️  Run log columns initialization failed:', error);
+      }
+      
+      try {
+        await initializePiiClassificationTable();
+      } catch (error) {
+        console.warn('⚠️  PII classification table initialization failed:', error);
+      }
+      
+      try {
+        await initializeColumnProfileTable();
+      } catch (error) {
+        console.warn('⚠️  Column profile table initialization failed:', error);
+      }
+      
+      try {
+        await initializeSchemaChangeTable();
+      } catch (error) {
+        console.warn('⚠️  Schema change table initialization failed:', error);
+      }
+      
+      try {
+        await initializeLLMCallTable();
+      } catch (error) {
+        console.warn('⚠️  LLM call table initialization failed:', error);
+      }
+      
+      if (config.llm.cache?.store === 'db') {
+        try {
+          await initializeLLMCacheTable();
+          getLLMResponseCache(config.llm.cache).setStore({
+            get: getLLMCacheEntry,
+            set: saveLLMCacheEntry,
+            invalidate: deleteLLMCacheEntries,
+          });
+        } catch (error) {
+          console.warn('⚠️  LLM response cache table initialization failed (caching in memory only):', error);
+        }
+      }
+      
       // Check if metadata needs refresh (older than 7 days)
       try {
         const metadata = await getAllTableMetadata();
@@ -755,7 +972,7 @@ async function main() {
           const pool = getInspectedDbPool();
           const client = await pool.connect();
           try {
-            await refreshAllMetadata(client);
+            await refreshAllMetadata(client, [], config.searchPath, config.rowFilters);
           } finally {
             client.release();
           }
@@ -844,16 +1061,43 @@ async function main() {
         totalSteps: number,
         hasSemantics: boolean,
         confidence: 'high' | 'medium' | 'low',
-        validationResult?: import('./types.js').SQLValidationResult
+        validationResult?: import('./types.js').SQLValidationResult,
+        guardRejection?: string
       ): Promise<boolean> => {
+        // Blocked by the guard: show why (ON/SMART) and offer a manual edit - never executes
+        if (guardRejection) {
+          if (debugMode === 'off') {
+            return false;
+          }
+          
+          console.log(`\n🛡️  [GUARD] Step ${stepNumber}/${totalSteps} - Query blocked:`);
+          console.log(`\n${sql}\n`);
+          console.log(`⛔ Reason: ${guardRejection}\n`);
+          
+          const response = await question('Edit this query? (edit/n): ');
+          const input = response.trim().toLowerCase();
+          
+          if (input === 'edit' || input === 'e') {
+            await handleManualSqlEdit(trimmed, sql, stepNumber, totalSteps);
+          }
+          return false;
+        }
+        
+        // Expensive plans (cost gate) need explicit approval in every mode
+        const needsCostConfirmation = validationResult?.costAnalysis?.decision === 'confirm';
+        
         // OFF mode: always approve
-        if (debugMode === 'off') {
+        if (debugMode === 'off' && !needsCostConfirmation) {
           return true;
         }
         
         // ON mode: always ask
-        if (debugMode === 'on') {
-          console.log(`\n🐛 [DEBUG] Step ${stepNumber}/${totalSteps} - Query ready for execution:`);
+        if (debugMode === 'on' || needsCostConfirmation) {
+          if (needsCostConfirmation) {
+            console.log(`\n💸 [COST] Step ${stepNumber}/${totalSteps} - Expensive query needs confirmation:`);
+          } else {
+            console.log(`\n🐛 [DEBUG] Step ${stepNumber}/${totalSteps} - Query ready for execution:`);
+          }
           console.log(`\n${sql}\n`);
           
           // Display validation details if available
@@ -973,7 +1217,16 @@ async function main() {
         conversationHistory = []; // Clear conversation history on cancellation
       } else {
         console.log(`\n💡 Answer:\n${answer}\n`);
-        console.log(`📊 Summary: ${logs.steps} steps, ${logs.queries} queries, ${logs.totalRows} total rows, ${logs.totalDuration}ms total\n`);
+        if (logs.budgetStop) {
+          console.log(`⚠️  Stopped early - ${formatBudgetStop(logs.budgetStop)}`);
+        }
+        if (debugMode !== 'off' && logs.outputFailures.length > 0) {
+          console.log(formatLLMOutputFailures(logs.outputFailures));
+        }
+        if (debugMode !== 'off' && logs.cacheHits.length > 0) {
+          console.log(formatLLMCacheHits(logs.cacheHits));
+        }
+        console.log(`📊 Summary: ${logs.steps} steps, ${logs.queries} queries, ${logs.totalRows} total rows, ${logs.totalDuration}ms total, ${logs.llmCalls} LLM calls (${formatUsd(logs.llmCostUsd)})\n`);
         
         // Track for correction capture
         lastQuestion = trimmed;
@@ -1004,7 +1257,8 @@ async function main() {
     }
   }
   
-  // Cleanup
+  // Cleanup (LLM calls made after the last question are saved without a run)
+  await insertLLMCalls(takeLLMCalls(), undefined, undefined, config.userName).catch(() => undefined);
   await closeAllPools();
   rl.close();
   console.log('\n👋 Goodbye!');
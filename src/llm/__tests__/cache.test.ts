@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CachedProvider, FileLLMCacheStore, LLMResponseCache, takeLLMCacheHits } from '../cache.js';
+import { FakeLLMProvider } from '../fake.js';
+import { LLMCacheEntry } from '../../types.js';
+
+function entry(key: string, context = '', expiresAt = Date.now() + 60_000): LLMCacheEntry {
+  return {
+    key,
+    role: 'planner',
+    provider: 'Fake',
+    model: 'fake',
+    context,
+    response: { text: key, model: 'fake' },
+    createdAt: Date.now(),
+    expiresAt,
+  };
+}
+
+describe('LLM response cache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'llm-cache-'));
+    takeLLMCacheHits();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should answer a repeated request from the cache and report the hit', async () => {
+    const fake = new FakeLLMProvider([{ response: { status: 'READY', steps: [] } }], 'planner');
+    const llm = new CachedProvider(fake, 'planner', new LLMResponseCache(10), 60);
+
+    const first = await llm.generateJSON('Plan: total revenue');
+    const second = await llm.generateJSON('Plan: total revenue');
+    await llm.generateJSON('Plan: total revenue', { temperature: 0.7 });
+
+    expect(second.data).toEqual(first.data);
+    expect(fake.prompts).toHaveLength(2);
+    expect(takeLLMCacheHits()).toEqual([
+      expect.objectContaining({ role: 'planner', model: 'fake', inputTokens: first.usage!.inputTokens }),
+    ]);
+  });
+
+  it('should not keep responses that fail validation', async () => {
+    const fake = new FakeLLMProvider([{ response: { status: 'READY' } }], 'planner');
+    const llm = new CachedProvider(fake, 'planner', new LLMResponseCache(10), 60);
+    const validate = (data: unknown) => Array.isArray((data as { steps?: unknown }).steps) ? [] : ['$.steps is required'];
+
+    await llm.generateJSON('Plan: total revenue', { validate });
+    await llm.generateJSON('Plan: total revenue', { validate });
+
+    expect(fake.prompts).toHaveLength(2);
+    expect(takeLLMCacheHits()).toEqual([]);
+  });
+
+  it('should evict the least recently used entry and skip expired ones', async () => {
+    const cache = new LLMResponseCache(2);
+    await cache.set(entry('a'));
+    await cache.set(entry('b'));
+    await cache.get('a');
+    await cache.set(entry('c'));
+
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('a')).toBeDefined();
+    expect(await cache.get('c', Date.now() + 120_000)).toBeUndefined();
+  });
+
+  it('should keep entries in the file store until the context changes', async () => {
+    const path = join(dir, 'llm_cache.json');
+    const cache = new LLMResponseCache(10, new FileLLMCacheStore(path));
+    await cache.setContext('schema-v1');
+    const key = cache.key('Fake', 'fake', 'text', 'prompt');
+    await cache.set(entry(key, 'schema-v1'));
+    await cache.set(entry('expired', 'schema-v1', Date.now() - 1));
+
+    const restarted = new LLMResponseCache(10, new FileLLMCacheStore(path));
+    await restarted.setContext('schema-v1');
+    expect(restarted.key('Fake', 'fake', 'text', 'prompt')).toBe(key);
+    expect((await restarted.get(key))?.response.text).toBe(key);
+    expect(await restarted.get('expired')).toBeUndefined();
+
+    await restarted.setContext('schema-v2');
+    expect(restarted.key('Fake', 'fake', 'text', 'prompt')).not.toBe(key);
+    expect(await restarted.get(key)).toBeUndefined();
+    expect(await new FileLLMCacheStore(path).get(key)).toBeUndefined();
+  });
+});
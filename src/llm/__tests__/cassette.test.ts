@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Cassette, CassetteProvider, hashPrompt } from '../cassette.js';
+import { FakeLLMProvider } from '../fake.js';
+
+const planPrompt = 'Plan the question: revenue by region\nSchema: orders(id, region, total)';
+
+function fakeLLM(): FakeLLMProvider {
+  return new FakeLLMProvider([
+    { match: 'Plan the question', response: { status: 'READY', steps: [{ stepNumber: 1, description: 'Sum totals' }] } },
+    { match: /Write SQL/, response: 'SELECT region, SUM(total) FROM orders GROUP BY region' },
+  ], 'planner');
+}
+
+let path: string;
+
+beforeEach(() => {
+  path = join(mkdtempSync(join(tmpdir(), 'cassette-')), 'planner.json');
+});
+
+async function record(): Promise<FakeLLMProvider> {
+  const inner = fakeLLM();
+  const provider = new CassetteProvider(new Cassette(path, 'record'), 'planner', 'fake', inner);
+  await provider.generateJSON(planPrompt);
+  await provider.generateText('Write SQL for step 1');
+  return inner;
+}
+
+describe('Fake LLM provider', () => {
+  it('should answer with the first matching rule', async () => {
+    const llm = fakeLLM();
+    expect((await llm.generateText('Write SQL for step 1')).text).toBe('SELECT region, SUM(total) FROM orders GROUP BY region');
+    expect((await llm.generateJSON<{ status: string }>(planPrompt)).data.status).toBe('READY');
+    expect(llm.prompts).toHaveLength(2);
+  });
+
+  it('should only use rules for its role', async () => {
+    const llm = new FakeLLMProvider([{ role: 'interpreter', response: 'done' }], 'planner');
+    await expect(llm.generateText('anything')).rejects.toThrow('No fake LLM response for planner');
+  });
+});
+
+describe('Cassettes', () => {
+  it('should record prompts and responses keyed by prompt hash', async () => {
+    await record();
+    const file = JSON.parse(readFileSync(path, 'utf8'));
+    expect(file.entries.map((entry: any) => [entry.role, entry.call, entry.kind, entry.promptHash])).toEqual([
+      ['planner', 1, 'json', hashPrompt('json', planPrompt)],
+      ['planner', 2, 'text', hashPrompt('text', 'Write SQL for step 1')],
+    ]);
+  });
+
+  it('should replay without the recorded provider', async () => {
+    await record();
+    const provider = new CassetteProvider(new Cassette(path, 'replay'), 'planner', 'fake');
+    expect((await provider.generateJSON<{ steps: unknown[] }>(planPrompt)).data.steps).toHaveLength(1);
+    expect((await provider.generateText('Write SQL for step 1')).text).toContain('GROUP BY region');
+  });
+
+  it('should flag a prompt that changed since recording', async () => {
+    await record();
+    const provider = new CassetteProvider(new Cassette(path, 'replay'), 'planner', 'fake');
+    const error = await provider.generateJSON(planPrompt.replace('orders(id, region, total)', 'orders(id, region, amount)'))
+      .catch(e => e);
+    expect(error.message).toContain('the planner prompt of call 1 changed since it was recorded');
+    expect(error.message).toContain('line 2 recorded: Schema: orders(id, region, total)');
+    expect(error.message).toContain('line 2 now:      Schema: orders(id, region, amount)');
+  });
+
+  it('should ignore query durations when hashing', () => {
+    expect(hashPrompt('json', 'Execution time: 12ms')).toBe(hashPrompt('json', 'Execution time: 340ms'));
+  });
+});
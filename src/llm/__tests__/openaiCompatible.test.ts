@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OpenAICompatibleProvider } from '../openaiCompatible.js';
+import { extractJSON } from '../json.js';
+
+function mockFetch(status: number, body: unknown) {
+  const fetchMock = vi.fn(async () => new Response(
+    typeof body === 'string' ? body : JSON.stringify(body),
+    { status, headers: { 'Content-Type': 'application/json' } }
+  ));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function completion(content: string) {
+  return {
+    model: 'llama3.1:8b',
+    choices: [{ message: { role: 'assistant', content } }],
+    usage: { prompt_tokens: 12, completion_tokens: 5 },
+  };
+}
+
+const provider = new OpenAICompatibleProvider({
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1:8b',
+  jsonMode: true,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAI-compatible provider', () => {
+  it('should post a chat completion and report usage', async () => {
+    const fetchMock = mockFetch(200, completion('SELECT 1'));
+    const response = await provider.generateText('Write SQL', { temperature: 0 });
+    
+    expect(response).toEqual({ text: 'SELECT 1', model: 'llama3.1:8b', usage: { inputTokens: 12, outputTokens: 5 } });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBeUndefined();
+    expect(JSON.parse(init.body as string)).toEqual({
+      model: 'llama3.1:8b',
+      messages: [{ role: 'user', content: 'Write SQL' }],
+      temperature: 0,
+    });
+  });
+
+  it('should request JSON mode and parse the object', async () => {
+    const fetchMock = mockFetch(200, completion('{"status": "READY", "steps": []}'));
+    const response = await provider.generateJSON('Plan');
+    
+    expect(response.data).toEqual({ status: 'READY', steps: [] });
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(init.body as string).response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('should send the API key as a bearer token', async () => {
+    const fetchMock = mockFetch(200, completion('ok'));
+    await new OpenAICompatibleProvider({
+      baseUrl: 'https://api.openai.com/v1',
+      model: 'gpt-4o-mini',
+      apiKey: 'sk-test',
+      jsonMode: false,
+    }).generateJSON('{}').catch(() => undefined);
+    
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body as string).response_format).toBeUndefined();
+  });
+
+  it('should expose the HTTP status of failed requests for retries', async () => {
+    mockFetch(429, { error: { message: 'Rate limit reached' } });
+    await expect(provider.generateText('Plan')).rejects.toMatchObject({
+      status: 429,
+      message: expect.stringContaining('Rate limit reached'),
+    });
+  });
+});
+
+describe('JSON extraction', () => {
+  it('should strip markdown code fences', () => {
+    expect(extractJSON('```json\n{"status": "FINAL_ANSWER"}\n```')).toEqual({ status: 'FINAL_ANSWER' });
+  });
+
+  it('should find the object inside surrounding prose', () => {
+    expect(extractJSON('Here is the suggestion:\n{"confidence": 0.9}\nLet me know.')).toEqual({ confidence: 0.9 });
+  });
+
+  it('should throw when there is no JSON', () => {
+    expect(() => extractJSON('I cannot answer that.')).toThrow('Failed to extract JSON from LLM response');
+  });
+});
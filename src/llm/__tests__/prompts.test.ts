@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  fillTemplate,
+  getPromptTemplate,
+  listPromptTemplates,
+  promptVersion,
+  renderPrompt,
+  setPromptOverridesDir,
+  takePromptVersions,
+  PROMPT_NAMES,
+} from '../prompts.js';
+
+const template = (text: string) => ({ name: 'planner' as const, path: 'planner.txt', text });
+
+describe('Prompt templates', () => {
+  let overridesDir: string;
+
+  beforeEach(() => {
+    overridesDir = mkdtempSync(join(tmpdir(), 'prompts-'));
+    setPromptOverridesDir(undefined);
+    takePromptVersions();
+  });
+
+  afterEach(() => {
+    setPromptOverridesDir(undefined);
+    rmSync(overridesDir, { recursive: true, force: true });
+  });
+
+  it('should fill variables and sections without expanding values', () => {
+    const text = 'Q: {{question}}\n{{#if history}}History:\n{{history}}\n{{else}}No history\n{{/if}}Rows: {{rows}}';
+
+    expect(fillTemplate(template(text), { question: 'Show {{rows}}', history: 'Turn 1', rows: 3 }))
+      .toBe('Q: Show {{rows}}\nHistory:\nTurn 1\nRows: 3');
+    expect(fillTemplate(template(text), { question: 'x', history: '', rows: 0 })).toBe('Q: x\nNo history\nRows: 0');
+  });
+
+  it('should reject a template variable that is not provided', () => {
+    expect(() => fillTemplate(template('{{#if history}}{{history}}{{/if}} {{question}}'), { history: '' }))
+      .toThrow('Prompt template planner (planner.txt) uses {{question}}, which is not provided');
+  });
+
+  it('should load every default template and record the versions rendered', () => {
+    const templates = listPromptTemplates();
+
+    expect(templates.map(t => t.name)).toEqual(PROMPT_NAMES);
+    expect(templates.every(t => t.source === 'default' && t.version === promptVersion(t.text))).toBe(true);
+    expect(templates.every(t => !t.text.endsWith('\n'))).toBe(true);
+
+    renderPrompt('learnerSqlEdit', { schema: 'orders(id)', question: 'q', originalSql: 'SELECT 1', editedSql: 'SELECT 2' });
+    expect(takePromptVersions()).toEqual({ learnerSqlEdit: getPromptTemplate('learnerSqlEdit').version });
+    expect(takePromptVersions()).toEqual({});
+  });
+
+  it('should prefer a deployment override and version it by its text', () => {
+    const defaultVersion = getPromptTemplate('learnerSqlEdit').version;
+    writeFileSync(join(overridesDir, 'learnerSqlEdit.txt'), 'Compare {{originalSql}} with {{editedSql}}\n');
+    setPromptOverridesDir(overridesDir);
+
+    const override = getPromptTemplate('learnerSqlEdit');
+
+    expect(override).toMatchObject({ source: 'override', path: join(overridesDir, 'learnerSqlEdit.txt') });
+    expect(override.version).toBe(promptVersion('Compare {{originalSql}} with {{editedSql}}'));
+    expect(override.version).not.toBe(defaultVersion);
+    expect(renderPrompt('learnerSqlEdit', { originalSql: 'SELECT 1', editedSql: 'SELECT 2' })).toBe('Compare SELECT 1 with SELECT 2');
+    expect(getPromptTemplate('planner').source).toBe('default');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { generateStructured, takeLLMOutputFailures, validateJSON } from '../structured.js';
+import { FakeLLMProvider } from '../fake.js';
+import { LLMOutputSchema } from '../../types.js';
+
+interface Answer {
+  status: 'DONE' | 'MORE';
+  answer?: string;
+  score?: number;
+}
+
+const ANSWER_OUTPUT: LLMOutputSchema<Answer> = {
+  name: 'answer',
+  schema: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: ['DONE', 'MORE'] },
+      answer: { type: 'string' },
+      score: { type: 'number', minimum: 0, maximum: 1 },
+    },
+    required: ['status'],
+  },
+  check: value => value.status === 'DONE' && !value.answer ? ['$.answer is required when status is DONE'] : [],
+};
+
+beforeEach(() => {
+  takeLLMOutputFailures();
+});
+
+describe('Structured LLM output', () => {
+  it('should report every mismatch with its path', () => {
+    expect(validateJSON({ status: 'done', score: 2, steps: 'none' }, {
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: ['DONE', 'MORE'] },
+        score: { type: 'number', minimum: 0, maximum: 1 },
+        steps: { type: 'array', items: { type: 'object', required: ['description'] } },
+        reason: { type: 'string', nullable: true },
+      },
+      required: ['status', 'reason'],
+    })).toEqual([
+      '$.reason is required',
+      '$.status must be one of DONE, MORE (got "done")',
+      '$.score must be between 0 and 1 (got 2)',
+      '$.steps must be an array',
+    ]);
+    expect(validateJSON([{}, { description: 'x' }], {
+      type: 'array',
+      items: { type: 'object', required: ['description'] },
+    })).toEqual(['$[0].description is required']);
+    expect(validateJSON({ reason: null }, {
+      type: 'object',
+      properties: { reason: { type: 'string', nullable: true } },
+    })).toEqual([]);
+  });
+
+  it('should re-prompt with the problems found and count the repaired failure', async () => {
+    const llm = new FakeLLMProvider([
+      { match: 'previous response was rejected', response: { status: 'DONE', answer: '42' } },
+      { response: { status: 'DONE' } },
+    ]);
+
+    const response = await generateStructured(llm, ANSWER_OUTPUT, 'Answer the question', 1);
+
+    expect(response.data).toEqual({ status: 'DONE', answer: '42' });
+    expect(llm.prompts[1]).toContain('- $.answer is required when status is DONE');
+    expect(llm.prompts[1]).toContain('"enum":["DONE","MORE"]');
+    expect(takeLLMOutputFailures()).toEqual([
+      { output: 'answer', kind: 'schema', problems: ['$.answer is required when status is DONE'], repaired: true },
+    ]);
+  });
+
+  it('should give up after the repair attempts', async () => {
+    const llm = new FakeLLMProvider([{ response: 'Sorry, I cannot answer that.' }]);
+
+    await expect(generateStructured(llm, ANSWER_OUTPUT, 'Answer the question', 1)).rejects.toMatchObject({
+      code: 'INVALID_LLM_OUTPUT',
+      problems: ['the response was not valid JSON'],
+    });
+    expect(llm.prompts).toHaveLength(2);
+    expect(takeLLMOutputFailures().map(f => [f.kind, f.repaired])).toEqual([['parse', false], ['parse', false]]);
+  });
+
+  it('should pass provider errors through unchanged', async () => {
+    const llm = new FakeLLMProvider([]);
+    llm.generateJSON = async () => {
+      throw Object.assign(new Error('Service Unavailable'), { status: 503 });
+    };
+
+    await expect(generateStructured(llm, ANSWER_OUTPUT, 'Answer the question', 1)).rejects.toMatchObject({ status: 503 });
+    expect(takeLLMOutputFailures()).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MeteredProvider, takeLLMCalls } from '../usage.js';
+import { FakeLLMProvider } from '../fake.js';
+import { LLMGenerateOptions, LLMResponse } from '../../types.js';
+
+const prices = { 'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 } };
+
+class ReportingLLM extends FakeLLMProvider {
+  async generateText(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse> {
+    const response = await super.generateText(prompt, options);
+    return { ...response, model: 'gemini-2.5-flash', usage: { inputTokens: 1_000, outputTokens: 200 } };
+  }
+}
+
+beforeEach(() => {
+  takeLLMCalls();
+});
+
+describe('LLM usage metering', () => {
+  it('should record role, model, tokens and cost of each call', async () => {
+    const llm = new MeteredProvider(new ReportingLLM([{ response: { status: 'READY' } }]), 'planner', prices);
+    expect((await llm.generateJSON('Plan')).data).toEqual({ status: 'READY' });
+    
+    const [call] = takeLLMCalls();
+    expect(call).toMatchObject({
+      role: 'planner',
+      provider: 'Fake LLM',
+      model: 'gemini-2.5-flash',
+      inputTokens: 1_000,
+      outputTokens: 200,
+      tokensEstimated: false,
+    });
+    expect(call.costUsd).toBeCloseTo(0.0008);
+    expect(call.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(takeLLMCalls()).toEqual([]);
+  });
+
+  it('should estimate tokens when the provider reports no usage', async () => {
+    const inner = new FakeLLMProvider([{ response: 'SELECT 1' }]);
+    inner.generateText = async prompt => ({ text: `SELECT 1 -- ${prompt}`, model: 'llama3.1:8b' });
+    await new MeteredProvider(inner, 'sqlWriter', prices).generateText('Write SQL for step 1');
+    
+    const [call] = takeLLMCalls();
+    expect(call).toMatchObject({ role: 'sqlWriter', inputTokens: 5, outputTokens: 8, tokensEstimated: true });
+    expect(call.costUsd).toBeUndefined();
+  });
+
+  it('should not record failed calls', async () => {
+    const llm = new MeteredProvider(new FakeLLMProvider([]), 'interpreter', prices);
+    await expect(llm.generateText('Interpret')).rejects.toThrow();
+    expect(takeLLMCalls()).toEqual([]);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * LLM response cache.
+ * Responses are kept in an in-memory LRU and, optionally, a persistent store
+ * (JSON file or control DB), keyed by provider, model, request kind,
+ * temperature, response schema and prompt. Every key also includes the cache
+ * context - a hash of the schema and the semantic set - so responses generated
+ * before either changed are never served; switching context drops them.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import {
+  LLMCacheConfig,
+  LLMCacheEntry,
+  LLMCacheHit,
+  LLMCacheStore,
+  LLMCapabilities,
+  LLMGenerateOptions,
+  LLMJSONResponse,
+  LLMProvider,
+  LLMResponse,
+  LLMRole,
+} from '../types.js';
+import { estimateTokens, extractJSON } from './json.js';
+import { trace } from '../utils/trace.js';
+
+/**
+ * Hits since the last takeLLMCacheHits(); the orchestrator reports them with
+ * the run they belong to
+ */
+const pendingHits: LLMCacheHit[] = [];
+
+/**
+ * Remove and return the hits recorded so far
+ */
+export function takeLLMCacheHits(): LLMCacheHit[] {
+  return pendingHits.splice(0, pendingHits.length);
+}
+
+/**
+ * In-memory LRU in front of an optional persistent store. Store failures are
+ * traced and treated as misses - the cache never fails a call.
+ */
+export class LLMResponseCache {
+  private memory = new Map<string, LLMCacheEntry>();
+  private context = '';
+
+  constructor(private maxEntries: number, private store?: LLMCacheStore) {}
+
+  getContext(): string {
+    return this.context;
+  }
+
+  setStore(store: LLMCacheStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Key of a request in the current context
+   */
+  key(provider: string, model: string, kind: 'text' | 'json', prompt: string, options?: LLMGenerateOptions): string {
+    const request = JSON.stringify([this.context, provider, model, kind, options?.temperature ?? null, options?.schema ?? null]);
+    return createHash('sha256').update(`${request}\n${prompt}`).digest('hex');
+  }
+
+  async get(key: string, now = Date.now()): Promise<LLMCacheEntry | undefined> {
+    let entry = this.memory.get(key);
+    if (!entry && this.store) {
+      entry = await this.store.get(key).catch(error => {
+        trace('cache.get', 'cache store read failed', { error: String(error) });
+        return undefined;
+      });
+    }
+    if (!entry || entry.expiresAt <= now) {
+      this.memory.delete(key);
+      return undefined;
+    }
+    this.remember(entry);
+    return entry;
+  }
+
+  async set(entry: LLMCacheEntry): Promise<void> {
+    this.remember(entry);
+    await this.store?.set(entry).catch(error => {
+      trace('cache.set', 'cache store write failed', { error: String(error) });
+    });
+  }
+
+  /**
+   * Switch to a new schema/semantics context, dropping the responses of every other context
+   */
+  async setContext(context: string): Promise<void> {
+    if (context === this.context) {
+      return;
+    }
+    this.context = context;
+    this.memory.clear();
+    const dropped = await this.store?.invalidate(context).catch(error => {
+      trace('cache.setContext', 'cache store invalidation failed', { error: String(error) });
+      return 0;
+    });
+    trace('cache.setContext', 'cache context changed', { context, dropped });
+  }
+
+  /**
+   * Insert as most recently used, evicting the least recently used past maxEntries
+   */
+  private remember(entry: LLMCacheEntry): void {
+    this.memory.delete(entry.key);
+    this.memory.set(entry.key, entry);
+    while (this.memory.size > this.maxEntries) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+}
+
+interface CacheFile {
+  version: 1;
+  entries: LLMCacheEntry[];
+}
+
+/**
+ * Cache entries in a JSON file, rewritten (without expired entries) after every change
+ */
+export class FileLLMCacheStore implements LLMCacheStore {
+  private entries = new Map<string, LLMCacheEntry>();
+
+  constructor(readonly path: string) {
+    if (existsSync(path)) {
+      const file = JSON.parse(readFileSync(path, 'utf8')) as CacheFile;
+      this.entries = new Map(file.entries.map(entry => [entry.key, entry]));
+    }
+  }
+
+  async get(key: string): Promise<LLMCacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(entry: LLMCacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry);
+    this.save();
+  }
+
+  async invalidate(context: string): Promise<number> {
+    const now = Date.now();
+    const before = this.entries.size;
+    for (const [key, entry] of this.entries) {
+      if (entry.context !== context || entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+    this.save();
+    return before - this.entries.size;
+  }
+
+  private save(): void {
+    const now = Date.now();
+    const file: CacheFile = { version: 1, entries: [...this.entries.values()].filter(entry => entry.expiresAt > now) };
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(file) + '\n');
+  }
+}
+
+let sharedCache: LLMResponseCache | undefined;
+
+/**
+ * The cache shared by all roles, created on first use
+ */
+export function getLLMResponseCache(cacheConfig: LLMCacheConfig): LLMResponseCache {
+  if (!sharedCache) {
+    const store = cacheConfig.store === 'file' ? new FileLLMCacheStore(cacheConfig.path) : undefined;
+    sharedCache = new LLMResponseCache(cacheConfig.maxEntries, store);
+  }
+  return sharedCache;
+}
+
+/**
+ * Set the context of the shared cache (no-op when caching is off)
+ */
+export async function setLLMCacheContext(context: string): Promise<void> {
+  await sharedCache?.setContext(context);
+}
+
+/**
+ * Provider wrapper that answers repeated requests from the cache. Hits are
+ * not passed on, so they are neither metered nor counted against budgets.
+ */
+export class CachedProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+
+  constructor(
+    private inner: LLMProvider,
+    private role: LLMRole,
+    private cache: LLMResponseCache,
+    private ttlSeconds: number
+  ) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.capabilities = inner.capabilities;
+  }
+
+  async generateText(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse> {
+    const key = this.cache.key(this.name, this.model, 'text', prompt, options);
+    const cached = await this.lookup(key, prompt);
+    if (cached) {
+      return cached;
+    }
+    const response = await this.inner.generateText(prompt, options);
+    await this.save(key, response);
+    return response;
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options?: LLMGenerateOptions): Promise<LLMJSONResponse<T>> {
+    const key = this.cache.key(this.name, this.model, 'json', prompt, options);
+    const cached = await this.lookup(key, prompt);
+    if (cached) {
+      return { ...cached, data: extractJSON<T>(cached.text) };
+    }
+    const { data, ...response } = await this.inner.generateJSON<T>(prompt, options);
+    // Responses generateStructured is about to reject would otherwise be served again on retry
+    if (!options?.validate || options.validate(data).length === 0) {
+      await this.save(key, response);
+    }
+    return { ...response, data };
+  }
+
+  async countTokens(text: string): Promise<number> {
+    return this.inner.countTokens(text);
+  }
+
+  private async lookup(key: string, prompt: string): Promise<LLMResponse | undefined> {
+    const entry = await this.cache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    const usage = entry.response.usage
+      || { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(entry.response.text) };
+    pendingHits.push({ role: this.role, model: entry.model, ...usage, ageMs: Date.now() - entry.createdAt });
+    return entry.response;
+  }
+
+  private async save(key: string, response: LLMResponse): Promise<void> {
+    const now = Date.now();
+    await this.cache.set({
+      key,
+      role: this.role,
+      provider: this.name,
+      model: response.model,
+      context: this.cache.getContext(),
+      response,
+      createdAt: now,
+      expiresAt: now + this.ttlSeconds * 1000,
+    });
+  }
+}
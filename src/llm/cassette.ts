@@ -0,0 +1,179 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { LLMCapabilities, LLMGenerateOptions, LLMJSONResponse, LLMProvider, LLMResponse, LLMRole } from '../types.js';
+import { estimateTokens, extractJSON } from './json.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * One recorded LLM call
+ */
+export interface CassetteEntry {
+  role: LLMRole;
+  call: number; // 1-based position among this role's calls
+  kind: 'text' | 'json';
+  promptHash: string;
+  prompt: string;
+  response: LLMResponse;
+}
+
+interface CassetteFile {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+/**
+ * Recorded prompts and responses in a JSON file, keyed by prompt hash.
+ * Record mode starts an empty cassette and writes it after every call;
+ * replay mode answers from the file and never touches the network.
+ * A replayed prompt whose hash is unknown but whose position was recorded
+ * means the prompt changed since recording: that fails as a stale cassette.
+ */
+export class Cassette {
+  private entries: CassetteEntry[] = [];
+  private calls = new Map<LLMRole, number>();
+  
+  constructor(readonly path: string, readonly mode: CassetteMode) {
+    if (mode === 'replay') {
+      if (!existsSync(path)) {
+        throw new Error(`Cassette not found: ${path} (record it with LLM_CASSETTE_MODE=record)`);
+      }
+      this.entries = (JSON.parse(readFileSync(path, 'utf8')) as CassetteFile).entries;
+    }
+  }
+  
+  /**
+   * Recorded response for a prompt
+   * 
+   * @throws Error when the prompt is not on the cassette (stale or missing recording)
+   */
+  replay(role: LLMRole, kind: CassetteEntry['kind'], prompt: string): LLMResponse {
+    const call = this.nextCall(role);
+    const promptHash = hashPrompt(kind, prompt);
+    const candidates = this.entries.filter(entry => entry.role === role && entry.kind === kind);
+    
+    const entry = candidates.find(candidate => candidate.promptHash === promptHash && candidate.call === call)
+      || candidates.find(candidate => candidate.promptHash === promptHash);
+    if (entry) {
+      return entry.response;
+    }
+    
+    const recorded = candidates.find(candidate => candidate.call === call);
+    if (recorded) {
+      throw new Error(
+        `Stale cassette ${this.path}: the ${role} prompt of call ${call} changed since it was recorded\n` +
+        `${describeChange(recorded.prompt, prompt)}\n` +
+        `Re-record with LLM_CASSETTE_MODE=record.`
+      );
+    }
+    throw new Error(`Cassette ${this.path} has no recording for ${role} call ${call} (prompt hash ${promptHash})`);
+  }
+  
+  /**
+   * Add a call to the cassette and save it
+   */
+  record(role: LLMRole, kind: CassetteEntry['kind'], prompt: string, response: LLMResponse): void {
+    this.entries.push({
+      role,
+      call: this.nextCall(role),
+      kind,
+      promptHash: hashPrompt(kind, prompt),
+      prompt,
+      response,
+    });
+    
+    const file: CassetteFile = { version: 1, entries: this.entries };
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(file, null, 2) + '\n');
+  }
+  
+  private nextCall(role: LLMRole): number {
+    const call = (this.calls.get(role) || 0) + 1;
+    this.calls.set(role, call);
+    return call;
+  }
+}
+
+const cassettes = new Map<string, Cassette>();
+
+/**
+ * The cassette for a file, shared by all roles so one run records into one file
+ */
+export function openCassette(path: string, mode: CassetteMode): Cassette {
+  const key = `${mode}:${path}`;
+  let cassette = cassettes.get(key);
+  if (!cassette) {
+    cassette = new Cassette(path, mode);
+    cassettes.set(key, cassette);
+  }
+  return cassette;
+}
+
+/**
+ * Hash of a prompt. Query durations ("Execution time: 42ms") differ between
+ * runs, so they are normalized before hashing.
+ */
+export function hashPrompt(kind: CassetteEntry['kind'], prompt: string): string {
+  const normalized = prompt.replace(/\b\d+ms\b/g, '<n>ms');
+  return createHash('sha256').update(`${kind}\n${normalized}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * First line that differs between the recorded and the current prompt
+ */
+function describeChange(recorded: string, current: string): string {
+  const recordedLines = recorded.split('\n');
+  const currentLines = current.split('\n');
+  let line = 0;
+  while (line < recordedLines.length && recordedLines[line] === currentLines[line]) {
+    line++;
+  }
+  return `  line ${line + 1} recorded: ${recordedLines[line] ?? '(end of prompt)'}\n` +
+    `  line ${line + 1} now:      ${currentLines[line] ?? '(end of prompt)'}`;
+}
+
+/**
+ * Provider that records another provider's responses (record mode) or
+ * answers from the cassette alone (replay mode)
+ */
+export class CassetteProvider implements LLMProvider {
+  readonly name: string;
+  readonly capabilities: LLMCapabilities;
+  
+  constructor(
+    private cassette: Cassette,
+    private role: LLMRole,
+    readonly model: string,
+    private inner?: LLMProvider
+  ) {
+    if (cassette.mode === 'record' && !inner) {
+      throw new Error('Recording a cassette needs a provider to record from');
+    }
+    this.name = inner ? inner.name : `Cassette (${cassette.path})`;
+    this.capabilities = inner ? inner.capabilities : { jsonMode: true, exactTokenCount: false, jsonSchema: false };
+  }
+  
+  async generateText(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse> {
+    if (this.cassette.mode === 'replay') {
+      return this.cassette.replay(this.role, 'text', prompt);
+    }
+    const response = await this.inner!.generateText(prompt, options);
+    this.cassette.record(this.role, 'text', prompt, response);
+    return response;
+  }
+  
+  async generateJSON<T = unknown>(prompt: string, options?: LLMGenerateOptions): Promise<LLMJSONResponse<T>> {
+    if (this.cassette.mode === 'replay') {
+      const response = this.cassette.replay(this.role, 'json', prompt);
+      return { ...response, data: extractJSON<T>(response.text) };
+    }
+    const { data, ...response } = await this.inner!.generateJSON<T>(prompt, options);
+    this.cassette.record(this.role, 'json', prompt, response);
+    return { ...response, data };
+  }
+  
+  async countTokens(text: string): Promise<number> {
+    return this.inner ? this.inner.countTokens(text) : estimateTokens(text);
+  }
+}
@@ -0,0 +1,76 @@
+import { readFileSync } from 'fs';
+import { LLMCapabilities, LLMGenerateOptions, LLMJSONResponse, LLMProvider, LLMResponse, LLMRole } from '../types.js';
+import { estimateTokens, extractJSON } from './json.js';
+
+/**
+ * A scripted response: the first rule whose role and match fit the prompt answers it
+ */
+export interface FakeLLMRule {
+  role?: LLMRole; // Only answer prompts of this role
+  match?: string | RegExp; // Substring or pattern the prompt must contain (fixture files: "/pattern/flags")
+  response: string | object | ((prompt: string) => string | object); // Objects are returned as JSON
+}
+
+/**
+ * Deterministic provider for offline tests and demos (LLM_PROVIDER=fake).
+ * Answers from rules given in code or loaded from a JSON fixture file
+ * (LLM_FAKE_FIXTURE); a prompt no rule matches is an error.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'Fake LLM';
+  readonly capabilities: LLMCapabilities = { jsonMode: true, exactTokenCount: false, jsonSchema: false };
+  readonly prompts: string[] = []; // Every prompt answered, in order
+  
+  constructor(private rules: FakeLLMRule[], private role?: LLMRole, readonly model = 'fake') {}
+  
+  /**
+   * Load rules from a fixture file: a JSON array of { role?, match?, response }
+   */
+  static fromFixture(path: string, role?: LLMRole, model?: string): FakeLLMProvider {
+    const rules = JSON.parse(readFileSync(path, 'utf8')) as Array<FakeLLMRule & { match?: string }>;
+    return new FakeLLMProvider(
+      rules.map(rule => ({ ...rule, match: rule.match ? parseMatch(rule.match) : undefined })),
+      role,
+      model
+    );
+  }
+  
+  async generateText(prompt: string, _options?: LLMGenerateOptions): Promise<LLMResponse> {
+    const rule = this.rules.find(candidate =>
+      (!candidate.role || candidate.role === this.role) && matches(candidate.match, prompt)
+    );
+    if (!rule) {
+      throw new Error(`No fake LLM response for ${this.role || 'prompt'}: ${prompt.substring(0, 200)}`);
+    }
+    
+    this.prompts.push(prompt);
+    const response = typeof rule.response === 'function' ? rule.response(prompt) : rule.response;
+    const text = typeof response === 'string' ? response : JSON.stringify(response, null, 2);
+    return {
+      text,
+      model: this.model,
+      usage: { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(text) },
+    };
+  }
+  
+  async generateJSON<T = unknown>(prompt: string, options?: LLMGenerateOptions): Promise<LLMJSONResponse<T>> {
+    const response = await this.generateText(prompt, options);
+    return { ...response, data: extractJSON<T>(response.text) };
+  }
+  
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+}
+
+function parseMatch(match: string): string | RegExp {
+  const pattern = match.match(/^\/(.+)\/([a-z]*)$/s);
+  return pattern ? new RegExp(pattern[1], pattern[2]) : match;
+}
+
+function matches(match: string | RegExp | undefined, prompt: string): boolean {
+  if (match === undefined) {
+    return true;
+  }
+  return typeof match === 'string' ? prompt.includes(match) : match.test(prompt);
+}
@@ -0,0 +1,96 @@
+import { GenerationConfig, GenerativeModel, GoogleGenerativeAI, ResponseSchema, SchemaType } from '@google/generative-ai';
+import { JSONSchema, LLMCapabilities, LLMGenerateOptions, LLMJSONResponse, LLMProvider, LLMResponse } from '../types.js';
+import { extractJSON } from './json.js';
+
+/**
+ * Google Gemini through @google/generative-ai.
+ * API errors carry the HTTP status (error.status), so retryWithBackoff
+ * recognizes 503/429.
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'Google Gemini';
+  readonly capabilities: LLMCapabilities = { jsonMode: true, exactTokenCount: true, jsonSchema: true };
+  private client: GenerativeModel;
+  
+  constructor(apiKey: string, readonly model: string) {
+    this.client = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+  }
+  
+  async generateText(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse> {
+    return this.generate(prompt, this.generationConfig(options));
+  }
+  
+  async generateJSON<T = unknown>(prompt: string, options?: LLMGenerateOptions): Promise<LLMJSONResponse<T>> {
+    const response = await this.generate(prompt, {
+      ...this.generationConfig(options),
+      responseMimeType: 'application/json',
+      responseSchema: options?.schema ? toResponseSchema(options.schema) : undefined,
+    });
+    return { ...response, data: extractJSON<T>(response.text) };
+  }
+  
+  async countTokens(text: string): Promise<number> {
+    const result = await this.client.countTokens(text);
+    return result.totalTokens;
+  }
+  
+  private async generate(prompt: string, generationConfig: GenerationConfig): Promise<LLMResponse> {
+    const result = await this.client.generateContent({
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      generationConfig,
+    });
+    const usage = result.response.usageMetadata;
+    return {
+      text: result.response.text(),
+      model: this.model,
+      usage: usage ? { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount ?? 0 } : undefined,
+    };
+  }
+  
+  private generationConfig(options?: LLMGenerateOptions): GenerationConfig {
+    return {
+      temperature: options?.temperature,
+      maxOutputTokens: options?.maxOutputTokens,
+    };
+  }
+}
+
+/**
+ * Gemini's responseSchema for a JSON schema, or undefined when it has
+ * free-form objects (Gemini requires the properties of every object and
+ * would drop the undeclared ones)
+ */
+function toResponseSchema(schema: JSONSchema): ResponseSchema | undefined {
+  const converted: ResponseSchema = {
+    type: schema.type as SchemaType,
+    description: schema.description,
+    nullable: schema.nullable,
+    enum: schema.enum,
+    required: schema.required,
+  };
+  
+  if (schema.type === 'object') {
+    const properties = Object.entries(schema.properties || {});
+    if (properties.length === 0) {
+      return undefined;
+    }
+    converted.properties = {};
+    for (const [name, property] of properties) {
+      const convertedProperty = toResponseSchema(property);
+      if (!convertedProperty) {
+        return undefined;
+      }
+      converted.properties[name] = convertedProperty;
+    }
+  }
+  
+  if (schema.items) {
+    const items = toResponseSchema(schema.items);
+    if (!items) {
+      return undefined;
+    }
+    converted.items = items;
+  }
+  
+  return converted;
+}
@@ -0,0 +1,44 @@
+/**
+ * JSON extraction from LLM responses.
+ * Models without a native JSON mode (and some with one) wrap the object in
+ * markdown code fences or surround it with prose.
+ */
+
+/**
+ * Parse the JSON value in an LLM response
+ *
+ * @throws Error (code INVALID_JSON) when the response contains no parseable JSON object or array
+ */
+export function extractJSON<T = unknown>(text: string): T {
+  let jsonText = text.trim();
+  
+  // Remove markdown code blocks if present
+  if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/^```(?:json)?\s*\n?/i, '').replace(/\n?```\s*$/, '').trim();
+  }
+  
+  try {
+    return JSON.parse(jsonText);
+  } catch {
+    // Fall back to the outermost object (or array) inside surrounding prose
+    const match = jsonText.match(/\{[\s\S]*\}/) || jsonText.match(/\[[\s\S]*\]/);
+    if (match) {
+      try {
+        return JSON.parse(match[0]);
+      } catch {
+        // Reported below
+      }
+    }
+  }
+  
+  throw Object.assign(new Error(`Failed to extract JSON from LLM response: ${text.substring(0, 500)}`), {
+    code: 'INVALID_JSON',
+  });
+}
+
+/**
+ * Rough token count for providers that cannot count (about 4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,101 @@
+import { LLMCapabilities, LLMGenerateOptions, LLMJSONResponse, LLMProvider, LLMResponse } from '../types.js';
+import { estimateTokens, extractJSON } from './json.js';
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  model: string;
+  apiKey?: string; // Sent as a bearer token when set
+  jsonMode: boolean; // Request response_format json_object
+}
+
+interface ChatCompletion {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API: OpenAI itself and
+ * local inference servers (vLLM, Ollama, llama.cpp, LM Studio).
+ * Failed requests are thrown with the HTTP status (error.status) or the
+ * network error code (error.code), so retryWithBackoff can retry them.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+  
+  constructor(private options: OpenAICompatibleOptions) {
+    this.model = options.model;
+    this.name = `OpenAI-compatible (${options.baseUrl})`;
+    this.capabilities = { jsonMode: options.jsonMode, exactTokenCount: false, jsonSchema: false };
+  }
+  
+  async generateText(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse> {
+    return this.complete(prompt, options, false);
+  }
+  
+  async generateJSON<T = unknown>(prompt: string, options?: LLMGenerateOptions): Promise<LLMJSONResponse<T>> {
+    const response = await this.complete(prompt, options, this.capabilities.jsonMode);
+    return { ...response, data: extractJSON<T>(response.text) };
+  }
+  
+  /**
+   * The chat completions API has no token counting endpoint
+   */
+  async countTokens(text: string): Promise<number> {
+    return estimateTokens(text);
+  }
+  
+  private async complete(prompt: string, options: LLMGenerateOptions | undefined, json: boolean): Promise<LLMResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+    
+    const body = {
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: options?.temperature,
+      max_tokens: options?.maxOutputTokens,
+      response_format: json ? { type: 'json_object' } : undefined,
+    };
+    
+    let response: Response;
+    try {
+      response = await fetch(`${this.options.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+      });
+    } catch (error: any) {
+      // fetch reports connection failures as TypeError with the socket error as cause
+      throw Object.assign(new Error(`${this.name} request failed: ${error?.cause?.message || error?.message}`), {
+        code: error?.cause?.code,
+      });
+    }
+    
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw Object.assign(
+        new Error(`${this.name} request failed (${response.status} ${response.statusText}): ${detail.substring(0, 500)}`),
+        { status: response.status }
+      );
+    }
+    
+    const completion = await response.json() as ChatCompletion;
+    const text = completion.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error(`${this.name} returned no message content`);
+    }
+    
+    return {
+      text,
+      model: completion.model || this.model,
+      usage: completion.usage ? {
+        inputTokens: completion.usage.prompt_tokens ?? 0,
+        outputTokens: completion.usage.completion_tokens ?? 0,
+      } : undefined,
+    };
+  }
+}
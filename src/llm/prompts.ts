@@ -0,0 +1,113 @@
+/**
+ * Prompt template registry.
+ * Templates are text files in prompts/ with {{variable}} placeholders and
+ * {{#if variable}}...{{else}}...{{/if}} sections (shown when the variable is
+ * non-empty). A deployment overrides a template by putting a file with the
+ * same name in its overrides directory (PROMPT_OVERRIDES_DIR). Each template
+ * is versioned by a hash of its text; the versions a run used are stored in
+ * its run log.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { PromptName, PromptTemplate, PromptVariables, PromptVersions } from '../types.js';
+
+export const PROMPT_NAMES: PromptName[] = [
+  'planner',
+  'sqlWriter',
+  'sqlRepair',
+  'interpreter',
+  'learnerCorrection',
+  'learnerSqlEdit',
+  'learnerDiscovery',
+  'orchestratorDecision',
+];
+
+const DEFAULT_PROMPTS_DIR = fileURLToPath(new URL('../../prompts/', import.meta.url));
+
+let overridesDir: string | undefined;
+const templates = new Map<PromptName, PromptTemplate>();
+
+/**
+ * Versions rendered since the last takePromptVersions()
+ */
+let usedVersions: PromptVersions = {};
+
+/**
+ * Set the overrides directory (config.promptOverridesDir); templates are reloaded
+ */
+export function setPromptOverridesDir(dir: string | undefined): void {
+  overridesDir = dir;
+  templates.clear();
+}
+
+/**
+ * First 12 hex characters of the SHA-256 of a template's text
+ */
+export function promptVersion(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 12);
+}
+
+/**
+ * The active template: the override if the deployment has one, else the default
+ */
+export function getPromptTemplate(name: PromptName): PromptTemplate {
+  const cached = templates.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  const overridePath = overridesDir ? join(overridesDir, `${name}.txt`) : undefined;
+  const source = overridePath && existsSync(overridePath) ? 'override' : 'default';
+  const path = source === 'override' ? overridePath! : join(DEFAULT_PROMPTS_DIR, `${name}.txt`);
+  const text = readFileSync(path, 'utf8').replace(/\r?\n$/, ''); // Files end with a newline, prompts do not
+
+  const template: PromptTemplate = { name, version: promptVersion(text), source, path, text };
+  templates.set(name, template);
+  return template;
+}
+
+export function listPromptTemplates(): PromptTemplate[] {
+  return PROMPT_NAMES.map(getPromptTemplate);
+}
+
+/**
+ * Fill in a template and record its version for the run log
+ *
+ * @throws Error when the template uses a variable that is not provided
+ */
+export function renderPrompt(name: PromptName, variables: PromptVariables): string {
+  const template = getPromptTemplate(name);
+  usedVersions[name] = template.version;
+  return fillTemplate(template, variables);
+}
+
+/**
+ * Substitute sections, then variables (in one pass, so values are never expanded)
+ */
+export function fillTemplate(template: Pick<PromptTemplate, 'name' | 'path' | 'text'>, variables: PromptVariables): string {
+  const value = (variable: string) => {
+    if (!(variable in variables)) {
+      throw new Error(`Prompt template ${template.name} (${template.path}) uses {{${variable}}}, which is not provided`);
+    }
+    return variables[variable];
+  };
+
+  return template.text
+    .replace(
+      /\{\{#if (\w+)\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g,
+      (_match, variable: string, then: string, otherwise?: string) => (value(variable) ? then : otherwise ?? '')
+    )
+    .replace(/\{\{(\w+)\}\}/g, (_match, variable: string) => String(value(variable)));
+}
+
+/**
+ * Remove and return the template versions rendered so far
+ */
+export function takePromptVersions(): PromptVersions {
+  const versions = usedVersions;
+  usedVersions = {};
+  return versions;
+}
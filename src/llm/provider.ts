@@ -0,0 +1,65 @@
+/**
+ * LLM provider selection.
+ * Each role (planner, SQL writer, ...) gets the provider and model configured
+ * for it in config.llm.models, metered for cost accounting and wrapped in a
+ * cassette when LLM_CASSETTE is set. Replayed calls cost nothing and are not metered.
+ * Without a cassette, LLM_CACHE puts the response cache in front of the metered
+ * provider, so cache hits are not metered either.
+ */
+
+import { LLMConfig, LLMProvider, LLMRole } from '../types.js';
+import { GeminiProvider } from './gemini.js';
+import { OpenAICompatibleProvider } from './openaiCompatible.js';
+import { FakeLLMProvider } from './fake.js';
+import { CassetteProvider, openCassette } from './cassette.js';
+import { MeteredProvider } from './usage.js';
+import { CachedProvider, getLLMResponseCache } from './cache.js';
+
+/**
+ * Create the provider configured for a role
+ */
+export function createLLMProvider(llmConfig: LLMConfig, role: LLMRole): LLMProvider {
+  const { cassette } = llmConfig;
+  if (!cassette) {
+    const ttlSeconds = llmConfig.cache?.ttlSeconds[role];
+    return ttlSeconds
+      ? new CachedProvider(createMeteredProvider(llmConfig, role), role, getLLMResponseCache(llmConfig.cache!), ttlSeconds)
+      : createMeteredProvider(llmConfig, role);
+  }
+  
+  // Replay answers from the cassette alone (no credentials, no network)
+  const model = llmConfig.models[role].model;
+  return cassette.mode === 'replay'
+    ? new CassetteProvider(openCassette(cassette.path, 'replay'), role, model)
+    : new CassetteProvider(openCassette(cassette.path, 'record'), role, model, createMeteredProvider(llmConfig, role));
+}
+
+function createMeteredProvider(llmConfig: LLMConfig, role: LLMRole): LLMProvider {
+  return new MeteredProvider(createBaseProvider(llmConfig, role), role, llmConfig.prices);
+}
+
+function createBaseProvider(llmConfig: LLMConfig, role: LLMRole): LLMProvider {
+  const { provider, model } = llmConfig.models[role];
+  
+  switch (provider) {
+    case 'gemini':
+      if (!llmConfig.geminiApiKey) {
+        throw new Error('Missing required environment variable: GEMINI_API_KEY');
+      }
+      return new GeminiProvider(llmConfig.geminiApiKey, model);
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: llmConfig.openaiBaseUrl,
+        model,
+        apiKey: llmConfig.openaiApiKey,
+        jsonMode: llmConfig.openaiJsonMode,
+      });
+    case 'fake':
+      if (!llmConfig.fakeFixture) {
+        throw new Error('Missing required environment variable: LLM_FAKE_FIXTURE');
+      }
+      return FakeLLMProvider.fromFixture(llmConfig.fakeFixture, role, model);
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
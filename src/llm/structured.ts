@@ -0,0 +1,155 @@
+/**
+ * Structured output: every JSON prompt declares the shape of its response.
+ * Responses that do not parse or do not match are sent back to the model
+ * with the problems found, up to `repairAttempts` times.
+ */
+
+import { JSONSchema, LLMGenerateOptions, LLMJSONResponse, LLMOutputFailure, LLMOutputSchema, LLMProvider } from '../types.js';
+import { trace } from '../utils/trace.js';
+
+/**
+ * Failures since the last takeLLMOutputFailures(); the orchestrator reports
+ * them with the run they belong to
+ */
+const pendingFailures: LLMOutputFailure[] = [];
+
+/**
+ * Remove and return the failures recorded so far
+ */
+export function takeLLMOutputFailures(): LLMOutputFailure[] {
+  return pendingFailures.splice(0, pendingFailures.length);
+}
+
+/**
+ * Debug summary: "🧩 2 invalid LLM responses (1 repaired)" plus one line per failure
+ */
+export function formatLLMOutputFailures(failures: LLMOutputFailure[]): string {
+  const repaired = failures.filter(f => f.repaired).length;
+  return [
+    `🧩 ${failures.length} invalid LLM response${failures.length === 1 ? '' : 's'} (${repaired} repaired)`,
+    ...failures.map(f => `   ${f.output} (${f.kind}${f.repaired ? ', repaired' : ''}): ${f.problems.join('; ')}`),
+  ].join('\n');
+}
+
+/**
+ * Problems of a value against a schema, one per mismatch ("$.steps[0].description is required")
+ */
+export function validateJSON(value: unknown, schema: JSONSchema, path = '$'): string[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} must be ${describeType(schema)}, got null`];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const problems = (schema.required || [])
+        .filter(name => record[name] === undefined)
+        .map(name => `${path}.${name} is required`);
+      for (const [name, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[name] !== undefined) {
+          problems.push(...validateJSON(record[name], propertySchema, `${path}.${name}`));
+        }
+      }
+      return problems;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      return schema.items ? value.flatMap((item, i) => validateJSON(item, schema.items!, `${path}[${i}]`)) : [];
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of ${schema.enum.join(', ')} (got "${value}")`];
+      }
+      return [];
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return [`${path} must be ${describeType(schema)}`];
+      }
+      if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+        return [`${path} must be between ${schema.minimum ?? '-∞'} and ${schema.maximum ?? '∞'} (got ${value})`];
+      }
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+  }
+}
+
+function describeType(schema: JSONSchema): string {
+  if (schema.enum) {
+    return `one of ${schema.enum.join(', ')}`;
+  }
+  return schema.type === 'object' || schema.type === 'array' || schema.type === 'integer' ? `an ${schema.type}` : `a ${schema.type}`;
+}
+
+/**
+ * Ask for JSON matching `output`, re-prompting with the problems found when
+ * the response does not parse or does not match.
+ *
+ * @throws Error (code INVALID_LLM_OUTPUT, with .problems) when the last attempt is still invalid;
+ *   provider errors (overload, network) are thrown unchanged for retryWithBackoff
+ */
+export async function generateStructured<T>(
+  llm: LLMProvider,
+  output: LLMOutputSchema<T>,
+  prompt: string,
+  repairAttempts: number,
+  options?: LLMGenerateOptions
+): Promise<LLMJSONResponse<T>> {
+  const failures: LLMOutputFailure[] = [];
+  let attemptPrompt = prompt;
+  const validate = (data: unknown): string[] => {
+    const problems = validateJSON(data, output.schema);
+    return problems.length === 0 && output.check ? output.check(data as T) : problems;
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    let failure: LLMOutputFailure;
+    try {
+      const response = await llm.generateJSON<T>(attemptPrompt, { ...options, schema: output.schema, validate });
+      const problems = validate(response.data);
+      if (problems.length === 0) {
+        failures.forEach(f => { f.repaired = true; });
+        return response;
+      }
+      failure = { output: output.name, kind: 'schema', problems, repaired: false };
+    } catch (error: any) {
+      if (error?.code !== 'INVALID_JSON') {
+        throw error;
+      }
+      failure = { output: output.name, kind: 'parse', problems: ['the response was not valid JSON'], repaired: false };
+    }
+
+    failures.push(failure);
+    pendingFailures.push(failure);
+    trace('structured.generateStructured', `invalid ${output.name} response`, { attempt, ...failure });
+
+    if (attempt >= repairAttempts) {
+      throw Object.assign(
+        new Error(`Invalid ${output.name} response from ${llm.name}: ${failure.problems.join('; ')}`),
+        { code: 'INVALID_LLM_OUTPUT', problems: failure.problems }
+      );
+    }
+    attemptPrompt = buildRepairPrompt(prompt, output.schema, failure.problems);
+  }
+}
+
+/**
+ * The original prompt plus what was wrong with the previous response
+ */
+function buildRepairPrompt(prompt: string, schema: JSONSchema, problems: string[]): string {
+  return `${prompt}
+
+Your previous response was rejected:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Respond again with ONLY a JSON value that fixes these problems and matches this JSON schema:
+${JSON.stringify(schema)}`;
+}
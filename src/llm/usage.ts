@@ -0,0 +1,87 @@
+import {
+  LLMCallRecord,
+  LLMCapabilities,
+  LLMGenerateOptions,
+  LLMJSONResponse,
+  LLMPrice,
+  LLMProvider,
+  LLMResponse,
+  LLMRole,
+} from '../types.js';
+import { computeCallCost } from '../services/llmCost.js';
+import { estimateTokens } from './json.js';
+
+/**
+ * Calls made since the last takeLLMCalls(); the orchestrator saves them
+ * with the run they belong to
+ */
+const pendingCalls: LLMCallRecord[] = [];
+
+/**
+ * Totals of all calls since startup; budgets compare snapshots of these
+ */
+const usageTotals = { llmCalls: 0, tokens: 0, costUsd: 0 };
+
+export function getLLMUsageTotals(): { llmCalls: number; tokens: number; costUsd: number } {
+  return { ...usageTotals };
+}
+
+/**
+ * Remove and return the calls recorded so far
+ */
+export function takeLLMCalls(): LLMCallRecord[] {
+  return pendingCalls.splice(0, pendingCalls.length);
+}
+
+/**
+ * Provider wrapper that records role, model, tokens, latency and cost of
+ * every successful call. Token counts are estimated when the provider
+ * reports no usage.
+ */
+export class MeteredProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+  
+  constructor(private inner: LLMProvider, private role: LLMRole, private prices: Record<string, LLMPrice>) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.capabilities = inner.capabilities;
+  }
+  
+  async generateText(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const response = await this.inner.generateText(prompt, options);
+    this.record(prompt, response, Date.now() - startTime);
+    return response;
+  }
+  
+  async generateJSON<T = unknown>(prompt: string, options?: LLMGenerateOptions): Promise<LLMJSONResponse<T>> {
+    const startTime = Date.now();
+    const response = await this.inner.generateJSON<T>(prompt, options);
+    this.record(prompt, response, Date.now() - startTime);
+    return response;
+  }
+  
+  async countTokens(text: string): Promise<number> {
+    return this.inner.countTokens(text);
+  }
+  
+  private record(prompt: string, response: LLMResponse, latencyMs: number): void {
+    const usage = response.usage || { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(response.text) };
+    const costUsd = computeCallCost(response.model, usage, this.prices);
+    usageTotals.llmCalls += 1;
+    usageTotals.tokens += usage.inputTokens + usage.outputTokens;
+    usageTotals.costUsd += costUsd ?? 0;
+    pendingCalls.push({
+      role: this.role,
+      provider: this.name,
+      model: response.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      tokensEstimated: !response.usage,
+      latencyMs,
+      costUsd,
+    });
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { validateSQLAgainstMetadata } from '../../agent/sqlValidator.js';
+import { ForeignKeyMetadata, TableMetadata, TableSchema } from '../../types.js';
+
+function table(tableName: string, columns: string[], foreignKeys: ForeignKeyMetadata[] = [], primaryKey = ['id']) {
+  const schema: TableSchema = {
+    tableName,
+    schemaName: 'public',
+    columns: columns.map(columnName => ({ columnName, dataType: 'integer', isNullable: true })),
+  };
+  const metadata: TableMetadata = {
+    tableName,
+    schemaName: 'public',
+    estimatedRowCount: 0,
+    totalSizeBytes: 0,
+    tableSizeBytes: 0,
+    indexSizeBytes: 0,
+    primaryKeyColumns: primaryKey,
+    indexes: [],
+    foreignKeys,
+    lastAnalyzed: new Date(),
+    lastUpdated: new Date(),
+  };
+  return { schema, metadata };
+}
+
+function fk(fromColumn: string, toTable: string): ForeignKeyMetadata {
+  return { constraintName: `${fromColumn}_fk`, fromColumn, toTable, toSchema: 'public', toColumn: 'id' };
+}
+
+const tables = [
+  table('customers', ['id', 'name', 'country']),
+  table('orders', ['id', 'customer_id', 'total', 'created_at'], [fk('customer_id', 'customers')]),
+  table('order_items', ['id', 'order_id', 'quantity'], [fk('order_id', 'orders')]),
+  table('order_totals', ['order_id', 'amount'], [], []),
+];
+const schema = tables.map(t => t.schema);
+const metadata = tables.map(t => t.metadata);
+
+function validate(sql: string) {
+  return validateSQLAgainstMetadata(sql, schema, metadata);
+}
+
+describe('Aggregation grain', () => {
+  describe('Fan-out', () => {
+    it('should block sums over the one side of a one-to-many join', async () => {
+      const result = await validate(
+        'SELECT SUM(o.total) FROM orders o JOIN order_items i ON i.order_id = o.id'
+      );
+      expect(result.valid).toBe(false);
+      expect(result.issues[0]).toContain('sum(o.total) is inflated');
+      expect(result.issues[0]).toContain(
+        'WITH order_items_per_order AS (SELECT order_id, <aggregates> FROM public.order_items GROUP BY order_id)'
+      );
+    });
+
+    it('should follow to-one joins to the join that fans out', async () => {
+      const result = await validate(
+        `SELECT c.country, COUNT(c.id) FROM order_items i
+         JOIN orders o ON o.id = i.order_id
+         JOIN customers c ON c.id = o.customer_id
+         GROUP BY c.country`
+      );
+      expect(result.valid).toBe(false);
+      expect(result.issues[0]).toContain('count(c.id) is inflated: the one-to-many join to public.orders');
+    });
+
+    it('should accept aggregates at the grain of the many side', async () => {
+      for (const sql of [
+        'SELECT SUM(i.quantity) FROM orders o JOIN order_items i ON i.order_id = o.id',
+        'SELECT COUNT(DISTINCT o.id), COUNT(*) FROM orders o JOIN order_items i ON i.order_id = o.id',
+        'SELECT c.name, SUM(o.total) FROM customers c JOIN orders o ON o.customer_id = c.id GROUP BY c.name',
+      ]) {
+        expect((await validate(sql)).valid).toBe(true);
+      }
+    });
+
+    it('should take the join keys of USING joins from the columns they name', async () => {
+      // The foreign key (order_items.order_id) is not what these rows are joined on
+      expect((await validate('SELECT SUM(o.total) FROM orders o JOIN order_items i USING (id)')).valid).toBe(true);
+    });
+
+    it('should detect fan-out inside a derived table', async () => {
+      for (const sql of [
+        'SELECT SUM(x.total) FROM (SELECT o.total FROM orders o JOIN order_items i ON i.order_id = o.id) x',
+        'SELECT SUM(amount) FROM (SELECT o.total AS amount FROM orders o JOIN order_items i ON i.order_id = o.id) x',
+        'SELECT SUM(y.total) FROM (SELECT x.total FROM (SELECT o.total FROM orders o JOIN order_items i ON i.order_id = o.id) x) y',
+      ]) {
+        const result = await validate(sql);
+        expect(result.valid).toBe(false);
+        expect(result.issues[0]).toContain('is inflated: the one-to-many join to public.order_items');
+      }
+
+      // Pre-aggregated in the derived table: nothing is repeated
+      expect((await validate(
+        `SELECT SUM(o.total), SUM(x.items) FROM orders o
+         JOIN (SELECT order_id, COUNT(*) AS items FROM order_items GROUP BY order_id) x ON x.order_id = o.id`
+      )).valid).toBe(true);
+    });
+
+    it('should not guess for tables without keys', async () => {
+      const result = await validate(
+        'SELECT SUM(t.amount) FROM order_totals t JOIN orders o ON o.id = t.order_id'
+      );
+      expect(result.issues.join(' ')).not.toContain('inflated');
+    });
+  });
+
+  describe('Grain', () => {
+    it('should derive the grain from GROUP BY keys', async () => {
+      const grains = await Promise.all([
+        'SELECT c.id, c.name, SUM(o.total) FROM customers c JOIN orders o ON o.customer_id = c.id GROUP BY c.id, c.name',
+        'SELECT customer_id, SUM(total) FROM orders GROUP BY customer_id',
+        "SELECT date_trunc('month', created_at) AS month, SUM(total) FROM orders GROUP BY month",
+        'SELECT created_at::date, COUNT(*) FROM orders GROUP BY 1',
+        'SELECT country, COUNT(*) FROM customers GROUP BY country',
+        'SELECT SUM(total) FROM orders',
+        'SELECT id FROM orders',
+      ].map(async sql => (await validate(sql)).grain));
+      expect(grains).toEqual(['customer_level', 'customer_level', 'monthly', 'daily', 'custom', 'row_level', 'row_level']);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseCheckConstraint, findDisallowedValues, formatDisallowedValue } from '../allowedValues.js';
+import { filterSchemaByPolicy } from '../accessPolicy.js';
+import { validateSQLAgainstMetadata } from '../../agent/sqlValidator.js';
+import { formatMetadataForLLM } from '../../tools/controlDb.js';
+import { TableMetadata, TableSchema } from '../../types.js';
+
+// pools.ts reads the environment on import; these tests never connect
+vi.mock('../../tools/pools.js', () => ({ getControlDbPool: () => null }));
+
+const orders: TableMetadata = {
+  tableName: 'orders',
+  schemaName: 'public',
+  estimatedRowCount: 100,
+  totalSizeBytes: 0,
+  tableSizeBytes: 0,
+  indexSizeBytes: 0,
+  primaryKeyColumns: ['id'],
+  indexes: [],
+  foreignKeys: [],
+  allowedValues: [
+    { columnName: 'status', values: ['PENDING', 'COMPLETED', 'CANCELLED'], source: 'enum', typeName: 'order_status' },
+    { columnName: 'status', values: ['PENDING', 'COMPLETED'], source: 'check' },
+  ],
+  lastAnalyzed: new Date(),
+  lastUpdated: new Date(),
+};
+
+const schema: TableSchema[] = [{
+  tableName: 'orders',
+  schemaName: 'public',
+  columns: [
+    { columnName: 'id', dataType: 'integer', isNullable: false },
+    { columnName: 'status', dataType: 'order_status', isNullable: false },
+  ],
+}];
+
+describe('Allowed values', () => {
+  describe('CHECK constraints', () => {
+    it('should parse value lists as pg_get_constraintdef prints them', () => {
+      expect(parseCheckConstraint("CHECK ((status = ANY (ARRAY['a'::text, 'b'::text])))"))
+        .toEqual({ columnName: 'status', values: ['a', 'b'] });
+      expect(parseCheckConstraint("CHECK (((kind)::text = ANY ((ARRAY['x'::character varying, 'y'::character varying])::text[])))"))
+        .toEqual({ columnName: 'kind', values: ['x', 'y'] });
+      expect(parseCheckConstraint("CHECK (((status = 'a'::text) OR (status = 'b'::text))) NOT VALID"))
+        .toEqual({ columnName: 'status', values: ['a', 'b'] });
+      expect(parseCheckConstraint('CHECK ((priority IS NULL) OR (priority = ANY (ARRAY[1, 2, 3])))'))
+        .toEqual({ columnName: 'priority', values: ['1', '2', '3'] });
+    });
+
+    it('should parse domain constraints on VALUE', () => {
+      expect(parseCheckConstraint("CHECK ((VALUE = ANY (ARRAY['EUR'::text, 'USD'::text])))"))
+        .toEqual({ columnName: 'value', values: ['EUR', 'USD'] });
+    });
+
+    it('should ignore constraints that are not value lists', () => {
+      expect(parseCheckConstraint('CHECK ((amount >= (0)::numeric))')).toBeNull();
+      expect(parseCheckConstraint("CHECK (((a = 'x'::text) OR (b = 'y'::text)))")).toBeNull();
+      expect(parseCheckConstraint("CHECK ((status <> 'x'::text))")).toBeNull();
+    });
+  });
+
+  describe('Validation', () => {
+    it('should require a value to be in every allowed set, suggesting case fixes', () => {
+      const found = findDisallowedValues(orders, 'status', ['PENDING', 'completed', 'CANCELLED']);
+      expect(found.map(f => f.value)).toEqual(['completed', 'CANCELLED']);
+      expect(formatDisallowedValue('public.orders', found[0]))
+        .toBe("'completed' is not a valid value of public.orders.status (did you mean 'COMPLETED'?)");
+      expect(formatDisallowedValue('public.orders', found[1]))
+        .toBe("'CANCELLED' is not a valid value of public.orders.status (allowed: 'PENDING', 'COMPLETED')");
+    });
+
+    it('should flag literals in generated SQL before it runs', async () => {
+      const result = await validateSQLAgainstMetadata(
+        "SELECT o.id FROM orders o WHERE o.status IN ('PENDING', 'completed')", schema, [orders]
+      );
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        "Values not allowed: 'completed' is not a valid value of public.orders.status (did you mean 'COMPLETED'?)",
+      ]);
+    });
+
+    it('should accept allowed literals and unrelated comparisons', async () => {
+      const result = await validateSQLAgainstMetadata(
+        "SELECT id FROM orders WHERE status = 'COMPLETED'::order_status AND id = 5", schema, [orders]
+      );
+      expect(result.valid).toBe(true);
+    });
+  });
+
+  describe('Access policy', () => {
+    it('should keep the value sets of restricted columns and hidden tables out of the prompt', () => {
+      const users: TableSchema = {
+        tableName: 'users',
+        schemaName: 'public',
+        columns: [
+          { columnName: 'id', dataType: 'integer', isNullable: false },
+          { columnName: 'risk_flag', dataType: 'text', isNullable: true },
+        ],
+        metadata: {
+          ...orders,
+          tableName: 'users',
+          allowedValues: [{ columnName: 'risk_flag', values: ['FRAUD_SUSPECT', 'CLEAN'], source: 'check' }],
+        },
+      };
+      const visible = filterSchemaByPolicy([users, { ...schema[0], metadata: orders }], {
+        allowedSchemas: [],
+        deniedSchemas: [],
+        allowedTables: [],
+        deniedTables: ['orders'],
+        allowedColumns: ['users.id'],
+        deniedColumns: [],
+      });
+
+      const prompt = formatMetadataForLLM(visible);
+      expect(prompt).toContain('Table: public.users');
+      expect(prompt).not.toContain('FRAUD_SUSPECT');
+      expect(prompt).not.toContain('risk_flag');
+      expect(prompt).not.toContain('PENDING');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { addBudgetUsage, emptyBudgetUsage, findExhaustedBudget, findLowBudget, formatBudgetStop } from '../budget.js';
+import { BudgetConfig } from '../../types.js';
+
+const budget: BudgetConfig = {
+  question: { llmCalls: 10, wallTimeMs: 60000 },
+  session: { costUsd: 1 },
+  degradeAtPercent: 80,
+  degradedResultRows: 10,
+};
+
+function usage(values: Partial<ReturnType<typeof emptyBudgetUsage>>) {
+  return { ...emptyBudgetUsage(), ...values };
+}
+
+describe('Budgets', () => {
+  it('should find the budget that is used up, question before session', () => {
+    expect(findExhaustedBudget(usage({ llmCalls: 9 }), usage({ costUsd: 0.5 }), budget)).toBeUndefined();
+    expect(findExhaustedBudget(usage({ llmCalls: 10 }), usage({ costUsd: 2 }), budget)).toEqual({
+      scope: 'question', metric: 'llmCalls', used: 10, limit: 10,
+    });
+    expect(findExhaustedBudget(usage({}), usage({ costUsd: 1.25 }), budget)).toEqual({
+      scope: 'session', metric: 'costUsd', used: 1.25, limit: 1,
+    });
+  });
+
+  it('should report budgets past the degrade threshold as low', () => {
+    expect(findLowBudget(usage({ wallTimeMs: 47000 }), usage({}), budget)).toBeUndefined();
+    expect(findLowBudget(usage({ wallTimeMs: 48000 }), usage({}), budget)).toMatchObject({ metric: 'wallTimeMs' });
+    expect(findLowBudget(usage({ tokens: 1_000_000 }), usage({ tokens: 1_000_000 }), budget)).toBeUndefined();
+  });
+
+  it('should add usage and format stops', () => {
+    expect(addBudgetUsage(usage({ queries: 2, dbTimeMs: 30 }), usage({ queries: 1 }))).toEqual(
+      usage({ queries: 3, dbTimeMs: 30 })
+    );
+    expect(formatBudgetStop({ scope: 'session', metric: 'costUsd', used: 1.25, limit: 1 }))
+      .toBe('session LLM cost budget: $1.25 of $1.00');
+    expect(formatBudgetStop({ scope: 'question', metric: 'wallTimeMs', used: 61234, limit: 60000 }))
+      .toBe('question wall time budget: 61.2s of 60.0s');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { computeLineage, formatLineage, formatLineageForLLM } from '../columnLineage.js';
+import { clearPseudonyms, maskResultForLLM } from '../piiMasking.js';
+
+describe('Column lineage', () => {
+  describe('Output columns', () => {
+    it('should resolve aliases to source table columns', () => {
+      const lineage = computeLineage(
+        `SELECT c.name AS customer, SUM(i.price * i.quantity) AS revenue
+         FROM customers c
+         JOIN orders o ON o.customer_id = c.id
+         JOIN order_items i ON i.order_id = o.id
+         WHERE o.status = 'COMPLETED'
+         GROUP BY c.name`
+      );
+      expect(lineage.columns).toEqual([
+        { column: 'customer', expression: 'customers.name', sources: ['customers.name'] },
+        {
+          column: 'revenue',
+          expression: 'sum(order_items.price * order_items.quantity)',
+          sources: ['order_items.price', 'order_items.quantity'],
+        },
+      ]);
+      expect(lineage.filters).toEqual(["orders.status = 'COMPLETED'"]);
+      expect(lineage.joins).toEqual(['orders.customer_id = customers.id', 'order_items.order_id = orders.id']);
+      expect(lineage.groupBy).toEqual(['customers.name']);
+    });
+
+    it('should inline CTE and subquery columns', () => {
+      const lineage = computeLineage(
+        `WITH totals AS (
+           SELECT order_id, SUM(price * quantity) AS amount FROM sales.order_items GROUP BY order_id
+         )
+         SELECT t.amount - r.refunded AS net, t.order_id
+         FROM totals t
+         JOIN (SELECT order_id, SUM(amount) AS refunded FROM refunds WHERE amount > 0 GROUP BY 1) r USING (order_id)`
+      );
+      expect(lineage.columns).toEqual([
+        {
+          column: 'net',
+          expression: 'sum(sales.order_items.price * sales.order_items.quantity) - sum(refunds.amount)',
+          sources: ['sales.order_items.price', 'sales.order_items.quantity', 'refunds.amount'],
+        },
+        { column: 'order_id', expression: 'sales.order_items.order_id', sources: ['sales.order_items.order_id'] },
+      ]);
+      expect(lineage.filters).toEqual(['refunds.amount > 0']);
+      expect(lineage.groupBy).toEqual([]);
+    });
+
+    it('should name unaliased expressions the way PostgreSQL does', () => {
+      const lineage = computeLineage(
+        "SELECT COUNT(*), created_at::date, CASE WHEN total > 100 THEN 'big' ELSE 'small' END FROM orders"
+      );
+      expect(lineage.columns.map(c => [c.column, c.expression])).toEqual([
+        ['count', 'count(*)'],
+        ['created_at', 'orders.created_at::date'],
+        ['case', "CASE WHEN orders.total > 100 THEN 'big' ELSE 'small' END"],
+      ]);
+    });
+
+    it('should keep sources of both branches of a UNION', () => {
+      const lineage = computeLineage('SELECT email FROM customers UNION SELECT email FROM leads');
+      expect(lineage.columns).toEqual([
+        { column: 'email', expression: 'customers.email UNION leads.email', sources: ['customers.email', 'leads.email'] },
+      ]);
+    });
+  });
+
+  describe('Formatting', () => {
+    it('should cite each column with its filters and grouping', () => {
+      const lineage = computeLineage(
+        `SELECT SUM(i.price * i.quantity) AS revenue FROM order_items i JOIN orders o ON o.id = i.order_id
+         WHERE o.status = 'COMPLETED' AND o.created_at >= '2024-01-01'`
+      );
+      expect(formatLineage(lineage, '  ')).toBe([
+        '  revenue = sum(order_items.price * order_items.quantity)',
+        "  filtered by orders.status = 'COMPLETED' AND orders.created_at >= '2024-01-01'",
+        '  joined on orders.id = order_items.order_id',
+      ].join('\n'));
+    });
+
+    it('should replace personal data in literals with pseudonyms for the prompt', () => {
+      clearPseudonyms();
+      maskResultForLLM({ columns: ['email'], rows: [['alice@example.com']], rowCount: 1, durationMs: 1 });
+      const lineage = computeLineage("SELECT u.id FROM users u WHERE u.email = 'alice@example.com'");
+      expect(formatLineage(lineage)).toContain("filtered by users.email = 'alice@example.com'");
+      expect(formatLineageForLLM(lineage)).toContain("filtered by users.email = '<EMAIL_1>'");
+    });
+
+    it('should return empty lineage for SQL that does not parse', () => {
+      expect(computeLineage('SELEC nothing')).toEqual({ columns: [], filters: [], joins: [], groupBy: [] });
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildColumnProfiles,
+  needsProfiling,
+  selectProfilesForStep,
+  formatProfilesForLLM,
+} from '../columnProfiling.js';
+import { ColumnProfile, PgColumnStats, SQLResult, TableSchema } from '../../types.js';
+
+const orders: TableSchema = {
+  tableName: 'orders',
+  schemaName: 'sales',
+  columns: [
+    { columnName: 'status', dataType: 'text', isNullable: false },
+    { columnName: 'amount', dataType: 'numeric(10,2)', isNullable: true },
+    { columnName: 'order_ref', dataType: 'character varying(20)', isNullable: false },
+    { columnName: 'email', dataType: 'text', isNullable: true },
+  ],
+};
+
+const stats: PgColumnStats[] = [
+  {
+    columnName: 'status',
+    nullFraction: 0,
+    nDistinct: 3,
+    mostCommonValues: ['COMPLETED', 'PENDING', 'CANCELLED'],
+    mostCommonFreqs: [0.6, 0.3, 0.1],
+    histogramBounds: null,
+  },
+  {
+    columnName: 'amount',
+    nullFraction: 0.05,
+    nDistinct: -0.5,
+    mostCommonValues: null,
+    mostCommonFreqs: null,
+    histogramBounds: ['1.50', '20.00', '300.00', '9.99'],
+  },
+  {
+    columnName: 'order_ref',
+    nullFraction: 0,
+    nDistinct: -1,
+    mostCommonValues: null,
+    mostCommonFreqs: null,
+    histogramBounds: ['ORD-0001', 'ORD-9999'],
+  },
+];
+
+function sample(columns: string[], rows: any[][]): SQLResult {
+  return { columns, rows, rowCount: rows.length, durationMs: 1 };
+}
+
+describe('Column profiling', () => {
+  describe('Profiles', () => {
+    it('should read top values and distinct counts from pg_stats', () => {
+      const [status, amount] = buildColumnProfiles(orders, stats, 1000);
+      expect(status).toMatchObject({
+        schemaName: 'sales',
+        distinctCount: 3,
+        topValues: [
+          { value: 'COMPLETED', frequency: 0.6 },
+          { value: 'PENDING', frequency: 0.3 },
+          { value: 'CANCELLED', frequency: 0.1 },
+        ],
+        source: 'pg_stats',
+      });
+      expect(status.minValue).toBeUndefined();
+      expect(amount).toMatchObject({ nullFraction: 0.05, distinctCount: 500, minValue: '1.50', maxValue: '300.00' });
+    });
+
+    it('should take value shapes of high-cardinality text columns from the sample', () => {
+      const rows = Array.from({ length: 100 }, (_, i) => [`ORD-${String(i).padStart(4, '0')}`]);
+      const [, , ref] = buildColumnProfiles(orders, stats, 1000, sample(['order_ref'], rows));
+      expect(ref.patterns).toEqual([{ value: 'AAA-9999', frequency: 1 }]);
+    });
+
+    it('should fall back to the sample for columns without pg_stats', () => {
+      const rows = [['a@x.io'], ['a@x.io'], [null], ['b@y.io']];
+      const email = buildColumnProfiles(orders, [], 0, sample(['email'], rows))[3];
+      expect(email).toMatchObject({
+        nullFraction: 0.25,
+        distinctCount: 2,
+        topValues: [{ value: 'a@x.io', frequency: 0.5 }],
+        source: 'sample',
+      });
+    });
+
+    it('should keep no values of PII columns', () => {
+      const rows = [['a@x.io'], ['a@x.io']];
+      const email = buildColumnProfiles(orders, [], 0, sample(['email'], rows), ['email'])[3];
+      expect(email.topValues).toEqual([]);
+      expect(email.patterns).toEqual([]);
+      expect(email.distinctCount).toBe(1);
+    });
+  });
+
+  describe('Incremental refresh', () => {
+    const profiled = [{ lastProfiled: new Date('2024-03-01') } as ColumnProfile];
+
+    it('should skip tables not analyzed since they were profiled', () => {
+      expect(needsProfiling(profiled, new Date('2024-02-01'))).toBe(false);
+      expect(needsProfiling(profiled, new Date('2024-04-01'))).toBe(true);
+    });
+
+    it('should always profile new and never analyzed tables', () => {
+      expect(needsProfiling([], new Date('2024-02-01'))).toBe(true);
+      expect(needsProfiling(profiled, null)).toBe(true);
+    });
+  });
+
+  describe('Prompt injection', () => {
+    const profiles = buildColumnProfiles(orders, stats, 1000);
+
+    it('should pick mentioned columns and categorical columns of mentioned tables', () => {
+      expect(selectProfilesForStep(profiles, [orders], 'Total amount per customer').map(p => p.columnName))
+        .toEqual(['amount']);
+      expect(selectProfilesForStep(profiles, [orders], 'Count completed orders').map(p => p.columnName))
+        .toEqual(['status']);
+    });
+
+    it('should skip columns hidden by the access policy', () => {
+      const restricted = { ...orders, columns: orders.columns.filter(c => c.columnName !== 'status') };
+      expect(selectProfilesForStep(profiles, [restricted], 'orders by status')).toEqual([]);
+    });
+
+    it('should format profiles with qualified column names', () => {
+      expect(formatProfilesForLLM([profiles[0]])).toBe(
+        "  sales.orders.status (text): 3 distinct; 0% null; values: 'COMPLETED' (60%), 'PENDING' (30%), 'CANCELLED' (10%)"
+      );
+      expect(formatProfilesForLLM([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeQueryPlan, formatCostFindings, unestimatedCostAnalysis } from '../costGate.js';
+import { CostGateConfig, QueryPlanNode, TableMetadata } from '../../types.js';
+
+const thresholds: CostGateConfig = {
+  enabled: true,
+  confirmCost: 100000,
+  blockCost: 10000000,
+  largeTableRows: 100000,
+  nestedLoopRows: 10000000,
+};
+
+function node(type: string, cost: number, rows: number, extra: Partial<QueryPlanNode> = {}): QueryPlanNode {
+  return { 'Node Type': type, 'Startup Cost': 0, 'Total Cost': cost, 'Plan Rows': rows, ...extra };
+}
+
+function metadata(tableName: string, estimatedRowCount: number): TableMetadata {
+  return {
+    tableName,
+    schemaName: 'public',
+    estimatedRowCount,
+    totalSizeBytes: 0,
+    tableSizeBytes: 0,
+    indexSizeBytes: 0,
+    primaryKeyColumns: [],
+    indexes: [],
+    foreignKeys: [],
+    lastAnalyzed: new Date(),
+    lastUpdated: new Date(),
+  };
+}
+
+describe('Cost gate', () => {
+  it('should allow a cheap plan', () => {
+    const plan = node('Limit', 12.5, 10, {
+      Plans: [node('Index Scan', 40, 10, { 'Relation Name': 'orders' })],
+    });
+    const analysis = analyzeQueryPlan(plan, thresholds);
+    expect(analysis).toMatchObject({ decision: 'allow', risk: 'low', totalCost: 12.5, estimatedRows: 10 });
+    expect(analysis.findings).toEqual([]);
+  });
+
+  it('should require confirmation above the confirm cost', () => {
+    const analysis = analyzeQueryPlan(node('Aggregate', 250000, 1), thresholds);
+    expect(analysis.decision).toBe('confirm');
+    expect(analysis.risk).toBe('high');
+  });
+
+  it('should block above the block cost', () => {
+    const analysis = analyzeQueryPlan(node('Sort', 20000000, 5000000), thresholds);
+    expect(analysis.decision).toBe('block');
+    expect(formatCostFindings(analysis)).toContain('Query blocked by cost gate');
+  });
+
+  it('should require confirmation when the plan could not be estimated', () => {
+    const analysis = unestimatedCostAnalysis('connection terminated');
+    expect(analysis.decision).toBe('confirm');
+    expect(formatCostFindings(analysis)).toBe('Query needs confirmation: Cost could not be estimated (EXPLAIN failed: connection terminated)');
+  });
+
+  it('should flag sequential scans on large tables using metadata row counts', () => {
+    const plan = node('Limit', 50, 200, {
+      Plans: [node('Seq Scan', 90000, 200, { 'Relation Name': 'events', 'Schema': 'public' })],
+    });
+    const analysis = analyzeQueryPlan(plan, thresholds, [metadata('events', 5000000)]);
+    expect(analysis.seqScans).toEqual([{ table: 'events', estimatedTableRows: 5000000 }]);
+    expect(analysis.decision).toBe('confirm');
+    expect(analysis.risk).toBe('medium');
+  });
+
+  it('should ignore sequential scans on small tables', () => {
+    const plan = node('Seq Scan', 30, 500, { 'Relation Name': 'countries' });
+    expect(analyzeQueryPlan(plan, thresholds, [metadata('countries', 500)]).decision).toBe('allow');
+  });
+
+  it('should flag nested loop blowups', () => {
+    const plan = node('Nested Loop', 90000, 1000, {
+      Plans: [
+        node('Seq Scan', 100, 50000, { 'Relation Name': 'a' }),
+        node('Materialize', 10, 50000),
+      ],
+    });
+    const analysis = analyzeQueryPlan(plan, { ...thresholds, largeTableRows: 1000000 });
+    expect(analysis.nestedLoops).toEqual([{ outerRows: 50000, innerRows: 50000 }]);
+    expect(analysis.decision).toBe('confirm');
+    expect(analysis.risk).toBe('high');
+  });
+});
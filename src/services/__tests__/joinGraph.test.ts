@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildJoinGraph,
+  findJoinPath,
+  findJoinPlan,
+  followsJoinEdge,
+  findEdges,
+  formatJoinPlanForLLM,
+  selectJoinTables,
+} from '../joinGraph.js';
+import { validateSQLAgainstMetadata } from '../../agent/sqlValidator.js';
+import { ForeignKeyMetadata, Semantic, TableMetadata, TableSchema } from '../../types.js';
+
+function metadata(tableName: string, foreignKeys: ForeignKeyMetadata[] = []): TableMetadata {
+  return {
+    tableName,
+    schemaName: 'sales',
+    estimatedRowCount: 0,
+    totalSizeBytes: 0,
+    tableSizeBytes: 0,
+    indexSizeBytes: 0,
+    primaryKeyColumns: ['id'],
+    indexes: [],
+    foreignKeys,
+    lastAnalyzed: new Date(),
+    lastUpdated: new Date(),
+  };
+}
+
+function fk(constraintName: string, fromColumn: string, toTable: string): ForeignKeyMetadata {
+  return { constraintName, fromColumn, toTable, toSchema: 'sales', toColumn: 'id' };
+}
+
+const tables = [
+  metadata('customers'),
+  metadata('orders', [fk('orders_customer_fk', 'customer_id', 'customers')]),
+  metadata('order_items', [fk('items_order_fk', 'order_id', 'orders'), fk('items_product_fk', 'product_id', 'products')]),
+  metadata('products'),
+  metadata('suppliers'),
+];
+
+const schema: TableSchema[] = tables.map(t => ({
+  tableName: t.tableName,
+  schemaName: 'sales',
+  columns: ['id', 'customer_id', 'order_id', 'product_id', 'supplier_id', 'name'].map(columnName => ({
+    columnName,
+    dataType: 'integer',
+    isNullable: true,
+  })),
+}));
+
+const supplierRule: Semantic = {
+  id: 's1',
+  category: 'rule',
+  term: 'product supplier',
+  description: 'Products belong to a supplier',
+  createdAt: new Date(),
+  sqlFragment: 'JOIN suppliers ON products.supplier_id = suppliers.id',
+  approved: true,
+};
+
+describe('Join graph', () => {
+  const graph = buildJoinGraph(tables, [supplierRule], ['sales']);
+
+  describe('Edges', () => {
+    it('should build edges from foreign keys and semantic join rules', () => {
+      expect(findEdges(graph, 'sales.customers', 'sales.orders')).toEqual([{
+        fromTable: 'sales.orders',
+        toTable: 'sales.customers',
+        columns: [{ from: 'customer_id', to: 'id' }],
+        source: 'foreign_key',
+        name: 'orders_customer_fk',
+      }]);
+      expect(findEdges(graph, 'sales.products', 'sales.suppliers')).toMatchObject([
+        { source: 'semantic', name: 'product supplier', columns: [{ from: 'supplier_id', to: 'id' }] },
+      ]);
+    });
+
+    it('should ignore semantics flagged for review', () => {
+      const flagged = buildJoinGraph(tables, [{ ...supplierRule, needsReview: true }], ['sales']);
+      expect(findEdges(flagged, 'sales.products', 'sales.suppliers')).toEqual([]);
+    });
+
+    it('should ignore semantics that are not approved', () => {
+      const learned = buildJoinGraph(tables, [{ ...supplierRule, approved: false }], ['sales']);
+      expect(findEdges(learned, 'sales.products', 'sales.suppliers')).toEqual([]);
+    });
+
+    it('should check join columns in either direction', () => {
+      const edges = findEdges(graph, 'sales.customers', 'sales.orders');
+      expect(followsJoinEdge(edges, 'sales.customers', [{ from: 'id', to: 'customer_id' }])).toBe(true);
+      expect(followsJoinEdge(edges, 'sales.orders', [{ from: 'customer_id', to: 'id' }])).toBe(true);
+      expect(followsJoinEdge(edges, 'sales.orders', [{ from: 'id', to: 'id' }])).toBe(false);
+    });
+  });
+
+  describe('Paths', () => {
+    it('should find multi-hop paths', () => {
+      const path = findJoinPath(graph, 'sales.customers', 'sales.suppliers');
+      expect(path?.map(s => s.table)).toEqual(['sales.orders', 'sales.order_items', 'sales.products', 'sales.suppliers']);
+      expect(findJoinPath(tablesOnly(), 'sales.customers', 'sales.suppliers')).toBeNull();
+    });
+
+    it('should share intermediate tables when connecting several tables', () => {
+      const plan = findJoinPlan(graph, ['sales.customers', 'sales.products', 'sales.orders']);
+      expect(plan.root).toBe('sales.customers');
+      expect(plan.steps.map(s => s.table)).toEqual(['sales.orders', 'sales.order_items', 'sales.products']);
+      expect(plan.unreachable).toEqual([]);
+    });
+
+    it('should format the plan as ON clauses', () => {
+      const plan = findJoinPlan(graph, ['sales.orders', 'sales.products']);
+      expect(formatJoinPlanForLLM(plan)).toBe([
+        '  Path: sales.orders → sales.order_items → sales.products',
+        '  FROM sales.orders',
+        '  JOIN sales.order_items ON sales.order_items.order_id = sales.orders.id  -- FK items_order_fk',
+        '  JOIN sales.products ON sales.order_items.product_id = sales.products.id  -- FK items_product_fk',
+      ].join('\n'));
+      expect(formatJoinPlanForLLM(findJoinPlan(graph, ['sales.orders']))).toBe('');
+    });
+
+    it('should pick the tables a step mentions', () => {
+      expect(selectJoinTables(schema, 'Revenue per customer from order items')).toEqual([
+        'sales.customers',
+        'sales.order_items',
+      ]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should validate each join of a chain on the tables its condition uses', async () => {
+      const result = await validateSQLAgainstMetadata(
+        `SELECT c.name FROM sales.customers c
+         JOIN sales.orders o ON o.customer_id = c.id
+         JOIN sales.order_items i ON i.order_id = o.id`,
+        schema, tables, ['sales']
+      );
+      expect(result.valid).toBe(true);
+      expect(result.unknowns).toEqual([]);
+    });
+
+    it('should warn when a join uses other columns than the known path', async () => {
+      const result = await validateSQLAgainstMetadata(
+        'SELECT o.id FROM sales.orders o JOIN sales.customers c ON o.id = c.id',
+        schema, tables, ['sales']
+      );
+      expect(result.valid).toBe(true);
+      expect(result.unknowns[0]).toContain('does not follow a known join path');
+    });
+
+    it('should name the known path for joins that skip tables', async () => {
+      const result = await validateSQLAgainstMetadata(
+        'SELECT o.id FROM sales.orders o JOIN sales.products p ON o.product_id = p.id',
+        schema, tables, ['sales']
+      );
+      expect(result.valid).toBe(false);
+      expect(result.issues[0]).toContain('known path: sales.orders → sales.order_items → sales.products');
+    });
+
+    it('should accept joins following an approved join rule', async () => {
+      const result = await validateSQLAgainstMetadata(
+        'SELECT s.name FROM sales.products p JOIN sales.suppliers s ON p.supplier_id = s.id',
+        schema, tables, ['sales'], [supplierRule]
+      );
+      expect(result.valid).toBe(true);
+    });
+  });
+});
+
+function tablesOnly() {
+  return buildJoinGraph(tables, [], ['sales']);
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { formatLLMCacheHits, llmCacheContext } from '../llmCache.js';
+import { ColumnProfile, Semantic, TableMetadata, TableSchema } from '../../types.js';
+
+const schema: TableSchema[] = [
+  {
+    tableName: 'orders',
+    schemaName: 'public',
+    columns: [
+      { columnName: 'id', dataType: 'integer', isNullable: false },
+      { columnName: 'status', dataType: 'text', isNullable: true },
+    ],
+  },
+];
+
+const active: Semantic = { id: 'a', category: 'status', term: 'active', description: 'Active orders', createdAt: new Date(0) };
+const revenue: Semantic = { id: 'b', category: 'metric', term: 'revenue', description: 'SUM(total)', createdAt: new Date(0) };
+
+describe('LLM cache', () => {
+  it('should change the context with the schema or the semantic set, not their order', () => {
+    const context = llmCacheContext(schema, [active, revenue]);
+
+    expect(llmCacheContext(schema, [revenue, active])).toBe(context);
+    expect(llmCacheContext(schema, [active])).not.toBe(context);
+    expect(llmCacheContext(schema, [active, { ...revenue, description: 'SUM(total - discount)' }])).not.toBe(context);
+    expect(llmCacheContext(
+      [{ ...schema[0], columns: [...schema[0].columns, { columnName: 'total', dataType: 'numeric', isNullable: true }] }],
+      [active, revenue]
+    )).not.toBe(context);
+  });
+
+  it('should change the context with metadata, comments and column profiles', () => {
+    const metadata: TableMetadata = {
+      tableName: 'orders',
+      schemaName: 'public',
+      estimatedRowCount: 10,
+      totalSizeBytes: 0,
+      tableSizeBytes: 0,
+      indexSizeBytes: 0,
+      primaryKeyColumns: ['id'],
+      indexes: [],
+      foreignKeys: [],
+      lastAnalyzed: new Date(0),
+      lastUpdated: new Date(0),
+    };
+    const profile: ColumnProfile = {
+      tableName: 'orders', schemaName: 'public', columnName: 'status', dataType: 'text',
+      nullFraction: 0, distinctCount: 2, topValues: [{ value: 'OPEN', frequency: 0.6 }], patterns: [], source: 'pg_stats',
+    };
+    const withMetadata = [{ ...schema[0], metadata }];
+    const context = llmCacheContext(withMetadata, [active], [profile]);
+
+    expect(llmCacheContext(withMetadata, [active], [profile])).toBe(context);
+    expect(llmCacheContext(withMetadata, [active], [])).not.toBe(context);
+    expect(llmCacheContext(withMetadata, [active], [{ ...profile, topValues: [{ value: 'CLOSED', frequency: 0.6 }] }])).not.toBe(context);
+    expect(llmCacheContext([{ ...schema[0], comment: 'One row per order', metadata }], [active], [profile])).not.toBe(context);
+    expect(llmCacheContext(
+      [{ ...schema[0], metadata: { ...metadata, allowedValues: [{ columnName: 'status', values: ['OPEN', 'CLOSED'], source: 'check' }] } }],
+      [active],
+      [profile]
+    )).not.toBe(context);
+    expect(llmCacheContext(
+      [{ ...schema[0], metadata: { ...metadata, foreignKeys: [{ constraintName: 'fk', fromColumn: 'id', toTable: 'users', toSchema: 'public', toColumn: 'id' }] } }],
+      [active],
+      [profile]
+    )).not.toBe(context);
+  });
+
+  it('should summarize the hits with the tokens saved', () => {
+    expect(formatLLMCacheHits([
+      { role: 'planner', model: 'gemini-2.5-flash', inputTokens: 1500, outputTokens: 200, ageMs: 30_000 },
+      { role: 'interpreter', model: 'gemini-2.5-flash', inputTokens: 1000, outputTokens: 400, ageMs: 3 * 3_600_000 },
+    ]).split('\n')).toEqual([
+      '♻️  2 LLM responses from cache (~3,100 tokens saved)',
+      '   planner (gemini-2.5-flash), cached just now',
+      '   interpreter (gemini-2.5-flash), cached 3 h ago',
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { findModelPrice, computeCallCost, formatCostTotals, sumCostTotals, formatUsd } from '../llmCost.js';
+import { LLMCostTotals, LLMPrice } from '../../types.js';
+
+const prices: Record<string, LLMPrice> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+};
+
+describe('LLM cost', () => {
+  describe('Prices', () => {
+    it('should prefer the exact model, then the longest prefix', () => {
+      expect(findModelPrice('gemini-2.5-flash', prices)).toBe(prices['gemini-2.5-flash']);
+      expect(findModelPrice('gemini-2.5-flash-lite-001', prices)).toBe(prices['gemini-2.5-flash-lite']);
+      expect(findModelPrice('gpt-4o-mini-2024-07-18', prices)).toBe(prices['gpt-4o-mini']);
+      expect(findModelPrice('llama3.1:8b', prices)).toBeUndefined();
+    });
+
+    it('should price input and output tokens per million', () => {
+      expect(computeCallCost('gemini-2.5-flash', { inputTokens: 10_000, outputTokens: 2_000 }, prices)).toBeCloseTo(0.008);
+      expect(computeCallCost('llama3.1:8b', { inputTokens: 10_000, outputTokens: 2_000 }, prices)).toBeUndefined();
+    });
+  });
+
+  describe('Reports', () => {
+    const totals: LLMCostTotals[] = [
+      { key: 'interpreter', calls: 4, inputTokens: 20_000, outputTokens: 1_500, costUsd: 0.00975, unpricedCalls: 0 },
+      { key: 'planner', calls: 2, inputTokens: 30_000, outputTokens: 4_000, costUsd: 0.019, unpricedCalls: 1 },
+    ];
+
+    it('should list the most expensive first and flag unpriced calls', () => {
+      const lines = formatCostTotals(totals).split('\n');
+      expect(lines[0]).toMatch(/^ {2}planner\s+2 calls\s+30,000 in \/\s+4,000 out\s+\$0\.0190 {2}\(1 unpriced\)$/);
+      expect(lines[1]).toMatch(/^ {2}interpreter\s+4 calls/);
+      expect(formatCostTotals([])).toBe('  (no LLM calls recorded)');
+    });
+
+    it('should sum totals', () => {
+      const total = sumCostTotals(totals);
+      expect(total).toMatchObject({ key: 'Total', calls: 6, inputTokens: 50_000, outputTokens: 5_500, unpricedCalls: 1 });
+      expect(total.costUsd).toBeCloseTo(0.02875);
+      expect(formatUsd(12.5)).toBe('$12.50');
+    });
+  });
+});
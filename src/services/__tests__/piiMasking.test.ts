@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  classifyColumn,
+  classifyTableColumns,
+  maskResultForLLM,
+  unmaskText,
+  unmaskSQL,
+  maskSQL,
+  maskText,
+  setPiiClassifications,
+  setPiiMaskingEnabled,
+  clearPseudonyms,
+} from '../piiMasking.js';
+import { SQLResult } from '../../types.js';
+
+function result(columns: string[], rows: any[][]): SQLResult {
+  return { columns, rows, rowCount: rows.length, durationMs: 1 };
+}
+
+describe('PII masking', () => {
+  beforeEach(() => {
+    clearPseudonyms();
+    setPiiClassifications([]);
+    setPiiMaskingEnabled(true);
+  });
+
+  describe('Column classification', () => {
+    it('should classify by column name', () => {
+      expect(classifyColumn('email_address', 'text')?.category).toBe('email');
+      expect(classifyColumn('phone', 'character varying')?.category).toBe('phone');
+      expect(classifyColumn('last_name', 'text')?.category).toBe('person_name');
+      expect(classifyColumn('iban', 'text')?.strategy).toBe('redact');
+    });
+
+    it('should classify by data type', () => {
+      expect(classifyColumn('client', 'inet')).toMatchObject({ category: 'ip_address', detectedBy: 'data_type' });
+    });
+
+    it('should ignore name rules when the data type does not fit', () => {
+      expect(classifyColumn('phone_count', 'integer')).toBeNull();
+      expect(classifyColumn('date_of_birth', 'boolean')).toBeNull();
+    });
+
+    it('should only treat a bare name column as personal in people tables', () => {
+      expect(classifyColumn('name', 'text', [], 'customers')?.category).toBe('person_name');
+      expect(classifyColumn('name', 'text', [], 'products')).toBeNull();
+    });
+
+    it('should classify by value patterns', () => {
+      expect(classifyColumn('contact', 'text', ['a@example.com', 'b@example.org'])?.category).toBe('email');
+      expect(classifyColumn('account', 'text', ['DE89 3704 0044 0532 0130 00'])?.category).toBe('iban');
+      expect(classifyColumn('card', 'text', ['4111 1111 1111 1111'])?.category).toBe('credit_card');
+      expect(classifyColumn('contact', 'text', ['+44 20 7946 0958', '(555) 123-4567'])?.category).toBe('phone');
+    });
+
+    it('should not mistake IDs, dates or failed checksums for PII', () => {
+      expect(classifyColumn('order_ref', 'text', ['1234567890', '2345678901'])).toBeNull();
+      expect(classifyColumn('created', 'text', ['2024-01-15', '2024-02-01'])).toBeNull();
+      expect(classifyColumn('account', 'text', ['DE00 3704 0044 0532 0130 00'])).toBeNull();
+    });
+
+    it('should classify table columns with schema context', () => {
+      const classified = classifyTableColumns({
+        tableName: 'users',
+        columns: [
+          { columnName: 'id', dataType: 'integer', isNullable: false },
+          { columnName: 'name', dataType: 'text', isNullable: true },
+          { columnName: 'email', dataType: 'text', isNullable: true },
+        ],
+      });
+      expect(classified.map(c => c.columnName)).toEqual(['name', 'email']);
+      expect(classified[0].schemaName).toBe('public');
+    });
+  });
+
+  describe('Masking result rows', () => {
+    it('should replace PII with stable pseudonyms and leave other values alone', () => {
+      const masked = maskResultForLLM(result(
+        ['id', 'email', 'total'],
+        [[1, 'ann@example.com', 10], [2, 'bob@example.com', 20], [3, 'ann@example.com', 30]]
+      ));
+      expect(masked.rows).toEqual([
+        [1, '<EMAIL_1>', 10],
+        [2, '<EMAIL_2>', 20],
+        [3, '<EMAIL_1>', 30],
+      ]);
+    });
+
+    it('should not modify the original result', () => {
+      const original = result(['email'], [['ann@example.com']]);
+      maskResultForLLM(original);
+      expect(original.rows[0][0]).toBe('ann@example.com');
+    });
+
+    it('should redact secrets', () => {
+      const masked = maskResultForLLM(result(['iban'], [['DE89370400440532013000']]));
+      expect(masked.rows[0][0]).toBe('[REDACTED_IBAN]');
+    });
+
+    it('should use cached classifications for the source tables', () => {
+      setPiiClassifications([{
+        tableName: 'customers', schemaName: 'public', columnName: 'name',
+        category: 'person_name', strategy: 'pseudonym', detectedBy: 'name',
+      }]);
+      const rows = [['Ann Lee']];
+      expect(maskResultForLLM(result(['name'], rows), ['customers']).rows[0][0]).toBe('<PERSON_1>');
+      expect(maskResultForLLM(result(['name'], rows), ['products']).rows[0][0]).toBe('Ann Lee');
+    });
+
+    it('should mask email addresses embedded in free text', () => {
+      const masked = maskResultForLLM(result(['note'], [['Call back, contact ann@example.com today']]));
+      expect(masked.rows[0][0]).toBe('Call back, contact <EMAIL_1> today');
+    });
+
+    it('should pass rows through when masking is disabled', () => {
+      setPiiMaskingEnabled(false);
+      const masked = maskResultForLLM(result(['email'], [['ann@example.com']]));
+      expect(masked.rows[0][0]).toBe('ann@example.com');
+    });
+  });
+
+  describe('Unmasking LLM output', () => {
+    it('should map pseudonyms in answers back to real values', () => {
+      maskResultForLLM(result(['email'], [['ann@example.com']]));
+      expect(unmaskText('Top customer: <EMAIL_1> (<EMAIL_9> unknown)')).toBe('Top customer: ann@example.com (<EMAIL_9> unknown)');
+    });
+
+    it('should turn pseudonyms in SQL into escaped literals', () => {
+      maskResultForLLM(result(['last_name'], [["O'Brien"]]));
+      expect(unmaskSQL("SELECT * FROM users WHERE last_name = '<PERSON_1>'")).toBe("SELECT * FROM users WHERE last_name = 'O''Brien'");
+      expect(unmaskSQL('SELECT * FROM users WHERE last_name = <PERSON_1>')).toBe("SELECT * FROM users WHERE last_name = 'O''Brien'");
+      expect(unmaskSQL("SELECT * FROM users WHERE last_name LIKE '%<PERSON_1>%'")).toBe("SELECT * FROM users WHERE last_name LIKE '%O''Brien%'");
+    });
+  });
+
+  describe('Masking text for prompts', () => {
+    it('should map known values in SQL literals back to their pseudonyms', () => {
+      maskResultForLLM(result(['last_name', 'email'], [["O'Brien", 'ann@example.com']]));
+      expect(maskSQL("SELECT * FROM users WHERE last_name = 'O''Brien' OR email LIKE '%ann@example.com%'"))
+        .toBe("SELECT * FROM users WHERE last_name = '<PERSON_1>' OR email LIKE '%<EMAIL_1>%'");
+      expect(unmaskSQL(maskSQL("SELECT * FROM users WHERE last_name = 'O''Brien'"))).toBe("SELECT * FROM users WHERE last_name = 'O''Brien'");
+    });
+
+    it('should only replace whole values, and leave unknown values alone', () => {
+      maskResultForLLM(result(['first_name'], [['Ann']]));
+      expect(maskText('Annual revenue for Ann, not for bob@example.com')).toBe('Annual revenue for <PERSON_1>, not for bob@example.com');
+      expect(maskSQL("SELECT first_name AS ann FROM users WHERE first_name = 'Ann'")).toBe("SELECT first_name AS ann FROM users WHERE first_name = '<PERSON_1>'");
+    });
+  });
+});
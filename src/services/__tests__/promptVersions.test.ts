@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { formatPromptTemplates, formatPromptVersionOutcome } from '../promptVersions.js';
+import { PromptTemplate, PromptVersionStats } from '../../types.js';
+
+const templates: PromptTemplate[] = [
+  { name: 'planner', version: 'aaaaaaaaaaaa', source: 'override', path: '/etc/sage/prompts/planner.txt', text: '' },
+  { name: 'interpreter', version: 'cccccccccccc', source: 'default', path: 'prompts/interpreter.txt', text: '' },
+];
+
+const stats: PromptVersionStats[] = [
+  { name: 'planner', version: 'bbbbbbbbbbbb', runs: 40, corrected: 10, avgRating: 3.25, lastUsed: new Date('2026-10-01T12:00:00Z') },
+  { name: 'planner', version: 'aaaaaaaaaaaa', runs: 1, corrected: 0, lastUsed: new Date('2026-10-18T12:00:00Z') },
+];
+
+describe('Prompt versions', () => {
+  it('should summarize the outcome of a version', () => {
+    expect(formatPromptVersionOutcome(stats[0])).toBe('40 runs, 10 corrected (25%), avg rating 3.3, last used 2026-10-01');
+    expect(formatPromptVersionOutcome(stats[1])).toBe('1 run, 0 corrected (0%), no ratings, last used 2026-10-18');
+  });
+
+  it('should list each template with its active version first', () => {
+    expect(formatPromptTemplates(templates, stats).split('\n')).toEqual([
+      '  planner      aaaaaaaaaaaa  override (/etc/sage/prompts/planner.txt)',
+      '    * aaaaaaaaaaaa  1 run, 0 corrected (0%), no ratings, last used 2026-10-18',
+      '      bbbbbbbbbbbb  40 runs, 10 corrected (25%), avg rating 3.3, last used 2026-10-01',
+      '  interpreter  cccccccccccc  default',
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { applyRowFilters, filterSchemaByRowFilters, hasRowFilter, readsRowFilteredTable } from '../rowFilter.js';
+import { PolicyTable } from '../accessPolicy.js';
+import { RowFilter } from '../../types.js';
+
+const filters: RowFilter[] = [
+  { table: 'orders', predicate: 'region = :user_region' },
+];
+const session = { user_region: 'EU' };
+
+describe('Row filters', () => {
+  it('should wrap a filtered table and bind the session parameter', () => {
+    const result = applyRowFilters('SELECT id FROM orders LIMIT 200;', filters, session);
+    expect(result.sql).toBe('SELECT id FROM (SELECT * FROM orders WHERE (region = $1)) AS orders LIMIT 200;');
+    expect(result.params).toEqual(['EU']);
+    expect(result.filteredTables).toEqual(['orders']);
+  });
+
+  it('should keep the existing alias', () => {
+    const result = applyRowFilters('SELECT o.id FROM public.orders AS o JOIN customers c ON c.id = o.customer_id', filters, session);
+    expect(result.sql).toBe('SELECT o.id FROM (SELECT * FROM public.orders WHERE (region = $1)) AS o JOIN customers c ON c.id = o.customer_id');
+  });
+
+  it('should leave SQL without filtered tables unchanged', () => {
+    const result = applyRowFilters('SELECT * FROM customers', filters, session);
+    expect(result.sql).toBe('SELECT * FROM customers');
+    expect(result.params).toEqual([]);
+  });
+
+  it('should filter every reference, including subqueries, and reuse the parameter', () => {
+    const sql = 'SELECT * FROM orders WHERE total > (SELECT avg(total) FROM orders)';
+    const result = applyRowFilters(sql, filters, session);
+    expect(result.sql).toBe(
+      'SELECT * FROM (SELECT * FROM orders WHERE (region = $1)) AS orders WHERE total > (SELECT avg(total) FROM (SELECT * FROM orders WHERE (region = $1)) AS orders)'
+    );
+    expect(result.params).toEqual(['EU']);
+  });
+
+  it('should filter tables inside a CTE but not references to the CTE', () => {
+    const sql = 'WITH recent AS (SELECT * FROM orders) SELECT count(*) FROM recent';
+    const result = applyRowFilters(sql, filters, session);
+    expect(result.sql).toBe('WITH recent AS (SELECT * FROM (SELECT * FROM orders WHERE (region = $1)) AS orders) SELECT count(*) FROM recent');
+  });
+
+  it('should filter the real table inside a CTE that shadows its name', () => {
+    const sql = 'WITH orders AS (SELECT * FROM orders) SELECT * FROM orders';
+    const result = applyRowFilters(sql, filters, session);
+    expect(result.sql).toBe('WITH orders AS (SELECT * FROM (SELECT * FROM orders WHERE (region = $1)) AS orders) SELECT * FROM orders');
+  });
+
+  it('should number parameters after ones already used by the query', () => {
+    const result = applyRowFilters('SELECT * FROM orders WHERE id = $1', filters, session);
+    expect(result.sql).toContain('region = $2');
+  });
+
+  it('should not treat casts or quoted text as parameters', () => {
+    const result = applyRowFilters(
+      'SELECT * FROM orders',
+      [{ table: 'orders', predicate: "region = :user_region::text AND note <> ':skip'" }],
+      session
+    );
+    expect(result.sql).toContain("(region = $1::text AND note <> ':skip')");
+    expect(result.params).toEqual(['EU']);
+  });
+
+  it('should move ONLY into the subquery', () => {
+    const result = applyRowFilters('SELECT * FROM ONLY orders', filters, session);
+    expect(result.sql).toBe('SELECT * FROM (SELECT * FROM ONLY orders WHERE (region = $1)) AS orders');
+  });
+
+  it('should only match schema-qualified filters in that schema', () => {
+    const result = applyRowFilters('SELECT * FROM archive.orders', [{ table: 'public.orders', predicate: 'region = :user_region' }], session);
+    expect(result.params).toEqual([]);
+  });
+
+  it('should resolve unqualified names through the whole search_path', () => {
+    const salesFilters: RowFilter[] = [{ table: 'sales.orders', predicate: 'region = :user_region' }];
+    const tables = [{ schemaName: 'sales', tableName: 'orders' }, { schemaName: 'public', tableName: 'customers' }];
+
+    const result = applyRowFilters('SELECT id FROM orders', salesFilters, session, ['public', 'sales'], tables);
+    expect(result.sql).toBe('SELECT id FROM (SELECT * FROM orders WHERE (region = $1)) AS orders');
+
+    const shadowed = applyRowFilters('SELECT id FROM orders', salesFilters, session, ['public', 'sales'],
+      [{ schemaName: 'public', tableName: 'orders' }, ...tables]);
+    expect(shadowed.params).toEqual([]);
+  });
+
+  it('should fail closed when an unqualified name a filter could apply to does not resolve', () => {
+    const salesFilters: RowFilter[] = [{ table: 'sales.orders', predicate: 'region = :user_region' }];
+    expect(() => applyRowFilters('SELECT id FROM orders', salesFilters, session, ['public', 'sales'], []))
+      .toThrow(/cannot tell which schema "orders" resolves to/);
+    expect(applyRowFilters('SELECT id FROM customers', salesFilters, session, ['public', 'sales'], []).params).toEqual([]);
+  });
+
+  it('should tell which tables have a filter', () => {
+    const mixed: RowFilter[] = [...filters, { table: 'sales.invoices', predicate: 'region = :user_region' }];
+    expect(hasRowFilter(mixed, 'archive', 'orders')).toBe(true);
+    expect(hasRowFilter(mixed, 'sales', 'invoices')).toBe(true);
+    expect(hasRowFilter(mixed, 'public', 'invoices')).toBe(false);
+  });
+
+  it('should fail closed when a session parameter is missing', () => {
+    expect(() => applyRowFilters('SELECT * FROM orders', filters, {})).toThrow(/user_region/);
+  });
+
+  describe('Views', () => {
+    const tables: PolicyTable[] = [
+      { schemaName: 'public', tableName: 'orders', tableType: 'table' },
+      { schemaName: 'public', tableName: 'customers', tableType: 'table' },
+      { schemaName: 'public', tableName: 'orders_summary', tableType: 'view', viewDefinition: 'SELECT region, count(*) AS n FROM orders GROUP BY region' },
+      { schemaName: 'public', tableName: 'orders_nightly', tableType: 'materialized_view', viewDefinition: 'SELECT s.region FROM orders_summary s' },
+      { schemaName: 'public', tableName: 'customer_names', tableType: 'view', viewDefinition: 'WITH orders AS (SELECT id FROM customers) SELECT id FROM orders' },
+    ];
+
+    it('should refuse queries on views that read a filtered table, directly or through other views', () => {
+      expect(() => applyRowFilters('SELECT * FROM orders_summary', filters, session, ['public'], tables))
+        .toThrow(/view "public.orders_summary" reads a row-filtered table/);
+      expect(() => applyRowFilters('SELECT region FROM public.orders_nightly', filters, session, ['public'], tables))
+        .toThrow(/orders_nightly/);
+      expect(applyRowFilters('SELECT id FROM customer_names', filters, session, ['public'], tables).params).toEqual([]);
+    });
+
+    it('should treat views without a usable definition as filtered', () => {
+      expect(readsRowFilteredTable({ tableName: 'opaque', tableType: 'view' }, filters)).toBe(true);
+      expect(readsRowFilteredTable({ tableName: 'broken', tableType: 'view', viewDefinition: 'SELEC' }, filters)).toBe(true);
+      expect(readsRowFilteredTable({ tableName: 'opaque', tableType: 'view' }, [])).toBe(false);
+    });
+
+    it('should hide views that read a filtered table', () => {
+      expect(filterSchemaByRowFilters(tables, filters).map(t => t.tableName))
+        .toEqual(['orders', 'customers', 'customer_names']);
+      expect(filterSchemaByRowFilters(tables, [])).toBe(tables);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSchemaSnapshot,
+  schemaFingerprint,
+  diffSchemaSnapshots,
+  findAffectedSemantics,
+  formatSchemaChange,
+} from '../schemaDrift.js';
+import { Semantic, TableMetadata, TableSchema } from '../../types.js';
+
+const orders: TableSchema = {
+  tableName: 'orders',
+  schemaName: 'sales',
+  columns: [
+    { columnName: 'id', dataType: 'integer', isNullable: false },
+    { columnName: 'status', dataType: 'text', isNullable: false },
+    { columnName: 'amount', dataType: 'integer', isNullable: true },
+  ],
+};
+
+const customers: TableSchema = {
+  tableName: 'customers',
+  schemaName: 'sales',
+  columns: [{ columnName: 'id', dataType: 'integer', isNullable: false }],
+};
+
+const ordersMetadata: TableMetadata = {
+  tableName: 'orders',
+  schemaName: 'sales',
+  estimatedRowCount: 0,
+  totalSizeBytes: 0,
+  tableSizeBytes: 0,
+  indexSizeBytes: 0,
+  primaryKeyColumns: ['id'],
+  indexes: [{ indexName: 'orders_pkey', columns: ['id'], isUnique: true, isPrimary: true, indexType: 'btree' }],
+  foreignKeys: [{ constraintName: 'orders_customer_fk', fromColumn: 'customer_id', toTable: 'customers', toColumn: 'id', toSchema: 'sales' }],
+  lastAnalyzed: new Date(),
+  lastUpdated: new Date(),
+};
+
+function semantic(term: string, fields: Partial<Semantic>): Semantic {
+  return { id: term, category: 'metric', term, description: term, createdAt: new Date(), ...fields };
+}
+
+describe('Schema drift', () => {
+  const before = buildSchemaSnapshot([orders, customers], [ordersMetadata]);
+
+  describe('Snapshots', () => {
+    it('should capture columns, indexes and foreign keys by qualified table', () => {
+      expect(before['sales.orders']).toEqual({
+        tableType: 'table',
+        columns: { id: 'integer NOT NULL', status: 'text NOT NULL', amount: 'integer' },
+        indexes: { orders_pkey: 'UNIQUE btree (id)' },
+        foreignKeys: { orders_customer_fk: 'customer_id → sales.customers.id' },
+      });
+    });
+
+    it('should fingerprint structure regardless of order', () => {
+      const reordered = buildSchemaSnapshot([customers, { ...orders, columns: [...orders.columns].reverse() }], [ordersMetadata]);
+      expect(schemaFingerprint(reordered)).toBe(schemaFingerprint(before));
+      const withoutOrders = buildSchemaSnapshot([customers], []);
+      expect(schemaFingerprint(withoutOrders)).not.toBe(schemaFingerprint(before));
+    });
+  });
+
+  describe('Diff', () => {
+    it('should report added, removed and retyped tables and columns', () => {
+      const after = buildSchemaSnapshot(
+        [
+          {
+            ...orders,
+            columns: [
+              orders.columns[0],
+              { columnName: 'amount', dataType: 'numeric(10,2)', isNullable: true },
+              { columnName: 'note', dataType: 'text', isNullable: true },
+            ],
+          },
+          { tableName: 'refunds', schemaName: 'sales', columns: [] },
+        ],
+        [{ ...ordersMetadata, foreignKeys: [] }]
+      );
+
+      expect(diffSchemaSnapshots(before, after)).toEqual([
+        { kind: 'table', change: 'removed', table: 'sales.customers', before: 'table' },
+        { kind: 'column', change: 'retyped', table: 'sales.orders', name: 'amount', before: 'integer', after: 'numeric(10,2)' },
+        { kind: 'column', change: 'added', table: 'sales.orders', name: 'note', after: 'text' },
+        { kind: 'column', change: 'removed', table: 'sales.orders', name: 'status', before: 'text NOT NULL' },
+        { kind: 'foreign_key', change: 'removed', table: 'sales.orders', name: 'orders_customer_fk', before: 'customer_id → sales.customers.id' },
+        { kind: 'table', change: 'added', table: 'sales.refunds', after: 'table' },
+      ]);
+      expect(diffSchemaSnapshots(before, before)).toEqual([]);
+    });
+
+    it('should format changes as one line each', () => {
+      expect(formatSchemaChange({ kind: 'column', change: 'retyped', table: 'sales.orders', name: 'amount', before: 'integer', after: 'numeric' }))
+        .toBe('~ column sales.orders.amount: integer → numeric');
+      expect(formatSchemaChange({ kind: 'table', change: 'removed', table: 'sales.customers', before: 'table' }))
+        .toBe('- table sales.customers: table');
+    });
+  });
+
+  describe('Affected semantics', () => {
+    const changes = diffSchemaSnapshots(before, buildSchemaSnapshot(
+      [{ ...orders, columns: orders.columns.filter(c => c.columnName !== 'status') }],
+      [ordersMetadata]
+    ));
+
+    it('should flag semantics on a removed table or column', () => {
+      const affected = findAffectedSemantics(changes, [
+        semantic('completed orders', { tableName: 'orders', columnName: 'status' }),
+        semantic('active customers', { tableName: 'sales.customers' }),
+        semantic('revenue', { tableName: 'orders', columnName: 'amount' }),
+      ]);
+      expect(affected).toEqual([
+        { semanticId: 'completed orders', name: 'completed orders', reason: 'column sales.orders.status was removed' },
+        { semanticId: 'active customers', name: 'active customers', reason: 'table sales.customers was removed' },
+      ]);
+    });
+
+    it('should match SQL fragments only when they use the table too', () => {
+      const affected = findAffectedSemantics(changes, [
+        semantic('open', { sqlFragment: "orders.status = 'OPEN'" }),
+        semantic('open tickets', { tableName: 'tickets', sqlFragment: "status = 'OPEN'" }),
+        semantic('other schema', { tableName: 'finance.orders', columnName: 'status' }),
+      ]);
+      expect(affected.map(a => a.name)).toEqual(['open']);
+    });
+  });
+});
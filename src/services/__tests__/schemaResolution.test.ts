@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTableName,
+  quoteIdentifier,
+  qualifiedTableName,
+  resolveTable,
+  resolveTableName,
+  referencesTable,
+} from '../schemaResolution.js';
+import { validateTablesExist } from '../metadataValidation.js';
+import { TableMetadata, TableSchema } from '../../types.js';
+
+const schema: TableSchema[] = [
+  { tableName: 'orders', schemaName: 'finance', columns: [] },
+  { tableName: 'orders', schemaName: 'sales', columns: [] },
+  { tableName: 'customers', schemaName: 'sales', columns: [] },
+  { tableName: 'Order Items', schemaName: 'public', columns: [] },
+];
+
+function metadata(tableName: string, schemaName: string): TableMetadata {
+  return {
+    tableName,
+    schemaName,
+    estimatedRowCount: 0,
+    totalSizeBytes: 0,
+    tableSizeBytes: 0,
+    indexSizeBytes: 0,
+    primaryKeyColumns: [],
+    indexes: [],
+    foreignKeys: [],
+    lastAnalyzed: new Date(),
+    lastUpdated: new Date(),
+  };
+}
+
+describe('Schema resolution', () => {
+  describe('Names', () => {
+    it('should fold unquoted identifiers and keep quoted ones', () => {
+      expect(parseTableName('Sales.Orders')).toEqual({ schema: 'sales', table: 'orders' });
+      expect(parseTableName('"Sales".orders')).toEqual({ schema: 'Sales', table: 'orders' });
+      expect(parseTableName('"Order Items"')).toEqual({ table: 'Order Items' });
+      expect(parseTableName('"a.b"')).toEqual({ table: 'a.b' });
+    });
+
+    it('should quote identifiers only when required', () => {
+      expect(quoteIdentifier('orders')).toBe('orders');
+      expect(quoteIdentifier('Orders')).toBe('"Orders"');
+      expect(quoteIdentifier('user')).toBe('"user"');
+      expect(quoteIdentifier('say "hi"')).toBe('"say ""hi"""');
+      expect(qualifiedTableName(schema[3])).toBe('public."Order Items"');
+      expect(qualifiedTableName({ tableName: 'orders' })).toBe('public.orders');
+    });
+  });
+
+  describe('Resolution', () => {
+    it('should match qualified references exactly', () => {
+      expect(resolveTable({ schema: 'finance', table: 'orders' }, schema)).toBe(schema[0]);
+      expect(resolveTable({ schema: 'public', table: 'orders' }, schema)).toBeUndefined();
+    });
+
+    it('should resolve unqualified references in search_path order', () => {
+      expect(resolveTableName('orders', schema, ['sales', 'finance'])).toBe(schema[1]);
+      expect(resolveTableName('orders', schema, ['finance', 'sales'])).toBe(schema[0]);
+      expect(resolveTableName('orders', schema, ['public'])).toBeUndefined();
+      expect(resolveTableName('"Order Items"', schema)).toBe(schema[3]);
+    });
+
+    it('should match foreign keys on target schema when known', () => {
+      const fk = { constraintName: 'items_order_fk', fromColumn: 'order_id', toTable: 'orders', toColumn: 'id', toSchema: 'sales' };
+      expect(referencesTable(fk, schema[1])).toBe(true);
+      expect(referencesTable(fk, schema[0])).toBe(false);
+      expect(referencesTable({ ...fk, toSchema: undefined }, schema[0])).toBe(true);
+    });
+  });
+
+  describe('Table validation', () => {
+    it('should validate tables the way search_path resolves them', () => {
+      const tables = [metadata('orders', 'sales'), metadata('orders', 'finance')];
+      expect(validateTablesExist(['orders'], tables)).toMatchObject({ valid: false, missing: ['orders'] });
+      expect(validateTablesExist(['orders', 'finance.orders'], tables, ['sales'])).toMatchObject({
+        valid: true,
+        found: ['orders', 'finance.orders'],
+      });
+    });
+  });
+});
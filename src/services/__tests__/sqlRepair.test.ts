@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractPostgresError,
+  isRepairableError,
+  formatPostgresErrorForLLM,
+  selectRepairSchema,
+  diffSqlTokens,
+  fixSignature,
+  buildRepairSuggestion,
+} from '../sqlRepair.js';
+import { SQLRepairAttempt, TableSchema } from '../../types.js';
+
+function pgError(fields: Record<string, any>): Error {
+  return Object.assign(new Error(fields.message), fields);
+}
+
+const schema: TableSchema[] = [
+  { tableName: 'orders', columns: [{ columnName: 'id', dataType: 'integer', isNullable: false }] },
+  { tableName: 'customers', columns: [{ columnName: 'name', dataType: 'text', isNullable: true }] },
+];
+
+describe('SQL repair', () => {
+  describe('PostgreSQL errors', () => {
+    it('should extract code, message, hint and position', () => {
+      const sql = 'SELECT customer_name FROM customers LIMIT 200;';
+      const details = extractPostgresError(pgError({
+        code: '42703',
+        message: 'column "customer_name" does not exist',
+        hint: 'Perhaps you meant to reference the column "customers.name".',
+        position: '8',
+      }), sql);
+      expect(details).toEqual({
+        code: '42703',
+        message: 'column "customer_name" does not exist',
+        hint: 'Perhaps you meant to reference the column "customers.name".',
+        position: 8,
+        near: 'customer_name FROM customers LIMIT 200;',
+      });
+    });
+
+    it('should resolve the position against the SQL rewritten by row filters', () => {
+      const details = extractPostgresError(pgError({
+        code: '42703',
+        message: 'column "x" does not exist',
+        position: '16',
+        executedSQL: 'SELECT x FROM (SELECT * FROM orders WHERE (region = $1)) AS orders',
+      }), 'SELECT x FROM orders');
+      expect(details?.near).toMatch(/^SELECT \* FROM orders/);
+    });
+
+    it('should keep the values quoted in data errors out of the details', () => {
+      const details = extractPostgresError(pgError({
+        code: '22P02',
+        message: 'invalid input syntax for type integer: "alice@example.com"',
+        detail: 'Token "o\'brien "x"" is invalid.',
+      }), 'SELECT * FROM orders WHERE id = email');
+      expect(details?.message).toBe('invalid input syntax for type integer: "<value>"');
+      expect(details?.detail).toBe('Token "<value>" is invalid.');
+      expect(formatPostgresErrorForLLM(details!)).not.toMatch(/alice|brien/);
+
+      const unchanged = extractPostgresError(pgError({ code: '42703', message: 'column "email" does not exist' }), 'SELECT email');
+      expect(unchanged?.message).toBe('column "email" does not exist');
+    });
+
+    it('should ignore errors that did not come from PostgreSQL', () => {
+      expect(extractPostgresError(new Error('SQL validation failed: DROP'), 'DROP TABLE x')).toBeNull();
+      expect(extractPostgresError(pgError({ code: 'ECONNREFUSED', message: 'refused' }), 'SELECT 1')).toBeNull();
+    });
+
+    it('should only repair errors a rewrite can fix', () => {
+      expect(isRepairableError({ code: '42703', message: '' })).toBe(true);
+      expect(isRepairableError({ code: '42702', message: '' })).toBe(true);
+      expect(isRepairableError({ code: '22P02', message: '' })).toBe(true);
+      expect(isRepairableError({ code: '57014', message: '' })).toBe(true);
+      expect(isRepairableError({ code: '42501', message: '' })).toBe(false);
+      expect(isRepairableError({ code: '25006', message: '' })).toBe(false);
+    });
+
+    it('should format the error for the SQL writer', () => {
+      const text = formatPostgresErrorForLLM({
+        code: '42702', message: 'column reference "id" is ambiguous', position: 8, near: 'id FROM orders',
+      });
+      expect(text).toBe('Error code: 42702 (ambiguous_column)\nMessage: column reference "id" is ambiguous\nPosition: character 8, at: id FROM orders');
+    });
+  });
+
+  describe('Schema slice', () => {
+    it('should send only the referenced tables', () => {
+      const slice = selectRepairSchema(schema, [{ schema: 'public', table: 'customers' }], { code: '42703', message: '' });
+      expect(slice.map(t => t.tableName)).toEqual(['customers']);
+    });
+
+    it('should resolve unqualified tables through the search_path', () => {
+      const multi: TableSchema[] = [
+        { tableName: 'orders', schemaName: 'finance', columns: [] },
+        { tableName: 'orders', schemaName: 'sales', columns: [] },
+      ];
+      const slice = selectRepairSchema(multi, [{ table: 'orders' }], { code: '42703', message: '' }, ['sales', 'finance']);
+      expect(slice).toEqual([multi[1]]);
+    });
+
+    it('should send the full schema for an unknown table', () => {
+      expect(selectRepairSchema(schema, [{ table: 'client' }], { code: '42P01', message: '' })).toHaveLength(2);
+    });
+  });
+
+  describe('Fix signatures', () => {
+    it('should diff tokens, ignoring case and formatting', () => {
+      expect(diffSqlTokens(
+        'SELECT customer_name FROM customers LIMIT 200;',
+        'select name\nfrom customers limit 200;'
+      )).toEqual({ removed: ['customer_name'], added: ['name'] });
+    });
+
+    it('should give identical fixes in different queries the same signature', () => {
+      const a = fixSignature('42703', 'SELECT customer_name FROM customers', 'SELECT name FROM customers');
+      const b = fixSignature('42703', 'SELECT id, customer_name FROM customers WHERE id > 5', 'SELECT id, name FROM customers WHERE id > 5');
+      expect(a).toBe('42703:-customer_name:+name');
+      expect(b).toBe(a);
+    });
+
+    it('should return null when the fix changed nothing', () => {
+      expect(fixSignature('42703', 'SELECT 1', 'select 1')).toBeNull();
+    });
+  });
+
+  describe('Suggestions from repeated fixes', () => {
+    const attempt: SQLRepairAttempt = {
+      stepNumber: 1,
+      attempt: 1,
+      failedSql: 'SELECT customer_name FROM customers LIMIT 200;',
+      error: { code: '42703', message: 'column "customer_name" does not exist' },
+      repairedSql: 'SELECT name FROM customers LIMIT 200;',
+      fixSignature: '42703:-customer_name:+name',
+      succeeded: true,
+    };
+
+    it('should build a pattern_analysis suggestion', () => {
+      const suggestion = buildRepairSuggestion(attempt, 3, 'List customer names', 'run-1');
+      expect(suggestion).toMatchObject({
+        suggested_name: 'customer_name',
+        suggested_type: 'ANTI_PATTERN',
+        learned_from: 'pattern_analysis',
+        source_run_log_id: 'run-1',
+        status: 'pending',
+        evidence: { correction_count: 3, fix_signature: '42703:-customer_name:+name' },
+      });
+      expect(suggestion?.suggested_definition.sqlPattern).toBe('name');
+    });
+
+    it('should skip failed attempts and large rewrites', () => {
+      expect(buildRepairSuggestion({ ...attempt, succeeded: false }, 3, 'q')).toBeNull();
+      expect(buildRepairSuggestion({
+        ...attempt,
+        repairedSql: 'SELECT c.first_name, c.last_name, o.total FROM customers c JOIN orders o ON o.customer_id = c.id',
+      }, 3, 'q')).toBeNull();
+    });
+  });
+});
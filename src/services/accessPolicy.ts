@@ -0,0 +1,354 @@
+/**
+ * Access Policy Service
+ *
+ * Business logic for the table/column access policy on the inspected
+ * database. Decides which schemas, tables and columns the agent may see
+ * and query, checks parsed SQL against the policy, and filters schema
+ * information before it reaches the LLM.
+ *
+ * Matching is case-insensitive. Unqualified table names in SQL resolve
+ * through the whole search_path against the loaded tables; a name that does
+ * not resolve is checked against every search_path schema (fails closed).
+ * Views and materialized views are only accessible when their definition
+ * reads nothing restricted - otherwise they would expose restricted columns,
+ * and their definition would name what is restricted.
+ */
+
+import { AccessPolicy, PolicyViolation, TableSchema, TableMetadata } from '../types.js';
+import { parseSQL, ParsedSQL } from '../agent/sqlValidator.js';
+import { parsePostgres } from '../utils/sqlAst.js';
+import { DEFAULT_SCHEMA, NamedTable, qualifiedTableName, resolveTable, schemaOfTable } from './schemaResolution.js';
+
+/**
+ * A table as the policy sees it: views carry their type and definition
+ */
+export type PolicyTable = NamedTable & Pick<TableSchema, 'tableType' | 'viewDefinition'>;
+
+/**
+ * Catalog views that expose column values (most common values, histograms):
+ * not accessible while any policy or row filter is active, since they bypass
+ * column restrictions and row filters
+ */
+const STATISTICS_VIEWS = new Set([
+  'pg_stats',
+  'pg_stats_ext',
+  'pg_stats_ext_exprs',
+  'pg_statistic',
+  'pg_statistic_ext',
+  'pg_statistic_ext_data',
+]);
+
+/**
+ * Check whether a policy declares any restriction at all
+ */
+export function isPolicyEmpty(policy: AccessPolicy): boolean {
+  return policy.allowedSchemas.length === 0 &&
+    policy.deniedSchemas.length === 0 &&
+    policy.allowedTables.length === 0 &&
+    policy.deniedTables.length === 0 &&
+    policy.allowedColumns.length === 0 &&
+    policy.deniedColumns.length === 0;
+}
+
+/**
+ * Check whether a schema may be accessed
+ */
+export function isSchemaAllowed(policy: AccessPolicy, schema: string): boolean {
+  const name = schema.toLowerCase();
+  if (policy.deniedSchemas.some(entry => entry.toLowerCase() === name)) {
+    return false;
+  }
+  return policy.allowedSchemas.length === 0 ||
+    policy.allowedSchemas.some(entry => entry.toLowerCase() === name);
+}
+
+/**
+ * Check whether a table may be accessed.
+ * Table entries are "table" (any schema) or "schema.table".
+ */
+export function isTableAllowed(policy: AccessPolicy, schema: string, table: string): boolean {
+  if (!isSchemaAllowed(policy, schema)) {
+    return false;
+  }
+  if (policy.deniedTables.some(entry => matchesTable(entry, schema, table))) {
+    return false;
+  }
+  return policy.allowedTables.length === 0 ||
+    policy.allowedTables.some(entry => matchesTable(entry, schema, table));
+}
+
+/**
+ * Check whether a column may be accessed.
+ * Column entries are "table.column" or "schema.table.column". If a table has
+ * any allowed-column entries, only those columns are accessible.
+ */
+export function isColumnAllowed(policy: AccessPolicy, schema: string, table: string, column: string): boolean {
+  if (!isTableAllowed(policy, schema, table)) {
+    return false;
+  }
+  if (policy.deniedColumns.some(entry => matchesColumn(entry, schema, table, column))) {
+    return false;
+  }
+  const allowedForTable = policy.allowedColumns.filter(entry => matchesColumn(entry, schema, table, undefined));
+  return allowedForTable.length === 0 ||
+    allowedForTable.some(entry => matchesColumn(entry, schema, table, column));
+}
+
+/**
+ * Check whether some columns of a table are restricted (so SELECT * would expose them)
+ */
+export function hasColumnRestrictions(policy: AccessPolicy, schema: string, table: string): boolean {
+  return [...policy.deniedColumns, ...policy.allowedColumns]
+    .some(entry => matchesColumn(entry, schema, table, undefined));
+}
+
+/**
+ * Check parsed SQL against the access policy.
+ *
+ * - Every referenced table must be in an allowed schema and not denied
+ * - Every resolved column must be allowed; unqualified columns are rejected
+ *   if they could refer to a restricted column of any referenced table
+ * - SELECT * / alias.* and whole-row references (row_to_json(u), (u).col)
+ *   are rejected on tables with column restrictions
+ * - Views whose definition reads restricted tables or columns are rejected
+ * - pg_catalog statistics views (pg_stats, ...) are rejected
+ *
+ * @param searchPath - Schemas unqualified table names resolve against (config.searchPath)
+ * @param tables - All tables and views of the inspected database (not filtered by the policy)
+ * @returns Policy violations (empty if the SQL complies)
+ */
+export function checkAccessPolicy(
+  parsed: ParsedSQL,
+  policy: AccessPolicy,
+  searchPath: string[] = [DEFAULT_SCHEMA],
+  tables: PolicyTable[] = []
+): PolicyViolation[] {
+  if (isPolicyEmpty(policy)) {
+    return [];
+  }
+  return findViolations(parsed, policy, searchPath, tables, new Set());
+}
+
+/**
+ * Check parsed SQL for pg_catalog statistics views (pg_stats, ...). Part of
+ * checkAccessPolicy; also applied on its own while row filters are active.
+ *
+ * @returns One violation per statistics view referenced
+ */
+export function checkStatisticsViews(parsed: ParsedSQL): PolicyViolation[] {
+  return parsed.tableRefs.filter(isStatisticsView).map(ref => ({
+    kind: 'table',
+    schema: 'pg_catalog',
+    table: ref.table,
+    reason: `"${ref.table}" exposes column values and is not accessible under an access policy or row filters`,
+  }));
+}
+
+function isStatisticsView(ref: ParsedSQL['tableRefs'][number]): boolean {
+  return STATISTICS_VIEWS.has(ref.table.toLowerCase()) && (!ref.schema || ref.schema.toLowerCase() === 'pg_catalog');
+}
+
+/**
+ * Check whether a view or materialized view reads restricted tables or
+ * columns (directly or through other views). A view without a definition,
+ * or one that does not parse, counts as restricted.
+ */
+export function isViewRestricted(
+  view: PolicyTable,
+  policy: AccessPolicy,
+  searchPath: string[] = [DEFAULT_SCHEMA],
+  tables: PolicyTable[] = []
+): boolean {
+  return viewRestricted(view, policy, searchPath, tables, new Set());
+}
+
+/**
+ * Check whether a table is a view or materialized view
+ */
+export function isView(table: PolicyTable): boolean {
+  return table.tableType === 'view' || table.tableType === 'materialized_view' || table.viewDefinition !== undefined;
+}
+
+function viewRestricted(
+  view: PolicyTable,
+  policy: AccessPolicy,
+  searchPath: string[],
+  tables: PolicyTable[],
+  seen: Set<string>
+): boolean {
+  const name = qualifiedTableName(view);
+  if (seen.has(name)) {
+    return false;
+  }
+  if (!view.viewDefinition || !parsePostgres(view.viewDefinition).success) {
+    return true;
+  }
+  seen.add(name);
+  return findViolations(parseSQL(view.viewDefinition), policy, searchPath, tables, seen).length > 0;
+}
+
+function findViolations(
+  parsed: ParsedSQL,
+  policy: AccessPolicy,
+  searchPath: string[],
+  tables: PolicyTable[],
+  seenViews: Set<string>
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  const add = (violation: PolicyViolation) => {
+    if (!violations.some(v => v.reason === violation.reason)) {
+      violations.push(violation);
+    }
+  };
+
+  // Schemas an unqualified name may resolve to: the one PostgreSQL will pick
+  // from the search_path, or - when it does not resolve - every search_path schema
+  const resolveSchemas = (table: string): string[] => {
+    const resolved = resolveTable({ table }, tables, searchPath);
+    return resolved ? [schemaOfTable(resolved)] : searchPath;
+  };
+  const schemasForTable = (table: string, schema?: string): string[] => {
+    if (schema) return [schema];
+    const ref = parsed.tableRefs.find(r => r.table.toLowerCase() === table.toLowerCase() && r.schema);
+    return ref?.schema ? [ref.schema] : resolveSchemas(table);
+  };
+
+  checkStatisticsViews(parsed).forEach(add);
+
+  for (const ref of parsed.tableRefs) {
+    if (isStatisticsView(ref)) {
+      continue;
+    }
+    for (const schema of ref.schema ? [ref.schema] : resolveSchemas(ref.table)) {
+      if (!isSchemaAllowed(policy, schema)) {
+        add({ kind: 'schema', schema, table: ref.table, reason: `schema "${schema}" is not accessible (table ${schema}.${ref.table})` });
+      } else if (!isTableAllowed(policy, schema, ref.table)) {
+        add({ kind: 'table', schema, table: ref.table, reason: `table "${schema}.${ref.table}" is not accessible` });
+      } else {
+        const view = resolveTable({ schema, table: ref.table }, tables, searchPath);
+        if (view && isView(view) && viewRestricted(view, policy, searchPath, tables, seenViews)) {
+          add({ kind: 'table', schema, table: ref.table, reason: `view "${schema}.${ref.table}" reads restricted tables or columns` });
+        }
+      }
+    }
+  }
+
+  for (const col of parsed.columns) {
+    if (col.table) {
+      for (const schema of schemasForTable(col.table, col.schema)) {
+        if (isTableAllowed(policy, schema, col.table) && !isColumnAllowed(policy, schema, col.table, col.column)) {
+          add({ kind: 'column', schema, table: col.table, column: col.column, reason: `column "${col.table}.${col.column}" is not accessible` });
+        }
+      }
+      continue;
+    }
+
+    // Unqualified and ambiguous: reject if it could be a restricted column
+    for (const ref of parsed.tableRefs) {
+      for (const schema of ref.schema ? [ref.schema] : resolveSchemas(ref.table)) {
+        if (isTableAllowed(policy, schema, ref.table) && !isColumnAllowed(policy, schema, ref.table, col.column)) {
+          add({ kind: 'column', schema, table: ref.table, column: col.column, reason: `column "${col.column}" may refer to restricted column "${ref.table}.${col.column}"` });
+        }
+      }
+    }
+  }
+
+  for (const wildcard of parsed.wildcards) {
+    for (const schema of schemasForTable(wildcard.table, wildcard.schema)) {
+      if (isTableAllowed(policy, schema, wildcard.table) && hasColumnRestrictions(policy, schema, wildcard.table)) {
+        add({ kind: 'column', schema, table: wildcard.table, reason: `SELECT * or a whole-row reference on "${wildcard.table}" would expose restricted columns - list allowed columns explicitly` });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Remove inaccessible tables, views over restricted tables or columns,
+ * columns and metadata entries (keys, indexes, allowed values) from the schema,
+ * so restricted objects are never shown to the LLM or the user.
+ *
+ * @param searchPath - Schemas unqualified names in view definitions resolve against
+ */
+export function filterSchemaByPolicy(
+  schema: TableSchema[],
+  policy: AccessPolicy,
+  searchPath: string[] = [DEFAULT_SCHEMA]
+): TableSchema[] {
+  if (isPolicyEmpty(policy)) {
+    return schema;
+  }
+
+  const defaultSchema = searchPath[0] || DEFAULT_SCHEMA;
+  const tableSchemaName = (table: TableSchema) => table.schemaName || table.metadata?.schemaName || defaultSchema;
+  const visible = schema.filter(table =>
+    isTableAllowed(policy, tableSchemaName(table), table.tableName) &&
+    !(isView(table) && isViewRestricted(table, policy, searchPath, schema))
+  );
+
+  return visible.map(table => {
+    const schemaName = tableSchemaName(table);
+    const columnAllowed = (column: string) => isColumnAllowed(policy, schemaName, table.tableName, column);
+
+    return {
+      ...table,
+      columns: table.columns.filter(col => columnAllowed(col.columnName)),
+      metadata: table.metadata ? filterMetadata(table.metadata, policy, columnAllowed, defaultSchema) : undefined,
+    };
+  });
+}
+
+function filterMetadata(
+  metadata: TableMetadata,
+  policy: AccessPolicy,
+  columnAllowed: (column: string) => boolean,
+  defaultSchema: string
+): TableMetadata {
+  return {
+    ...metadata,
+    primaryKeyColumns: metadata.primaryKeyColumns.filter(columnAllowed),
+    indexes: metadata.indexes.filter(idx => idx.columns.every(columnAllowed)),
+    foreignKeys: metadata.foreignKeys.filter(fk =>
+      columnAllowed(fk.fromColumn) &&
+      isColumnAllowed(policy, fk.toSchema || defaultSchema, fk.toTable, fk.toColumn)
+    ),
+    allowedValues: metadata.allowedValues?.filter(allowed => columnAllowed(allowed.columnName)),
+  };
+}
+
+/**
+ * Format violations as a single user-facing reason
+ */
+export function formatPolicyViolations(violations: PolicyViolation[]): string {
+  return `Access policy violation: ${violations.map(v => v.reason).join('; ')}`;
+}
+
+/**
+ * Match a table entry ("table" for any schema, or "schema.table")
+ */
+export function matchesTable(entry: string, schema: string, table: string): boolean {
+  const parts = entry.toLowerCase().split('.');
+  if (parts.length === 1) {
+    return parts[0] === table.toLowerCase();
+  }
+  return parts[0] === schema.toLowerCase() && parts[1] === table.toLowerCase();
+}
+
+/**
+ * Match a column entry; with column undefined, matches any entry for the table.
+ */
+function matchesColumn(entry: string, schema: string, table: string, column: string | undefined): boolean {
+  const parts = entry.toLowerCase().split('.');
+  const [entrySchema, entryTable, entryColumn] = parts.length >= 3
+    ? parts.slice(-3)
+    : [undefined, parts[0], parts[1]];
+
+  if (entrySchema !== undefined && entrySchema !== schema.toLowerCase()) {
+    return false;
+  }
+  if (entryTable !== table.toLowerCase()) {
+    return false;
+  }
+  return column === undefined || entryColumn === column.toLowerCase();
+}
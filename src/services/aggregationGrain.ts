@@ -0,0 +1,254 @@
+/**
+ * Aggregation Grain Service
+ *
+ * Business logic for the grain of aggregating queries. Primary keys and
+ * unique indexes tell which side of a join can match many rows; a SUM, AVG or
+ * COUNT over a table whose rows a one-to-many join repeats is inflated
+ * (SUM(orders.total) after joining order_items counts each order once per
+ * item). Such aggregates are reported with a pre-aggregating CTE rewrite.
+ * The GROUP BY keys determine the grain the query reports.
+ */
+
+import type { AggregationScope, GroupKey, ParsedSQL } from '../agent/sqlValidator.js';
+import { GrainLevel, TableMetadata, TableSchema } from '../types.js';
+import { JoinGraph, findEdges } from './joinGraph.js';
+import { DEFAULT_SCHEMA, parseTableName, qualifiedTableName, resolveTable } from './schemaResolution.js';
+
+/**
+ * An aggregate whose input rows are repeated by a one-to-many join
+ */
+export interface FanOut {
+  aggregate: string; // As written ("sum(o.total)")
+  table: string; // Qualified table the aggregated column belongs to
+  column: string;
+  join: FanOutJoin; // The join that repeats the table's rows
+}
+
+/**
+ * A one-to-many join: each row of `one` matches many rows of `many`
+ */
+export interface FanOutJoin {
+  one: TableMetadata;
+  many: TableMetadata;
+  columns: Array<{ one: string; many: string }>;
+}
+
+interface Hop {
+  from: string;
+  to: string;
+  toMany: boolean;
+  join: FanOutJoin;
+}
+
+const ENTITY_GRAINS: Record<string, GrainLevel> = {
+  customer: 'customer_level',
+  user: 'customer_level',
+  account: 'customer_level',
+  client: 'customer_level',
+  order: 'order_level',
+  transaction: 'order_level',
+  purchase: 'order_level',
+};
+
+/**
+ * Find SUM/AVG/COUNT aggregates (not DISTINCT) over columns of a table that a
+ * one-to-many join in the same SELECT fans out, directly or through other joins.
+ * Joins to tables without primary key or unique index are never counted as
+ * one-to-many: without key information there is nothing to be sure about.
+ *
+ * @param graph - Join graph, for joins whose condition is not a plain column equality
+ */
+export function findFanOuts(
+  scope: AggregationScope,
+  schema: TableSchema[],
+  metadata: TableMetadata[],
+  graph: JoinGraph,
+  searchPath: string[] = [DEFAULT_SCHEMA]
+): FanOut[] {
+  const hops = joinHops(scope, metadata, graph, searchPath);
+  if (!hops.some(h => h.toMany)) {
+    return [];
+  }
+
+  const fanOuts: FanOut[] = [];
+  for (const aggregate of scope.aggregates) {
+    if (aggregate.distinct) continue;
+
+    for (const column of aggregate.columns) {
+      const owner = ownerTable(column, scope, schema, metadata, searchPath);
+      const join = owner ? fanningJoin(qualifiedTableName(owner), hops) : undefined;
+      if (owner && join) {
+        fanOuts.push({ aggregate: aggregate.text, table: qualifiedTableName(owner), column: column.column, join });
+        break;
+      }
+    }
+  }
+
+  return fanOuts;
+}
+
+/**
+ * Explain a fan-out and suggest the pre-aggregated CTE rewrite
+ */
+export function formatFanOut(fanOut: FanOut): string {
+  const { one, many, columns } = fanOut.join;
+  const oneName = qualifiedTableName(one);
+  const manyName = qualifiedTableName(many);
+  const condition = columns.map(c => `${many.tableName}.${c.many} = ${one.tableName}.${c.one}`).join(' AND ');
+  const cte = `${many.tableName}_per_${one.tableName.replace(/s$/, '')}`;
+  const keys = columns.map(c => c.many).join(', ');
+  const on = columns.map(c => `${cte}.${c.many} = ${oneName}.${c.one}`).join(' AND ');
+
+  const repeated = fanOut.table === oneName
+    ? `each ${oneName} row is repeated once per matching ${manyName} row`
+    : `${fanOut.table} rows are repeated once per matching ${manyName} row`;
+  return `${fanOut.aggregate} is inflated: the one-to-many join to ${manyName} (${condition}) means ${repeated}. ` +
+    `Aggregate ${manyName} in a CTE first and join the result: ` +
+    `WITH ${cte} AS (SELECT ${keys}, <aggregates> FROM ${manyName} GROUP BY ${keys}) ... JOIN ${cte} ON ${on}`;
+}
+
+/**
+ * Grain of a query from the GROUP BY of its outermost aggregating SELECT:
+ * a day/month bucket, or the primary key (or a foreign key) of a customer- or
+ * order-like table. Other columns of a table whose key is grouped on do not
+ * change the grain; anything else is 'custom'. Queries without GROUP BY are row level.
+ */
+export function detectGrain(
+  parsed: ParsedSQL,
+  schema: TableSchema[],
+  metadata: TableMetadata[],
+  searchPath: string[] = [DEFAULT_SCHEMA]
+): GrainLevel {
+  const scope = parsed.aggregations.find(a => a.outermost) ?? parsed.aggregations[parsed.aggregations.length - 1];
+  if (!scope || scope.groupBy.length === 0) {
+    return 'row_level';
+  }
+
+  const keys = scope.groupBy.map(key => classifyGroupKey(key, scope, schema, metadata, searchPath));
+  const entityOwners = new Set(keys.filter(k => k.entity).map(k => k.owner));
+  const grains = new Set(
+    keys
+      .filter(k => k.entity || k.grain !== 'custom' || !k.owner || !entityOwners.has(k.owner))
+      .map(k => k.grain)
+  );
+
+  return grains.size === 1 ? Array.from(grains)[0] : 'custom';
+}
+
+function classifyGroupKey(
+  key: GroupKey,
+  scope: AggregationScope,
+  schema: TableSchema[],
+  metadata: TableMetadata[],
+  searchPath: string[]
+): { grain: GrainLevel; entity: boolean; owner?: string } {
+  if (key.timeBucket) {
+    return { grain: key.timeBucket, entity: false };
+  }
+  const owner = key.column ? ownerTable(key.column, scope, schema, metadata, searchPath) : undefined;
+  if (!owner || !key.column) {
+    return { grain: 'custom', entity: false };
+  }
+
+  const column = key.column.column;
+  const entity = owner.primaryKeyColumns.length === 1 && owner.primaryKeyColumns[0] === column
+    ? owner.tableName
+    : owner.foreignKeys.find(fk => fk.fromColumn === column)?.toTable;
+  const grain = entity ? ENTITY_GRAINS[entity.toLowerCase().replace(/s$/, '')] ?? 'custom' : 'custom';
+  return { grain, entity: !!entity, owner: qualifiedTableName(owner) };
+}
+
+/**
+ * Both directions of every join of the scope, with whether they can match many rows
+ */
+function joinHops(
+  scope: AggregationScope,
+  metadata: TableMetadata[],
+  graph: JoinGraph,
+  searchPath: string[]
+): Hop[] {
+  const hops: Hop[] = [];
+
+  for (const join of scope.joins) {
+    const from = resolveTable(parseTableName(join.from), metadata, searchPath);
+    const to = resolveTable(parseTableName(join.to), metadata, searchPath);
+    if (!from || !to || from === to) continue; // Self-joins: aliases, not tables, would tell the sides apart
+
+    const fromName = qualifiedTableName(from);
+    const toName = qualifiedTableName(to);
+    let keys = join.keys;
+    if (!keys) {
+      const edge = findEdges(graph, fromName, toName)[0];
+      if (!edge) continue;
+      keys = edge.fromTable === fromName ? edge.columns : edge.columns.map(c => ({ from: c.to, to: c.from }));
+    }
+
+    hops.push({
+      from: fromName,
+      to: toName,
+      toMany: matchesMany(to, keys.map(k => k.to)),
+      join: { one: from, many: to, columns: keys.map(k => ({ one: k.from, many: k.to })) },
+    });
+    hops.push({
+      from: toName,
+      to: fromName,
+      toMany: matchesMany(from, keys.map(k => k.from)),
+      join: { one: to, many: from, columns: keys.map(k => ({ one: k.to, many: k.from })) },
+    });
+  }
+
+  return hops;
+}
+
+/**
+ * The first one-to-many join reachable from a table through to-one joins
+ */
+function fanningJoin(table: string, hops: Hop[]): FanOutJoin | undefined {
+  const visited = new Set<string>([table]);
+  const queue = [table];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const hop of hops.filter(h => h.from === current && !visited.has(h.to))) {
+      if (hop.toMany) {
+        return hop.join;
+      }
+      visited.add(hop.to);
+      queue.push(hop.to);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether rows of a table joined on these columns can repeat: the columns
+ * cover no primary key or unique index. Tables without any key are unknown (false).
+ */
+function matchesMany(table: TableMetadata, columns: string[]): boolean {
+  const uniqueKeys = [
+    table.primaryKeyColumns,
+    ...table.indexes.filter(i => i.isUnique).map(i => i.columns),
+  ].filter(key => key.length > 0);
+  return uniqueKeys.length > 0 && !uniqueKeys.some(key => key.every(c => columns.includes(c)));
+}
+
+/**
+ * The table of the scope a column belongs to (unqualified columns: the only scope table having it)
+ */
+function ownerTable(
+  column: { schema?: string; table?: string; column: string },
+  scope: AggregationScope,
+  schema: TableSchema[],
+  metadata: TableMetadata[],
+  searchPath: string[]
+): TableMetadata | undefined {
+  if (column.table) {
+    return resolveTable({ schema: column.schema, table: column.table }, metadata, searchPath);
+  }
+  const candidates = scope.tables
+    .map(name => resolveTable(parseTableName(name), schema, searchPath))
+    .filter((t): t is TableSchema => !!t && t.columns.some(c => c.columnName === column.column));
+  return candidates.length === 1
+    ? resolveTable({ schema: candidates[0].schemaName, table: candidates[0].tableName }, metadata, searchPath)
+    : undefined;
+}
@@ -0,0 +1,111 @@
+/**
+ * Allowed Values Service
+ *
+ * Business logic for columns with a fixed set of values: enum labels, simple
+ * CHECK (col IN (...)) constraints and CHECK constraints of domain types.
+ * Literals a query compares such a column with are checked against the set
+ * before the query runs, so 'complete' vs 'COMPLETED' is caught up front
+ * instead of silently returning no rows.
+ */
+
+import { ColumnAllowedValues, TableMetadata } from '../types.js';
+import { parsePostgres, matchValueComparison, AstNode } from '../utils/sqlAst.js';
+
+/**
+ * A literal that is not in a column's allowed set
+ */
+export interface DisallowedValue {
+  columnName: string;
+  value: string;
+  allowed: string[];
+  suggestion?: string; // Allowed value differing only in case
+}
+
+const MAX_LISTED_VALUES = 10;
+
+/**
+ * Parse a CHECK constraint definition (pg_get_constraintdef) into the column it
+ * restricts and its allowed values. Understands col IN (...), col = ANY (ARRAY[...])
+ * and OR-chains of col = '...' (optionally with col IS NULL). Domain constraints
+ * name the column VALUE, which parses as the column "value".
+ *
+ * @returns null for any other constraint (ranges, multi-column checks, functions)
+ */
+export function parseCheckConstraint(definition: string): { columnName: string; values: string[] } | null {
+  const match = definition.trim().match(/^CHECK\s*\(([\s\S]*)\)(\s+NOT VALID)?$/i);
+  if (!match) {
+    return null;
+  }
+
+  const outcome = parsePostgres(`SELECT 1 WHERE ${match[1]}`);
+  if (!outcome.success || outcome.statements.length !== 1) {
+    return null;
+  }
+  const where: AstNode | undefined = (outcome.statements[0].stmt as AstNode | undefined)?.SelectStmt?.whereClause;
+  if (!where) {
+    return null;
+  }
+
+  const terms: AstNode[] = where.BoolExpr?.boolop === 'OR_EXPR' ? where.BoolExpr.args : [where];
+  let columnName: string | undefined;
+  const values: string[] = [];
+
+  for (const term of terms) {
+    if (term.NullTest) {
+      continue; // "col IS NULL OR col IN (...)" - NULL is not a value to compare with
+    }
+    const comparison = term.A_Expr ? matchValueComparison(term.A_Expr) : null;
+    if (!comparison || comparison.negated || comparison.columnNames.length !== 1) {
+      return null;
+    }
+    const name = comparison.columnNames[0];
+    if (columnName !== undefined && name !== columnName) {
+      return null;
+    }
+    columnName = name;
+    for (const value of comparison.values) {
+      if (!values.includes(value)) {
+        values.push(value);
+      }
+    }
+  }
+
+  return columnName ? { columnName, values } : null;
+}
+
+/**
+ * Find the values a column cannot hold.
+ * A column with several allowed sets (e.g. an enum narrowed by a CHECK) must satisfy all of them.
+ *
+ * @param metadata - Metadata of the table the column belongs to
+ */
+export function findDisallowedValues(
+  metadata: TableMetadata,
+  columnName: string,
+  values: string[]
+): DisallowedValue[] {
+  const sets: ColumnAllowedValues[] = (metadata.allowedValues || []).filter(a => a.columnName === columnName);
+  const result: DisallowedValue[] = [];
+
+  for (const value of values) {
+    const violated = sets.find(set => !set.values.includes(value));
+    if (violated && !result.some(r => r.value === value)) {
+      const suggestion = violated.values.find(v => v.toLowerCase() === value.toLowerCase());
+      result.push({ columnName, value, allowed: violated.values, ...(suggestion ? { suggestion } : {}) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Describe a disallowed value for validation issues and the SQL writer
+ *
+ * @param table - Qualified table name
+ */
+export function formatDisallowedValue(table: string, found: DisallowedValue): string {
+  const hint = found.suggestion
+    ? `did you mean '${found.suggestion}'?`
+    : `allowed: ${found.allowed.slice(0, MAX_LISTED_VALUES).map(v => `'${v}'`).join(', ')}${found.allowed.length > MAX_LISTED_VALUES ? ', ...' : ''}`;
+  return `'${found.value}' is not a valid value of ${table}.${found.columnName} (${hint})`;
+}
@@ -0,0 +1,91 @@
+/**
+ * Budget Service
+ *
+ * Business logic for question and session budgets: which budget is used up,
+ * which is running low, and how to report it.
+ */
+
+import { BudgetConfig, BudgetLimits, BudgetMetric, BudgetStop, BudgetUsage } from '../types.js';
+import { formatUsd } from './llmCost.js';
+
+const BUDGET_METRICS: BudgetMetric[] = ['tokens', 'costUsd', 'llmCalls', 'wallTimeMs', 'dbTimeMs', 'iterations', 'queries'];
+
+const BUDGET_LABELS: Record<BudgetMetric, string> = {
+  tokens: 'LLM tokens',
+  costUsd: 'LLM cost',
+  llmCalls: 'LLM calls',
+  wallTimeMs: 'wall time',
+  dbTimeMs: 'DB time',
+  iterations: 'iterations',
+  queries: 'queries',
+};
+
+export function emptyBudgetUsage(): BudgetUsage {
+  return { tokens: 0, costUsd: 0, llmCalls: 0, wallTimeMs: 0, dbTimeMs: 0, iterations: 0, queries: 0 };
+}
+
+export function addBudgetUsage(a: BudgetUsage, b: BudgetUsage): BudgetUsage {
+  const sum = emptyBudgetUsage();
+  for (const metric of BUDGET_METRICS) {
+    sum[metric] = a[metric] + b[metric];
+  }
+  return sum;
+}
+
+/**
+ * First metric whose usage reached `share` of its limit (question budgets before session budgets)
+ */
+function findBudgetAt(
+  question: BudgetUsage,
+  session: BudgetUsage,
+  config: BudgetConfig,
+  share: number
+): BudgetStop | undefined {
+  const scopes: [BudgetStop['scope'], BudgetUsage, BudgetLimits][] = [
+    ['question', question, config.question],
+    ['session', session, config.session],
+  ];
+  for (const [scope, usage, limits] of scopes) {
+    for (const metric of BUDGET_METRICS) {
+      const limit = limits[metric];
+      if (limit && usage[metric] >= limit * share) {
+        return { scope, metric, used: usage[metric], limit };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The budget that is used up, if any
+ */
+export function findExhaustedBudget(question: BudgetUsage, session: BudgetUsage, config: BudgetConfig): BudgetStop | undefined {
+  return findBudgetAt(question, session, config, 1);
+}
+
+/**
+ * The budget past config.degradeAtPercent, if any
+ */
+export function findLowBudget(question: BudgetUsage, session: BudgetUsage, config: BudgetConfig): BudgetStop | undefined {
+  return findBudgetAt(question, session, config, config.degradeAtPercent / 100);
+}
+
+function formatBudgetValue(metric: BudgetMetric, value: number): string {
+  switch (metric) {
+    case 'costUsd':
+      return formatUsd(value);
+    case 'wallTimeMs':
+    case 'dbTimeMs':
+      return `${(value / 1000).toFixed(1)}s`;
+    default:
+      return value.toLocaleString('en-US');
+  }
+}
+
+/**
+ * "question LLM cost budget: $0.0123 of $0.0100"
+ */
+export function formatBudgetStop(stop: BudgetStop): string {
+  return `${stop.scope} ${BUDGET_LABELS[stop.metric]} budget: ` +
+    `${formatBudgetValue(stop.metric, stop.used)} of ${formatBudgetValue(stop.metric, stop.limit)}`;
+}
@@ -0,0 +1,539 @@
+/**
+ * Column Lineage Service
+ *
+ * Business logic for column-level lineage: which source table columns feed
+ * each output column of a query, followed through aliases, CTEs, subqueries
+ * and expressions, plus the conditions that filter, join and group the rows.
+ * Lineage is stored on the run log and cited by the interpreter, so every
+ * reported number can be traced to the columns it was computed from.
+ */
+
+import { ColumnLineage, QueryLineage } from '../types.js';
+import { parsePostgres, outputColumnName, AstNode } from '../utils/sqlAst.js';
+import { formatTableReference, quoteIdentifier } from './schemaResolution.js';
+import { maskSQL } from './piiMasking.js';
+
+/**
+ * Output columns of a CTE or subquery
+ */
+interface Relation {
+  columns: ColumnLineage[];
+}
+
+/**
+ * A name in a FROM clause: a real table, a CTE/subquery, or neither (function call)
+ */
+interface Source {
+  table?: string; // Formatted like ParsedSQL.tables
+  relation?: Relation;
+}
+
+interface Scope {
+  sources: Map<string, Source>;
+  ctes: Map<string, Relation>;
+  parent?: Scope;
+}
+
+interface Rendered {
+  text: string;
+  sources: string[];
+}
+
+const LIKE_OPERATORS: Record<string, string> = {
+  '~~': 'LIKE',
+  '!~~': 'NOT LIKE',
+  '~~*': 'ILIKE',
+  '!~~*': 'NOT ILIKE',
+};
+
+/**
+ * Compute the lineage of a query's first statement.
+ * SQL that does not parse, or is not a SELECT, has empty lineage.
+ */
+export function computeLineage(sql: string): QueryLineage {
+  const lineage: QueryLineage = { columns: [], filters: [], joins: [], groupBy: [] };
+  const outcome = parsePostgres(sql);
+  const select = outcome.success ? (outcome.statements[0]?.stmt as AstNode | undefined)?.SelectStmt : undefined;
+  if (select) {
+    lineage.columns = analyzeSelect(select, undefined, new Map(), lineage, true).columns;
+  }
+  return lineage;
+}
+
+/**
+ * Format lineage for display and for the interpreter prompt:
+ * one "column = expression" line per output column, then filters, joins and grouping.
+ */
+export function formatLineage(lineage: QueryLineage, indent = ''): string {
+  const lines = lineage.columns.map(c => {
+    const unnamed = c.sources.filter(s => !c.expression.includes(s));
+    return `${indent}${c.column} = ${c.expression}${unnamed.length > 0 ? `  (from ${unnamed.join(', ')})` : ''}`;
+  });
+  if (lineage.filters.length > 0) {
+    lines.push(`${indent}filtered by ${lineage.filters.join(' AND ')}`);
+  }
+  if (lineage.joins.length > 0) {
+    lines.push(`${indent}joined on ${lineage.joins.join(', ')}`);
+  }
+  if (lineage.groupBy.length > 0) {
+    lines.push(`${indent}grouped by ${lineage.groupBy.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format lineage for the interpreter prompt: literals in expressions and
+ * filters that hold personal data are replaced with their pseudonyms
+ */
+export function formatLineageForLLM(lineage: QueryLineage, indent = ''): string {
+  return maskSQL(formatLineage(lineage, indent));
+}
+
+/**
+ * Lineage of one SELECT (set operations: both branches). Filters and joins of
+ * every level end up in `lineage`; GROUP BY keys only for the outermost SELECT.
+ */
+function analyzeSelect(
+  select: AstNode,
+  parent: Scope | undefined,
+  outerCtes: Map<string, Relation>,
+  lineage: QueryLineage,
+  outermost: boolean
+): Relation {
+  const ctes = new Map(outerCtes);
+  for (const item of select.withClause?.ctes || []) {
+    const cte = item.CommonTableExpr;
+    const query = cte?.ctequery?.SelectStmt;
+    if (!query) continue;
+    const name = String(cte.ctename).toLowerCase();
+    if (select.withClause.recursive) {
+      ctes.set(name, { columns: [] }); // Self-references see no columns
+    }
+    const relation = analyzeSelect(query, parent, ctes, lineage, false);
+    (cte.aliascolnames || []).forEach((alias: AstNode, i: number) => {
+      if (relation.columns[i] && alias.String?.sval) {
+        relation.columns[i] = { ...relation.columns[i], column: String(alias.String.sval) };
+      }
+    });
+    ctes.set(name, relation);
+  }
+
+  if (select.op && select.op !== 'SETOP_NONE') {
+    const left = analyzeSelect(select.larg, parent, ctes, lineage, outermost);
+    const right = analyzeSelect(select.rarg, parent, ctes, lineage, outermost);
+    const operator = String(select.op).replace('SETOP_', '');
+    return {
+      columns: left.columns.map((column, i) => {
+        const other = right.columns[i];
+        if (!other || other.expression === column.expression) {
+          return column;
+        }
+        return {
+          column: column.column,
+          expression: `${column.expression} ${operator} ${other.expression}`,
+          sources: mergeSources(column.sources, other.sources),
+        };
+      }),
+    };
+  }
+
+  const scope: Scope = { sources: new Map(), ctes, parent };
+  for (const item of select.fromClause || []) {
+    addFromItem(item, scope, lineage);
+  }
+
+  const columns: ColumnLineage[] = [];
+  for (const target of select.targetList || []) {
+    const resTarget = target.ResTarget;
+    if (!resTarget?.val) continue;
+    const fields: AstNode[] = resTarget.val.ColumnRef?.fields || [];
+    if (fields.length > 0 && fields[fields.length - 1].A_Star !== undefined) {
+      columns.push(...expandStar(fields, scope));
+      continue;
+    }
+    const rendered = resTarget.val.ColumnRef
+      ? resolveColumn(resTarget.val.ColumnRef, scope, false)
+      : render(resTarget.val, scope, lineage);
+    columns.push({ column: resTarget.name ? String(resTarget.name) : outputColumnName(resTarget.val), expression: rendered.text, sources: rendered.sources });
+  }
+
+  for (const clause of [select.whereClause, select.havingClause]) {
+    for (const condition of clause ? conjuncts(clause) : []) {
+      addUnique(lineage.filters, render(condition, scope, lineage).text);
+    }
+  }
+
+  if (outermost) {
+    for (const key of select.groupClause || []) {
+      addUnique(lineage.groupBy, groupKeyText(key, columns, scope, lineage));
+    }
+  }
+
+  return { columns };
+}
+
+/**
+ * Register a FROM item in the scope; join conditions are recorded on the lineage
+ */
+function addFromItem(item: AstNode, scope: Scope, lineage: QueryLineage): void {
+  if (item.RangeVar) {
+    const rangeVar = item.RangeVar;
+    const relname = String(rangeVar.relname);
+    const key = String(rangeVar.alias?.aliasname || relname).toLowerCase();
+    const cte = rangeVar.schemaname ? undefined : scope.ctes.get(relname.toLowerCase());
+    scope.sources.set(key, cte
+      ? { relation: renameColumns(cte, rangeVar.alias) }
+      : { table: formatTableReference({ schema: rangeVar.schemaname, table: relname }) });
+    return;
+  }
+
+  if (item.RangeSubselect) {
+    const subselect = item.RangeSubselect;
+    const query = subselect.subquery?.SelectStmt;
+    if (query && subselect.alias?.aliasname) {
+      // Only LATERAL subqueries can see sibling FROM items
+      const relation = analyzeSelect(query, subselect.lateral ? scope : scope.parent, scope.ctes, lineage, false);
+      scope.sources.set(String(subselect.alias.aliasname).toLowerCase(), { relation: renameColumns(relation, subselect.alias) });
+    }
+    return;
+  }
+
+  if (item.JoinExpr) {
+    const join = item.JoinExpr;
+    if (join.larg) addFromItem(join.larg, scope, lineage);
+    if (join.rarg) addFromItem(join.rarg, scope, lineage);
+    if (join.quals) {
+      addUnique(lineage.joins, render(join.quals, scope, lineage).text);
+    } else if (join.usingClause) {
+      addUnique(lineage.joins, `USING (${join.usingClause.map((u: AstNode) => u.String?.sval).join(', ')})`);
+    }
+    return;
+  }
+
+  const alias = item.RangeFunction?.alias?.aliasname;
+  if (alias) {
+    scope.sources.set(String(alias).toLowerCase(), {});
+  }
+}
+
+/**
+ * Render an expression with column references replaced by the source columns
+ * (or inlined CTE/subquery expressions) they stand for
+ */
+function render(node: AstNode | undefined, scope: Scope, lineage: QueryLineage): Rendered {
+  if (!node) {
+    return { text: '', sources: [] };
+  }
+  const list = (items: AstNode[] | undefined): Rendered[] => (items || []).map(i => render(i, scope, lineage));
+  const combine = (text: string, parts: Rendered[]): Rendered => ({ text, sources: mergeSources(...parts.map(p => p.sources)) });
+
+  if (node.ColumnRef) {
+    return resolveColumn(node.ColumnRef, scope, true);
+  }
+  if (node.A_Const) {
+    return { text: constantText(node.A_Const), sources: [] };
+  }
+  if (node.ParamRef) {
+    return { text: `$${node.ParamRef.number}`, sources: [] };
+  }
+  if (node.TypeCast) {
+    const arg = render(node.TypeCast.arg, scope, lineage);
+    const names: AstNode[] = node.TypeCast.typeName?.names || [];
+    return combine(`${arg.text}::${names[names.length - 1]?.String?.sval ?? 'unknown'}`, [arg]);
+  }
+  if (node.A_Expr) {
+    return renderOperator(node.A_Expr, scope, lineage);
+  }
+  if (node.BoolExpr) {
+    const args = list(node.BoolExpr.args);
+    if (node.BoolExpr.boolop === 'NOT_EXPR') {
+      return combine(`NOT ${args[0]?.text}`, args);
+    }
+    const joined = args.map(a => a.text).join(node.BoolExpr.boolop === 'OR_EXPR' ? ' OR ' : ' AND ');
+    return combine(`(${joined})`, args);
+  }
+  if (node.FuncCall) {
+    return renderFunction(node.FuncCall, scope, lineage);
+  }
+  if (node.CaseExpr) {
+    const caseExpr = node.CaseExpr;
+    const arg = caseExpr.arg ? render(caseExpr.arg, scope, lineage) : undefined;
+    const whens = (caseExpr.args || []).map((w: AstNode) => [render(w.CaseWhen?.expr, scope, lineage), render(w.CaseWhen?.result, scope, lineage)]);
+    const otherwise = caseExpr.defresult ? render(caseExpr.defresult, scope, lineage) : undefined;
+    const text = [
+      'CASE',
+      ...(arg ? [arg.text] : []),
+      ...whens.map(([when, then]: Rendered[]) => `WHEN ${when.text} THEN ${then.text}`),
+      ...(otherwise ? [`ELSE ${otherwise.text}`] : []),
+      'END',
+    ].join(' ');
+    return combine(text, [...(arg ? [arg] : []), ...whens.flat(), ...(otherwise ? [otherwise] : [])]);
+  }
+  if (node.CoalesceExpr) {
+    const args = list(node.CoalesceExpr.args);
+    return combine(`coalesce(${args.map(a => a.text).join(', ')})`, args);
+  }
+  if (node.MinMaxExpr) {
+    const args = list(node.MinMaxExpr.args);
+    const func = node.MinMaxExpr.op === 'IS_GREATEST' ? 'greatest' : 'least';
+    return combine(`${func}(${args.map(a => a.text).join(', ')})`, args);
+  }
+  if (node.NullTest) {
+    const arg = render(node.NullTest.arg, scope, lineage);
+    return combine(`${arg.text} IS ${node.NullTest.nulltesttype === 'IS_NOT_NULL' ? 'NOT ' : ''}NULL`, [arg]);
+  }
+  if (node.SubLink) {
+    return renderSubLink(node.SubLink, scope, lineage);
+  }
+  if (node.A_ArrayExpr) {
+    const elements = list(node.A_ArrayExpr.elements);
+    return combine(`ARRAY[${elements.map(e => e.text).join(', ')}]`, elements);
+  }
+  if (node.List) {
+    const items = list(node.List.items);
+    return combine(items.map(i => i.text).join(', '), items);
+  }
+  if (node.SortBy) {
+    const sorted = render(node.SortBy.node, scope, lineage);
+    return combine(`${sorted.text}${node.SortBy.sortby_dir === 'SORTBY_DESC' ? ' DESC' : ''}`, [sorted]);
+  }
+
+  // Anything else: keep the columns it uses, without attempting to print it
+  const parts = Object.entries(node)
+    .filter(([key, value]) => /^[A-Z]/.test(key) && value && typeof value === 'object')
+    .flatMap(([, value]) => typedChildren(value).map(child => render(child, scope, lineage)));
+  return combine('(expression)', parts);
+}
+
+function renderOperator(expr: AstNode, scope: Scope, lineage: QueryLineage): Rendered {
+  const left = expr.lexpr ? render(expr.lexpr, scope, lineage) : undefined;
+  const right = render(expr.rexpr, scope, lineage);
+  const operator = String(expr.name?.[expr.name.length - 1]?.String?.sval ?? '?');
+  const parts = left ? [left, right] : [right];
+  const sources = mergeSources(...parts.map(p => p.sources));
+
+  switch (expr.kind) {
+    case 'AEXPR_IN':
+      return { text: `${left?.text} ${operator === '<>' ? 'NOT IN' : 'IN'} (${right.text})`, sources };
+    case 'AEXPR_BETWEEN':
+    case 'AEXPR_NOT_BETWEEN': {
+      const bounds = (expr.rexpr?.List?.items || []).map((b: AstNode) => render(b, scope, lineage).text);
+      return { text: `${left?.text} ${expr.kind === 'AEXPR_NOT_BETWEEN' ? 'NOT ' : ''}BETWEEN ${bounds.join(' AND ')}`, sources };
+    }
+    case 'AEXPR_LIKE':
+    case 'AEXPR_ILIKE':
+      return { text: `${left?.text} ${LIKE_OPERATORS[operator] ?? operator} ${right.text}`, sources };
+    case 'AEXPR_OP_ANY':
+    case 'AEXPR_OP_ALL':
+      return { text: `${left?.text} ${operator} ${expr.kind === 'AEXPR_OP_ANY' ? 'ANY' : 'ALL'} (${right.text})`, sources };
+    default:
+      return { text: left ? `${left.text} ${operator} ${right.text}` : `${operator}${right.text}`, sources };
+  }
+}
+
+function renderFunction(call: AstNode, scope: Scope, lineage: QueryLineage): Rendered {
+  const names: AstNode[] = call.funcname || [];
+  const func = names.map(n => n.String?.sval).filter(n => n && n !== 'pg_catalog').join('.').toLowerCase();
+  const args = (call.args || []).map((a: AstNode) => render(a, scope, lineage));
+  const parts: Rendered[] = [...args];
+
+  let text = `${func}(${call.agg_distinct ? 'DISTINCT ' : ''}${call.agg_star ? '*' : args.map((a: Rendered) => a.text).join(', ')})`;
+  if (call.agg_filter) {
+    const filter = render(call.agg_filter, scope, lineage);
+    parts.push(filter);
+    text += ` FILTER (WHERE ${filter.text})`;
+  }
+  if (call.over) {
+    const partition = (call.over.partitionClause || []).map((p: AstNode) => render(p, scope, lineage));
+    const order = (call.over.orderClause || []).map((o: AstNode) => render(o, scope, lineage));
+    parts.push(...partition, ...order);
+    const window = [
+      ...(partition.length > 0 ? [`PARTITION BY ${partition.map((p: Rendered) => p.text).join(', ')}`] : []),
+      ...(order.length > 0 ? [`ORDER BY ${order.map((o: Rendered) => o.text).join(', ')}`] : []),
+    ];
+    text += ` OVER (${window.join(' ')})`;
+  }
+  return { text, sources: mergeSources(...parts.map(p => p.sources)) };
+}
+
+function renderSubLink(subLink: AstNode, scope: Scope, lineage: QueryLineage): Rendered {
+  const query = subLink.subselect?.SelectStmt;
+  const relation = query ? analyzeSelect(query, scope, scope.ctes, lineage, false) : { columns: [] };
+  const inner = `(SELECT ${relation.columns.map(c => c.expression).join(', ')})`;
+  const parts = relation.columns.map(c => ({ text: c.expression, sources: c.sources }));
+
+  if (subLink.subLinkType === 'EXISTS_SUBLINK') {
+    return { text: `EXISTS ${inner}`, sources: mergeSources(...parts.map(p => p.sources)) };
+  }
+  if (subLink.testexpr) {
+    const test = render(subLink.testexpr, scope, lineage);
+    const operator = subLink.operName?.[0]?.String?.sval;
+    const text = subLink.subLinkType === 'ANY_SUBLINK' && !operator
+      ? `${test.text} IN ${inner}`
+      : `${test.text} ${operator ?? '='} ${subLink.subLinkType === 'ALL_SUBLINK' ? 'ALL' : 'ANY'} ${inner}`;
+    return { text, sources: mergeSources(test.sources, ...parts.map(p => p.sources)) };
+  }
+  return { text: inner, sources: mergeSources(...parts.map(p => p.sources)) };
+}
+
+/**
+ * Resolve a column reference through the scope chain.
+ * CTE/subquery columns are replaced by their own lineage (parenthesized when
+ * `inline` and the expression is compound).
+ */
+function resolveColumn(columnRef: AstNode, scope: Scope, inline: boolean): Rendered {
+  const names: string[] = (columnRef.fields || []).filter((f: AstNode) => f.String).map((f: AstNode) => String(f.String.sval));
+  const column = names[names.length - 1];
+  if (!column) {
+    return { text: '*', sources: [] };
+  }
+  const fromRelation = (relation: Relation, written: string): Rendered => {
+    const found = relation.columns.find(c => c.column.toLowerCase() === column.toLowerCase());
+    if (!found) {
+      return { text: written, sources: [] };
+    }
+    return { text: inline && isCompound(found.expression) ? `(${found.expression})` : found.expression, sources: found.sources };
+  };
+  const tableColumn = (table: string): Rendered => {
+    const name = `${table}.${quoteIdentifier(column)}`;
+    return { text: name, sources: [name] };
+  };
+
+  if (names.length >= 3) {
+    const [schema, table] = names.slice(-3);
+    return tableColumn(formatTableReference({ schema, table }));
+  }
+
+  if (names.length === 2) {
+    const qualifier = names[0];
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      const source = current.sources.get(qualifier.toLowerCase());
+      if (source?.table) return tableColumn(source.table);
+      if (source?.relation) return fromRelation(source.relation, names.join('.'));
+      if (source) return { text: names.join('.'), sources: [] };
+    }
+    // Unknown qualifier: most likely a table referenced without a FROM entry
+    return tableColumn(formatTableReference({ table: qualifier }));
+  }
+
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    const sources = Array.from(current.sources.values());
+    const relation = sources.find(s => s.relation?.columns.some(c => c.column.toLowerCase() === column.toLowerCase()));
+    if (relation?.relation) {
+      return fromRelation(relation.relation, column);
+    }
+    const tables = sources.filter(s => s.table);
+    if (tables.length === 1) {
+      return tableColumn(tables[0].table!);
+    }
+    if (tables.length > 1) {
+      // Ambiguous between several tables - left unqualified
+      return { text: quoteIdentifier(column), sources: [quoteIdentifier(column)] };
+    }
+  }
+  return { text: quoteIdentifier(column), sources: [] };
+}
+
+/**
+ * Output columns of * and alias.*
+ */
+function expandStar(fields: AstNode[], scope: Scope): ColumnLineage[] {
+  const qualifier = fields.length > 1 ? String(fields[fields.length - 2].String?.sval ?? '') : undefined;
+  const sources = qualifier
+    ? [scope.sources.get(qualifier.toLowerCase()) ?? { table: formatTableReference({ table: qualifier }) }]
+    : Array.from(scope.sources.values());
+
+  return sources.flatMap(source => {
+    if (source.relation) {
+      return source.relation.columns;
+    }
+    if (source.table) {
+      const all = `${source.table}.*`;
+      return [{ column: '*', expression: all, sources: [all] }];
+    }
+    return [];
+  });
+}
+
+/**
+ * GROUP BY key text; ordinals and output names refer to select-list expressions
+ */
+function groupKeyText(key: AstNode, columns: ColumnLineage[], scope: Scope, lineage: QueryLineage): string {
+  const ordinal = key.A_Const?.ival?.ival;
+  if (ordinal !== undefined && columns[ordinal - 1]) {
+    return columns[ordinal - 1].expression;
+  }
+  const fields: AstNode[] = key.ColumnRef?.fields || [];
+  if (fields.length === 1 && fields[0].String) {
+    const output = columns.find(c => c.column.toLowerCase() === String(fields[0].String.sval).toLowerCase());
+    const input = resolveColumn(key.ColumnRef, scope, false);
+    // Input columns win over output names, as in PostgreSQL
+    if (output && input.sources.length === 0) {
+      return output.expression;
+    }
+  }
+  return render(key, scope, lineage).text;
+}
+
+function renameColumns(relation: Relation, alias: AstNode | undefined): Relation {
+  const names: AstNode[] = alias?.colnames || [];
+  if (names.length === 0) {
+    return relation;
+  }
+  return {
+    columns: relation.columns.map((column, i) =>
+      names[i]?.String?.sval ? { ...column, column: String(names[i].String.sval) } : column
+    ),
+  };
+}
+
+/**
+ * Whether an expression has whitespace outside parentheses and quotes ("a + b", not "sum(a + b)")
+ */
+function isCompound(expression: string): boolean {
+  let depth = 0;
+  let quoted = false;
+  for (const ch of expression) {
+    if (ch === "'") quoted = !quoted;
+    else if (quoted) continue;
+    else if (ch === '(' || ch === '[') depth++;
+    else if (ch === ')' || ch === ']') depth--;
+    else if (depth === 0 && /\s/.test(ch)) return true;
+  }
+  return false;
+}
+
+function conjuncts(condition: AstNode): AstNode[] {
+  return condition.BoolExpr?.boolop === 'AND_EXPR' ? (condition.BoolExpr.args || []).flatMap(conjuncts) : [condition];
+}
+
+function typedChildren(value: unknown): AstNode[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(typedChildren);
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+  return Object.entries(value as AstNode).flatMap(([key, child]) =>
+    /^[A-Z]/.test(key) ? [{ [key]: child }] : typedChildren(child)
+  );
+}
+
+function constantText(constant: AstNode): string {
+  if (constant.isnull) return 'NULL';
+  if (constant.sval) return `'${String(constant.sval.sval ?? '').replace(/'/g, "''")}'`;
+  if (constant.ival) return String(constant.ival.ival ?? 0);
+  if (constant.fval) return String(constant.fval.fval);
+  if (constant.boolval) return String(constant.boolval.boolval ?? false);
+  return 'NULL';
+}
+
+function mergeSources(...lists: string[][]): string[] {
+  return Array.from(new Set(lists.flat()));
+}
+
+function addUnique(list: string[], item: string): void {
+  if (item && !list.includes(item)) {
+    list.push(item);
+  }
+}
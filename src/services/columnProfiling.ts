@@ -0,0 +1,269 @@
+/**
+ * Column Profiling Service
+ *
+ * Business logic for column value profiles: null fraction, distinct count,
+ * most common values, range and common value shapes per column. Profiles are
+ * built from pg_stats (the planner's own statistics, free to read) and topped
+ * up from a small row sample where pg_stats has nothing (table never analyzed)
+ * or cannot help (value shapes).
+ *
+ * The profiles relevant to a plan step are injected into the SQL writer prompt
+ * so filters use values that exist ('COMPLETED', not 'complete').
+ */
+
+import { ColumnProfile, ColumnValueFrequency, PgColumnStats, SQLResult, TableSchema } from '../types.js';
+import { qualifiedTableName, quoteIdentifier, resolveTable } from './schemaResolution.js';
+
+/**
+ * Rows sampled per table for value shapes and unanalyzed tables
+ */
+export const PROFILE_SAMPLE_ROWS = 1000;
+
+const TOP_VALUES = 10;
+const MAX_VALUE_LENGTH = 60;
+const MAX_PATTERNS = 3;
+const MAX_PATTERN_VALUE_LENGTH = 40;
+const MIN_PATTERN_FREQUENCY = 0.2;
+const CATEGORICAL_DISTINCT = 50; // Columns listed whenever their table is mentioned
+const MAX_PROFILES_IN_PROMPT = 25;
+
+const NUMERIC_TYPE = /^(smallint|integer|bigint|numeric|decimal|real|double precision|money)/i;
+const TEMPORAL_TYPE = /^(date|timestamp|time)/i;
+const TEXT_TYPE = /char|text|citext/i;
+
+type ValueStats = Omit<ColumnProfile, 'tableName' | 'schemaName' | 'columnName' | 'dataType' | 'patterns' | 'lastProfiled'>;
+
+/**
+ * Build the profiles of a table's columns.
+ *
+ * @param table - Table from the schema (column names and types)
+ * @param stats - pg_stats rows for the table (empty if it was never analyzed)
+ * @param estimatedRowCount - Row count, to turn relative n_distinct into a count
+ * @param sample - Sample rows, used for value shapes and columns without pg_stats
+ * @param piiColumns - Columns classified as PII: counts only, values are never kept
+ */
+export function buildColumnProfiles(
+  table: TableSchema,
+  stats: PgColumnStats[],
+  estimatedRowCount: number,
+  sample?: SQLResult,
+  piiColumns: string[] = []
+): ColumnProfile[] {
+  return table.columns.map(column => {
+    const index = sample ? sample.columns.indexOf(column.columnName) : -1;
+    const values = sample && index >= 0 ? sample.rows.map(row => row[index]) : [];
+    const columnStats = stats.find(s => s.columnName === column.columnName);
+
+    const valueStats = columnStats
+      ? statsFromPg(columnStats, column.dataType, estimatedRowCount)
+      : statsFromSample(values, column.dataType);
+    const profile: ColumnProfile = {
+      tableName: table.tableName,
+      schemaName: table.schemaName || 'public',
+      columnName: column.columnName,
+      dataType: column.dataType,
+      ...valueStats,
+      patterns: valueStats.distinctCount > CATEGORICAL_DISTINCT ? valuePatterns(values, column.dataType) : [],
+    };
+
+    if (piiColumns.includes(column.columnName)) {
+      profile.topValues = [];
+      profile.patterns = [];
+      delete profile.minValue;
+      delete profile.maxValue;
+    }
+    return profile;
+  });
+}
+
+/**
+ * Whether a table's stored profiles are out of date.
+ * Tables never analyzed are always re-profiled (their profiles come from a sample).
+ *
+ * @param existing - Stored profiles of the table
+ * @param statsUpdatedAt - Last (auto)analyze of the table, null if never analyzed
+ */
+export function needsProfiling(existing: ColumnProfile[], statsUpdatedAt: Date | null): boolean {
+  if (existing.length === 0 || !statsUpdatedAt) {
+    return true;
+  }
+  return existing.some(p => !p.lastProfiled || p.lastProfiled < statsUpdatedAt);
+}
+
+/**
+ * Pick the profiles a plan step needs: columns mentioned in the step (or the
+ * question), plus the low-cardinality columns of mentioned tables. Only
+ * columns still visible in the schema (after the access policy) qualify.
+ *
+ * @param profiles - Stored profiles
+ * @param schema - Schema visible to the agent
+ * @param text - Step description, reasoning and question
+ */
+export function selectProfilesForStep(
+  profiles: ColumnProfile[],
+  schema: TableSchema[],
+  text: string,
+  limit = MAX_PROFILES_IN_PROMPT
+): ColumnProfile[] {
+  const normalized = text.toLowerCase().replace(/_/g, ' ');
+  const mentioned: ColumnProfile[] = [];
+  const categorical: ColumnProfile[] = [];
+
+  for (const profile of profiles) {
+    const table = resolveTable({ schema: profile.schemaName, table: profile.tableName }, schema);
+    if (!table || !table.columns.some(c => c.columnName === profile.columnName) || !hasValueInfo(profile)) {
+      continue;
+    }
+    if (mentions(normalized, profile.columnName)) {
+      mentioned.push(profile);
+    } else if (mentions(normalized, profile.tableName) && isCategorical(profile)) {
+      categorical.push(profile);
+    }
+  }
+
+  return [...mentioned, ...categorical].slice(0, limit);
+}
+
+/**
+ * Format profiles for the SQL writer prompt (empty string if there are none)
+ */
+export function formatProfilesForLLM(profiles: ColumnProfile[]): string {
+  if (profiles.length === 0) {
+    return '';
+  }
+
+  const lines = profiles.map(profile => {
+    const parts = [
+      `${profile.distinctCount.toLocaleString('en-US')} distinct${profile.source === 'sample' ? ' (sampled)' : ''}`,
+      `${formatFraction(profile.nullFraction)} null`,
+    ];
+    if (profile.topValues.length > 0) {
+      const more = profile.distinctCount > profile.topValues.length ? ', ...' : '';
+      parts.push(`values: ${profile.topValues.map(v => `'${v.value}' (${formatFraction(v.frequency)})`).join(', ')}${more}`);
+    }
+    if (profile.minValue !== undefined && profile.maxValue !== undefined) {
+      parts.push(`range: ${profile.minValue} to ${profile.maxValue}`);
+    }
+    if (profile.patterns.length > 0) {
+      parts.push(`patterns: ${profile.patterns.map(p => `${p.value} (${formatFraction(p.frequency)})`).join(', ')}`);
+    }
+    const column = `${qualifiedTableName(profile)}.${quoteIdentifier(profile.columnName)}`;
+    return `  ${column} (${profile.dataType}): ${parts.join('; ')}`;
+  });
+
+  return lines.join('\n');
+}
+
+function statsFromPg(stats: PgColumnStats, dataType: string, estimatedRowCount: number): ValueStats {
+  const distinctCount = stats.nDistinct >= 0
+    ? Math.round(stats.nDistinct)
+    : Math.round(-stats.nDistinct * estimatedRowCount);
+
+  const mcv = stats.mostCommonValues || [];
+  const freqs = stats.mostCommonFreqs || [];
+  const topValues: ColumnValueFrequency[] = mcv
+    .slice(0, TOP_VALUES)
+    .map((value, i) => ({ value: truncate(value), frequency: freqs[i] || 0 }));
+
+  return {
+    nullFraction: stats.nullFraction,
+    distinctCount,
+    topValues,
+    ...valueRange([...(stats.histogramBounds || []), ...mcv], dataType),
+    source: 'pg_stats',
+  };
+}
+
+function statsFromSample(values: unknown[], dataType: string): ValueStats {
+  const present = values.filter(v => v !== null && v !== undefined).map(toText);
+  const counts = new Map<string, number>();
+  for (const value of present) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+
+  const topValues = Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_VALUES)
+    .map(([value, count]) => ({ value: truncate(value), frequency: count / values.length }));
+
+  return {
+    nullFraction: values.length > 0 ? 1 - present.length / values.length : 0,
+    distinctCount: counts.size,
+    topValues,
+    ...valueRange(present, dataType),
+    source: 'sample',
+  };
+}
+
+function valueRange(values: string[], dataType: string): { minValue?: string; maxValue?: string } {
+  const numeric = NUMERIC_TYPE.test(dataType);
+  if ((!numeric && !TEMPORAL_TYPE.test(dataType)) || values.length === 0) {
+    return {};
+  }
+  const sorted = [...values].sort((a, b) =>
+    numeric ? Number(a) - Number(b) : a < b ? -1 : a > b ? 1 : 0
+  );
+  return { minValue: sorted[0], maxValue: sorted[sorted.length - 1] };
+}
+
+/**
+ * Common shapes of text values: letters become A/a, digits 9 ("ORD-0042" → "AAA-9999")
+ */
+function valuePatterns(values: unknown[], dataType: string): ColumnValueFrequency[] {
+  if (!TEXT_TYPE.test(dataType)) {
+    return [];
+  }
+  const present = values
+    .filter(v => v !== null && v !== undefined)
+    .map(toText)
+    .filter(v => v.length > 0 && v.length <= MAX_PATTERN_VALUE_LENGTH);
+  if (present.length === 0) {
+    return [];
+  }
+
+  const counts = new Map<string, number>();
+  for (const value of present) {
+    const shape = value.replace(/[A-Z]/g, 'A').replace(/[a-z]/g, 'a').replace(/[0-9]/g, '9');
+    counts.set(shape, (counts.get(shape) || 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, frequency: count / present.length }))
+    .filter(p => p.frequency >= MIN_PATTERN_FREQUENCY)
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, MAX_PATTERNS);
+}
+
+function hasValueInfo(profile: ColumnProfile): boolean {
+  return profile.topValues.length > 0 || profile.minValue !== undefined || profile.patterns.length > 0;
+}
+
+function isCategorical(profile: ColumnProfile): boolean {
+  return profile.topValues.length > 0 && profile.distinctCount <= CATEGORICAL_DISTINCT;
+}
+
+/**
+ * Whether normalized text mentions a name as a word ("order_status" matches
+ * "order status", "orders" matches "order")
+ */
+function mentions(text: string, name: string): boolean {
+  const stem = name.toLowerCase().replace(/_/g, ' ').replace(/s$/, '');
+  const escaped = stem.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}(s|es)?\\b`).test(text);
+}
+
+function toText(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}...` : value;
+}
+
+function formatFraction(fraction: number): string {
+  if (fraction > 0 && fraction < 0.01) {
+    return '<1%';
+  }
+  return `${Math.round(fraction * 100)}%`;
+}
@@ -0,0 +1,123 @@
+/**
+ * Cost Gate Service
+ *
+ * Business logic for the EXPLAIN-based cost gate. Reads the planner's estimate
+ * for a query (EXPLAIN (FORMAT JSON)) and decides whether it may run:
+ *
+ * - allow: cheap plan
+ * - confirm: expensive plan, sequential scan on a large table, or a nested
+ *   loop blowup - the user has to approve it explicitly
+ * - block: total cost above the hard limit
+ *
+ * Replaces the row-count/WHERE-clause guess of assessPerformanceRisk whenever
+ * a plan is available.
+ */
+
+import { CostGateConfig, QueryCostAnalysis, QueryPlanNode, TableMetadata } from '../types.js';
+
+/**
+ * Analyze an EXPLAIN plan against the cost gate thresholds.
+ *
+ * @param plan - Root plan node from explainQuery
+ * @param thresholds - Cost gate configuration (config.costGate)
+ * @param metadata - Table metadata; row counts from pg_stat are preferred over
+ *   the planner's filtered row estimate when judging sequential scans
+ */
+export function analyzeQueryPlan(
+  plan: QueryPlanNode,
+  thresholds: CostGateConfig,
+  metadata: TableMetadata[] = []
+): QueryCostAnalysis {
+  const seqScans: QueryCostAnalysis['seqScans'] = [];
+  const nestedLoops: QueryCostAnalysis['nestedLoops'] = [];
+
+  visitPlan(plan, node => {
+    if (node['Node Type'] === 'Seq Scan' && node['Relation Name']) {
+      const table = node['Relation Name'];
+      const meta = metadata.find(m =>
+        m.tableName === table && (!node['Schema'] || m.schemaName === node['Schema'])
+      );
+      const estimatedTableRows = meta?.estimatedRowCount || node['Plan Rows'];
+      if (estimatedTableRows > thresholds.largeTableRows) {
+        seqScans.push({ table, estimatedTableRows });
+      }
+    }
+
+    if (node['Node Type'] === 'Nested Loop' && node.Plans && node.Plans.length >= 2) {
+      const outerRows = node.Plans[0]['Plan Rows'];
+      const innerRows = node.Plans[1]['Plan Rows'];
+      if (outerRows * innerRows > thresholds.nestedLoopRows) {
+        nestedLoops.push({ outerRows, innerRows });
+      }
+    }
+  });
+
+  const totalCost = plan['Total Cost'];
+  const findings: string[] = [];
+
+  if (totalCost > thresholds.blockCost) {
+    findings.push(`Estimated cost ${formatNumber(totalCost)} exceeds the limit of ${formatNumber(thresholds.blockCost)}`);
+  } else if (totalCost > thresholds.confirmCost) {
+    findings.push(`Estimated cost ${formatNumber(totalCost)} exceeds ${formatNumber(thresholds.confirmCost)}`);
+  }
+  for (const scan of seqScans) {
+    findings.push(`Sequential scan on large table "${scan.table}" (~${formatNumber(scan.estimatedTableRows)} rows)`);
+  }
+  for (const loop of nestedLoops) {
+    findings.push(`Nested loop over ~${formatNumber(loop.outerRows)} × ${formatNumber(loop.innerRows)} rows`);
+  }
+
+  const decision: QueryCostAnalysis['decision'] = totalCost > thresholds.blockCost
+    ? 'block'
+    : findings.length > 0 ? 'confirm' : 'allow';
+
+  const risk: QueryCostAnalysis['risk'] = totalCost > thresholds.confirmCost || nestedLoops.length > 0
+    ? 'high'
+    : seqScans.length > 0 ? 'medium' : 'low';
+
+  return {
+    totalCost,
+    estimatedRows: plan['Plan Rows'],
+    seqScans,
+    nestedLoops,
+    risk,
+    decision,
+    findings,
+  };
+}
+
+/**
+ * Analysis of a query whose plan could not be estimated (EXPLAIN failed).
+ * The gate fails closed: the query needs confirmation instead of passing unchecked.
+ */
+export function unestimatedCostAnalysis(explainError: string): QueryCostAnalysis {
+  return {
+    totalCost: 0,
+    estimatedRows: 0,
+    seqScans: [],
+    nestedLoops: [],
+    risk: 'high',
+    decision: 'confirm',
+    findings: [`Cost could not be estimated (EXPLAIN failed: ${explainError})`],
+    explainError,
+  };
+}
+
+/**
+ * Format the cost gate decision as a single user-facing reason
+ */
+export function formatCostFindings(analysis: QueryCostAnalysis): string {
+  const verdict = analysis.decision === 'block' ? 'Query blocked by cost gate' : 'Query needs confirmation';
+  return `${verdict}: ${analysis.findings.join('; ')}`;
+}
+
+function visitPlan(node: QueryPlanNode, visit: (node: QueryPlanNode) => void): void {
+  visit(node);
+  for (const child of node.Plans || []) {
+    visitPlan(child, visit);
+  }
+}
+
+function formatNumber(value: number): string {
+  return Math.round(value).toLocaleString('en-US');
+}
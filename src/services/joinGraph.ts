@@ -0,0 +1,335 @@
+/**
+ * Join Graph Service
+ *
+ * Business logic for join paths. Tables are nodes; foreign keys and approved
+ * semantic join rules (SQL patterns such as "orders.customer_id = customers.id")
+ * are edges. The graph finds the shortest, most canonical way to connect the
+ * tables a plan step needs, so the SQL writer gets ready-made ON clauses
+ * instead of inventing multi-hop joins, and the validator can tell whether a
+ * generated join follows a known edge.
+ */
+
+import { Semantic, TableMetadata } from '../types.js';
+import {
+  DEFAULT_SCHEMA,
+  NamedTable,
+  parseTableName,
+  qualifiedTableName,
+  quoteIdentifier,
+  resolveTable,
+} from './schemaResolution.js';
+
+/**
+ * A way to join two tables. Traversed in both directions.
+ */
+export interface JoinEdge {
+  fromTable: string; // Qualified name
+  toTable: string;
+  columns: Array<{ from: string; to: string }>;
+  source: 'foreign_key' | 'semantic';
+  name: string; // Constraint name, or the semantic's term
+}
+
+export interface JoinGraph {
+  tables: string[]; // Qualified names
+  edges: JoinEdge[];
+}
+
+/**
+ * Join `table` through `edge` to a table joined before it
+ */
+export interface JoinStep {
+  table: string;
+  edge: JoinEdge;
+}
+
+/**
+ * How to connect a set of tables: start from `root`, then apply the steps in order
+ */
+export interface JoinPlan {
+  root: string;
+  steps: JoinStep[];
+  unreachable: string[]; // Requested tables no known edge leads to
+}
+
+const HOP_COST = 1;
+const FOREIGN_KEY_PENALTY = 0.01; // Same hop count: an approved join rule wins over a bare FK
+const MAX_PLANNED_TABLES = 6;
+
+/**
+ * Column equality between two table-qualified columns in a SQL pattern:
+ * orders.customer_id = customers.id, sales.orders."Customer" = crm.customers.id
+ */
+const QUALIFIED_EQUALITY = new RegExp(
+  String.raw`((?:"[^"]+"|\w+)(?:\.(?:"[^"]+"|\w+))?)\.("[^"]+"|\w+)\s*=\s*((?:"[^"]+"|\w+)(?:\.(?:"[^"]+"|\w+))?)\.("[^"]+"|\w+)`,
+  'g'
+);
+
+/**
+ * Build the join graph.
+ *
+ * @param metadata - Table metadata (foreign keys)
+ * @param semantics - Approved semantics; those whose SQL pattern equates columns of two known tables become edges
+ * @param searchPath - Schemas unqualified table names in SQL patterns resolve against
+ */
+export function buildJoinGraph(
+  metadata: TableMetadata[],
+  semantics: Semantic[] = [],
+  searchPath: string[] = [DEFAULT_SCHEMA]
+): JoinGraph {
+  const edges: JoinEdge[] = [];
+
+  for (const table of metadata) {
+    const byConstraint = new Map<string, JoinEdge>();
+    for (const fk of table.foreignKeys) {
+      const target = resolveTable({ schema: fk.toSchema, table: fk.toTable }, metadata, searchPath);
+      if (!target) continue;
+
+      let edge = byConstraint.get(fk.constraintName);
+      if (!edge) {
+        edge = {
+          fromTable: qualifiedTableName(table),
+          toTable: qualifiedTableName(target),
+          columns: [],
+          source: 'foreign_key',
+          name: fk.constraintName,
+        };
+        byConstraint.set(fk.constraintName, edge);
+        edges.push(edge);
+      }
+      if (!edge.columns.some(c => c.from === fk.fromColumn && c.to === fk.toColumn)) {
+        edge.columns.push({ from: fk.fromColumn, to: fk.toColumn });
+      }
+    }
+  }
+
+  for (const semantic of semantics) {
+    if (!semantic.sqlFragment || !semantic.approved || semantic.needsReview) continue;
+    edges.push(...parseJoinRule(semantic, metadata, searchPath));
+  }
+
+  return {
+    tables: metadata.map(m => qualifiedTableName(m)).sort(),
+    edges,
+  };
+}
+
+/**
+ * Edges directly between two tables (either direction)
+ */
+export function findEdges(graph: JoinGraph, a: string, b: string): JoinEdge[] {
+  return graph.edges.filter(e =>
+    (e.fromTable === a && e.toTable === b) || (e.fromTable === b && e.toTable === a)
+  );
+}
+
+/**
+ * Shortest join path between two tables: fewest hops, ties broken in favour
+ * of approved join rules over foreign keys.
+ *
+ * @returns The steps joining the tables after `from`, or null if they are not connected
+ */
+export function findJoinPath(graph: JoinGraph, from: string, to: string): JoinStep[] | null {
+  if (from === to) {
+    return [];
+  }
+  const plan = findJoinPlan(graph, [from, to]);
+  return plan.unreachable.length > 0 ? null : plan.steps;
+}
+
+/**
+ * Connect a set of tables through the graph. Starting from the first table,
+ * the nearest remaining table is joined next (via its shortest path from any
+ * table already joined), which keeps intermediate tables shared between paths.
+ */
+export function findJoinPlan(graph: JoinGraph, tables: string[]): JoinPlan {
+  const wanted = Array.from(new Set(tables));
+  const root = wanted[0];
+  const joined = new Set<string>(root ? [root] : []);
+  const steps: JoinStep[] = [];
+  let remaining = wanted.slice(1);
+
+  while (remaining.length > 0) {
+    const { distance, via } = shortestPaths(graph, joined);
+    const next = remaining
+      .filter(t => distance.has(t))
+      .sort((a, b) => distance.get(a)! - distance.get(b)! || wanted.indexOf(a) - wanted.indexOf(b))[0];
+    if (!next) {
+      break;
+    }
+
+    const path: JoinStep[] = [];
+    for (let table = next; !joined.has(table); ) {
+      const step = via.get(table)!;
+      path.unshift(step);
+      table = otherEnd(step.edge, table);
+    }
+    for (const step of path) {
+      joined.add(step.table);
+      steps.push(step);
+    }
+    remaining = remaining.filter(t => !joined.has(t));
+  }
+
+  return { root, steps, unreachable: remaining };
+}
+
+/**
+ * Whether a join on these column pairs follows one of the edges between two tables
+ *
+ * @param keys - Column pairs of the join condition, `from` on fromTable and `to` on toTable
+ */
+export function followsJoinEdge(
+  edges: JoinEdge[],
+  fromTable: string,
+  keys: Array<{ from: string; to: string }>
+): boolean {
+  return edges.some(edge => {
+    const oriented = edge.fromTable === fromTable
+      ? edge.columns
+      : edge.columns.map(c => ({ from: c.to, to: c.from }));
+    return oriented.length === keys.length
+      && oriented.every(c => keys.some(k => k.from === c.from && k.to === c.to));
+  });
+}
+
+/**
+ * ON clause of an edge ("sales.orders.customer_id = sales.customers.id")
+ */
+export function formatJoinCondition(edge: JoinEdge): string {
+  return edge.columns
+    .map(c => `${edge.fromTable}.${quoteIdentifier(c.from)} = ${edge.toTable}.${quoteIdentifier(c.to)}`)
+    .join(' AND ');
+}
+
+/**
+ * Short description of a path ("sales.order_items → sales.orders → sales.customers")
+ */
+export function describeJoinPath(root: string, steps: JoinStep[]): string {
+  return [root, ...steps.map(s => s.table)].join(' → ');
+}
+
+/**
+ * Pick the tables a plan step talks about (mentioned by name, singular or plural).
+ * Longer names are matched first, so "order items" does not also count as "orders".
+ *
+ * @param tables - Tables visible to the agent
+ * @param text - Step description, reasoning and question
+ */
+export function selectJoinTables(tables: NamedTable[], text: string, limit = MAX_PLANNED_TABLES): string[] {
+  let remaining = text.toLowerCase().replace(/_/g, ' ');
+  const mentioned = new Set<NamedTable>();
+
+  for (const table of [...tables].sort((a, b) => b.tableName.length - a.tableName.length)) {
+    const pattern = mentionPattern(table.tableName);
+    if (pattern.test(remaining)) {
+      mentioned.add(table);
+      remaining = remaining.replace(new RegExp(pattern.source, 'g'), ' ');
+    }
+  }
+
+  return tables
+    .filter(table => mentioned.has(table))
+    .map(table => qualifiedTableName(table))
+    .slice(0, limit);
+}
+
+/**
+ * Format a join plan for the SQL writer prompt (empty string if there is nothing to join)
+ */
+export function formatJoinPlanForLLM(plan: JoinPlan): string {
+  if (plan.steps.length === 0) {
+    return '';
+  }
+
+  const lines = [`  Path: ${describeJoinPath(plan.root, plan.steps)}`, `  FROM ${plan.root}`];
+  for (const step of plan.steps) {
+    const origin = step.edge.source === 'semantic' ? `join rule "${step.edge.name}"` : `FK ${step.edge.name}`;
+    lines.push(`  JOIN ${step.table} ON ${formatJoinCondition(step.edge)}  -- ${origin}`);
+  }
+  if (plan.unreachable.length > 0) {
+    lines.push(`  No known join path to: ${plan.unreachable.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+function parseJoinRule(semantic: Semantic, metadata: TableMetadata[], searchPath: string[]): JoinEdge[] {
+  const edges: JoinEdge[] = [];
+
+  for (const match of semantic.sqlFragment!.matchAll(QUALIFIED_EQUALITY)) {
+    const left = resolveTable(parseTableName(match[1]), metadata, searchPath);
+    const right = resolveTable(parseTableName(match[3]), metadata, searchPath);
+    if (!left || !right || left === right) continue;
+
+    const fromTable = qualifiedTableName(left);
+    const toTable = qualifiedTableName(right);
+    const column = { from: unquoteIdentifier(match[2]), to: unquoteIdentifier(match[4]) };
+    const existing = edges.find(e => e.fromTable === fromTable && e.toTable === toTable);
+    if (existing) {
+      existing.columns.push(column);
+    } else {
+      edges.push({ fromTable, toTable, columns: [column], source: 'semantic', name: semantic.term });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Dijkstra from every already-joined table at once. `via` holds the step
+ * reaching each table on its cheapest path.
+ */
+function shortestPaths(
+  graph: JoinGraph,
+  sources: Set<string>
+): { distance: Map<string, number>; via: Map<string, JoinStep> } {
+  const distance = new Map<string, number>();
+  const via = new Map<string, JoinStep>();
+  const visited = new Set<string>();
+  for (const source of sources) {
+    distance.set(source, 0);
+  }
+
+  for (;;) {
+    let current: string | undefined;
+    for (const [table, d] of distance) {
+      if (!visited.has(table) && (current === undefined || d < distance.get(current)! || (d === distance.get(current)! && table < current))) {
+        current = table;
+      }
+    }
+    if (current === undefined) {
+      break;
+    }
+    visited.add(current);
+
+    for (const edge of graph.edges) {
+      if (edge.fromTable !== current && edge.toTable !== current) continue;
+      const neighbour = otherEnd(edge, current);
+      const cost = distance.get(current)! + HOP_COST + (edge.source === 'foreign_key' ? FOREIGN_KEY_PENALTY : 0);
+      if (!visited.has(neighbour) && (!distance.has(neighbour) || cost < distance.get(neighbour)!)) {
+        distance.set(neighbour, cost);
+        via.set(neighbour, { table: neighbour, edge });
+      }
+    }
+  }
+
+  return { distance, via };
+}
+
+function otherEnd(edge: JoinEdge, table: string): string {
+  return edge.fromTable === table ? edge.toTable : edge.fromTable;
+}
+
+function unquoteIdentifier(identifier: string): string {
+  return identifier.startsWith('"') ? identifier.slice(1, -1).replace(/""/g, '"') : identifier.toLowerCase();
+}
+
+/**
+ * Word pattern for a table name in normalized text ("order_items" matches
+ * "order items", "customers" matches "customer")
+ */
+function mentionPattern(name: string): RegExp {
+  const stem = name.toLowerCase().replace(/_/g, ' ').replace(/s$/, '');
+  const escaped = stem.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}(s|es)?\\b`);
+}
@@ -0,0 +1,58 @@
+/**
+ * LLM Cache Service
+ *
+ * Business logic for the LLM response cache: the context that invalidates
+ * cached responses and cache hit reporting.
+ */
+
+import { createHash } from 'crypto';
+import { ColumnProfile, LLMCacheHit, Semantic, TableMetadata, TableSchema } from '../types.js';
+import { buildSchemaSnapshot, schemaFingerprint } from './schemaDrift.js';
+import { qualifiedTableName } from './schemaResolution.js';
+
+/**
+ * Cache context of a schema, semantic set and column profiles: it changes when
+ * anything prompts are built from changes - tables, columns, indexes, foreign
+ * keys, primary keys, allowed values, comments, view definitions, value
+ * profiles - or a semantic is added, edited or removed (order does not matter)
+ */
+export function llmCacheContext(schema: TableSchema[], semantics: Semantic[], profiles: ColumnProfile[] = []): string {
+  const metadata = schema.map(t => t.metadata).filter((m): m is TableMetadata => m !== undefined);
+  const details = schema
+    .map(t => [
+      qualifiedTableName(t),
+      t.comment ?? null,
+      t.viewDefinition ?? null,
+      t.columns.map(c => c.comment ?? null),
+      t.metadata?.primaryKeyColumns ?? [],
+      t.metadata?.allowedValues ?? [],
+    ])
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+  const profileSet = profiles
+    .map(p => [qualifiedTableName(p), p.columnName, p.topValues, p.minValue ?? null, p.maxValue ?? null, p.patterns])
+    .sort((a, b) => `${a[0]}.${a[1]}`.localeCompare(`${b[0]}.${b[1]}`));
+  const semanticSet = [...semantics].sort((a, b) => a.id.localeCompare(b.id));
+  return createHash('sha256')
+    .update(`${schemaFingerprint(buildSchemaSnapshot(schema, metadata))}\n${JSON.stringify([details, profileSet, semanticSet])}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours} h ago` : `${Math.floor(hours / 24)} days ago`;
+}
+
+/**
+ * Debug summary: "♻️  2 LLM responses from cache (~3,100 tokens saved)" plus one line per hit
+ */
+export function formatLLMCacheHits(hits: LLMCacheHit[]): string {
+  const tokens = hits.reduce((sum, hit) => sum + hit.inputTokens + hit.outputTokens, 0);
+  return [
+    `♻️  ${hits.length} LLM response${hits.length === 1 ? '' : 's'} from cache (~${tokens.toLocaleString('en-US')} tokens saved)`,
+    ...hits.map(hit => `   ${hit.role} (${hit.model}), cached ${formatAge(hit.ageMs)}`),
+  ].join('\n');
+}
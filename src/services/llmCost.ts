@@ -0,0 +1,72 @@
+/**
+ * LLM Cost Service
+ * 
+ * Business logic for LLM cost accounting: model prices, the cost of a call
+ * and cost report formatting.
+ */
+
+import { LLMCostTotals, LLMPrice, LLMUsage } from '../types.js';
+
+/**
+ * Price for a model: exact name, else the longest configured prefix
+ * ("gemini-2.5-flash-001" uses "gemini-2.5-flash")
+ */
+export function findModelPrice(model: string, prices: Record<string, LLMPrice>): LLMPrice | undefined {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Cost of a call in USD (undefined when the model has no price)
+ */
+export function computeCallCost(model: string, usage: LLMUsage, prices: Record<string, LLMPrice>): number | undefined {
+  const price = findModelPrice(model, prices);
+  if (!price) {
+    return undefined;
+  }
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+export function formatUsd(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Cost table, most expensive first: "key  calls  in/out tokens  cost"
+ */
+export function formatCostTotals(totals: LLMCostTotals[], indent = '  '): string {
+  if (totals.length === 0) {
+    return `${indent}(no LLM calls recorded)`;
+  }
+  
+  const keyWidth = Math.min(48, Math.max(...totals.map(t => t.key.length)));
+  return [...totals]
+    .sort((a, b) => b.costUsd - a.costUsd)
+    .map(t => {
+      const key = t.key.length > keyWidth ? `${t.key.slice(0, keyWidth - 3)}...` : t.key.padEnd(keyWidth);
+      const unpriced = t.unpricedCalls > 0 ? `  (${t.unpricedCalls} unpriced)` : '';
+      return `${indent}${key}  ${String(t.calls).padStart(5)} calls  ` +
+        `${t.inputTokens.toLocaleString('en-US').padStart(11)} in / ${t.outputTokens.toLocaleString('en-US').padStart(9)} out  ` +
+        `${formatUsd(t.costUsd).padStart(9)}${unpriced}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Grand total over one grouping
+ */
+export function sumCostTotals(totals: LLMCostTotals[], key = 'Total'): LLMCostTotals {
+  return totals.reduce((sum, t) => ({
+    key,
+    calls: sum.calls + t.calls,
+    inputTokens: sum.inputTokens + t.inputTokens,
+    outputTokens: sum.outputTokens + t.outputTokens,
+    costUsd: sum.costUsd + t.costUsd,
+    unpricedCalls: sum.unpricedCalls + t.unpricedCalls,
+  }), { key, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedCalls: 0 });
+}
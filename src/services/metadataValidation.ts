@@ -4,9 +4,14 @@
  * Business logic layer for validating SQL elements against
  * stored database metadata. Cross-references tables, columns,
  * joins, and indexes to ensure correctness.
+ * 
+ * Table names may be schema-qualified ("sales.orders"); unqualified names
+ * resolve through the search_path (see schemaResolution.ts).
  */
 
-import { TableSchema, TableMetadata, GrainLevel } from '../types.js';
+import { TableSchema, TableMetadata, GrainLevel, Semantic } from '../types.js';
+import { DEFAULT_SCHEMA, resolveTableName, isSameTable, qualifiedTableName } from './schemaResolution.js';
+import { buildJoinGraph, findEdges, findJoinPath, describeJoinPath, formatJoinCondition } from './joinGraph.js';
 
 /**
  * Validation result for table existence check
@@ -40,14 +45,14 @@ export interface JoinValidationResult {
  */
 export function validateTablesExist(
   tables: string[],
-  metadata: TableMetadata[]
+  metadata: TableMetadata[],
+  searchPath: string[] = [DEFAULT_SCHEMA]
 ): TableValidationResult {
-  const metadataTableNames = new Set(metadata.map(m => m.tableName));
   const missing: string[] = [];
   const found: string[] = [];
   
   for (const table of tables) {
-    if (metadataTableNames.has(table)) {
+    if (resolveTableName(table, metadata, searchPath)) {
       found.push(table);
     } else {
       missing.push(table);
@@ -66,18 +71,14 @@ export function validateTablesExist(
  */
 export function validateColumnsExist(
   columns: Array<{ table: string; column: string }>,
-  schema: TableSchema[]
+  schema: TableSchema[],
+  searchPath: string[] = [DEFAULT_SCHEMA]
 ): ColumnValidationResult {
-  const schemaMap = new Map<string, TableSchema>();
-  for (const table of schema) {
-    schemaMap.set(table.tableName, table);
-  }
-  
   const missing: Array<{ table: string; column: string }> = [];
   const found: Array<{ table: string; column: string }> = [];
   
   for (const col of columns) {
-    const tableSchema = schemaMap.get(col.table);
+    const tableSchema = resolveTableName(col.table, schema, searchPath);
     if (!tableSchema) {
       missing.push({ table: col.table, column: col.column });
     } else {
@@ -107,47 +108,45 @@ export interface JoinInfo {
 }
 
 /**
- * Validate joins against foreign key relationships
+ * Validate joins against the join graph: foreign key relationships and
+ * approved semantic join rules. A join between tables that are only connected
+ * through other tables is invalid; the known path is named in the message.
  */
 export function validateJoins(
   joins: JoinInfo[],
-  metadata: TableMetadata[]
+  metadata: TableMetadata[],
+  searchPath: string[] = [DEFAULT_SCHEMA],
+  semantics: Semantic[] = []
 ): JoinValidationResult {
   const invalidJoins: string[] = [];
   const validJoins: Array<{ from: string; to: string; reason: string }> = [];
-  
-  const metadataMap = new Map<string, TableMetadata>();
-  for (const meta of metadata) {
-    metadataMap.set(meta.tableName, meta);
-  }
+  const graph = buildJoinGraph(metadata, semantics, searchPath);
   
   for (const join of joins) {
-    const fromMetadata = metadataMap.get(join.from);
-    const toMetadata = metadataMap.get(join.to);
+    const fromMetadata = resolveTableName(join.from, metadata, searchPath);
+    const toMetadata = resolveTableName(join.to, metadata, searchPath);
     
     if (!fromMetadata || !toMetadata) {
       invalidJoins.push(`${join.from} -> ${join.to} (metadata missing)`);
       continue;
     }
     
-    // Check if there's a foreign key relationship
-    const fkFromTo = fromMetadata.foreignKeys.find(fk => fk.toTable === join.to);
-    const fkToFrom = toMetadata.foreignKeys.find(fk => fk.toTable === join.from);
+    const fromTable = qualifiedTableName(fromMetadata);
+    const toTable = qualifiedTableName(toMetadata);
+    const edge = findEdges(graph, fromTable, toTable)[0];
     
-    if (fkFromTo) {
+    if (edge) {
       validJoins.push({
         from: join.from,
         to: join.to,
-        reason: `FK: ${fkFromTo.fromColumn} -> ${fkFromTo.toTable}.${fkFromTo.toColumn}`,
-      });
-    } else if (fkToFrom) {
-      validJoins.push({
-        from: join.from,
-        to: join.to,
-        reason: `FK: ${fkToFrom.fromColumn} -> ${fkToFrom.toTable}.${fkToFrom.toColumn}`,
+        reason: edge.source === 'foreign_key'
+          ? `FK: ${formatJoinCondition(edge)}`
+          : `Join rule "${edge.name}": ${formatJoinCondition(edge)}`,
       });
     } else {
-      invalidJoins.push(`${join.from} -> ${join.to} (no FK relationship found)`);
+      const path = findJoinPath(graph, fromTable, toTable);
+      const hint = path ? `; known path: ${describeJoinPath(fromTable, path)}` : '';
+      invalidJoins.push(`${join.from} -> ${join.to} (no FK relationship found${hint})`);
     }
   }
   
@@ -192,18 +191,23 @@ export function findCanonicalTables(
 }
 
 /**
- * Assess performance risk of a SQL query
+ * Assess performance risk of a SQL query from table sizes alone.
+ * Rough heuristic - when a query plan is available, analyzeQueryPlan (costGate.ts) is used instead.
  */
 export function assessPerformanceRisk(
   sql: string,
   metadata: TableMetadata[],
-  tablesUsed: string[]
+  tablesUsed: string[],
+  searchPath: string[] = [DEFAULT_SCHEMA]
 ): 'low' | 'medium' | 'high' {
   let risk: 'low' | 'medium' | 'high' = 'low';
   
   // Check table sizes
+  const usedMetadata = tablesUsed
+    .map(table => resolveTableName(table, metadata, searchPath))
+    .filter((m): m is TableMetadata => m !== undefined);
   const largeTables = metadata.filter(m => 
-    tablesUsed.includes(m.tableName) && 
+    usedMetadata.some(used => isSameTable(used, m)) && 
     (m.estimatedRowCount > 100000 || m.totalSizeBytes > 1000000000)
   );
   
@@ -260,9 +264,10 @@ function checkIndexedColumnUsage(sql: string, tables: TableMetadata[]): boolean
 export function isColumnIndexed(
   tableName: string,
   columnName: string,
-  metadata: TableMetadata[]
+  metadata: TableMetadata[],
+  searchPath: string[] = [DEFAULT_SCHEMA]
 ): boolean {
-  const tableMeta = metadata.find(m => m.tableName === tableName);
+  const tableMeta = resolveTableName(tableName, metadata, searchPath);
   if (!tableMeta) return false;
   
   for (const index of tableMeta.indexes) {
@@ -279,10 +284,11 @@ export function isColumnIndexed(
  */
 export function getRecommendedJoinOrder(
   tables: string[],
-  metadata: TableMetadata[]
+  metadata: TableMetadata[],
+  searchPath: string[] = [DEFAULT_SCHEMA]
 ): string[] {
   const tableSizes = tables.map(table => {
-    const meta = metadata.find(m => m.tableName === table);
+    const meta = resolveTableName(table, metadata, searchPath);
     return {
       table,
       size: meta ? meta.estimatedRowCount : 0,
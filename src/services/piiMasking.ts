@@ -0,0 +1,399 @@
+/**
+ * PII Masking Service
+ *
+ * Keeps personal data in query results from leaving the network in LLM prompts.
+ * Columns are classified by name, data type and value patterns; values in PII
+ * columns are replaced before rows are put into a prompt:
+ *
+ * - pseudonym: stable token per value (<EMAIL_3>), so the LLM can still tell
+ *   rows apart and refer to them; tokens in LLM output are mapped back with
+ *   unmaskText() so the user sees real values, and real values in text sent
+ *   back to the LLM (executed SQL, errors) are mapped to tokens with maskText()
+ * - redact: fixed token ([REDACTED_IBAN]) for data the LLM never needs
+ *
+ * Column classifications are cached in the control DB (pii_column_classifications)
+ * and loaded with setPiiClassifications(); result columns not covered by the
+ * cache are classified from their name and values on the fly.
+ */
+
+import {
+  ColumnPiiClassification,
+  PiiCategory,
+  PiiMaskingStrategy,
+  SQLResult,
+  TableSchema,
+} from '../types.js';
+import { parseTableName } from './schemaResolution.js';
+
+/**
+ * A single classification decision (before it is attached to a table/column)
+ */
+export interface PiiDetection {
+  category: PiiCategory;
+  strategy: PiiMaskingStrategy;
+  detectedBy: ColumnPiiClassification['detectedBy'];
+}
+
+const STRATEGIES: Record<PiiCategory, PiiMaskingStrategy> = {
+  email: 'pseudonym',
+  phone: 'pseudonym',
+  person_name: 'pseudonym',
+  address: 'pseudonym',
+  ip_address: 'pseudonym',
+  iban: 'redact',
+  credit_card: 'redact',
+  national_id: 'redact',
+  birth_date: 'redact',
+};
+
+const PSEUDONYM_LABELS: Partial<Record<PiiCategory, string>> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  person_name: 'PERSON',
+  address: 'ADDRESS',
+  ip_address: 'IP',
+};
+
+const TEXT_TYPE = /char|text|citext|name/i;
+const TEXT_OR_NUMBER_TYPE = /char|text|citext|int|numeric|decimal/i;
+const DATE_OR_TEXT_TYPE = /date|timestamp|char|text/i;
+
+/**
+ * Column-name rules, checked in order (email_address is an email, not an address).
+ * A rule only applies when the column's data type matches `types`.
+ */
+const NAME_RULES: Array<{ category: PiiCategory; pattern: RegExp; types: RegExp }> = [
+  { category: 'email', pattern: /e_?mail/, types: TEXT_TYPE },
+  { category: 'iban', pattern: /iban|bank_?account|account_?number/, types: TEXT_OR_NUMBER_TYPE },
+  { category: 'credit_card', pattern: /(credit_?)?card_?(number|num|no)$|^pan$|^cc_?(number|num)$/, types: TEXT_OR_NUMBER_TYPE },
+  { category: 'national_id', pattern: /ssn|social_?security|national_?id|passport|tax_?id|driver_?licen[cs]e/, types: TEXT_OR_NUMBER_TYPE },
+  { category: 'birth_date', pattern: /birth|^dob$/, types: DATE_OR_TEXT_TYPE },
+  { category: 'ip_address', pattern: /(^|_)ip(_?addr(ess)?)?$/, types: /inet|char|text/i },
+  { category: 'phone', pattern: /(^|_)(phone|mobile|telephone|fax|msisdn)(_?(number|num|no))?$|^cell(_?number)?$/, types: TEXT_OR_NUMBER_TYPE },
+  { category: 'address', pattern: /street|address(_?line)?_?\d?$|postal_?code|zip_?code|^zip$/, types: TEXT_TYPE },
+  { category: 'person_name', pattern: /^(first|last|middle|full|given|family|maiden|contact|customer|employee|user)_?name$|^surname$|^forename$/, types: TEXT_TYPE },
+];
+
+// A bare "name" column is only personal data in tables that describe people
+const PERSON_TABLE = /(user|customer|client|employee|person|people|member|contact|patient|student|staff|author|owner)s?$/i;
+
+const EMAIL_VALUE = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+const EMAIL_IN_TEXT = /[^\s@<>()"',;]+@[^\s@<>()"',;]+\.[a-z]{2,}/gi;
+const SSN_VALUE = /^\d{3}-\d{2}-\d{4}$/;
+const IPV4_VALUE = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/;
+const IPV6_VALUE = /^[0-9a-f]{0,4}(:[0-9a-f]{0,4}){2,7}$/i;
+
+// Share of non-null sample values that must match a value pattern
+const VALUE_MATCH_RATIO = 0.8;
+
+let maskingEnabled = true;
+let classifications: ColumnPiiClassification[] = [];
+const pseudonyms = new Map<string, string>(); // "category:value" -> token
+const originals = new Map<string, string>(); // token -> value
+const counters = new Map<string, number>(); // label -> last number used
+
+/**
+ * Turn masking on or off (config.piiMasking)
+ */
+export function setPiiMaskingEnabled(enabled: boolean): void {
+  maskingEnabled = enabled;
+}
+
+/**
+ * Replace the known column classifications (control DB cache + schema-derived)
+ */
+export function setPiiClassifications(list: ColumnPiiClassification[]): void {
+  classifications = list;
+}
+
+/**
+ * Classify a column from its name, data type and sample values.
+ *
+ * @param columnName - Column name
+ * @param dataType - PostgreSQL data type (empty if unknown, e.g. a result column)
+ * @param values - Sample values (may be empty)
+ * @param tableName - Table the column belongs to, if known
+ * @returns Detection, or null if the column does not look like PII
+ */
+export function classifyColumn(
+  columnName: string,
+  dataType: string,
+  values: unknown[] = [],
+  tableName?: string
+): PiiDetection | null {
+  const name = columnName.toLowerCase();
+
+  if (/^(inet|cidr)$/i.test(dataType)) {
+    return detection('ip_address', 'data_type');
+  }
+
+  for (const rule of NAME_RULES) {
+    if (rule.pattern.test(name) && (!dataType || rule.types.test(dataType))) {
+      return detection(rule.category, 'name');
+    }
+  }
+  if (name === 'name' && tableName && PERSON_TABLE.test(tableName) && (!dataType || TEXT_TYPE.test(dataType))) {
+    return detection('person_name', 'name');
+  }
+
+  const category = classifyValues(values);
+  return category ? detection(category, 'values') : null;
+}
+
+/**
+ * Classify every column of a table (name/type rules, plus values from an optional sample)
+ */
+export function classifyTableColumns(
+  table: TableSchema,
+  schemaName = table.schemaName || 'public',
+  sample?: SQLResult
+): ColumnPiiClassification[] {
+  const result: ColumnPiiClassification[] = [];
+
+  for (const column of table.columns) {
+    const index = sample ? sample.columns.indexOf(column.columnName) : -1;
+    const values = sample && index >= 0 ? sample.rows.map(row => row[index]) : [];
+    const found = classifyColumn(column.columnName, column.dataType, values, table.tableName);
+    if (found) {
+      result.push({
+        tableName: table.tableName,
+        schemaName,
+        columnName: column.columnName,
+        ...found,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Return a copy of the result with PII values replaced, for use in LLM prompts.
+ * The original result is not modified (the user still sees real values).
+ *
+ * @param result - Query result
+ * @param sourceTables - Tables the query read from (parseSQL().tables), if known; narrows which cached
+ *   classifications apply (otherwise a column name classified in any table counts)
+ */
+export function maskResultForLLM(result: SQLResult, sourceTables?: string[]): SQLResult {
+  if (!maskingEnabled) {
+    return result;
+  }
+
+  const detections = result.columns.map((column, index) =>
+    findCachedClassification(column, sourceTables) ??
+    classifyColumn(column, '', result.rows.map(row => row[index]))
+  );
+
+  const rows = result.rows.map(row => row.map((value, index) => {
+    const found = detections[index];
+    if (value === null || value === undefined) {
+      return value;
+    }
+    if (found) {
+      return maskValue(value, found);
+    }
+    // Free-text columns can still embed addresses
+    return typeof value === 'string' ? value.replace(EMAIL_IN_TEXT, email => pseudonymFor('email', email)) : value;
+  }));
+
+  return { ...result, rows };
+}
+
+/**
+ * Map pseudonym tokens in LLM output (answers, generated SQL) back to real values.
+ * Redaction tokens stay as they are.
+ */
+export function unmaskText(text: string): string {
+  if (originals.size === 0) {
+    return text;
+  }
+  return text.replace(/<([A-Z]+)_(\d+)>/g, token => originals.get(token) ?? token);
+}
+
+/**
+ * Map pseudonym tokens in LLM-generated SQL back to real values as SQL literals.
+ * Tokens inside a string literal ('%<EMAIL_1>%') are replaced with the escaped
+ * value; bare tokens become a quoted literal. Quotes in values are doubled, so
+ * data from the database can never break out of the literal.
+ */
+export function unmaskSQL(sql: string): string {
+  if (originals.size === 0) {
+    return sql;
+  }
+
+  let result = '';
+  let inString = false;
+  let i = 0;
+  while (i < sql.length) {
+    const token = sql[i] === '<' ? /^<[A-Z]+_\d+>/.exec(sql.slice(i)) : null;
+    const value = token ? originals.get(token[0]) : undefined;
+    if (token && value !== undefined) {
+      const escaped = value.replace(/'/g, "''");
+      result += inString ? escaped : `'${escaped}'`;
+      i += token[0].length;
+      continue;
+    }
+    if (sql[i] === '\'') {
+      // A doubled quote toggles twice, so it never ends the literal
+      inString = !inString;
+    }
+    result += sql[i];
+    i++;
+  }
+  return result;
+}
+
+/**
+ * Replace real values that have a pseudonym with their token, for text going
+ * into a prompt (the inverse of unmaskText). Values only match as whole words,
+ * so a short name does not replace part of a longer word.
+ */
+export function maskText(text: string): string {
+  if (!maskingEnabled || originals.size === 0) {
+    return text;
+  }
+  // Longest values first, so an address is replaced before a name inside it
+  const known = [...originals].sort(([, a], [, b]) => b.length - a.length);
+  return known.reduce((masked, [token, value]) => {
+    const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return masked.replace(new RegExp(`(?<![\\w@.])${escaped}(?![\\w@])`, 'g'), token);
+  }, text);
+}
+
+/**
+ * Replace real values inside the string literals of SQL with their tokens, for
+ * SQL going into a prompt (the inverse of unmaskSQL). Only literals are
+ * touched, so identifiers that happen to equal a value stay intact.
+ */
+export function maskSQL(sql: string): string {
+  if (!maskingEnabled || originals.size === 0) {
+    return sql;
+  }
+
+  return sql.replace(/'((?:[^']|'')*)'/g, (_literal, body: string) =>
+    `'${maskText(body.replace(/''/g, "'")).replace(/'/g, "''")}'`
+  );
+}
+
+/**
+ * Forget all pseudonyms (tokens are only stable within one CLI session)
+ */
+export function clearPseudonyms(): void {
+  pseudonyms.clear();
+  originals.clear();
+  counters.clear();
+}
+
+function detection(category: PiiCategory, detectedBy: PiiDetection['detectedBy']): PiiDetection {
+  return { category, strategy: STRATEGIES[category], detectedBy };
+}
+
+function findCachedClassification(column: string, sourceTables?: string[]): PiiDetection | null {
+  const name = column.toLowerCase();
+  const tables = sourceTables?.map(parseTableName);
+  const match = classifications.find(c =>
+    c.columnName.toLowerCase() === name &&
+    (!tables || tables.some(t => t.table === c.tableName && (!t.schema || t.schema === c.schemaName)))
+  );
+  return match ? { category: match.category, strategy: match.strategy, detectedBy: match.detectedBy } : null;
+}
+
+function classifyValues(values: unknown[]): PiiCategory | null {
+  const strings = values
+    .filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+    .map(value => value.trim());
+  if (strings.length === 0) {
+    return null;
+  }
+
+  const candidates: Array<[PiiCategory, (value: string) => boolean]> = [
+    ['email', value => EMAIL_VALUE.test(value)],
+    ['iban', isIban],
+    ['credit_card', isCardNumber],
+    ['national_id', value => SSN_VALUE.test(value)],
+    ['ip_address', value => IPV4_VALUE.test(value) || IPV6_VALUE.test(value)],
+    ['phone', isPhoneNumber],
+  ];
+
+  for (const [category, matches] of candidates) {
+    const matched = strings.filter(matches).length;
+    if (matched / strings.length >= VALUE_MATCH_RATIO) {
+      return category;
+    }
+  }
+  return null;
+}
+
+function isIban(value: string): boolean {
+  const compact = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(compact)) {
+    return false;
+  }
+  // ISO 13616 check: move the first 4 chars to the end, letters to numbers, mod 97 == 1
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const digits = /\d/.test(ch) ? ch : String(ch.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function isCardNumber(value: string): boolean {
+  if (!/^\d[\d -]{11,21}\d$/.test(value)) {
+    return false;
+  }
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  // Luhn checksum
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isPhoneNumber(value: string): boolean {
+  if (!/^\+?[\d\s().-]{7,20}$/.test(value) || /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return false;
+  }
+  const digitCount = value.replace(/\D/g, '').length;
+  // Plain digit strings are far more likely to be IDs than phone numbers
+  const formatted = value.startsWith('+') || /[\s().-]/.test(value);
+  return formatted && digitCount >= 7 && digitCount <= 15;
+}
+
+function maskValue(value: unknown, found: PiiDetection): string {
+  if (found.strategy === 'redact') {
+    return `[REDACTED_${found.category.toUpperCase()}]`;
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return pseudonymFor(found.category, text);
+}
+
+function pseudonymFor(category: PiiCategory, value: string): string {
+  const key = `${category}:${value}`;
+  const existing = pseudonyms.get(key);
+  if (existing) {
+    return existing;
+  }
+
+  const label = PSEUDONYM_LABELS[category] ?? category.toUpperCase();
+  const next = (counters.get(label) ?? 0) + 1;
+  counters.set(label, next);
+
+  const token = `<${label}_${next}>`;
+  pseudonyms.set(key, token);
+  originals.set(token, value);
+  return token;
+}
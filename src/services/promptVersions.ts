@@ -0,0 +1,40 @@
+/**
+ * Prompt Versions Service
+ *
+ * Business logic for comparing prompt template versions: which version each
+ * template runs now and how the runs of every recorded version went.
+ */
+
+import { PromptTemplate, PromptVersionStats } from '../types.js';
+
+/**
+ * "x of y runs corrected (z%), avg rating r, last used YYYY-MM-DD"
+ */
+export function formatPromptVersionOutcome(stats: PromptVersionStats): string {
+  const correctedPercent = stats.runs > 0 ? Math.round((stats.corrected / stats.runs) * 100) : 0;
+  const rating = stats.avgRating === undefined ? 'no ratings' : `avg rating ${stats.avgRating.toFixed(1)}`;
+  return `${stats.runs} run${stats.runs === 1 ? '' : 's'}, ${stats.corrected} corrected (${correctedPercent}%), ` +
+    `${rating}, last used ${stats.lastUsed.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Active templates, each followed by the outcomes of its recorded versions
+ * (active version first, marked with *)
+ */
+export function formatPromptTemplates(templates: PromptTemplate[], stats: PromptVersionStats[], indent = '  '): string {
+  const nameWidth = Math.max(...templates.map(t => t.name.length));
+  return templates
+    .flatMap(template => {
+      const source = template.source === 'override' ? `override (${template.path})` : 'default';
+      const versions = stats
+        .filter(s => s.name === template.name)
+        .sort((a, b) => Number(b.version === template.version) - Number(a.version === template.version));
+      return [
+        `${indent}${template.name.padEnd(nameWidth)}  ${template.version}  ${source}`,
+        ...versions.map(s =>
+          `${indent}  ${s.version === template.version ? '*' : ' '} ${s.version}  ${formatPromptVersionOutcome(s)}`
+        ),
+      ];
+    })
+    .join('\n');
+}
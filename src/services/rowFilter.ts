@@ -0,0 +1,393 @@
+/**
+ * Row Filter Service
+ *
+ * Row-level security for the inspected database. Every reference to a table
+ * that has a row filter is replaced with a filtered subquery:
+ *
+ *   FROM orders o   ->   FROM (SELECT * FROM orders WHERE (region = $1)) o
+ *
+ * Predicates come from configuration (ROW_FILTERS) and reference session
+ * parameters as :name. Parameter values are always sent as bind parameters,
+ * never interpolated into the SQL text.
+ *
+ * Applied to SQL that has already passed the guard, right before execution.
+ * Views and materialized views that read a filtered table (directly or
+ * through other views) cannot be filtered this way - their rows come from
+ * the unfiltered table - so queries on them are refused and they are hidden.
+ */
+
+import { RowFilter } from '../types.js';
+import { parsePostgres, walkAst, byteOffsetToCharIndex, AstNode, AstAncestor } from '../utils/sqlAst.js';
+import { isView, matchesTable, PolicyTable } from './accessPolicy.js';
+import { DEFAULT_SCHEMA, NamedTable, qualifiedTableName, resolveTable, schemaOfTable } from './schemaResolution.js';
+
+/**
+ * SQL rewritten with row filters, plus the values for its bind parameters
+ */
+export interface RowFilterResult {
+  sql: string;
+  params: string[];
+  /** Tables that were wrapped (as written in the query) */
+  filteredTables: string[];
+}
+
+// Session parameters set at runtime (/session), layered over the configured defaults
+const sessionOverrides: Record<string, string> = {};
+
+/**
+ * Set a session parameter for the rest of the CLI session
+ */
+export function setSessionParam(name: string, value: string): void {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid session parameter name: ${name}`);
+  }
+  sessionOverrides[name] = value;
+}
+
+/**
+ * Get the effective session parameters (configured defaults + runtime overrides)
+ */
+export function resolveSessionParams(defaults: Record<string, string>): Record<string, string> {
+  return { ...defaults, ...sessionOverrides };
+}
+
+/**
+ * Check whether a table has a row filter
+ */
+export function hasRowFilter(filters: RowFilter[], schema: string, table: string): boolean {
+  return filters.some(filter => matchesTable(filter.table, schema, table));
+}
+
+/**
+ * Check whether a table has a row filter, or is a view or materialized view
+ * that reads one (directly or through other views). Fails closed: a view
+ * without a definition, one that does not parse, or one naming a table that
+ * cannot be resolved safely counts as filtered.
+ *
+ * @param tables - Tables of the inspected database, to resolve names in view definitions
+ */
+export function readsRowFilteredTable(
+  table: PolicyTable,
+  filters: RowFilter[],
+  searchPath: string[] = [DEFAULT_SCHEMA],
+  tables: PolicyTable[] = []
+): boolean {
+  return readsFiltered(table, filters, searchPath, tables, new Set());
+}
+
+/**
+ * Remove views and materialized views that read a row-filtered table, so the
+ * LLM never plans a query that would be refused
+ *
+ * @param tables - All tables of the inspected database (defaults to the schema itself)
+ */
+export function filterSchemaByRowFilters<T extends PolicyTable>(
+  schema: T[],
+  filters: RowFilter[],
+  searchPath: string[] = [DEFAULT_SCHEMA],
+  tables: PolicyTable[] = schema
+): T[] {
+  if (filters.length === 0) {
+    return schema;
+  }
+  return schema.filter(table => !isView(table) || !readsRowFilteredTable(table, filters, searchPath, tables));
+}
+
+function readsFiltered(
+  table: PolicyTable,
+  filters: RowFilter[],
+  searchPath: string[],
+  tables: PolicyTable[],
+  seen: Set<string>
+): boolean {
+  if (filters.length === 0) {
+    return false;
+  }
+  if (hasRowFilter(filters, schemaOfTable(table), table.tableName)) {
+    return true;
+  }
+  const name = qualifiedTableName(table);
+  if (!isView(table) || seen.has(name)) {
+    return false;
+  }
+  seen.add(name);
+
+  const parsed = table.viewDefinition ? parsePostgres(table.viewDefinition) : undefined;
+  if (!parsed?.success) {
+    return true;
+  }
+  let reads = false;
+  walkAst(parsed.statements, (type, node, ancestors) => {
+    if (reads || type !== 'RangeVar' || isCteReference(node, ancestors)) {
+      return;
+    }
+    try {
+      const schema = node.schemaname || resolveSchema(node.relname, filters, searchPath, tables);
+      const referenced = resolveTable({ schema, table: node.relname }, tables, searchPath)
+        ?? { schemaName: schema, tableName: node.relname };
+      reads = readsFiltered(referenced, filters, searchPath, tables, seen);
+    } catch {
+      reads = true;
+    }
+  });
+  return reads;
+}
+
+/**
+ * Wrap every filtered table referenced by the query in a filtered subquery.
+ *
+ * - CTE references are left alone (the CTE body is filtered instead)
+ * - Tables without a filter are left alone
+ * - Unqualified names resolve through the whole search_path against the
+ *   loaded tables, the way PostgreSQL will resolve them
+ * - Fails closed: throws if a required session parameter is missing, the
+ *   reference cannot be rewritten safely, an unqualified name that a
+ *   schema-qualified filter could apply to does not resolve to a known table,
+ *   or the query reads a view over a filtered table
+ *
+ * @param sql - SQL already approved by the guard
+ * @param filters - Row filters (config.rowFilters)
+ * @param sessionParams - Values for :name placeholders in the predicates
+ * @param searchPath - Schemas for unqualified table names, in resolution order
+ * @param tables - Tables and views of the inspected database, to resolve
+ *   unqualified names and check view definitions
+ */
+export function applyRowFilters(
+  sql: string,
+  filters: RowFilter[],
+  sessionParams: Record<string, string>,
+  searchPath: string[] = [DEFAULT_SCHEMA],
+  tables: PolicyTable[] = []
+): RowFilterResult {
+  if (filters.length === 0) {
+    return { sql, params: [], filteredTables: [] };
+  }
+
+  const parsed = parsePostgres(sql);
+  if (!parsed.success) {
+    throw new Error(`Cannot apply row filters: ${parsed.error}`);
+  }
+
+  // Number our parameters after any the query already uses
+  let firstParam = 1;
+  const targets: Array<{ rangeVar: AstNode; predicates: string[] }> = [];
+  walkAst(parsed.statements, (type, node, ancestors) => {
+    if (type === 'ParamRef' && typeof node.number === 'number') {
+      firstParam = Math.max(firstParam, node.number + 1);
+    }
+    if (type === 'RangeVar' && !isCteReference(node, ancestors)) {
+      const schema = node.schemaname || resolveSchema(node.relname, filters, searchPath, tables);
+      const predicates = filters
+        .filter(filter => matchesTable(filter.table, schema, node.relname))
+        .map(filter => filter.predicate);
+      if (predicates.length > 0) {
+        targets.push({ rangeVar: node, predicates });
+        return;
+      }
+      const view = resolveTable({ schema, table: node.relname }, tables, searchPath);
+      if (view && readsRowFilteredTable(view, filters, searchPath, tables)) {
+        throw new Error(
+          `Cannot apply row filters: view "${schema}.${node.relname}" reads a row-filtered table - query the tables it reads instead`
+        );
+      }
+    }
+  });
+
+  if (targets.length === 0) {
+    return { sql, params: [], filteredTables: [] };
+  }
+
+  const bindings = new Map<string, number>();
+  const params: string[] = [];
+  const bind = (name: string, table: string): string => {
+    if (!bindings.has(name)) {
+      const value = sessionParams[name];
+      if (value === undefined) {
+        throw new Error(`Row filter on "${table}" requires session parameter "${name}", which is not set (use /session ${name} <value>)`);
+      }
+      params.push(value);
+      bindings.set(name, firstParam + params.length - 1);
+    }
+    return `$${bindings.get(name)}`;
+  };
+
+  const edits = targets.map(({ rangeVar, predicates }) => {
+    const span = findTableSpan(sql, rangeVar);
+    const condition = predicates
+      .map(predicate => `(${bindPredicate(predicate, name => bind(name, rangeVar.relname))})`)
+      .join(' AND ');
+    const alias = rangeVar.alias ? '' : ` AS ${span.lastPart}`;
+    return {
+      start: span.start,
+      end: span.end,
+      text: `(SELECT * FROM ${span.only ? 'ONLY ' : ''}${span.name} WHERE ${condition})${alias}`,
+      table: span.name,
+    };
+  });
+
+  let rewritten = sql;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    rewritten = rewritten.slice(0, edit.start) + edit.text + rewritten.slice(edit.end);
+  }
+
+  // Fail closed if the rewrite produced anything the parser does not accept
+  const check = parsePostgres(rewritten);
+  if (!check.success) {
+    throw new Error(`Cannot apply row filters to this query: ${check.error}`);
+  }
+
+  return {
+    sql: rewritten,
+    params,
+    filteredTables: [...new Set(edits.map(edit => edit.table))],
+  };
+}
+
+/**
+ * Schema an unqualified table name resolves to. A name missing from the loaded
+ * tables is only accepted when no filter for a search_path schema could apply
+ * to it - otherwise the filter might silently be skipped.
+ */
+function resolveSchema(table: string, filters: RowFilter[], searchPath: string[], tables: NamedTable[]): string {
+  const resolved = resolveTable({ table }, tables, searchPath);
+  if (resolved) {
+    return schemaOfTable(resolved);
+  }
+  // Unqualified filters apply in every schema; only schema-qualified ones depend on resolution
+  const qualified = filters.filter(filter => filter.table.includes('.'));
+  if (searchPath.some(schema => qualified.some(filter => matchesTable(filter.table, schema, table)))) {
+    throw new Error(
+      `Cannot apply row filters: cannot tell which schema "${table}" resolves to (search_path: ${searchPath.join(', ')}) - qualify the table name`
+    );
+  }
+  return searchPath[0] || DEFAULT_SCHEMA;
+}
+
+/**
+ * Check whether an unqualified RangeVar names a CTE visible at that point.
+ * Inside a non-recursive WITH, a CTE body only sees the CTEs defined before it,
+ * so `WITH orders AS (SELECT * FROM orders)` still filters the inner table.
+ */
+function isCteReference(rangeVar: AstNode, ancestors: AstAncestor[]): boolean {
+  if (rangeVar.schemaname || rangeVar.catalogname) {
+    return false;
+  }
+
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    const { type, node } = ancestors[i];
+    if (type !== 'SelectStmt' || !node.withClause) {
+      continue;
+    }
+    const withClause = node.withClause;
+    const ctes: AstNode[] = (withClause.ctes || []).map((cte: AstNode) => cte.CommonTableExpr);
+    let visible = ctes;
+    if (ancestors[i + 1]?.type === 'WithClause') {
+      const index = ctes.indexOf(ancestors[i + 2]?.node);
+      visible = withClause.recursive ? ctes : ctes.slice(0, Math.max(index, 0));
+    }
+    if (visible.some(cte => cte.ctename === rangeVar.relname)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Locate the (possibly qualified) table name of a RangeVar in the SQL text.
+ * The alias, if any, is left in place after the replacement.
+ */
+function findTableSpan(sql: string, rangeVar: AstNode): { start: number; end: number; name: string; lastPart: string; only: boolean } {
+  const start = byteOffsetToCharIndex(sql, rangeVar.location ?? 0);
+  const partCount = [rangeVar.catalogname, rangeVar.schemaname, rangeVar.relname].filter(Boolean).length;
+
+  let i = start;
+  let lastPartStart = start;
+  for (let part = 0; part < partCount; part++) {
+    if (part > 0) {
+      while (/\s/.test(sql[i] || '')) i++;
+      if (sql[i] !== '.') {
+        throw new Error(`Cannot apply row filters: unexpected table reference near "${sql.slice(start, start + 40)}"`);
+      }
+      i++;
+      while (/\s/.test(sql[i] || '')) i++;
+    }
+    lastPartStart = i;
+    if (sql[i] === '"') {
+      i++;
+      while (i < sql.length) {
+        if (sql[i] === '"' && sql[i + 1] === '"') {
+          i += 2;
+        } else if (sql[i] === '"') {
+          i++;
+          break;
+        } else {
+          i++;
+        }
+      }
+    } else {
+      const identifier = /^[A-Za-z_\u0080-\uffff][A-Za-z0-9_$\u0080-\uffff]*/.exec(sql.slice(i));
+      if (!identifier) {
+        throw new Error(`Cannot apply row filters: unexpected table reference near "${sql.slice(start, start + 40)}"`);
+      }
+      i += identifier[0].length;
+    }
+  }
+
+  // ONLY orders: the keyword moves into the subquery
+  const only = rangeVar.inh !== true ? /\bONLY\s+$/i.exec(sql.slice(0, start)) : null;
+  if (rangeVar.inh !== true && !only) {
+    throw new Error(`Cannot apply row filters: unsupported ONLY reference to "${rangeVar.relname}"`);
+  }
+
+  return {
+    start: only ? only.index : start,
+    end: i,
+    name: sql.slice(start, i),
+    lastPart: sql.slice(lastPartStart, i),
+    only: !!only,
+  };
+}
+
+/**
+ * Replace :name placeholders in a predicate with bind parameters.
+ * Quoted strings/identifiers and :: casts are left untouched.
+ */
+function bindPredicate(predicate: string, bind: (name: string) => string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < predicate.length) {
+    const ch = predicate[i];
+
+    if (ch === '\'' || ch === '"') {
+      let j = i + 1;
+      while (j < predicate.length) {
+        if (predicate[j] === ch && predicate[j + 1] === ch) {
+          j += 2;
+        } else if (predicate[j] === ch) {
+          j++;
+          break;
+        } else {
+          j++;
+        }
+      }
+      result += predicate.slice(i, j);
+      i = j;
+      continue;
+    }
+
+    if (ch === ':' && predicate[i - 1] !== ':' && predicate[i + 1] !== ':') {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(predicate.slice(i + 1));
+      if (name) {
+        result += bind(name[0]);
+        i += 1 + name[0].length;
+        continue;
+      }
+    }
+
+    result += ch;
+    i++;
+  }
+
+  return result;
+}
@@ -0,0 +1,202 @@
+/**
+ * Schema Drift Service
+ *
+ * Business logic for schema change detection. Every full metadata refresh
+ * builds a structural snapshot of the inspected database (tables, columns,
+ * indexes, foreign keys) and a fingerprint of it. When the fingerprint differs
+ * from the last stored one, the structured diff is recorded and cross-referenced
+ * with the semantic layer: semantics that use a removed or retyped table/column
+ * are flagged for review instead of silently producing broken SQL.
+ */
+
+import { createHash } from 'crypto';
+import {
+  AffectedSemantic,
+  SchemaChange,
+  SchemaSnapshot,
+  Semantic,
+  TableMetadata,
+  TableSchema,
+} from '../types.js';
+import { TableNameReference, parseTableName, qualifiedTableName, isSameTable } from './schemaResolution.js';
+
+const CHANGE_SYMBOLS: Record<SchemaChange['change'], string> = {
+  added: '+',
+  removed: '-',
+  retyped: '~',
+  changed: '~',
+};
+
+/**
+ * Build the structural snapshot of a schema.
+ *
+ * @param schema - Freshly loaded schema (not the cache)
+ * @param metadata - Table metadata with indexes and foreign keys
+ */
+export function buildSchemaSnapshot(schema: TableSchema[], metadata: TableMetadata[]): SchemaSnapshot {
+  const snapshot: SchemaSnapshot = {};
+
+  for (const table of schema) {
+    const meta = metadata.find(m => isSameTable(m, table));
+
+    const columns: Record<string, string> = {};
+    for (const column of table.columns) {
+      columns[column.columnName] = column.isNullable ? column.dataType : `${column.dataType} NOT NULL`;
+    }
+
+    const indexes: Record<string, string> = {};
+    for (const index of meta?.indexes || []) {
+      indexes[index.indexName] = index.definition
+        || `${index.isUnique ? 'UNIQUE ' : ''}${index.indexType} (${index.columns.join(', ')})`;
+    }
+
+    const foreignKeys: Record<string, string> = {};
+    for (const fk of meta?.foreignKeys || []) {
+      const target = fk.toSchema ? qualifiedTableName({ schemaName: fk.toSchema, tableName: fk.toTable }) : fk.toTable;
+      foreignKeys[fk.constraintName] = `${fk.fromColumn} → ${target}.${fk.toColumn}`;
+    }
+
+    snapshot[qualifiedTableName(table)] = { tableType: table.tableType || 'table', columns, indexes, foreignKeys };
+  }
+
+  return snapshot;
+}
+
+/**
+ * Fingerprint of a snapshot: identical structure, identical fingerprint (key order does not matter)
+ */
+export function schemaFingerprint(snapshot: SchemaSnapshot): string {
+  return createHash('sha256').update(canonicalJson(snapshot)).digest('hex');
+}
+
+/**
+ * Structural differences between two snapshots, ordered by table.
+ * A new table is reported once, not column by column; a rename shows up as removed + added.
+ */
+export function diffSchemaSnapshots(before: SchemaSnapshot, after: SchemaSnapshot): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+
+  for (const table of sortedKeys(before, after)) {
+    const previous = before[table];
+    const current = after[table];
+
+    if (!current) {
+      changes.push({ kind: 'table', change: 'removed', table, before: previous.tableType });
+      continue;
+    }
+    if (!previous) {
+      changes.push({ kind: 'table', change: 'added', table, after: current.tableType });
+      continue;
+    }
+
+    if (previous.tableType !== current.tableType) {
+      changes.push({ kind: 'table', change: 'retyped', table, before: previous.tableType, after: current.tableType });
+    }
+    diffEntries('column', 'retyped', table, previous.columns, current.columns, changes);
+    diffEntries('index', 'changed', table, previous.indexes, current.indexes, changes);
+    diffEntries('foreign_key', 'changed', table, previous.foreignKeys, current.foreignKeys, changes);
+  }
+
+  return changes;
+}
+
+/**
+ * Semantics that rely on a removed table, or a removed or retyped column.
+ * A semantic uses a table/column through its primary table and column, or by
+ * naming them in its SQL fragment (a column only counts together with its table,
+ * so a dropped orders.status does not flag every fragment mentioning "status").
+ */
+export function findAffectedSemantics(changes: SchemaChange[], semantics: Semantic[]): AffectedSemantic[] {
+  const affected: AffectedSemantic[] = [];
+
+  for (const semantic of semantics) {
+    const reasons: string[] = [];
+
+    for (const change of changes) {
+      const table = parseTableName(change.table);
+      if (change.kind === 'table' && change.change === 'removed' && usesTable(semantic, table)) {
+        reasons.push(`table ${change.table} was removed`);
+      } else if (change.kind === 'column' && change.name && change.change !== 'added' && usesColumn(semantic, table, change.name)) {
+        reasons.push(change.change === 'removed'
+          ? `column ${change.table}.${change.name} was removed`
+          : `column ${change.table}.${change.name} changed type (${change.before} → ${change.after})`);
+      }
+    }
+
+    if (reasons.length > 0) {
+      affected.push({ semanticId: semantic.id, name: semantic.term, reason: reasons.join('; ') });
+    }
+  }
+
+  return affected;
+}
+
+/**
+ * One-line description of a change ("~ column sales.orders.amount: integer → numeric")
+ */
+export function formatSchemaChange(change: SchemaChange): string {
+  const subject = change.name ? `${change.table}.${change.name}` : change.table;
+  const kind = change.kind.replace('_', ' ');
+  const detail = change.change === 'retyped' || change.change === 'changed'
+    ? `${change.before} → ${change.after}`
+    : change.after || change.before;
+  return `${CHANGE_SYMBOLS[change.change]} ${kind} ${subject}${detail ? `: ${detail}` : ''}`;
+}
+
+function diffEntries(
+  kind: SchemaChange['kind'],
+  changedAs: 'retyped' | 'changed',
+  table: string,
+  before: Record<string, string>,
+  after: Record<string, string>,
+  changes: SchemaChange[]
+): void {
+  for (const name of sortedKeys(before, after)) {
+    if (!(name in after)) {
+      changes.push({ kind, change: 'removed', table, name, before: before[name] });
+    } else if (!(name in before)) {
+      changes.push({ kind, change: 'added', table, name, after: after[name] });
+    } else if (before[name] !== after[name]) {
+      changes.push({ kind, change: changedAs, table, name, before: before[name], after: after[name] });
+    }
+  }
+}
+
+function usesTable(semantic: Semantic, table: TableNameReference): boolean {
+  if (semantic.tableName) {
+    const own = parseTableName(semantic.tableName);
+    if (own.table === table.table && (!own.schema || own.schema === table.schema)) {
+      return true;
+    }
+  }
+  return !!semantic.sqlFragment && mentionsIdentifier(semantic.sqlFragment, table.table);
+}
+
+function usesColumn(semantic: Semantic, table: TableNameReference, column: string): boolean {
+  if (!usesTable(semantic, table)) {
+    return false;
+  }
+  return semantic.columnName === column
+    || (!!semantic.sqlFragment && mentionsIdentifier(semantic.sqlFragment, column));
+}
+
+function mentionsIdentifier(sql: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\w$])${escaped}($|[^\\w$])`, 'i').test(sql);
+}
+
+function sortedKeys(a: Record<string, unknown>, b: Record<string, unknown>): string[] {
+  return Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>).sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,173 @@
+/**
+ * Schema Resolution Service
+ *
+ * Business logic for schema-qualified table names. Tables in different schemas
+ * (sales.orders, finance.orders) are told apart by their qualified name, and
+ * unqualified references resolve the way PostgreSQL's search_path does: the
+ * first schema in the path that has the table wins.
+ *
+ * Names follow PostgreSQL identifier rules - unquoted identifiers fold to
+ * lowercase, quoted identifiers keep their case. Table names coming from the
+ * parser are already folded, so they are compared exactly.
+ */
+
+import { ForeignKeyMetadata } from '../types.js';
+
+export const DEFAULT_SCHEMA = 'public';
+
+/**
+ * Anything naming a table: TableSchema, TableMetadata, classifications
+ */
+export interface NamedTable {
+  tableName: string;
+  schemaName?: string;
+}
+
+/**
+ * A table reference as written in SQL (schema only when qualified)
+ */
+export interface TableNameReference {
+  schema?: string;
+  table: string;
+}
+
+/**
+ * Keywords that cannot be used as table names without quotes
+ */
+const RESERVED_WORDS = new Set([
+  'all', 'analyse', 'analyze', 'and', 'any', 'array', 'as', 'asc', 'both', 'case', 'cast', 'check',
+  'collate', 'column', 'constraint', 'create', 'default', 'desc', 'distinct', 'do', 'else', 'end',
+  'except', 'false', 'fetch', 'for', 'foreign', 'from', 'grant', 'group', 'having', 'in', 'into',
+  'leading', 'limit', 'not', 'null', 'offset', 'on', 'only', 'or', 'order', 'primary', 'references',
+  'select', 'table', 'then', 'to', 'true', 'union', 'unique', 'user', 'using', 'when', 'where',
+  'window', 'with',
+]);
+
+/**
+ * Schema a table lives in (tables cached before multi-schema support have none: public)
+ */
+export function schemaOfTable(table: NamedTable): string {
+  return table.schemaName || DEFAULT_SCHEMA;
+}
+
+/**
+ * Quote an identifier only when PostgreSQL requires it
+ */
+export function quoteIdentifier(name: string): string {
+  if (/^[a-z_][a-z0-9_$]*$/.test(name) && !RESERVED_WORDS.has(name)) {
+    return name;
+  }
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Fully qualified, SQL-ready name of a table ("sales.orders", "public.\"Order Items\"")
+ */
+export function qualifiedTableName(table: NamedTable): string {
+  return `${quoteIdentifier(schemaOfTable(table))}.${quoteIdentifier(table.tableName)}`;
+}
+
+/**
+ * SQL-ready name of a table reference as written (qualified only if it was)
+ */
+export function formatTableReference(ref: TableNameReference): string {
+  return ref.schema
+    ? `${quoteIdentifier(ref.schema)}.${quoteIdentifier(ref.table)}`
+    : quoteIdentifier(ref.table);
+}
+
+/**
+ * Parse a possibly qualified, possibly quoted table name ("Sales.Orders",
+ * "\"Sales\".orders"). Unquoted parts fold to lowercase.
+ */
+export function parseTableName(name: string): TableNameReference {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let wasQuoted = false;
+
+  for (let i = 0; i < name.length; i++) {
+    const char = name[i];
+    if (quoted) {
+      if (char === '"' && name[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+      wasQuoted = true;
+    } else if (char === '.') {
+      parts.push(wasQuoted ? current : current.trim().toLowerCase());
+      current = '';
+      wasQuoted = false;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(wasQuoted ? current : current.trim().toLowerCase());
+
+  const table = parts[parts.length - 1];
+  return parts.length > 1 ? { schema: parts[parts.length - 2], table } : { table };
+}
+
+/**
+ * Resolve a table reference like PostgreSQL would: qualified references match
+ * their schema exactly, unqualified ones take the first search_path schema
+ * that has the table.
+ *
+ * @param searchPath - Schemas in resolution order (config.searchPath)
+ */
+export function resolveTable<T extends NamedTable>(
+  ref: TableNameReference,
+  tables: T[],
+  searchPath: string[] = [DEFAULT_SCHEMA]
+): T | undefined {
+  if (ref.schema) {
+    return tables.find(t => t.tableName === ref.table && schemaOfTable(t) === ref.schema);
+  }
+  for (const schema of searchPath) {
+    const match = tables.find(t => t.tableName === ref.table && schemaOfTable(t) === schema);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a table name string (see parseTableName and resolveTable)
+ */
+export function resolveTableName<T extends NamedTable>(
+  name: string,
+  tables: T[],
+  searchPath: string[] = [DEFAULT_SCHEMA]
+): T | undefined {
+  return resolveTable(parseTableName(name), tables, searchPath);
+}
+
+/**
+ * Tables with the given name in any schema - used to suggest the qualified
+ * name when an unqualified reference does not resolve
+ */
+export function findTablesNamed<T extends NamedTable>(table: string, tables: T[]): T[] {
+  return tables.filter(t => t.tableName === table);
+}
+
+/**
+ * Check whether two named tables are the same table
+ */
+export function isSameTable(a: NamedTable, b: NamedTable): boolean {
+  return a.tableName === b.tableName && schemaOfTable(a) === schemaOfTable(b);
+}
+
+/**
+ * Check whether a foreign key points at the given table.
+ * Foreign keys stored before multi-schema support have no target schema and match by name.
+ */
+export function referencesTable(fk: ForeignKeyMetadata, table: NamedTable): boolean {
+  return fk.toTable === table.tableName && (!fk.toSchema || fk.toSchema === schemaOfTable(table));
+}
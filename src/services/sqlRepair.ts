@@ -0,0 +1,271 @@
+/**
+ * SQL Repair Service
+ *
+ * Business logic for the SQL self-repair loop. When PostgreSQL rejects a
+ * generated query, the error (code, message, hint, position) is turned into
+ * feedback for the SQL writer together with the schema of the tables involved.
+ *
+ * Fixes are reduced to a token diff so identical fixes can be recognised
+ * across runs and, once repeated often enough, proposed as semantic suggestions.
+ */
+
+import { PostgresErrorDetails, SemanticSuggestion, SQLRepairAttempt, TableSchema } from '../types.js';
+import { TableNameReference, resolveTable } from './schemaResolution.js';
+
+/**
+ * SQLSTATE codes the repair loop knows by name (used in the LLM feedback)
+ */
+const ERROR_CODE_NAMES: Record<string, string> = {
+  '21000': 'cardinality_violation',
+  '22003': 'numeric_value_out_of_range',
+  '22007': 'invalid_datetime_format',
+  '22008': 'datetime_field_overflow',
+  '22012': 'division_by_zero',
+  '22P02': 'invalid_text_representation',
+  '42601': 'syntax_error',
+  '42702': 'ambiguous_column',
+  '42703': 'undefined_column',
+  '42725': 'ambiguous_function',
+  '42803': 'grouping_error',
+  '42804': 'datatype_mismatch',
+  '42809': 'wrong_object_type',
+  '42846': 'cannot_coerce',
+  '42883': 'undefined_function',
+  '42P01': 'undefined_table',
+  '42P09': 'ambiguous_alias',
+  '42P10': 'invalid_column_reference',
+  '57014': 'query_canceled',
+};
+
+/**
+ * Extract PostgreSQL error details from a thrown error.
+ * Returns null for errors that did not come from the server (connection
+ * failures, guard rejections, row filter errors).
+ * Data errors (class 22) quote the offending value, which comes from the
+ * data rather than the query: quoted text in them is replaced by <value>.
+ *
+ * @param error - Error thrown by runSQL
+ * @param sql - SQL that was run; the error's executedSQL wins when row filters rewrote it
+ */
+export function extractPostgresError(error: any, sql: string): PostgresErrorDetails | null {
+  if (!error || typeof error.code !== 'string' || !/^[0-9A-Z]{5}$/.test(error.code)) {
+    return null;
+  }
+
+  const text = error.code.startsWith('22') ? redactQuotedValues : String;
+  const details: PostgresErrorDetails = {
+    code: error.code,
+    message: text(error.message || ''),
+  };
+  if (error.detail) {
+    details.detail = text(error.detail);
+  }
+  if (error.hint) {
+    details.hint = text(error.hint);
+  }
+
+  const position = Number(error.position);
+  if (Number.isInteger(position) && position > 0) {
+    details.position = position;
+    const executed: string = typeof error.executedSQL === 'string' ? error.executedSQL : sql;
+    const near = executed.slice(position - 1, position + 39).split('\n')[0].trim();
+    if (near) {
+      details.near = near;
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Replace everything from the first to the last quote with a placeholder, so a
+ * value containing quotes cannot leak either
+ */
+function redactQuotedValues(value: unknown): string {
+  return String(value)
+    .replace(/"[\s\S]*"/, '"<value>"')
+    .replace(/'[\s\S]*'/, "'<value>'");
+}
+
+/**
+ * Whether an error can plausibly be fixed by rewriting the query.
+ * Covers syntax/reference errors (class 42), data errors (class 22),
+ * subqueries returning several rows and statement timeouts.
+ * Privilege errors are never repaired - the access policy is not negotiable.
+ */
+export function isRepairableError(details: PostgresErrorDetails): boolean {
+  if (details.code === '42501') {
+    return false; // insufficient_privilege
+  }
+  return details.code.startsWith('42')
+    || details.code.startsWith('22')
+    || details.code === '21000'
+    || details.code === '57014';
+}
+
+/**
+ * Format error details as feedback for the SQL writer
+ */
+export function formatPostgresErrorForLLM(details: PostgresErrorDetails): string {
+  const name = ERROR_CODE_NAMES[details.code];
+  const lines = [`Error code: ${details.code}${name ? ` (${name})` : ''}`, `Message: ${details.message}`];
+  if (details.detail) {
+    lines.push(`Detail: ${details.detail}`);
+  }
+  if (details.hint) {
+    lines.push(`Hint: ${details.hint}`);
+  }
+  if (details.position) {
+    lines.push(`Position: character ${details.position}${details.near ? `, at: ${details.near}` : ''}`);
+  }
+  if (details.code === '57014') {
+    lines.push('The query hit the statement timeout. Make it cheaper: filter earlier, use indexed columns, avoid unnecessary joins.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Pick the schema slice sent with a repair request: the tables the failed
+ * query references, resolved through the search_path. Falls back to the full
+ * schema when the query references a table that does not exist (the right one
+ * has to be found first).
+ *
+ * @param schema - Schema visible to the agent (already filtered by the access policy)
+ * @param referencedTables - Table references from parseSQL(failedSql).tableRefs
+ * @param searchPath - Schemas unqualified names resolve against
+ */
+export function selectRepairSchema(
+  schema: TableSchema[],
+  referencedTables: TableNameReference[],
+  details: PostgresErrorDetails,
+  searchPath?: string[]
+): TableSchema[] {
+  const slice: TableSchema[] = [];
+  for (const ref of referencedTables) {
+    const table = resolveTable(ref, schema, searchPath);
+    if (table && !slice.includes(table)) {
+      slice.push(table);
+    }
+  }
+
+  if (details.code === '42P01' || slice.length === 0) {
+    return schema;
+  }
+  return slice;
+}
+
+/**
+ * Token-level difference between a failed query and its fix.
+ * Unquoted identifiers and keywords are compared case-insensitively.
+ */
+export function diffSqlTokens(failedSql: string, repairedSql: string): { removed: string[]; added: string[] } {
+  const before = tokenize(failedSql);
+  const after = tokenize(repairedSql);
+
+  const remaining = new Map<string, number>();
+  for (const token of after) {
+    remaining.set(token, (remaining.get(token) || 0) + 1);
+  }
+
+  const removed: string[] = [];
+  for (const token of before) {
+    const count = remaining.get(token) || 0;
+    if (count > 0) {
+      remaining.set(token, count - 1);
+    } else {
+      removed.push(token);
+    }
+  }
+
+  const added: string[] = [];
+  for (const [token, count] of remaining) {
+    for (let i = 0; i < count; i++) {
+      added.push(token);
+    }
+  }
+
+  return { removed, added };
+}
+
+/**
+ * Signature of a fix, identical for the same correction of the same error class
+ * regardless of the rest of the query. Null when the fix changed nothing.
+ */
+export function fixSignature(errorCode: string, failedSql: string, repairedSql: string): string | null {
+  const { removed, added } = diffSqlTokens(failedSql, repairedSql);
+  if (removed.length === 0 && added.length === 0) {
+    return null;
+  }
+  return `${errorCode}:-${[...removed].sort().join(' ')}:+${[...added].sort().join(' ')}`;
+}
+
+/**
+ * Build a semantic suggestion from a fix the repair loop keeps making.
+ * Only small fixes qualify; a rewritten query is not a reusable rule.
+ *
+ * @param attempt - A successful repair attempt with a fix signature
+ * @param occurrences - How often the same fix appears in the run logs
+ */
+export function buildRepairSuggestion(
+  attempt: SQLRepairAttempt,
+  occurrences: number,
+  question: string,
+  runLogId?: string
+): Omit<SemanticSuggestion, 'id' | 'created_at'> | null {
+  if (!attempt.succeeded || !attempt.repairedSql || !attempt.fixSignature) {
+    return null;
+  }
+
+  const { removed, added } = diffSqlTokens(attempt.failedSql, attempt.repairedSql);
+  if (removed.length === 0 || added.length === 0 || removed.length > 5 || added.length > 5) {
+    return null;
+  }
+
+  const wrong = removed.join(' ');
+  const right = added.join(' ');
+  const confidence = Math.min(0.9, 0.5 + 0.1 * occurrences);
+
+  return {
+    suggested_name: wrong,
+    suggested_type: 'ANTI_PATTERN',
+    suggested_definition: {
+      entityType: 'ANTI_PATTERN',
+      name: wrong,
+      description: `PostgreSQL rejects "${wrong}" (${attempt.error.message}); use "${right}" instead.`,
+      sqlPattern: right,
+      metadata: {
+        anti_patterns: { wrong, why: attempt.error.message, correct: right },
+        error_code: attempt.error.code,
+        source: 'learned',
+        approved: false,
+      },
+    },
+    learned_from: 'pattern_analysis',
+    source_run_log_id: runLogId,
+    learning_dialogue: {
+      original_question: question,
+      generated_sql: attempt.failedSql,
+      user_correction: attempt.repairedSql,
+      correction_type: 'sql_repair',
+      error: attempt.error,
+    },
+    confidence,
+    evidence: {
+      correction_count: occurrences,
+      user_was_explicit: false,
+      provided_example: true,
+      reasoning: `The SQL repair loop applied the same fix ${occurrences} times`,
+      fix_signature: attempt.fixSignature,
+    },
+    status: 'pending',
+    requires_expert_review: true,
+  };
+}
+
+function tokenize(sql: string): string[] {
+  const tokens = sql
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .match(/"(?:[^"]|"")*"|'(?:[^']|'')*'|[A-Za-z_][\w$]*|\d+(?:\.\d+)?|::|<>|!=|<=|>=|\|\||[^\s;]/g) || [];
+  return tokens.map(t => (t.startsWith('"') || t.startsWith("'") ? t : t.toLowerCase()));
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import type pg from 'pg';
+import { buildGuardrailStatements, formatSchemaForLLM, loadSchemaFromDB } from '../inspectedDb.js';
+import { AccessPolicy } from '../../types.js';
+
+// pools.ts reads the environment on import; these tests never connect
+vi.mock('../pools.js', () => ({ getInspectedDbPool: () => undefined }));
+
+const catalogRows = [
+  { table_schema: 'public', table_name: 'users', relkind: 'r', table_comment: 'One row per account', view_definition: null, column_name: 'id', data_type: 'integer', is_nullable: false, column_default: null, column_comment: null },
+  { table_schema: 'public', table_name: 'users', relkind: 'r', table_comment: 'One row per account', view_definition: null, column_name: 'email', data_type: 'text', is_nullable: true, column_default: null, column_comment: 'Login address' },
+  { table_schema: 'public', table_name: 'users', relkind: 'r', table_comment: 'One row per account', view_definition: null, column_name: 'password_hash', data_type: 'text', is_nullable: true, column_default: null, column_comment: null },
+  { table_schema: 'public', table_name: 'user_emails', relkind: 'v', table_comment: null, view_definition: ' SELECT u.id,\n    u.email\n   FROM users u;', column_name: 'id', data_type: 'integer', is_nullable: true, column_default: null, column_comment: null },
+  { table_schema: 'public', table_name: 'user_emails', relkind: 'v', table_comment: null, view_definition: ' SELECT u.id,\n    u.email\n   FROM users u;', column_name: 'email', data_type: 'text', is_nullable: true, column_default: null, column_comment: null },
+  { table_schema: 'public', table_name: 'user_logins', relkind: 'm', table_comment: 'Refreshed nightly', view_definition: ' SELECT u.id,\n    u.password_hash\n   FROM users u;', column_name: 'id', data_type: 'integer', is_nullable: true, column_default: null, column_comment: null },
+];
+
+const client = { query: async () => ({ rows: catalogRows }) } as unknown as pg.PoolClient;
+
+const accessPolicy: AccessPolicy = {
+  allowedSchemas: [],
+  deniedSchemas: [],
+  allowedTables: [],
+  deniedTables: [],
+  allowedColumns: [],
+  deniedColumns: ['users.password_hash'],
+};
+
+describe('Inspected DB schema', () => {
+  it('should load views, materialized views and comments', async () => {
+    const schema = await loadSchemaFromDB(client);
+
+    expect(schema.map(t => [t.tableName, t.tableType])).toEqual([
+      ['users', 'table'],
+      ['user_emails', 'view'],
+      ['user_logins', 'materialized_view'],
+    ]);
+    expect(schema[0].comment).toBe('One row per account');
+    expect(schema[0].columns.map(c => c.comment)).toEqual([undefined, 'Login address', undefined]);
+    expect(schema[1].viewDefinition).toBe('SELECT u.id,\n    u.email\n   FROM users u;');
+    expect(schema[1].comment).toBeUndefined();
+  });
+
+  it('should label views and show comments, with definitions for a single table', async () => {
+    const schema = await loadSchemaFromDB(client);
+
+    expect(formatSchemaForLLM(schema).split('\n')).toEqual([
+      'Table: public.users',
+      'Description: One row per account',
+      'Columns:',
+      '  - id: integer NOT NULL',
+      '  - email: text NULL -- Login address',
+      '  - password_hash: text NULL',
+      '',
+      'View: public.user_emails',
+      'Columns:',
+      '  - id: integer NULL',
+      '  - email: text NULL',
+      '',
+      'Materialized view: public.user_logins',
+      'Description: Refreshed nightly',
+      'Columns:',
+      '  - id: integer NULL',
+      '',
+    ]);
+    expect(formatSchemaForLLM(schema, 'user_emails')).toContain('Definition:\n  SELECT u.id,\n      u.email\n     FROM users u;');
+  });
+
+  it('should leave out views that read restricted columns', async () => {
+    const schema = await loadSchemaFromDB(client);
+    const formatted = formatSchemaForLLM(schema, undefined, accessPolicy);
+
+    expect(formatted).toContain('View: public.user_emails');
+    expect(formatted).not.toContain('user_logins');
+    expect(formatted).not.toContain('password_hash');
+    expect(formatSchemaForLLM(schema, 'user_logins', accessPolicy)).toBe('Table "user_logins" not found.');
+  });
+});
+
+describe('Query guardrails', () => {
+  it('should build one SET LOCAL statement per guardrail', () => {
+    expect(buildGuardrailStatements({
+      statementTimeoutMs: 30000.7,
+      idleInTransactionTimeoutMs: 60000,
+      workMem: ' 64MB ',
+      searchPath: ['sales', 'Public Data'],
+    })).toEqual([
+      'SET LOCAL statement_timeout = 30000',
+      'SET LOCAL idle_in_transaction_session_timeout = 60000',
+      "SET LOCAL work_mem = '64MB'",
+      'SET LOCAL search_path = "sales", "Public Data"',
+    ]);
+    expect(buildGuardrailStatements({})).toEqual([]);
+    expect(buildGuardrailStatements({ searchPath: [] })).toEqual([]);
+  });
+
+  it('should quote search_path schemas so they cannot inject statements', () => {
+    expect(buildGuardrailStatements({ searchPath: ['x"; DROP TABLE users; --'] }))
+      .toEqual(['SET LOCAL search_path = "x""; DROP TABLE users; --"']);
+  });
+
+  it('should reject invalid values instead of interpolating them', () => {
+    expect(() => buildGuardrailStatements({ workMem: "64MB'; RESET ALL; --" })).toThrow('Invalid work_mem value');
+    expect(() => buildGuardrailStatements({ statementTimeoutMs: -1 })).toThrow('Invalid statementTimeoutMs: -1');
+    expect(() => buildGuardrailStatements({ idleInTransactionTimeoutMs: NaN })).toThrow('Invalid idleInTransactionTimeoutMs');
+  });
+});
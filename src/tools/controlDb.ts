@@ -9,9 +9,20 @@ import {
   RunLog,
   CorrectionCapture,
   TableMetadata,
+  ColumnPiiClassification,
+  ColumnProfile,
+  SchemaChangeRecord,
+  AffectedSemantic,
+  PromptVersionStats,
+  LLMCallRecord,
+  LLMCacheEntry,
+  LLMCostTotals,
+  LLMCostGrouping,
+  RowFilter,
   mapToDBEntityType
 } from '../types.js';
 import { getControlDbPool } from './pools.js';
+import { qualifiedTableName, isSameTable, resolveTableName, schemaOfTable } from '../services/schemaResolution.js';
 
 // Re-export for backward compatibility
 export { getControlDbPool };
@@ -29,7 +40,8 @@ export { getControlDbPool };
 // ----------------------------------------------------------------------------
 
 /**
- * Initialize the control database connection.
+ * Initialize the control database connection and add newer columns to the
+ * tables every query reads (semantic_entities review flag).
  * This function is idempotent - safe to call multiple times.
  */
 export async function initializeControlDB(): Promise<void> {
@@ -44,6 +56,13 @@ export async function initializeControlDB(): Promise<void> {
     // Note: Tables are assumed to exist (created by user's schema)
     // This function could be expanded to create tables if needed
     console.log('Control database connection verified');
+    
+    // getSemantics selects these, so they cannot wait for an optional table initializer
+    await client.query(`
+      ALTER TABLE IF EXISTS semantic_entities
+        ADD COLUMN IF NOT EXISTS needs_review BOOLEAN DEFAULT false,
+        ADD COLUMN IF NOT EXISTS review_reason TEXT;
+    `);
   } finally {
     client.release();
   }
@@ -87,6 +106,9 @@ export async function initializeMetadataTable(): Promise<void> {
         ON inspected_db_metadata(table_name);
       CREATE INDEX IF NOT EXISTS idx_metadata_analyzed 
         ON inspected_db_metadata(last_analyzed);
+      
+      ALTER TABLE inspected_db_metadata
+        ADD COLUMN IF NOT EXISTS allowed_values JSONB DEFAULT '[]';
     `);
     
     console.log('✅ Metadata table initialized');
@@ -98,6 +120,231 @@ export async function initializeMetadataTable(): Promise<void> {
   }
 }
 
+/**
+ * Initialize the pii_column_classifications table in control database
+ */
+export async function initializePiiClassificationTable(): Promise<void> {
+  const pool = getControlDbPool();
+  if (!pool) {
+    return;
+  }
+  
+  const client = await pool.connect();
+  
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS pii_column_classifications (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        table_name TEXT NOT NULL,
+        schema_name TEXT DEFAULT 'public',
+        column_name TEXT NOT NULL,
+        
+        category TEXT NOT NULL,
+        strategy TEXT NOT NULL CHECK (strategy IN ('pseudonym', 'redact')),
+        detected_by TEXT NOT NULL CHECK (detected_by IN ('name', 'data_type', 'values')),
+        
+        last_analyzed TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        
+        UNIQUE(table_name, schema_name, column_name)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_pii_table 
+        ON pii_column_classifications(table_name);
+    `);
+  } catch (error) {
+    console.error('❌ Error initializing PII classification table:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Initialize the column_profiles table in control database
+ */
+export async function initializeColumnProfileTable(): Promise<void> {
+  const pool = getControlDbPool();
+  if (!pool) {
+    return;
+  }
+  
+  const client = await pool.connect();
+  
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS column_profiles (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        table_name TEXT NOT NULL,
+        schema_name TEXT DEFAULT 'public',
+        column_name TEXT NOT NULL,
+        data_type TEXT NOT NULL,
+        
+        null_fraction REAL NOT NULL DEFAULT 0,
+        distinct_count BIGINT NOT NULL DEFAULT 0,
+        top_values JSONB DEFAULT '[]',
+        min_value TEXT,
+        max_value TEXT,
+        patterns JSONB DEFAULT '[]',
+        source TEXT NOT NULL CHECK (source IN ('pg_stats', 'sample')),
+        
+        last_profiled TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP,
+        
+        UNIQUE(table_name, schema_name, column_name)
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_column_profiles_table 
+        ON column_profiles(table_name);
+    `);
+  } catch (error) {
+    console.error('❌ Error initializing column profile table:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Initialize the schema_changes table in control database
+ * (the review flag on semantic_entities is added by initializeControlDB)
+ */
+export async function initializeSchemaChangeTable(): Promise<void> {
+  const pool = getControlDbPool();
+  if (!pool) {
+    return;
+  }
+  
+  const client = await pool.connect();
+  
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_changes (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        fingerprint TEXT NOT NULL,
+        previous_fingerprint TEXT,
+        snapshot JSONB NOT NULL,
+        changes JSONB DEFAULT '[]',
+        affected_semantics JSONB DEFAULT '[]',
+        detected_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_schema_changes_detected 
+        ON schema_changes(detected_at DESC);
+    `);
+  } catch (error) {
+    console.error('❌ Error initializing schema change table:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Initialize the llm_calls table in control database (one row per metered LLM call)
+ */
+export async function initializeLLMCallTable(): Promise<void> {
+  const pool = getControlDbPool();
+  if (!pool) {
+    return;
+  }
+  
+  const client = await pool.connect();
+  
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS llm_calls (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        run_log_id UUID REFERENCES run_logs(id) ON DELETE SET NULL,
+        role TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        tokens_estimated BOOLEAN DEFAULT false,
+        latency_ms INTEGER NOT NULL,
+        cost_usd NUMERIC(12, 6),
+        question TEXT,
+        user_name TEXT,
+        created_at TIMESTAMPTZ DEFAULT CURRENT_TIMESTAMP
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_llm_calls_created 
+        ON llm_calls(created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_llm_calls_run_log 
+        ON llm_calls(run_log_id);
+    `);
+  } catch (error) {
+    console.error('❌ Error initializing LLM call table:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Create the llm_response_cache table (persistent store of LLM_CACHE=db).
+ * Idempotent - safe to call on every startup.
+ */
+export async function initializeLLMCacheTable(): Promise<void> {
+  const pool = getControlDbPool();
+  if (!pool) {
+    return;
+  }
+  
+  const client = await pool.connect();
+  
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS llm_response_cache (
+        cache_key TEXT PRIMARY KEY,
+        role TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        context TEXT NOT NULL,
+        response JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        expires_at TIMESTAMPTZ NOT NULL
+      );
+      
+      CREATE INDEX IF NOT EXISTS idx_llm_response_cache_expires 
+        ON llm_response_cache(expires_at);
+    `);
+  } catch (error) {
+    console.error('❌ Error initializing LLM response cache table:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Add columns introduced after the original run_logs schema.
+ * Idempotent - safe to call on every startup.
+ */
+export async function initializeRunLogColumns(): Promise<void> {
+  const pool = getControlDbPool();
+  if (!pool) {
+    return;
+  }
+  
+  const client = await pool.connect();
+  
+  try {
+    await client.query(`
+      ALTER TABLE run_logs
+        ADD COLUMN IF NOT EXISTS policy_violations JSONB DEFAULT '[]',
+        ADD COLUMN IF NOT EXISTS repair_attempts JSONB DEFAULT '[]',
+        ADD COLUMN IF NOT EXISTS lineage JSONB DEFAULT '[]',
+        ADD COLUMN IF NOT EXISTS budget_stop JSONB,
+        ADD COLUMN IF NOT EXISTS prompt_versions JSONB DEFAULT '{}';
+    `);
+  } catch (error) {
+    console.error('❌ Error initializing run_logs columns:', error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 // ----------------------------------------------------------------------------
 // Semantic Entities (semantic_entities table)
 // ----------------------------------------------------------------------------
@@ -189,6 +436,8 @@ export async function updateSemantic(
     if (updates.sqlFragment) {
       setClauses.push(`sql_fragment = $${paramIndex++}`);
       values.push(updates.sqlFragment);
+      // A rewritten pattern is the fix for a schema change flag
+      setClauses.push('needs_review = false', 'review_reason = NULL');
     }
     
     if (updates.synonyms) {
@@ -303,6 +552,7 @@ export async function insertSemantic(
       exampleQuestions: additionalData?.exampleQuestions,
       notes: additionalData?.notes,
       aggregation: additionalData?.aggregation || undefined,
+      approved: true,
     };
   } finally {
     client.release();
@@ -336,6 +586,9 @@ export async function getSemantics(category?: string, term?: string): Promise<Se
         example_questions,
         notes,
         aggregation,
+        needs_review,
+        review_reason,
+        approved,
         created_at
       FROM semantic_entities
       WHERE 1=1
@@ -370,12 +623,39 @@ export async function getSemantics(category?: string, term?: string): Promise<Se
       exampleQuestions: row.example_questions || undefined,
       notes: row.notes || undefined,
       aggregation: row.aggregation || undefined,
+      needsReview: row.needs_review || undefined,
+      reviewReason: row.review_reason || undefined,
+      approved: row.approved === true,
     }));
   } finally {
     client.release();
   }
 }
 
+/**
+ * Flag semantics broken by a schema change for review.
+ * Pure DB update.
+ */
+export async function flagSemanticsForReview(affected: AffectedSemantic[]): Promise<void> {
+  const pool = getControlDbPool();
+  if (!pool || affected.length === 0) return;
+  
+  const client = await pool.connect();
+  
+  try {
+    for (const semantic of affected) {
+      await client.query(
+        `UPDATE semantic_entities
+         SET needs_review = true, review_reason = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [semantic.reason, semantic.semanticId]
+      );
+    }
+  } finally {
+    client.release();
+  }
+}
+
 // ----------------------------------------------------------------------------
 // Semantic Suggestions (semantic_suggestions table)
 // ----------------------------------------------------------------------------
@@ -566,13 +846,7 @@ function mapRowToSuggestion(row: any): SemanticSuggestion {
  * Save a run log entry to the control database.
  * Pure DB insert.
  */
-export async function insertRunLog(
-  question: string,
-  sqlQueries: string[],
-  rowsReturned: number[],
-  durationsMs: number[],
-  detectedSemanticIds?: string[]
-): Promise<RunLog | null> {
+export async function insertRunLog(runLog: Omit<RunLog, 'id' | 'createdAt'>): Promise<RunLog | null> {
   const pool = getControlDbPool();
   if (!pool) {
     return null; // Silently skip if control DB not configured
@@ -581,17 +855,22 @@ export async function insertRunLog(
   
   try {
     const result = await client.query(
-      `INSERT INTO run_logs (question, sql_generated, sql_executed, rows_returned, durations_ms, detected_semantics, semantics_applied)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       RETURNING id, question, sql_generated, rows_returned, durations_ms, detected_semantics, created_at`,
+      `INSERT INTO run_logs (question, sql_generated, sql_executed, rows_returned, durations_ms, detected_semantics, semantics_applied, policy_violations, repair_attempts, lineage, budget_stop, prompt_versions)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING id, question, sql_generated, rows_returned, durations_ms, detected_semantics, policy_violations, repair_attempts, lineage, budget_stop, prompt_versions, created_at`,
       [
-        question, 
-        sqlQueries, 
-        sqlQueries, 
-        rowsReturned, 
-        durationsMs, 
-        detectedSemanticIds || [],
-        detectedSemanticIds || [] // For now, assume all detected semantics were applied
+        runLog.question, 
+        runLog.sql, 
+        runLog.sql, 
+        runLog.rowsReturned, 
+        runLog.durationsMs, 
+        runLog.detectedSemantics || [],
+        runLog.detectedSemantics || [], // For now, assume all detected semantics were applied
+        JSON.stringify(runLog.policyViolations || []),
+        JSON.stringify(runLog.repairAttempts || []),
+        JSON.stringify(runLog.lineage || []),
+        runLog.budgetStop ? JSON.stringify(runLog.budgetStop) : null,
+        JSON.stringify(runLog.promptVersions || {})
       ]
     );
     
@@ -603,6 +882,11 @@ export async function insertRunLog(
       rowsReturned: row.rows_returned,
       durationsMs: row.durations_ms,
       detectedSemantics: row.detected_semantics || [],
+      policyViolations: row.policy_violations || [],
+      repairAttempts: row.repair_attempts || [],
+      lineage: row.lineage || [],
+      budgetStop: row.budget_stop || undefined,
+      promptVersions: row.prompt_versions || {},
       createdAt: new Date(row.created_at),
     };
   } finally {
@@ -669,6 +953,10 @@ export async function getRunLogById(runLogId: string): Promise<any | null> {
         was_corrected,
         correction_type,
         user_feedback,
+        policy_violations,
+        lineage,
+        budget_stop,
+        prompt_versions,
         created_at
       FROM run_logs
       WHERE id = $1
@@ -722,6 +1010,55 @@ export async function updateRunLogCorrection(
   }
 }
 
+/**
+ * Count successful SQL repairs with the given fix signature across all run logs.
+ * Pure DB query.
+ */
+export async function countRepairFixes(fixSignature: string): Promise<number> {
+  const pool = getControlDbPool();
+  if (!pool) {
+    return 0;
+  }
+  const client = await pool.connect();
+  
+  try {
+    const result = await client.query(
+      `SELECT COUNT(*)::int AS occurrences
+       FROM run_logs, jsonb_array_elements(repair_attempts) AS attempt
+       WHERE attempt->>'fixSignature' = $1
+         AND (attempt->>'succeeded')::boolean`,
+      [fixSignature]
+    );
+    return result.rows[0].occurrences;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Check whether a suggestion was already made for a repeated SQL repair fix.
+ * Pure DB query.
+ */
+export async function hasRepairSuggestion(fixSignature: string): Promise<boolean> {
+  const pool = getControlDbPool();
+  if (!pool) {
+    return false;
+  }
+  const client = await pool.connect();
+  
+  try {
+    const result = await client.query(
+      `SELECT 1 FROM semantic_suggestions
+       WHERE learned_from = 'pattern_analysis' AND evidence->>'fix_signature' = $1
+       LIMIT 1`,
+      [fixSignature]
+    );
+    return result.rows.length > 0;
+  } finally {
+    client.release();
+  }
+}
+
 // ----------------------------------------------------------------------------
 // Inspected DB Metadata (inspected_db_metadata table)
 // ----------------------------------------------------------------------------
@@ -745,9 +1082,9 @@ export async function saveTableMetadata(
       `INSERT INTO inspected_db_metadata (
         table_name, schema_name,
         estimated_row_count, total_size_bytes, table_size_bytes, index_size_bytes,
-        primary_key_columns, indexes, foreign_keys,
+        primary_key_columns, indexes, foreign_keys, allowed_values,
         last_analyzed, last_updated
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
       ON CONFLICT (table_name, schema_name) 
       DO UPDATE SET
         estimated_row_count = EXCLUDED.estimated_row_count,
@@ -757,6 +1094,7 @@ export async function saveTableMetadata(
         primary_key_columns = EXCLUDED.primary_key_columns,
         indexes = EXCLUDED.indexes,
         foreign_keys = EXCLUDED.foreign_keys,
+        allowed_values = EXCLUDED.allowed_values,
         last_analyzed = EXCLUDED.last_analyzed,
         last_updated = CURRENT_TIMESTAMP
       RETURNING *`,
@@ -770,6 +1108,7 @@ export async function saveTableMetadata(
         metadata.primaryKeyColumns,
         JSON.stringify(metadata.indexes),
         JSON.stringify(metadata.foreignKeys),
+        JSON.stringify(metadata.allowedValues || []),
       ]
     );
     
@@ -847,74 +1186,571 @@ function mapRowToMetadata(row: any): TableMetadata {
     primaryKeyColumns: row.primary_key_columns || [],
     indexes: row.indexes || [],
     foreignKeys: row.foreign_keys || [],
+    allowedValues: row.allowed_values || [],
     lastAnalyzed: new Date(row.last_analyzed),
     lastUpdated: new Date(row.last_updated),
   };
 }
 
-// ============================================================================
-// TEMPORARY: Business Logic Functions (TO BE MOVED TO src/services/)
-// ============================================================================
-// These functions contain business logic and should be moved to services/
-// They are kept here temporarily for backward compatibility during refactoring.
-// ============================================================================
+// ----------------------------------------------------------------------------
+// PII Column Classifications (pii_column_classifications table)
+// ----------------------------------------------------------------------------
 
 /**
- * @deprecated This function contains business logic (duplicate detection, merging).
- * Should be moved to src/services/semanticService.ts
- * 
- * Saves a semantic with intelligent duplicate handling.
- * This is a high-level function that orchestrates multiple DB operations.
+ * Replace the stored PII classifications for one table.
+ * Pure DB delete/insert in a single transaction.
  */
-export async function saveSemantic(
-  semantic: Omit<Semantic, 'id' | 'createdAt'>,
-  source: SourceDB = 'manual',
-  confidence?: number,
-  additionalData?: SemanticAdditionalData,
-  explicitEntityType?: string
-): Promise<Semantic> {
-  // Map the entity type to database format
-  const entityType = explicitEntityType 
-    ? mapToDBEntityType(explicitEntityType)
-    : mapToDBEntityType(semantic.category);
-  
-  // Check if duplicate exists
-  const existing = await findExistingSemantic(semantic.term, entityType);
-  
-  if (existing) {
-    // Duplicate found - update instead of creating
-    console.log(`   ⚠️  Semantic "${semantic.term}" (type: ${entityType}) already exists`);
-    console.log(`   📝 Merging new information into existing semantic...`);
-    
-    await updateSemantic(existing.id, {
-      description: semantic.description,
-      sqlFragment: additionalData?.sqlFragment,
-      synonyms: additionalData?.synonyms,
-      antiPatterns: additionalData?.antiPatterns,
-      exampleQuestions: additionalData?.exampleQuestions,
-      notes: additionalData?.notes,
-      confidence: confidence,
-      incrementVersion: true,
-      incrementUsageCount: true,
-    });
-    
-    return existing;
+export async function savePiiClassifications(
+  tableName: string,
+  schemaName: string,
+  classifications: ColumnPiiClassification[]
+): Promise<void> {
+  const pool = getControlDbPool();
+  if (!pool) {
+    throw new Error('Control database not configured. Set CONTROL_DB_URL in .env');
   }
   
-  // No duplicate - create new semantic
+  const client = await pool.connect();
+  
   try {
-    return await insertSemantic(semantic, source, confidence, additionalData, entityType);
-  } catch (error: any) {
-    // Catch unique constraint violation as backup
-    if (error.code === '23505') {
-      console.warn(`   ⚠️  Race condition: Semantic "${semantic.term}" was created by another process`);
-      // Re-check and update
-      const existing = await findExistingSemantic(semantic.term, entityType);
-      if (existing) {
-        await updateSemantic(existing.id, {
-          description: semantic.description,
-          sqlFragment: additionalData?.sqlFragment,
-          synonyms: additionalData?.synonyms,
+    await client.query('BEGIN');
+    await client.query(
+      `DELETE FROM pii_column_classifications
+       WHERE table_name = $1 AND schema_name = $2`,
+      [tableName, schemaName]
+    );
+    for (const classification of classifications) {
+      await client.query(
+        `INSERT INTO pii_column_classifications (
+          table_name, schema_name, column_name, category, strategy, detected_by, last_analyzed
+        ) VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP)`,
+        [
+          tableName,
+          schemaName,
+          classification.columnName,
+          classification.category,
+          classification.strategy,
+          classification.detectedBy,
+        ]
+      );
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get all stored PII classifications.
+ * Pure DB query.
+ */
+export async function getPiiClassifications(): Promise<ColumnPiiClassification[]> {
+  const pool = getControlDbPool();
+  if (!pool) return [];
+  
+  const client = await pool.connect();
+  
+  try {
+    const result = await client.query(
+      `SELECT * FROM pii_column_classifications
+       ORDER BY table_name, column_name`
+    );
+    
+    return result.rows.map(row => ({
+      tableName: row.table_name,
+      schemaName: row.schema_name,
+      columnName: row.column_name,
+      category: row.category,
+      strategy: row.strategy,
+      detectedBy: row.detected_by,
+      lastAnalyzed: new Date(row.last_analyzed),
+    }));
+  } finally {
+    client.release();
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Column Profiles (column_profiles table)
+// ----------------------------------------------------------------------------
+
+/**
+ * Replace the stored column profiles for one table.
+ * Pure DB delete/insert in a single transaction.
+ */
+export async function saveColumnProfiles(
+  tableName: string,
+  schemaName: string,
+  profiles: ColumnProfile[]
+): Promise<void> {
+  const pool = getControlDbPool();
+  if (!pool) {
+    throw new Error('Control database not configured. Set CONTROL_DB_URL in .env');
+  }
+  
+  const client = await pool.connect();
+  
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `DELETE FROM column_profiles
+       WHERE table_name = $1 AND schema_name = $2`,
+      [tableName, schemaName]
+    );
+    for (const profile of profiles) {
+      await client.query(
+        `INSERT INTO column_profiles (
+          table_name, schema_name, column_name, data_type, null_fraction, distinct_count,
+          top_values, min_value, max_value, patterns, source, last_profiled
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP)`,
+        [
+          tableName,
+          schemaName,
+          profile.columnName,
+          profile.dataType,
+          profile.nullFraction,
+          profile.distinctCount,
+          JSON.stringify(profile.topValues),
+          profile.minValue ?? null,
+          profile.maxValue ?? null,
+          JSON.stringify(profile.patterns),
+          profile.source,
+        ]
+      );
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get all stored column profiles.
+ * Pure DB query.
+ */
+export async function getColumnProfiles(): Promise<ColumnProfile[]> {
+  const pool = getControlDbPool();
+  if (!pool) return [];
+  
+  const client = await pool.connect();
+  
+  try {
+    const result = await client.query(
+      `SELECT * FROM column_profiles
+       ORDER BY schema_name, table_name, column_name`
+    );
+    
+    return result.rows.map(row => ({
+      tableName: row.table_name,
+      schemaName: row.schema_name,
+      columnName: row.column_name,
+      dataType: row.data_type,
+      nullFraction: Number(row.null_fraction),
+      distinctCount: Number(row.distinct_count),
+      topValues: row.top_values || [],
+      minValue: row.min_value ?? undefined,
+      maxValue: row.max_value ?? undefined,
+      patterns: row.patterns || [],
+      source: row.source,
+      lastProfiled: new Date(row.last_profiled),
+    }));
+  } finally {
+    client.release();
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Schema Changes (schema_changes table)
+// ----------------------------------------------------------------------------
+
+/**
+ * Record a schema fingerprint with its diff against the previous one.
+ * Pure DB insert.
+ */
+export async function insertSchemaChange(record: SchemaChangeRecord): Promise<string> {
+  const pool = getControlDbPool();
+  if (!pool) {
+    throw new Error('Control database not configured. Set CONTROL_DB_URL in .env');
+  }
+  
+  const client = await pool.connect();
+  
+  try {
+    const result = await client.query(
+      `INSERT INTO schema_changes (
+        fingerprint, previous_fingerprint, snapshot, changes, affected_semantics
+      ) VALUES ($1, $2, $3, $4, $5)
+      RETURNING id`,
+      [
+        record.fingerprint,
+        record.previousFingerprint ?? null,
+        JSON.stringify(record.snapshot),
+        JSON.stringify(record.changes),
+        JSON.stringify(record.affectedSemantics),
+      ]
+    );
+    return result.rows[0].id;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the most recently recorded schema fingerprint (with its snapshot).
+ * Pure DB query.
+ */
+export async function getLatestSchemaChange(): Promise<SchemaChangeRecord | null> {
+  const pool = getControlDbPool();
+  if (!pool) return null;
+  
+  const client = await pool.connect();
+  
+  try {
+    const result = await client.query(
+      `SELECT * FROM schema_changes
+       ORDER BY detected_at DESC
+       LIMIT 1`
+    );
+    return result.rows.length > 0 ? mapRowToSchemaChange(result.rows[0]) : null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the schema change history, newest first (snapshots omitted).
+ * Pure DB query.
+ */
+export async function getSchemaChanges(limit = 10): Promise<SchemaChangeRecord[]> {
+  const pool = getControlDbPool();
+  if (!pool) return [];
+  
+  const client = await pool.connect();
+  
+  try {
+    const result = await client.query(
+      `SELECT id, fingerprint, previous_fingerprint, '{}'::jsonb AS snapshot,
+              changes, affected_semantics, detected_at
+       FROM schema_changes
+       ORDER BY detected_at DESC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(mapRowToSchemaChange);
+  } finally {
+    client.release();
+  }
+}
+
+function mapRowToSchemaChange(row: any): SchemaChangeRecord {
+  return {
+    id: row.id,
+    fingerprint: row.fingerprint,
+    previousFingerprint: row.previous_fingerprint || undefined,
+    snapshot: row.snapshot || {},
+    changes: row.changes || [],
+    affectedSemantics: row.affected_semantics || [],
+    detectedAt: new Date(row.detected_at),
+  };
+}
+
+// ----------------------------------------------------------------------------
+// LLM Calls (llm_calls table)
+// ----------------------------------------------------------------------------
+
+/**
+ * Record metered LLM calls, linked to the run they belong to.
+ * Pure DB insert.
+ */
+export async function insertLLMCalls(
+  calls: LLMCallRecord[],
+  runLogId?: string,
+  question?: string,
+  userName?: string
+): Promise<void> {
+  const pool = getControlDbPool();
+  if (!pool || calls.length === 0) {
+    return; // Silently skip if control DB not configured
+  }
+  
+  const client = await pool.connect();
+  
+  try {
+    for (const call of calls) {
+      await client.query(
+        `INSERT INTO llm_calls (
+          run_log_id, role, provider, model, input_tokens, output_tokens,
+          tokens_estimated, latency_ms, cost_usd, question, user_name
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          runLogId ?? null,
+          call.role,
+          call.provider,
+          call.model,
+          call.inputTokens,
+          call.outputTokens,
+          call.tokensEstimated,
+          call.latencyMs,
+          call.costUsd ?? null,
+          question ?? call.question ?? null,
+          userName ?? call.userName ?? null,
+        ]
+      );
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Cached LLM response by key (expired entries included - the cache checks expiry).
+ * Pure DB query.
+ */
+export async function getLLMCacheEntry(key: string): Promise<LLMCacheEntry | undefined> {
+  const pool = getControlDbPool();
+  if (!pool) return undefined;
+  
+  const client = await pool.connect();
+  
+  try {
+    const result = await client.query(
+      `SELECT cache_key, role, provider, model, context, response, created_at, expires_at
+       FROM llm_response_cache
+       WHERE cache_key = $1`,
+      [key]
+    );
+    if (result.rows.length === 0) {
+      return undefined;
+    }
+    const row = result.rows[0];
+    return {
+      key: row.cache_key,
+      role: row.role,
+      provider: row.provider,
+      model: row.model,
+      context: row.context,
+      response: row.response,
+      createdAt: new Date(row.created_at).getTime(),
+      expiresAt: new Date(row.expires_at).getTime(),
+    };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Insert or replace a cached LLM response.
+ * Pure DB insert.
+ */
+export async function saveLLMCacheEntry(entry: LLMCacheEntry): Promise<void> {
+  const pool = getControlDbPool();
+  if (!pool) return;
+  
+  const client = await pool.connect();
+  
+  try {
+    await client.query(
+      `INSERT INTO llm_response_cache (cache_key, role, provider, model, context, response, created_at, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (cache_key) DO UPDATE SET
+         response = EXCLUDED.response,
+         created_at = EXCLUDED.created_at,
+         expires_at = EXCLUDED.expires_at`,
+      [
+        entry.key,
+        entry.role,
+        entry.provider,
+        entry.model,
+        entry.context,
+        JSON.stringify(entry.response),
+        new Date(entry.createdAt),
+        new Date(entry.expiresAt),
+      ]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Delete expired cached responses and those of other schema/semantics contexts.
+ * Pure DB delete.
+ * 
+ * @returns Number of entries deleted
+ */
+export async function deleteLLMCacheEntries(keepContext: string): Promise<number> {
+  const pool = getControlDbPool();
+  if (!pool) return 0;
+  
+  const client = await pool.connect();
+  
+  try {
+    const result = await client.query(
+      `DELETE FROM llm_response_cache
+       WHERE context <> $1 OR expires_at <= NOW()`,
+      [keepContext]
+    );
+    return result.rowCount ?? 0;
+  } finally {
+    client.release();
+  }
+}
+
+const COST_GROUPING_COLUMNS: Record<LLMCostGrouping, string> = {
+  role: 'role',
+  model: 'model',
+  user: `COALESCE(user_name, 'unknown')`,
+  question: `COALESCE(question, '(outside a question)')`,
+};
+
+/**
+ * LLM call totals grouped by role, model, user or question, most expensive first.
+ * Pure DB query.
+ * 
+ * @param days - Only calls from the last N days (all calls when omitted)
+ */
+export async function getLLMCostTotals(
+  groupBy: LLMCostGrouping,
+  days?: number,
+  limit = 20
+): Promise<LLMCostTotals[]> {
+  const pool = getControlDbPool();
+  if (!pool) return [];
+  
+  const client = await pool.connect();
+  
+  try {
+    const result = await client.query(
+      `SELECT ${COST_GROUPING_COLUMNS[groupBy]} AS key,
+              COUNT(*) AS calls,
+              COALESCE(SUM(input_tokens), 0) AS input_tokens,
+              COALESCE(SUM(output_tokens), 0) AS output_tokens,
+              COALESCE(SUM(cost_usd), 0) AS cost_usd,
+              COUNT(*) FILTER (WHERE cost_usd IS NULL) AS unpriced_calls
+       FROM llm_calls
+       WHERE $1::int IS NULL OR created_at >= NOW() - make_interval(days => $1::int)
+       GROUP BY 1
+       ORDER BY cost_usd DESC, calls DESC
+       LIMIT $2`,
+      [days ?? null, limit]
+    );
+    return result.rows.map(row => ({
+      key: row.key,
+      calls: Number(row.calls),
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      costUsd: Number(row.cost_usd),
+      unpricedCalls: Number(row.unpriced_calls),
+    }));
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Run outcomes per prompt template version, newest first.
+ * Pure DB query.
+ */
+export async function getPromptVersionStats(): Promise<PromptVersionStats[]> {
+  const pool = getControlDbPool();
+  if (!pool) return [];
+  
+  const client = await pool.connect();
+  
+  try {
+    const result = await client.query(
+      `SELECT v.key AS name,
+              v.value AS version,
+              COUNT(*) AS runs,
+              COUNT(*) FILTER (WHERE r.was_corrected) AS corrected,
+              AVG(r.user_rating) AS avg_rating,
+              MAX(r.created_at) AS last_used
+       FROM run_logs r, jsonb_each_text(r.prompt_versions) v
+       GROUP BY v.key, v.value
+       ORDER BY v.key, last_used DESC`
+    );
+    return result.rows.map(row => ({
+      name: row.name,
+      version: row.version,
+      runs: Number(row.runs),
+      corrected: Number(row.corrected),
+      avgRating: row.avg_rating === null ? undefined : Number(row.avg_rating),
+      lastUsed: new Date(row.last_used),
+    }));
+  } finally {
+    client.release();
+  }
+}
+
+// ============================================================================
+// TEMPORARY: Business Logic Functions (TO BE MOVED TO src/services/)
+// ============================================================================
+// These functions contain business logic and should be moved to services/
+// They are kept here temporarily for backward compatibility during refactoring.
+// ============================================================================
+
+/**
+ * @deprecated This function contains business logic (duplicate detection, merging).
+ * Should be moved to src/services/semanticService.ts
+ * 
+ * Saves a semantic with intelligent duplicate handling.
+ * This is a high-level function that orchestrates multiple DB operations.
+ */
+export async function saveSemantic(
+  semantic: Omit<Semantic, 'id' | 'createdAt'>,
+  source: SourceDB = 'manual',
+  confidence?: number,
+  additionalData?: SemanticAdditionalData,
+  explicitEntityType?: string
+): Promise<Semantic> {
+  // Map the entity type to database format
+  const entityType = explicitEntityType 
+    ? mapToDBEntityType(explicitEntityType)
+    : mapToDBEntityType(semantic.category);
+  
+  // Check if duplicate exists
+  const existing = await findExistingSemantic(semantic.term, entityType);
+  
+  if (existing) {
+    // Duplicate found - update instead of creating
+    console.log(`   ⚠️  Semantic "${semantic.term}" (type: ${entityType}) already exists`);
+    console.log(`   📝 Merging new information into existing semantic...`);
+    
+    await updateSemantic(existing.id, {
+      description: semantic.description,
+      sqlFragment: additionalData?.sqlFragment,
+      synonyms: additionalData?.synonyms,
+      antiPatterns: additionalData?.antiPatterns,
+      exampleQuestions: additionalData?.exampleQuestions,
+      notes: additionalData?.notes,
+      confidence: confidence,
+      incrementVersion: true,
+      incrementUsageCount: true,
+    });
+    
+    return existing;
+  }
+  
+  // No duplicate - create new semantic
+  try {
+    return await insertSemantic(semantic, source, confidence, additionalData, entityType);
+  } catch (error: any) {
+    // Catch unique constraint violation as backup
+    if (error.code === '23505') {
+      console.warn(`   ⚠️  Race condition: Semantic "${semantic.term}" was created by another process`);
+      // Re-check and update
+      const existing = await findExistingSemantic(semantic.term, entityType);
+      if (existing) {
+        await updateSemantic(existing.id, {
+          description: semantic.description,
+          sqlFragment: additionalData?.sqlFragment,
+          synonyms: additionalData?.synonyms,
           antiPatterns: additionalData?.antiPatterns,
           exampleQuestions: additionalData?.exampleQuestions,
           notes: additionalData?.notes,
@@ -1119,6 +1955,10 @@ export async function formatSemanticsForLLM(semantics: Semantic[]): Promise<stri
     for (const semantic of items) {
       output += `  - ${semantic.term}: ${semantic.description}\n`;
       
+      if (semantic.needsReview) {
+        output += `    ⚠️ Needs review (schema changed): ${semantic.reviewReason || 'unknown reason'}\n`;
+      }
+      
       if (semantic.sqlFragment) {
         output += `    SQL Pattern: ${semantic.sqlFragment}\n`;
       }
@@ -1169,7 +2009,7 @@ export async function formatSemanticsForLLM(semantics: Semantic[]): Promise<stri
  * Format metadata for LLM prompt.
  */
 export function formatMetadataForLLM(
-  schema: Array<{ tableName: string; metadata?: TableMetadata }>
+  schema: Array<{ tableName: string; schemaName?: string; metadata?: TableMetadata }>
 ): string {
   const parts: string[] = [];
   
@@ -1177,7 +2017,7 @@ export function formatMetadataForLLM(
     if (!table.metadata) continue;
     
     const m = table.metadata;
-    parts.push(`Table: ${table.tableName}`);
+    parts.push(`Table: ${qualifiedTableName(m)}`);
     
     if (m.estimatedRowCount > 0) {
       parts.push(`  Estimated rows: ${m.estimatedRowCount.toLocaleString()}`);
@@ -1199,7 +2039,16 @@ export function formatMetadataForLLM(
     if (m.foreignKeys.length > 0) {
       parts.push(`  Foreign keys:`);
       for (const fk of m.foreignKeys) {
-        parts.push(`    - ${fk.fromColumn} → ${fk.toTable}.${fk.toColumn}`);
+        const target = fk.toSchema ? qualifiedTableName({ schemaName: fk.toSchema, tableName: fk.toTable }) : fk.toTable;
+        parts.push(`    - ${fk.fromColumn} → ${target}.${fk.toColumn}`);
+      }
+    }
+    
+    if (m.allowedValues && m.allowedValues.length > 0) {
+      parts.push(`  Allowed values (exact, case-sensitive):`);
+      for (const allowed of m.allowedValues) {
+        const origin = allowed.typeName ? `${allowed.source} ${allowed.typeName}` : allowed.source;
+        parts.push(`    - ${allowed.columnName} (${origin}): ${allowed.values.map(v => `'${v}'`).join(', ')}`);
       }
     }
     
@@ -1213,16 +2062,44 @@ export function formatMetadataForLLM(
  * @deprecated This function contains business logic (orchestration).
  * Should be moved to src/services/metadataService.ts
  * 
- * Refresh metadata for all tables (extract from inspected DB and store in control DB).
+ * Refresh metadata for all tables (extract from inspected DB and store in control DB),
+ * followed by schema change detection (full refreshes only), PII classifications
+ * and column profiles.
+ * 
+ * @param tableNames - Refresh only these tables (qualified or resolved through searchPath);
+ *   their column profiles are rebuilt even if the table statistics did not change
+ * @param searchPath - Schemas unqualified table names resolve against
+ * @param rowFilters - Row filters (config.rowFilters); filtered tables, and views
+ *   over them, are not sampled
  */
 export async function refreshAllMetadata(
-  inspectedDbClient: pg.PoolClient
+  inspectedDbClient: pg.PoolClient,
+  tableNames: string[] = [],
+  searchPath: string[] = ['public'],
+  rowFilters: RowFilter[] = []
 ): Promise<TableMetadata[]> {
   // Import from inspectedDb to avoid circular dependency
-  const { extractAllTableMetadata } = await import('./inspectedDb.js');
+  const { extractAllTableMetadata, extractTableMetadata, getSchema } = await import('./inspectedDb.js');
   
-  console.log('📊 Extracting metadata from inspected database...');
-  const allMetadata = await extractAllTableMetadata(inspectedDbClient);
+  let allMetadata: TableMetadata[];
+  if (tableNames.length > 0) {
+    const schema = await getSchema(inspectedDbClient);
+    const tables = tableNames.map(name => {
+      const table = resolveTableName(name, schema, searchPath);
+      if (!table) {
+        throw new Error(`Table "${name}" not found`);
+      }
+      return table;
+    });
+    
+    console.log(`📊 Extracting metadata for ${tables.map(qualifiedTableName).join(', ')}...`);
+    allMetadata = await Promise.all(
+      tables.map(table => extractTableMetadata(inspectedDbClient, table.tableName, schemaOfTable(table)))
+    );
+  } else {
+    console.log('📊 Extracting metadata from inspected database...');
+    allMetadata = await extractAllTableMetadata(inspectedDbClient);
+  }
   
   console.log(`   Found ${allMetadata.length} tables`);
   
@@ -1251,6 +2128,27 @@ export async function refreshAllMetadata(
     await client.query('COMMIT');
     console.log(`✅ Metadata stored for ${allMetadata.length} tables`);
     
+    if (tableNames.length === 0) {
+      try {
+        await detectSchemaChanges(inspectedDbClient, allMetadata);
+      } catch (error) {
+        console.warn('⚠️  Schema change detection failed:', error);
+      }
+    }
+    
+    let piiClassifications: ColumnPiiClassification[] = [];
+    try {
+      piiClassifications = await refreshPiiClassifications(inspectedDbClient, allMetadata, rowFilters, searchPath);
+    } catch (error) {
+      console.warn('⚠️  PII classification refresh failed:', error);
+    }
+    
+    try {
+      await refreshColumnProfiles(inspectedDbClient, allMetadata, piiClassifications, tableNames.length > 0, rowFilters, searchPath);
+    } catch (error) {
+      console.warn('⚠️  Column profiling failed:', error);
+    }
+    
     return allMetadata;
   } catch (error) {
     await client.query('ROLLBACK');
@@ -1260,6 +2158,183 @@ export async function refreshAllMetadata(
   }
 }
 
+/**
+ * @deprecated This function contains business logic (diffing, semantic cross-referencing).
+ * Should be moved to src/services/metadataService.ts
+ * 
+ * Fingerprint the freshly loaded schema and compare it with the last recorded
+ * fingerprint. On a difference, record the structured diff, flag the semantics
+ * it breaks for review and reload the schema cache. The first run records a
+ * baseline without changes.
+ */
+export async function detectSchemaChanges(
+  inspectedDbClient: pg.PoolClient,
+  allMetadata: TableMetadata[]
+): Promise<SchemaChangeRecord | null> {
+  const { getSchema } = await import('./inspectedDb.js');
+  const { buildSchemaSnapshot, schemaFingerprint, diffSchemaSnapshots, findAffectedSemantics } =
+    await import('../services/schemaDrift.js');
+  
+  console.log('🧬 Checking for schema changes...');
+  const schema = await getSchema(inspectedDbClient, false); // Bypass (and reload) the cache
+  const snapshot = buildSchemaSnapshot(schema, allMetadata);
+  const fingerprint = schemaFingerprint(snapshot);
+  
+  const previous = await getLatestSchemaChange();
+  if (previous && previous.fingerprint === fingerprint) {
+    console.log('✅ Schema unchanged');
+    return null;
+  }
+  
+  const changes = previous ? diffSchemaSnapshots(previous.snapshot, snapshot) : [];
+  const affectedSemantics = findAffectedSemantics(changes, await getSemantics());
+  const record: SchemaChangeRecord = {
+    fingerprint,
+    previousFingerprint: previous?.fingerprint,
+    snapshot,
+    changes,
+    affectedSemantics,
+  };
+  record.id = await insertSchemaChange(record);
+  await flagSemanticsForReview(affectedSemantics);
+  
+  if (!previous) {
+    console.log('✅ Schema baseline recorded');
+  } else {
+    const flagged = affectedSemantics.length > 0 ? `, ${affectedSemantics.length} semantic(s) flagged for review` : '';
+    console.log(`⚠️  ${changes.length} schema change(s) detected${flagged} - see /schema-changes`);
+  }
+  return record;
+}
+
+/**
+ * @deprecated This function contains business logic (sampling, classification).
+ * Should be moved to src/services/metadataService.ts
+ * 
+ * Classify the columns of every table as PII or not (name, data type and a
+ * small sample of values) and store the result next to the table metadata.
+ * Sample values are only inspected locally, never stored or sent anywhere.
+ * Tables with a row filter, and views over them, are classified from names and
+ * types only: an unfiltered sample would read rows the filter hides.
+ * 
+ * @param rowFilters - Row filters (config.rowFilters)
+ * @param searchPath - Schemas unqualified names in view definitions resolve against
+ */
+export async function refreshPiiClassifications(
+  inspectedDbClient: pg.PoolClient,
+  allMetadata: TableMetadata[],
+  rowFilters: RowFilter[] = [],
+  searchPath: string[] = ['public']
+): Promise<ColumnPiiClassification[]> {
+  const { getSchema, executeQuery } = await import('./inspectedDb.js');
+  const { classifyTableColumns } = await import('../services/piiMasking.js');
+  const { readsRowFilteredTable } = await import('../services/rowFilter.js');
+  
+  console.log('🔒 Classifying PII columns...');
+  const schema = await getSchema(inspectedDbClient);
+  const all: ColumnPiiClassification[] = [];
+  
+  for (const metadata of allMetadata) {
+    const table = schema.find(t => isSameTable(t, metadata));
+    if (!table) continue;
+    
+    let sample;
+    try {
+      if (!readsRowFilteredTable(table, rowFilters, searchPath, schema)) {
+        sample = await executeQuery(
+          `SELECT * FROM ${pg.escapeIdentifier(metadata.schemaName)}.${pg.escapeIdentifier(metadata.tableName)} LIMIT 50`,
+          { statementTimeoutMs: 5000 }
+        );
+      }
+    } catch {
+      // Classify from names and types only
+    }
+    
+    const classifications = classifyTableColumns(table, metadata.schemaName, sample);
+    await savePiiClassifications(metadata.tableName, metadata.schemaName, classifications);
+    all.push(...classifications);
+  }
+  
+  console.log(`✅ ${all.length} PII column(s) classified`);
+  return all;
+}
+
+/**
+ * @deprecated This function contains business logic (sampling, profiling).
+ * Should be moved to src/services/metadataService.ts
+ * 
+ * Profile the column values of every table (pg_stats plus a small sample) and
+ * store the profiles. Tables whose statistics have not changed since they were
+ * last profiled are skipped unless force is set. Plain views are not profiled:
+ * they have no pg_stats, and sampling one runs its whole query.
+ * Tables with a row filter, and materialized views over them, keep no values
+ * at all: profiles are shared by every session, and neither pg_stats nor a
+ * sample respects the filter.
+ * 
+ * @param piiClassifications - Fresh PII classifications; PII columns keep no values
+ * @param rowFilters - Row filters (config.rowFilters)
+ * @param searchPath - Schemas unqualified names in view definitions resolve against
+ */
+export async function refreshColumnProfiles(
+  inspectedDbClient: pg.PoolClient,
+  allMetadata: TableMetadata[],
+  piiClassifications: ColumnPiiClassification[] = [],
+  force = false,
+  rowFilters: RowFilter[] = [],
+  searchPath: string[] = ['public']
+): Promise<ColumnProfile[]> {
+  const { getSchema, executeQuery, extractColumnStats } = await import('./inspectedDb.js');
+  const { classifyTableColumns } = await import('../services/piiMasking.js');
+  const { readsRowFilteredTable } = await import('../services/rowFilter.js');
+  const { buildColumnProfiles, needsProfiling, PROFILE_SAMPLE_ROWS } = await import('../services/columnProfiling.js');
+  
+  console.log('🔎 Profiling column values...');
+  const schema = await getSchema(inspectedDbClient);
+  const stored = await getColumnProfiles();
+  const all: ColumnProfile[] = [];
+  let skipped = 0;
+  
+  for (const metadata of allMetadata) {
+    const table = schema.find(t => isSameTable(t, metadata));
+    if (!table || table.tableType === 'view') continue;
+    
+    const stats = await extractColumnStats(inspectedDbClient, metadata.tableName, metadata.schemaName);
+    if (!force && !needsProfiling(stored.filter(p => isSameTable(p, metadata)), stats.statsUpdatedAt)) {
+      skipped++;
+      continue;
+    }
+    
+    const rowFiltered = readsRowFilteredTable(table, rowFilters, searchPath, schema);
+    let sample;
+    try {
+      if (!rowFiltered) {
+        sample = await executeQuery(
+          `SELECT * FROM ${pg.escapeIdentifier(metadata.schemaName)}.${pg.escapeIdentifier(metadata.tableName)} LIMIT ${PROFILE_SAMPLE_ROWS}`,
+          { statementTimeoutMs: 5000 }
+        );
+      }
+    } catch {
+      // Profile from pg_stats only
+    }
+    
+    // PII columns keep no values either (name/type rules as well, in case the
+    // value-based classification did not run)
+    const valuelessColumns = rowFiltered
+      ? table.columns.map(c => c.columnName)
+      : [
+        ...piiClassifications.filter(c => isSameTable(c, metadata)),
+        ...classifyTableColumns(table, metadata.schemaName),
+      ].map(c => c.columnName);
+    
+    const profiles = buildColumnProfiles(table, stats.columns, metadata.estimatedRowCount, sample, valuelessColumns);
+    await saveColumnProfiles(metadata.tableName, metadata.schemaName, profiles);
+    all.push(...profiles);
+  }
+  
+  console.log(`✅ ${all.length} column(s) profiled${skipped > 0 ? `, ${skipped} unchanged table(s) skipped` : ''}`);
+  return all;
+}
+
 // ============================================================================
 // Backward Compatibility Aliases
 // ============================================================================
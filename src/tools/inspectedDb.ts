@@ -1,6 +1,10 @@
 import pg from 'pg';
-import { SQLResult, TableSchema, ColumnSchema, TableMetadata, IndexMetadata, ForeignKeyMetadata } from '../types.js';
+import { SQLResult, TableSchema, ColumnSchema, TableMetadata, IndexMetadata, ForeignKeyMetadata, AccessPolicy, Config, QueryPlanNode, PgColumnStats, ColumnAllowedValues } from '../types.js';
 import { getInspectedDbPool } from './pools.js';
+import { filterSchemaByPolicy, isPolicyEmpty } from '../services/accessPolicy.js';
+import { applyRowFilters, resolveSessionParams } from '../services/rowFilter.js';
+import { parseCheckConstraint } from '../services/allowedValues.js';
+import { qualifiedTableName, parseTableName, findTablesNamed, schemaOfTable } from '../services/schemaResolution.js';
 import { readFileSync, writeFileSync, existsSync, mkdirSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import { fileURLToPath } from 'url';
@@ -9,6 +13,14 @@ import { dirname } from 'path';
 // Re-export for backward compatibility
 export { getInspectedDbPool };
 
+// queryMode exists since pg 8.12 but is missing from @types/pg
+declare module 'pg' {
+  interface QueryConfig<I> {
+    /** 'extended' uses the extended query protocol even without bind parameters */
+    queryMode?: 'extended';
+  }
+}
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
@@ -24,35 +36,56 @@ const __dirname = dirname(__filename);
 let schemaCache: TableSchema[] | null = null;
 const CACHE_FILE = join(__dirname, '../../data/schema_cache.json');
 
+/**
+ * Condition excluding PostgreSQL's own schemas (catalogs, TOAST, temp schemas)
+ */
+function userSchemaCondition(column: string): string {
+  return `${column} NOT IN ('pg_catalog', 'information_schema') AND ${column} NOT LIKE 'pg\\_%'`;
+}
+
 // ----------------------------------------------------------------------------
 // Query Execution
 // ----------------------------------------------------------------------------
 
+/**
+ * Per-query session guardrails applied inside the read-only transaction.
+ * Every setting is applied with SET LOCAL, so nothing leaks to the pooled connection.
+ */
+export interface QueryGuardrails {
+  /** statement_timeout in milliseconds */
+  statementTimeoutMs?: number;
+  /** idle_in_transaction_session_timeout in milliseconds */
+  idleInTransactionTimeoutMs?: number;
+  /** work_mem (e.g. "64MB") */
+  workMem?: string;
+  /** search_path schemas, in resolution order */
+  searchPath?: string[];
+}
+
 /**
  * Execute a SQL query against the inspected database.
  * Pure query execution - no validation, no transformation.
- * Business logic (validation, timeout, LIMIT) should be in services.
+ * Business logic (validation, LIMIT) should be in services.
+ * 
+ * Defense in depth (independent of the guard):
+ * - Runs inside `BEGIN READ ONLY` and is always rolled back
+ * - Guardrails are applied with `SET LOCAL` (scoped to the transaction)
+ * - Uses the extended query protocol, which rejects multiple statements
  * 
  * @param sql - The SQL query to execute
- * @param timeoutMs - Optional statement timeout in milliseconds
+ * @param guardrails - Optional session guardrails (timeouts, work_mem, search_path)
+ * @param params - Optional bind parameter values ($1, $2, ...)
  * @returns SQLResult containing columns, rows, row count, and execution duration
  */
 export async function executeQuery(
   sql: string,
-  timeoutMs?: number
+  guardrails: QueryGuardrails = {},
+  params: unknown[] = []
 ): Promise<SQLResult> {
-  const pool = getInspectedDbPool();
-  const client = await pool.connect();
-  const startTime = Date.now();
-  
-  try {
-    // Set statement timeout if provided
-    if (timeoutMs) {
-      await client.query(`SET statement_timeout = ${timeoutMs}`);
-    }
-    
-    // Execute the SQL
-    const result = await client.query(sql);
+  return withReadOnlyTransaction(guardrails, async client => {
+    // Time only the query itself, not the transaction setup
+    const startTime = Date.now();
+    const result = await client.query({ text: sql, values: params, queryMode: 'extended' });
     const durationMs = Date.now() - startTime;
     
     return {
@@ -61,33 +94,134 @@ export async function executeQuery(
       rowCount: result.rowCount || 0,
       durationMs,
     };
+  });
+}
+
+/**
+ * Get the planner's estimate for a SQL query without running it.
+ * Runs `EXPLAIN (FORMAT JSON)` with the same read-only transaction and guardrails as executeQuery.
+ * 
+ * @param sql - The SQL query to explain
+ * @param guardrails - Optional session guardrails (timeouts, work_mem, search_path)
+ * @param params - Optional bind parameter values ($1, $2, ...)
+ * @returns The root plan node (the "Plan" object of the EXPLAIN output)
+ */
+export async function explainQuery(
+  sql: string,
+  guardrails: QueryGuardrails = {},
+  params: unknown[] = []
+): Promise<QueryPlanNode> {
+  return withReadOnlyTransaction(guardrails, async client => {
+    const result = await client.query({ text: `EXPLAIN (FORMAT JSON) ${sql}`, values: params, queryMode: 'extended' });
+    const output = result.rows[0]?.['QUERY PLAN'];
+    const plan = (typeof output === 'string' ? JSON.parse(output) : output)?.[0]?.Plan;
+    if (!plan) {
+      throw new Error('EXPLAIN returned no plan');
+    }
+    return plan;
+  });
+}
+
+/**
+ * Run work on a pooled connection inside `BEGIN READ ONLY` with the given guardrails.
+ * The transaction is always rolled back; a connection that fails to roll back is discarded.
+ */
+async function withReadOnlyTransaction<T>(
+  guardrails: QueryGuardrails,
+  work: (client: pg.PoolClient) => Promise<T>
+): Promise<T> {
+  const pool = getInspectedDbPool();
+  const client = await pool.connect();
+  let releaseError: Error | undefined;
+  
+  try {
+    await client.query('BEGIN READ ONLY');
+    for (const statement of buildGuardrailStatements(guardrails)) {
+      await client.query(statement);
+    }
+    return await work(client);
   } finally {
-    client.release();
+    try {
+      await client.query('ROLLBACK');
+    } catch (error) {
+      // Connection is unusable - make the pool discard it instead of reusing it
+      releaseError = error instanceof Error ? error : new Error(String(error));
+    }
+    client.release(releaseError);
+  }
+}
+
+/**
+ * Build the SET LOCAL statements for the given guardrails.
+ * SET does not accept bind parameters, so values are validated/escaped here.
+ */
+export function buildGuardrailStatements(guardrails: QueryGuardrails): string[] {
+  const statements: string[] = [];
+  
+  if (guardrails.statementTimeoutMs !== undefined) {
+    statements.push(`SET LOCAL statement_timeout = ${toMilliseconds(guardrails.statementTimeoutMs, 'statementTimeoutMs')}`);
   }
+  if (guardrails.idleInTransactionTimeoutMs !== undefined) {
+    statements.push(`SET LOCAL idle_in_transaction_session_timeout = ${toMilliseconds(guardrails.idleInTransactionTimeoutMs, 'idleInTransactionTimeoutMs')}`);
+  }
+  if (guardrails.workMem) {
+    if (!/^\d+\s*(kB|MB|GB|TB)?$/.test(guardrails.workMem.trim())) {
+      throw new Error(`Invalid work_mem value: ${guardrails.workMem} (expected e.g. "64MB")`);
+    }
+    statements.push(`SET LOCAL work_mem = '${guardrails.workMem.trim()}'`);
+  }
+  if (guardrails.searchPath && guardrails.searchPath.length > 0) {
+    statements.push(`SET LOCAL search_path = ${guardrails.searchPath.map(schema => pg.escapeIdentifier(schema)).join(', ')}`);
+  }
+  
+  return statements;
+}
+
+function toMilliseconds(value: number, name: string): number {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return Math.floor(value);
 }
 
 // ----------------------------------------------------------------------------
 // Schema Loading
 // ----------------------------------------------------------------------------
 
+/**
+ * Relation kinds loaded as schema entries: tables, partitioned tables, views
+ * and materialized views
+ */
+const RELATION_KINDS = `('r', 'p', 'v', 'm')`;
+
 /**
  * Load database schema from the inspected database.
- * Pure DB query - queries information_schema.
+ * Loads tables, views and materialized views from every user schema the role
+ * can select from, with table/column comments and view definitions; the access
+ * policy narrows this down before anything reaches the LLM.
+ * Pure DB query - queries pg_catalog (information_schema has no materialized views).
  */
 export async function loadSchemaFromDB(client: pg.PoolClient): Promise<TableSchema[]> {
   const query = `
     SELECT 
-      t.table_name,
-      c.column_name,
-      c.data_type,
-      c.is_nullable,
-      c.column_default
-    FROM information_schema.tables t
-    JOIN information_schema.columns c ON t.table_name = c.table_name 
-      AND t.table_schema = c.table_schema
-    WHERE t.table_schema = 'public' 
-      AND t.table_type = 'BASE TABLE'
-    ORDER BY t.table_name, c.ordinal_position;
+      n.nspname AS table_schema,
+      c.relname AS table_name,
+      c.relkind,
+      obj_description(c.oid, 'pg_class') AS table_comment,
+      CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid, true) END AS view_definition,
+      a.attname AS column_name,
+      format_type(a.atttypid, a.atttypmod) AS data_type,
+      NOT a.attnotnull AS is_nullable,
+      pg_get_expr(d.adbin, d.adrelid) AS column_default,
+      col_description(c.oid, a.attnum) AS column_comment
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+    LEFT JOIN pg_attrdef d ON d.adrelid = c.oid AND d.adnum = a.attnum
+    WHERE ${userSchemaCondition('n.nspname')}
+      AND c.relkind IN ${RELATION_KINDS}
+      AND has_table_privilege(c.oid, 'SELECT')
+    ORDER BY n.nspname, c.relname, a.attnum;
   `;
 
   const result = await client.query(query);
@@ -95,22 +229,34 @@ export async function loadSchemaFromDB(client: pg.PoolClient): Promise<TableSche
   const schemaMap = new Map<string, TableSchema>();
   
   for (const row of result.rows) {
-    const tableName = row.table_name;
-    if (!schemaMap.has(tableName)) {
-      schemaMap.set(tableName, {
-        tableName,
+    const key = qualifiedTableName({ schemaName: row.table_schema, tableName: row.table_name });
+    if (!schemaMap.has(key)) {
+      const table: TableSchema = {
+        tableName: row.table_name,
+        schemaName: row.table_schema,
+        tableType: row.relkind === 'v' ? 'view' : row.relkind === 'm' ? 'materialized_view' : 'table',
         columns: [],
-      });
+      };
+      if (row.table_comment) {
+        table.comment = row.table_comment;
+      }
+      if (row.view_definition) {
+        table.viewDefinition = row.view_definition.trim();
+      }
+      schemaMap.set(key, table);
     }
     
     const column: ColumnSchema = {
       columnName: row.column_name,
       dataType: row.data_type,
-      isNullable: row.is_nullable === 'YES',
+      isNullable: row.is_nullable,
       columnDefault: row.column_default || undefined,
     };
+    if (row.column_comment) {
+      column.comment = row.column_comment;
+    }
     
-    schemaMap.get(tableName)!.columns.push(column);
+    schemaMap.get(key)!.columns.push(column);
   }
   
   return Array.from(schemaMap.values());
@@ -159,6 +305,29 @@ export async function getSchema(client: pg.PoolClient, useCache = true): Promise
   return schema;
 }
 
+/**
+ * Whether unqualified table names must be resolved (access policy or row filters)
+ */
+function needsAllTables(config: Config): boolean {
+  return config.rowFilters.length > 0 || !isPolicyEmpty(config.accessPolicy);
+}
+
+/**
+ * The cached schema, loaded on a pooled connection if nothing is cached yet.
+ * Used to resolve unqualified table names for the access policy and row filters.
+ */
+async function getCachedSchema(): Promise<TableSchema[]> {
+  if (schemaCache) {
+    return schemaCache;
+  }
+  const client = await getInspectedDbPool().connect();
+  try {
+    return await getSchema(client);
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Clear the schema cache (both in-memory and file).
  * Infrastructure operation.
@@ -373,12 +542,84 @@ export async function extractForeignKeys(
     constraintName: row.constraint_name,
     fromColumn: row.column_name,
     toTable: row.foreign_table_name,
+    toSchema: row.foreign_table_schema,
     toColumn: row.foreign_column_name,
     onDelete: row.on_delete,
     onUpdate: row.on_update,
   }));
 }
 
+/**
+ * Extract the allowed value sets of a table's columns: enum labels (also of
+ * domains over enums), domain CHECK constraints and simple table CHECK
+ * constraints (col IN (...)). Constraints that are not a plain value list are skipped.
+ * Pure DB query - queries inspected DB system catalogs.
+ */
+export async function extractAllowedValues(
+  client: pg.PoolClient,
+  tableName: string,
+  schemaName: string = 'public'
+): Promise<ColumnAllowedValues[]> {
+  const typesQuery = `
+    SELECT 
+      a.attname AS column_name,
+      t.typtype,
+      format_type(t.oid, NULL) AS type_name,
+      ARRAY(
+        SELECT e.enumlabel::text FROM pg_enum e
+        WHERE e.enumtypid = CASE WHEN t.typtype = 'd' THEN t.typbasetype ELSE t.oid END
+        ORDER BY e.enumsortorder
+      ) AS enum_labels,
+      ARRAY(
+        SELECT pg_get_constraintdef(dc.oid) FROM pg_constraint dc
+        WHERE dc.contypid = t.oid AND dc.contype = 'c'
+      ) AS domain_checks
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    JOIN pg_type t ON t.oid = a.atttypid
+    WHERE n.nspname = $1 AND c.relname = $2
+      AND a.attnum > 0 AND NOT a.attisdropped
+      AND t.typtype IN ('e', 'd')
+    ORDER BY a.attnum
+  `;
+  const checksQuery = `
+    SELECT pg_get_constraintdef(con.oid) AS definition
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = $1 AND c.relname = $2 AND con.contype = 'c'
+  `;
+  
+  const [typesResult, checksResult] = await Promise.all([
+    client.query(typesQuery, [schemaName, tableName]),
+    client.query(checksQuery, [schemaName, tableName]),
+  ]);
+  
+  const allowed: ColumnAllowedValues[] = [];
+  
+  for (const row of typesResult.rows) {
+    if (row.enum_labels.length > 0) {
+      allowed.push({ columnName: row.column_name, values: row.enum_labels, source: 'enum', typeName: row.type_name });
+    }
+    for (const definition of row.domain_checks) {
+      const parsed = parseCheckConstraint(definition);
+      if (parsed && parsed.columnName === 'value') {
+        allowed.push({ columnName: row.column_name, values: parsed.values, source: 'domain', typeName: row.type_name });
+      }
+    }
+  }
+  
+  for (const row of checksResult.rows) {
+    const parsed = parseCheckConstraint(row.definition);
+    if (parsed) {
+      allowed.push({ columnName: parsed.columnName, values: parsed.values, source: 'check' });
+    }
+  }
+  
+  return allowed;
+}
+
 /**
  * Extract complete metadata for a single table.
  * Pure DB queries - orchestrates multiple extraction functions.
@@ -388,11 +629,12 @@ export async function extractTableMetadata(
   tableName: string,
   schemaName: string = 'public'
 ): Promise<TableMetadata> {
-  const [sizes, indexes, primaryKeys, foreignKeys] = await Promise.all([
+  const [sizes, indexes, primaryKeys, foreignKeys, allowedValues] = await Promise.all([
     extractTableSizes(client, tableName, schemaName),
     extractIndexes(client, tableName, schemaName),
     extractPrimaryKeys(client, tableName, schemaName),
     extractForeignKeys(client, tableName, schemaName),
+    extractAllowedValues(client, tableName, schemaName),
   ]);
   
   return {
@@ -405,33 +647,84 @@ export async function extractTableMetadata(
     primaryKeyColumns: primaryKeys,
     indexes,
     foreignKeys,
+    allowedValues,
     lastAnalyzed: new Date(),
     lastUpdated: new Date(),
   };
 }
 
 /**
- * Extract metadata for all tables in the schema.
+ * Extract per-column planner statistics (pg_stats) and the time they were
+ * last gathered. Partitioned tables use their inherited (whole-tree) stats.
+ * Pure DB query - queries inspected DB system catalogs.
+ */
+export async function extractColumnStats(
+  client: pg.PoolClient,
+  tableName: string,
+  schemaName: string = 'public'
+): Promise<{ statsUpdatedAt: Date | null; columns: PgColumnStats[] }> {
+  const statsQuery = `
+    SELECT DISTINCT ON (attname)
+      attname,
+      null_frac,
+      n_distinct,
+      most_common_vals::text::text[] AS most_common_vals,
+      most_common_freqs,
+      histogram_bounds::text::text[] AS histogram_bounds
+    FROM pg_stats
+    WHERE schemaname = $1 AND tablename = $2
+    ORDER BY attname, inherited DESC
+  `;
+  const analyzedQuery = `
+    SELECT GREATEST(last_analyze, last_autoanalyze) AS stats_updated_at
+    FROM pg_stat_user_tables
+    WHERE schemaname = $1 AND relname = $2
+  `;
+
+  const [statsResult, analyzedResult] = await Promise.all([
+    client.query(statsQuery, [schemaName, tableName]),
+    client.query(analyzedQuery, [schemaName, tableName]),
+  ]);
+
+  const statsUpdatedAt = analyzedResult.rows[0]?.stats_updated_at;
+  return {
+    statsUpdatedAt: statsUpdatedAt ? new Date(statsUpdatedAt) : null,
+    columns: statsResult.rows.map(row => ({
+      columnName: row.attname,
+      nullFraction: Number(row.null_frac) || 0,
+      nDistinct: Number(row.n_distinct) || 0,
+      mostCommonValues: row.most_common_vals,
+      mostCommonFreqs: row.most_common_freqs ? row.most_common_freqs.map(Number) : null,
+      histogramBounds: row.histogram_bounds,
+    })),
+  };
+}
+
+/**
+ * Extract metadata for all tables and views in the given schemas (default: every user schema).
+ * Plain views have no indexes, keys or statistics; their entries mainly record that they exist.
  * Pure DB queries - orchestrates extraction for multiple tables.
  */
 export async function extractAllTableMetadata(
   client: pg.PoolClient,
-  schemaName: string = 'public'
+  schemaNames: string[] = []
 ): Promise<TableMetadata[]> {
-  // Get list of all tables
+  // Get list of all tables and views (views need metadata entries to pass validation)
   const tablesQuery = `
-    SELECT table_name
-    FROM information_schema.tables
-    WHERE table_schema = $1 AND table_type = 'BASE TABLE'
-    ORDER BY table_name
+    SELECT n.nspname AS table_schema, c.relname AS table_name
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ${RELATION_KINDS}
+      AND (${userSchemaCondition('n.nspname')})
+      AND (cardinality($1::text[]) = 0 OR n.nspname = ANY($1::text[]))
+    ORDER BY n.nspname, c.relname
   `;
   
-  const tablesResult = await client.query(tablesQuery, [schemaName]);
-  const tableNames = tablesResult.rows.map(row => row.table_name);
+  const tablesResult = await client.query(tablesQuery, [schemaNames]);
   
   // Extract metadata for each table (in parallel for speed)
-  const metadataPromises = tableNames.map(name => 
-    extractTableMetadata(client, name, schemaName)
+  const metadataPromises = tablesResult.rows.map(row => 
+    extractTableMetadata(client, row.table_name, row.table_schema)
   );
   
   return Promise.all(metadataPromises);
@@ -445,15 +738,17 @@ export async function extractAllTableMetadata(
 // ============================================================================
 
 /**
- * @deprecated This function contains business logic (validation, timeout, LIMIT).
+ * @deprecated This function contains business logic (validation, guardrails, LIMIT).
  * Should be moved to src/services/queryService.ts
  * 
  * Executes a SQL query with safety validations.
  * This is a high-level function that orchestrates validation and execution.
+ * Row filters (config.rowFilters) are applied to the validated SQL, so every
+ * caller (planner steps, discovery, re-runs after manual edits) gets them.
  */
 export async function runSQL(sql: string): Promise<SQLResult> {
   // Import guard dynamically to avoid circular dependency
-  const { validateSQL } = await import('../agent/guard.js');
+  const { validateSQL, guardOptionsFromConfig } = await import('../agent/guard.js');
   const { config } = await import('../config.js');
   
   // Runtime assertion: ensure sql is a non-empty string
@@ -461,27 +756,102 @@ export async function runSQL(sql: string): Promise<SQLResult> {
     throw new Error('Invalid SQL: must be a non-empty string');
   }
   
-  // Validate SQL before execution
-  const validation = validateSQL(sql);
+  // Validate SQL before execution; unqualified names resolve against every table, not just visible ones
+  const tables = needsAllTables(config) ? await getCachedSchema() : [];
+  const validation = validateSQL(sql, guardOptionsFromConfig(config, tables));
   if (!validation.valid) {
     throw new Error(`SQL validation failed: ${validation.reason}`);
   }
   
   const sanitizedSQL = validation.sanitizedSQL || sql;
+  const filtered = applyRowFilters(
+    sanitizedSQL,
+    config.rowFilters,
+    resolveSessionParams(config.sessionParams),
+    config.searchPath,
+    tables
+  );
   
-  return executeQuery(sanitizedSQL, config.statementTimeoutMs);
+  try {
+    return await executeQuery(filtered.sql, {
+      statementTimeoutMs: config.statementTimeoutMs,
+      idleInTransactionTimeoutMs: config.idleInTransactionTimeoutMs,
+      workMem: config.workMem,
+      searchPath: config.searchPath,
+    }, filtered.params);
+  } catch (error: any) {
+    // Error positions refer to the executed text, which row filters may have rewritten
+    if (error && typeof error === 'object' && filtered.sql !== sanitizedSQL) {
+      error.executedSQL = filtered.sql;
+    }
+    throw error;
+  }
 }
 
+/**
+ * @deprecated This function contains business logic (validation, row filters).
+ * Should be moved to src/services/queryService.ts
+ * 
+ * Explains a SQL query exactly as runSQL would execute it
+ * (validated, LIMIT applied, row filters injected), without running it.
+ */
+export async function explainSQL(sql: string): Promise<QueryPlanNode> {
+  const { validateSQL, guardOptionsFromConfig } = await import('../agent/guard.js');
+  const { config } = await import('../config.js');
+  
+  const tables = needsAllTables(config) ? await getCachedSchema() : [];
+  const validation = validateSQL(sql, guardOptionsFromConfig(config, tables));
+  if (!validation.valid) {
+    throw new Error(`SQL validation failed: ${validation.reason}`);
+  }
+  
+  const filtered = applyRowFilters(
+    validation.sanitizedSQL || sql,
+    config.rowFilters,
+    resolveSessionParams(config.sessionParams),
+    config.searchPath,
+    tables
+  );
+  
+  return explainQuery(filtered.sql, {
+    statementTimeoutMs: config.statementTimeoutMs,
+    idleInTransactionTimeoutMs: config.idleInTransactionTimeoutMs,
+    workMem: config.workMem,
+    searchPath: config.searchPath,
+  }, filtered.params);
+}
+
+const RELATION_LABELS: Record<NonNullable<TableSchema['tableType']>, string> = {
+  table: 'Table',
+  view: 'View',
+  materialized_view: 'Materialized view',
+};
+
 /**
  * @deprecated This function contains presentation/formatting logic.
  * Should be moved to src/formatters/schemaFormatter.ts
  * 
  * Formats database schema into a human-readable text format for LLM consumption.
+ * Tables are listed by their schema-qualified name; tableName may be qualified
+ * ("sales.orders") or bare (matches the table in every schema).
+ * Views and materialized views are labelled as such, with table and column
+ * comments; view definitions are only shown when a single table is requested.
+ * Tables and columns restricted by the access policy are left out entirely,
+ * as are views that read restricted tables or columns.
+ *
+ * @param searchPath - Schemas unqualified names in view definitions resolve against
  */
-export function formatSchemaForLLM(schema: TableSchema[], tableName?: string): string {
-  const tables = tableName 
-    ? schema.filter(t => t.tableName === tableName)
-    : schema;
+export function formatSchemaForLLM(
+  schema: TableSchema[],
+  tableName?: string,
+  policy?: AccessPolicy,
+  searchPath?: string[]
+): string {
+  const visible = policy ? filterSchemaByPolicy(schema, policy, searchPath) : schema;
+  const wanted = tableName ? parseTableName(tableName) : undefined;
+  const tables = wanted
+    ? findTablesNamed(wanted.table, visible).filter(t => !wanted.schema || schemaOfTable(t) === wanted.schema)
+    : visible;
   
   if (tables.length === 0) {
     return tableName ? `Table "${tableName}" not found.` : 'No tables found.';
@@ -490,12 +860,20 @@ export function formatSchemaForLLM(schema: TableSchema[], tableName?: string): s
   const parts: string[] = [];
   
   for (const table of tables) {
-    parts.push(`Table: ${table.tableName}`);
+    parts.push(`${RELATION_LABELS[table.tableType || 'table']}: ${qualifiedTableName(table)}`);
+    if (table.comment) {
+      parts.push(`Description: ${table.comment}`);
+    }
     parts.push('Columns:');
     for (const col of table.columns) {
       const nullable = col.isNullable ? 'NULL' : 'NOT NULL';
       const defaultVal = col.columnDefault ? ` DEFAULT ${col.columnDefault}` : '';
-      parts.push(`  - ${col.columnName}: ${col.dataType} ${nullable}${defaultVal}`);
+      const comment = col.comment ? ` -- ${col.comment}` : '';
+      parts.push(`  - ${col.columnName}: ${col.dataType} ${nullable}${defaultVal}${comment}`);
+    }
+    if (tableName && table.viewDefinition) {
+      parts.push('Definition:');
+      parts.push(...table.viewDefinition.split('\n').map(line => `  ${line}`));
     }
     parts.push('');
   }
@@ -519,12 +897,12 @@ export async function getSchemaWithMetadata(
   const { getAllTableMetadata } = await import('./controlDb.js');
   const allMetadata = await getAllTableMetadata();
   const metadataMap = new Map(
-    allMetadata.map(m => [m.tableName, m])
+    allMetadata.map(m => [qualifiedTableName(m), m])
   );
   
   // Enrich schema with metadata
   return schema.map(table => ({
     ...table,
-    metadata: metadataMap.get(table.tableName),
+    metadata: metadataMap.get(qualifiedTableName(table)),
   }));
 }
@@ -18,6 +18,122 @@ export interface SQLValidationResult {
   tablesValidated: boolean;
   columnsValidated: boolean;
   joinsValidated: boolean;
+  costAnalysis?: QueryCostAnalysis; // From EXPLAIN, when the cost gate ran
+}
+
+/**
+ * A node of PostgreSQL's EXPLAIN (FORMAT JSON) output (only the fields we read)
+ */
+export interface QueryPlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  'Schema'?: string;
+  'Startup Cost': number;
+  'Total Cost': number;
+  'Plan Rows': number;
+  Plans?: QueryPlanNode[];
+  [key: string]: unknown;
+}
+
+/**
+ * Findings of the EXPLAIN-based cost gate for one query
+ */
+export interface QueryCostAnalysis {
+  totalCost: number; // Planner cost units of the whole query
+  estimatedRows: number; // Rows the query is expected to return
+  seqScans: Array<{ table: string; estimatedTableRows: number }>; // Sequential scans on large tables
+  nestedLoops: Array<{ outerRows: number; innerRows: number }>; // Nested loops above the blowup threshold
+  risk: 'low' | 'medium' | 'high';
+  decision: 'allow' | 'confirm' | 'block';
+  findings: string[]; // Human-readable explanation of the decision
+  explainError?: string; // Why the plan could not be estimated (the query then needs confirmation)
+}
+
+/**
+ * Thresholds for the EXPLAIN-based cost gate
+ */
+export interface CostGateConfig {
+  enabled: boolean;
+  confirmCost: number; // Total cost above which the user must confirm
+  blockCost: number; // Total cost above which the query is refused
+  largeTableRows: number; // Tables with more rows are "large" (sequential scans need confirmation)
+  nestedLoopRows: number; // outer rows × inner rows above which a nested loop needs confirmation
+}
+
+/**
+ * What budgets limit: LLM tokens (input + output), LLM cost in USD, LLM calls,
+ * wall time, time spent executing queries, orchestrator iterations and queries
+ */
+export type BudgetMetric = 'tokens' | 'costUsd' | 'llmCalls' | 'wallTimeMs' | 'dbTimeMs' | 'iterations' | 'queries';
+
+export type BudgetLimits = Partial<Record<BudgetMetric, number>>; // Missing metrics are unlimited
+
+export type BudgetUsage = Record<BudgetMetric, number>;
+
+export interface BudgetConfig {
+  question: BudgetLimits; // Per question
+  session: BudgetLimits; // Per CLI session (all questions)
+  degradeAtPercent: number; // Share of any budget at which the orchestrator degrades
+  degradedResultRows: number; // Result rows sent to the interpreter once degraded
+}
+
+/**
+ * The budget that ran out (or is about to)
+ */
+export interface BudgetStop {
+  scope: 'question' | 'session';
+  metric: BudgetMetric;
+  used: number;
+  limit: number;
+}
+
+export interface SQLRepairConfig {
+  maxAttempts: number; // Repair attempts per failed query (0 disables the repair loop)
+  suggestAfter: number; // Identical fixes seen this often become a semantic suggestion
+}
+
+/**
+ * Error details reported by PostgreSQL (pg DatabaseError fields)
+ */
+export interface PostgresErrorDetails {
+  code: string; // SQLSTATE, e.g. 42703
+  message: string;
+  detail?: string;
+  hint?: string;
+  position?: number; // 1-based character offset into the executed SQL
+  near?: string; // SQL text starting at position
+}
+
+/**
+ * One attempt of the SQL self-repair loop: the query that failed and the fix that was tried
+ */
+export interface SQLRepairAttempt {
+  stepNumber: number;
+  attempt: number; // 1-based
+  failedSql: string;
+  error: PostgresErrorDetails;
+  repairedSql?: string; // Missing when no usable fix was produced
+  fixSignature?: string; // Identifies identical fixes across runs
+  succeeded: boolean;
+}
+
+/**
+ * Where one output column of a query comes from
+ */
+export interface ColumnLineage {
+  column: string; // Output column name
+  expression: string; // Expression over source columns, CTE and subquery columns inlined ("sum(order_items.price * order_items.quantity)")
+  sources: string[]; // Source table columns ("orders.status"; unqualified when ambiguous)
+}
+
+/**
+ * Column-level lineage of one executed query
+ */
+export interface QueryLineage {
+  columns: ColumnLineage[];
+  filters: string[]; // WHERE/HAVING conditions at any level, over source columns
+  joins: string[]; // Join conditions
+  groupBy: string[]; // GROUP BY keys of the outermost SELECT
 }
 
 export interface PlanStep {
@@ -65,6 +181,11 @@ export interface RunLog {
   rowsReturned: number[];
   durationsMs: number[];
   detectedSemantics?: string[]; // IDs of semantic entities detected in the question
+  policyViolations?: PolicyViolation[]; // Access policy violations that blocked SQL in this run
+  repairAttempts?: SQLRepairAttempt[]; // Failed queries and the fixes tried by the repair loop
+  lineage?: QueryLineage[]; // Column lineage of each query in `sql`
+  budgetStop?: BudgetStop; // Budget that ended the run early
+  promptVersions?: PromptVersions; // Version of each prompt template the run used
   createdAt: Date;
 }
 
@@ -112,6 +233,9 @@ export interface Semantic {
   exampleQuestions?: string[];     // Example uses
   notes?: string[];                // Additional context
   aggregation?: string;            // For metrics: COUNT, SUM, AVG, etc.
+  needsReview?: boolean;           // Set when a schema change broke a table/column it uses
+  reviewReason?: string;
+  approved?: boolean;              // Reviewed by a person; only approved join rules become join edges
 }
 
 export interface SemanticEntity {
@@ -131,6 +255,10 @@ export interface SemanticEntity {
 
 export interface TableSchema {
   tableName: string;
+  schemaName?: string; // Missing in schema caches written before multi-schema support (= public)
+  tableType?: 'table' | 'view' | 'materialized_view'; // Missing in older schema caches (= table)
+  comment?: string; // COMMENT ON TABLE / VIEW
+  viewDefinition?: string; // SELECT the view or materialized view is defined as
   columns: ColumnSchema[];
   metadata?: TableMetadata; // Optional - loaded separately
 }
@@ -140,17 +268,32 @@ export interface ColumnSchema {
   dataType: string;
   isNullable: boolean;
   columnDefault?: string;
+  comment?: string; // COMMENT ON COLUMN
 }
 
 export interface Config {
-  geminiApiKey: string;
+  llm: LLMConfig;
   databaseUrl: string;
   controlDbUrl?: string;
   maxRows: number;
   statementTimeoutMs: number;
+  idleInTransactionTimeoutMs: number;
+  workMem: string; // e.g. "64MB"
+  searchPath: string[]; // Schemas for search_path, in resolution order
   maxResultRowsForLLM: number;
-  geminiModel: string;
   debugModeConfidenceThreshold: number; // 0-100
+  deniedFunctions: string[]; // Extra functions blocked by the guard (on top of the default denylist)
+  allowedFunctions: string[]; // Functions exempted from the guard's denylist
+  accessPolicy: AccessPolicy;
+  rowFilters: RowFilter[]; // Row-level predicates injected for every referenced table
+  sessionParams: Record<string, string>; // Default values for :name parameters in row filters
+  piiMasking: boolean; // Mask personal data in result rows before they are sent to the LLM
+  trace: boolean; // Write SQL parsing/validation traces to stderr
+  userName: string; // Recorded with LLM calls for per-user cost reports
+  costGate: CostGateConfig;
+  sqlRepair: SQLRepairConfig;
+  budget: BudgetConfig;
+  promptOverridesDir?: string; // Templates here replace prompts/<name>.txt
   retry: {
     maxRetries: number;
     initialDelayMs: number;
@@ -159,6 +302,270 @@ export interface Config {
   };
 }
 
+export type LLMProviderName = 'gemini' | 'openai' | 'fake';
+
+/**
+ * Components that call the LLM; each can be routed to its own model
+ */
+export type LLMRole = 'planner' | 'sqlWriter' | 'interpreter' | 'semanticLearner' | 'orchestrator';
+
+export interface LLMModelConfig {
+  provider: LLMProviderName;
+  model: string;
+}
+
+/**
+ * LLM provider selection and credentials
+ */
+export interface LLMConfig {
+  models: Record<LLMRole, LLMModelConfig>; // Model used by each role (LLM_PROVIDER/LLM_MODEL unless overridden)
+  geminiApiKey?: string; // Required when any role uses Gemini
+  openaiBaseUrl: string; // OpenAI API or any server implementing /chat/completions (vLLM, Ollama, llama.cpp)
+  openaiApiKey?: string; // Optional for local inference servers
+  openaiJsonMode: boolean; // Send response_format json_object (disable for servers that reject it)
+  fakeFixture?: string; // Rules file of the fake provider (required when any role uses it)
+  cassette?: { path: string; mode: 'record' | 'replay' }; // Record responses to / replay them from a cassette file
+  prices: Record<string, LLMPrice>; // Price per model name (longest prefix match)
+  jsonRepairAttempts: number; // Re-prompts after a JSON response that does not match its schema
+  cache?: LLMCacheConfig; // Response cache (LLM_CACHE), undefined when off
+}
+
+export type LLMCacheStoreName = 'memory' | 'file' | 'db';
+
+export interface LLMCacheConfig {
+  store: LLMCacheStoreName; // Where responses outlive the process: nowhere, a JSON file or the control DB
+  path: string; // Cache file of the 'file' store
+  maxEntries: number; // Size of the in-memory LRU
+  ttlSeconds: Record<LLMRole, number>; // How long each role's responses are reused (0 = not cached)
+}
+
+/**
+ * A cached LLM response
+ */
+export interface LLMCacheEntry {
+  key: string; // Hash of provider, model, kind, temperature, response schema, prompt and context
+  role: LLMRole;
+  provider: string;
+  model: string;
+  context: string; // Schema and semantic set the response was generated with
+  response: LLMResponse;
+  createdAt: number; // Epoch ms
+  expiresAt: number; // Epoch ms
+}
+
+/**
+ * Persistent storage behind the in-memory LRU
+ */
+export interface LLMCacheStore {
+  get(key: string): Promise<LLMCacheEntry | undefined>;
+  set(entry: LLMCacheEntry): Promise<void>;
+  invalidate(context: string): Promise<number>; // Drop expired entries and those of other contexts
+}
+
+/**
+ * A call answered from the cache instead of the provider
+ */
+export interface LLMCacheHit {
+  role: LLMRole;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  ageMs: number; // Time since the response was generated
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface LLMPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * One metered LLM call (llm_calls table)
+ */
+export interface LLMCallRecord {
+  id?: string;
+  runLogId?: string; // Run the call belonged to (unset for calls outside a question, e.g. /explore)
+  role: LLMRole;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  tokensEstimated: boolean; // Provider reported no usage; counts are estimates
+  latencyMs: number;
+  costUsd?: number; // Undefined when the model has no price
+  question?: string;
+  userName?: string;
+  createdAt?: Date;
+}
+
+/**
+ * LLM usage totals for one role, model, user or question
+ */
+export interface LLMCostTotals {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number; // Sum over priced calls
+  unpricedCalls: number;
+}
+
+export type LLMCostGrouping = 'role' | 'model' | 'user' | 'question';
+
+/**
+ * What a provider's model supports
+ */
+export interface LLMCapabilities {
+  jsonMode: boolean; // Native JSON output (otherwise JSON is extracted from free text)
+  exactTokenCount: boolean; // countTokens asks the provider (otherwise it estimates)
+  jsonSchema: boolean; // generateJSON constrains the output to options.schema
+}
+
+export interface LLMGenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+  schema?: JSONSchema; // Expected JSON shape (used by providers with capabilities.jsonSchema)
+  validate?: (data: unknown) => string[]; // Problems of a parsed JSON response; the cache only keeps responses without any
+}
+
+/**
+ * Prompt templates (prompts/<name>.txt, overridable per deployment)
+ */
+export type PromptName =
+  | 'planner'
+  | 'sqlWriter'
+  | 'sqlRepair'
+  | 'interpreter'
+  | 'learnerCorrection'
+  | 'learnerSqlEdit'
+  | 'learnerDiscovery'
+  | 'orchestratorDecision';
+
+export type PromptVariables = Record<string, string | number | boolean>;
+
+export type PromptVersions = Partial<Record<PromptName, string>>;
+
+export interface PromptTemplate {
+  name: PromptName;
+  version: string; // Hash of the template text
+  source: 'default' | 'override';
+  path: string;
+  text: string;
+}
+
+/**
+ * Outcomes of the runs that used one version of a template
+ */
+export interface PromptVersionStats {
+  name: string;
+  version: string;
+  runs: number;
+  corrected: number; // Runs the user corrected
+  avgRating?: number; // Mean user_rating (1-5) of rated runs
+  lastUsed: Date;
+}
+
+/**
+ * JSON Schema subset for structured LLM output: the OpenAPI subset Gemini
+ * accepts as responseSchema. Properties not listed are allowed.
+ */
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Declared response of a prompt: its schema, plus checks a schema cannot
+ * express (e.g. "a FINAL_ANSWER needs an answer")
+ */
+export interface LLMOutputSchema<T> {
+  name: string; // Shown in errors and debug output ("plan", "interpretation")
+  schema: JSONSchema;
+  check?: (value: T) => string[];
+}
+
+/**
+ * A JSON response that did not parse or did not match its schema
+ */
+export interface LLMOutputFailure {
+  output: string; // LLMOutputSchema name
+  kind: 'parse' | 'schema';
+  problems: string[];
+  repaired: boolean; // A re-prompt produced a valid response
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage?: LLMUsage; // When the provider reports it
+}
+
+export interface LLMJSONResponse<T> extends LLMResponse {
+  data: T;
+}
+
+/**
+ * A text generation backend (Gemini, OpenAI-compatible HTTP)
+ */
+export interface LLMProvider {
+  readonly name: string; // Display name, used in error messages
+  readonly model: string;
+  readonly capabilities: LLMCapabilities;
+  generateText(prompt: string, options?: LLMGenerateOptions): Promise<LLMResponse>;
+  generateJSON<T = unknown>(prompt: string, options?: LLMGenerateOptions): Promise<LLMJSONResponse<T>>;
+  countTokens(text: string): Promise<number>;
+}
+
+/**
+ * Table/column access policy for the inspected database.
+ * Entries are matched case-insensitively; empty allow lists mean "everything allowed".
+ * Tables: "table" or "schema.table". Columns: "table.column" or "schema.table.column".
+ */
+export interface AccessPolicy {
+  allowedSchemas: string[];
+  deniedSchemas: string[];
+  allowedTables: string[];
+  deniedTables: string[];
+  allowedColumns: string[]; // If a table has entries here, only these columns are accessible
+  deniedColumns: string[];
+}
+
+/**
+ * A reference in generated SQL that the access policy does not permit
+ */
+export interface PolicyViolation {
+  kind: 'schema' | 'table' | 'column';
+  schema: string;
+  table: string;
+  column?: string;
+  reason: string;
+  sql?: string; // The blocked SQL (set when recorded on a run log)
+}
+
+/**
+ * Row-level filter for a table in the inspected database.
+ * The predicate is plain SQL over the table's own columns and may reference
+ * session parameters as :name (bound as query parameters, never interpolated).
+ */
+export interface RowFilter {
+  table: string; // "table" (any schema) or "schema.table"
+  predicate: string; // e.g. "region = :user_region"
+}
+
 /**
  * Database constraint types - these MUST match database CHECK constraints
  */
@@ -293,6 +700,7 @@ export interface ForeignKeyMetadata {
   constraintName: string;
   fromColumn: string;
   toTable: string;
+  toSchema?: string; // Missing in metadata stored before multi-schema support
   toColumn: string;
   onDelete?: string;  // RESTRICT, CASCADE, SET NULL, etc.
   onUpdate?: string;
@@ -313,10 +721,150 @@ export interface TableMetadata {
   primaryKeyColumns: string[];
   indexes: IndexMetadata[];
   foreignKeys: ForeignKeyMetadata[];
+  allowedValues?: ColumnAllowedValues[]; // Missing in metadata stored before allowed values were extracted
   lastAnalyzed: Date;
   lastUpdated: Date;
 }
 
+/**
+ * The fixed set of values a column accepts, from its enum type, a simple
+ * CHECK (col IN (...)) constraint or a domain's CHECK constraint.
+ * A column may have several entries; a value must be in all of them.
+ */
+export interface ColumnAllowedValues {
+  columnName: string;
+  values: string[];
+  source: 'enum' | 'check' | 'domain';
+  typeName?: string; // Enum or domain type
+}
+
+/**
+ * Kinds of personal data detected in inspected DB columns
+ */
+export type PiiCategory =
+  | 'email'
+  | 'phone'
+  | 'person_name'
+  | 'address'
+  | 'ip_address'
+  | 'iban'
+  | 'credit_card'
+  | 'national_id'
+  | 'birth_date';
+
+/**
+ * How a PII value is replaced in LLM prompts:
+ * - pseudonym: stable token (<EMAIL_3>), same value → same token for the session
+ * - redact: fixed token ([REDACTED_IBAN]), nothing about the value is kept
+ */
+export type PiiMaskingStrategy = 'pseudonym' | 'redact';
+
+/**
+ * PII classification of a column in the inspected database.
+ * Cached in the control database (pii_column_classifications table).
+ */
+export interface ColumnPiiClassification {
+  tableName: string;
+  schemaName: string;
+  columnName: string;
+  category: PiiCategory;
+  strategy: PiiMaskingStrategy;
+  detectedBy: 'name' | 'data_type' | 'values';
+  lastAnalyzed?: Date;
+}
+
+/**
+ * Structural snapshot of one table, view or materialized view, in a form that
+ * diffs and hashes stably. Values are display strings ("integer NOT NULL").
+ */
+export interface SchemaSnapshotTable {
+  tableType: 'table' | 'view' | 'materialized_view';
+  columns: Record<string, string>;     // column -> data type (+ NOT NULL)
+  indexes: Record<string, string>;     // index name -> definition
+  foreignKeys: Record<string, string>; // constraint name -> "col → schema.table.col"
+}
+
+/**
+ * Structural snapshot of the inspected database, keyed by qualified table name
+ */
+export type SchemaSnapshot = Record<string, SchemaSnapshotTable>;
+
+/**
+ * One structural difference between two schema snapshots
+ */
+export interface SchemaChange {
+  kind: 'table' | 'column' | 'index' | 'foreign_key';
+  change: 'added' | 'removed' | 'retyped' | 'changed';
+  table: string; // Qualified table name
+  name?: string; // Column, index or constraint (absent for table changes)
+  before?: string;
+  after?: string;
+}
+
+/**
+ * A semantic that relies on something a schema change removed or retyped
+ */
+export interface AffectedSemantic {
+  semanticId: string;
+  name: string;
+  reason: string;
+}
+
+/**
+ * A detected schema change set, stored in the control database (schema_changes table)
+ */
+export interface SchemaChangeRecord {
+  id?: string;
+  fingerprint: string;
+  previousFingerprint?: string; // Absent for the first (baseline) snapshot
+  snapshot: SchemaSnapshot;
+  changes: SchemaChange[];
+  affectedSemantics: AffectedSemantic[];
+  detectedAt?: Date;
+}
+
+/**
+ * Planner statistics for one column, as read from pg_stats
+ * (anyarray columns cast to text[])
+ */
+export interface PgColumnStats {
+  columnName: string;
+  nullFraction: number;
+  nDistinct: number; // Negative: minus the fraction of rows that are distinct
+  mostCommonValues: string[] | null;
+  mostCommonFreqs: number[] | null;
+  histogramBounds: string[] | null;
+}
+
+/**
+ * A value (or value shape) and the fraction of rows that have it
+ */
+export interface ColumnValueFrequency {
+  value: string;
+  frequency: number; // 0-1
+}
+
+/**
+ * Value profile of a column in the inspected database, so prompts can use
+ * real values ('COMPLETED', not 'complete').
+ * Cached in the control database (column_profiles table). Columns classified
+ * as PII keep their counts but never their values.
+ */
+export interface ColumnProfile {
+  tableName: string;
+  schemaName: string;
+  columnName: string;
+  dataType: string;
+  nullFraction: number;
+  distinctCount: number; // Estimated
+  topValues: ColumnValueFrequency[];
+  minValue?: string;
+  maxValue?: string;
+  patterns: ColumnValueFrequency[]; // Shapes of text values, e.g. "AAA-9999"
+  source: 'pg_stats' | 'sample';
+  lastProfiled?: Date;
+}
+
 /**
  * Conversation history turn - tracks Q&A pairs for context awareness
  * Used for follow-up question understanding
@@ -359,6 +907,42 @@ export type SemanticStoringSubState = 'VALIDATE' | 'APPROVE' | 'STORE' | null;
  */
 export type SubState = QuerySubState | DiscoverySubState | SemanticStoringSubState;
 
+/**
+ * Semantic suggestion as the semantic learner's LLM returns it
+ * (analysis of a correction or of a SQL edit)
+ */
+export interface LearnedSemanticResponse {
+  suggested_name: string;
+  suggested_type: EntityTypeLLM;
+  category?: string;
+  description: string;
+  sql_fragment?: string;
+  primary_table?: string;
+  primary_column?: string;
+  synonyms?: string[];
+  aggregation?: string | null;
+  anti_patterns?: { wrong?: string; why?: string; correct?: string };
+  example_questions?: string[];
+  notes?: string[];
+  confidence?: number; // 0.0-1.0
+  reasoning?: string;
+}
+
+/**
+ * Pattern found in sample data, as the semantic learner's LLM returns it
+ */
+export interface PatternDiscoveryResponse {
+  pattern: string;
+  confidence?: number; // 0.0-1.0
+  suggestedSemantic?: Pick<LearnedSemanticResponse,
+    'suggested_name' | 'suggested_type' | 'category' | 'description' | 'sql_fragment' |
+    'primary_table' | 'primary_column' | 'synonyms' | 'example_questions'>;
+  validationQuery?: string;
+  tableName?: string;
+  columnName?: string | null;
+  evidence?: Discovery['evidence'];
+}
+
 /**
  * Discovery result from pattern analysis
  */
@@ -395,6 +979,9 @@ export interface ExecutionContext {
   iterationCount?: number;            // Current iteration count
   refinementCount?: number;           // Number of plan refinements
   previousPlans?: string[];          // Plan signatures for loop detection
+  repairAttempts?: SQLRepairAttempt[]; // SQL self-repair attempts in this run
+  budgetStop?: BudgetStop;            // Budget that stopped the run
+  budgetLow?: BudgetStop;             // Budget that put the run in degraded mode
 }
 
 // ============================================================================
@@ -612,5 +1199,6 @@ export interface DiscoveryResult {
     queries: number;
     totalRows: number;
     totalDuration: number;
+    budgetStop?: BudgetStop; // Budget that stopped discovery early
   };
 }
@@ -0,0 +1,314 @@
+import { loadModule, parseSync, hasSqlDetails } from 'libpg-query';
+import type { RawStmt } from 'libpg-query';
+
+// libpg-query ships the real PostgreSQL parser as WASM; it must be loaded once
+// before parseSync can be used.
+await loadModule();
+
+/**
+ * A generic AST node as produced by libpg-query.
+ * Node payloads are plain objects keyed by field name (e.g. SelectStmt.fromClause).
+ */
+export type AstNode = Record<string, any>;
+
+/**
+ * Outcome of parsing a SQL string with the PostgreSQL parser.
+ */
+export type ParseOutcome =
+  | { success: true; statements: RawStmt[] }
+  | { success: false; error: string; position?: number };
+
+/**
+ * Parent chain entry passed to AST visitors.
+ */
+export interface AstAncestor {
+  /** Node type name (e.g. "SelectStmt", "CommonTableExpr") */
+  type: string;
+  /** Node payload */
+  node: AstNode;
+}
+
+/**
+ * Visitor callback for walkAst. Return false to skip the node's children.
+ */
+export type AstVisitor = (type: string, node: AstNode, ancestors: AstAncestor[]) => void | false;
+
+/**
+ * Struct fields that libpg-query does not wrap in a { NodeType: ... } envelope.
+ * Listed per parent type so the walker can still report them with their type name.
+ */
+const UNWRAPPED_FIELDS: Record<string, Record<string, string>> = {
+  SelectStmt: { larg: 'SelectStmt', rarg: 'SelectStmt', withClause: 'WithClause', intoClause: 'IntoClause' },
+  InsertStmt: { relation: 'RangeVar', withClause: 'WithClause' },
+  UpdateStmt: { relation: 'RangeVar', withClause: 'WithClause' },
+  DeleteStmt: { relation: 'RangeVar', withClause: 'WithClause' },
+  MergeStmt: { relation: 'RangeVar', withClause: 'WithClause' },
+  CreateTableAsStmt: { into: 'IntoClause' },
+};
+
+/**
+ * Parse SQL into PostgreSQL raw statements.
+ * Never throws - syntax errors are returned with a 0-based character position when available.
+ */
+export function parsePostgres(sql: string): ParseOutcome {
+  try {
+    const result = parseSync(sql);
+    return { success: true, statements: result.stmts ?? [] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (hasSqlDetails(error) && error.sqlDetails?.cursorPosition !== undefined) {
+      // cursorPosition is a 0-based byte offset into the query
+      return {
+        success: false,
+        error: message,
+        position: byteOffsetToCharIndex(sql, error.sqlDetails.cursorPosition),
+      };
+    }
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Depth-first walk over a libpg-query AST.
+ * Calls the visitor for every typed node ({ TypeName: {...} } envelopes and known unwrapped struct fields).
+ */
+export function walkAst(root: unknown, visit: AstVisitor, ancestors: AstAncestor[] = []): void {
+  if (Array.isArray(root)) {
+    for (const item of root) {
+      walkAst(item, visit, ancestors);
+    }
+    return;
+  }
+  if (!root || typeof root !== 'object') {
+    return;
+  }
+
+  for (const [key, value] of Object.entries(root as AstNode)) {
+    if (!value || typeof value !== 'object') {
+      continue;
+    }
+    if (isNodeTypeName(key) && !Array.isArray(value)) {
+      visitNode(key, value, visit, ancestors);
+    } else {
+      walkAst(value, visit, ancestors);
+    }
+  }
+}
+
+function visitNode(type: string, node: AstNode, visit: AstVisitor, ancestors: AstAncestor[]): void {
+  if (visit(type, node, ancestors) === false) {
+    return;
+  }
+  const chain = [...ancestors, { type, node }];
+  const unwrapped = UNWRAPPED_FIELDS[type] || {};
+
+  for (const [field, value] of Object.entries(node)) {
+    if (!value || typeof value !== 'object') {
+      continue;
+    }
+    const fieldType = unwrapped[field];
+    if (fieldType && !Array.isArray(value)) {
+      visitNode(fieldType, value, visit, chain);
+    } else {
+      walkAst(value, visit, chain);
+    }
+  }
+}
+
+/**
+ * Name PostgreSQL gives an unaliased select-list expression: the column name,
+ * the function name, the cast type, "case", "coalesce" or "?column?"
+ */
+export function outputColumnName(expression: AstNode): string {
+  if (expression.ColumnRef) {
+    const fields: AstNode[] = expression.ColumnRef.fields || [];
+    return String(fields[fields.length - 1]?.String?.sval ?? '?column?');
+  }
+  if (expression.FuncCall) {
+    const names: AstNode[] = expression.FuncCall.funcname || [];
+    return String(names[names.length - 1]?.String?.sval ?? '?column?');
+  }
+  if (expression.TypeCast) {
+    const names: AstNode[] = expression.TypeCast.typeName?.names || [];
+    return expression.TypeCast.arg?.ColumnRef
+      ? outputColumnName(expression.TypeCast.arg)
+      : String(names[names.length - 1]?.String?.sval ?? '?column?');
+  }
+  if (expression.CaseExpr) return 'case';
+  if (expression.CoalesceExpr) return 'coalesce';
+  return '?column?';
+}
+
+/**
+ * A column compared with literal values (see matchValueComparison)
+ */
+export interface ValueComparison {
+  /** Column name parts as written (["o", "status"], ["value"]) */
+  columnNames: string[];
+  values: string[];
+  /** <>, NOT IN, <> ALL - the values are excluded rather than selected */
+  negated: boolean;
+}
+
+/**
+ * Match an A_Expr comparing a column with literals: col = 'a', col <> 'a',
+ * col IN ('a', 'b'), col NOT IN (...), col = ANY (ARRAY['a', 'b']).
+ * Type casts on either side are ignored. Returns null for any other expression.
+ */
+export function matchValueComparison(expr: AstNode): ValueComparison | null {
+  const operator: string | undefined = expr.name?.[0]?.String?.sval;
+  const negated = operator === '<>' || operator === '!=';
+  if (!operator || (operator !== '=' && !negated)) {
+    return null;
+  }
+
+  let column = columnNames(expr.lexpr);
+  let other: AstNode | undefined = expr.rexpr;
+  if (!column && expr.kind === 'AEXPR_OP') {
+    column = columnNames(expr.rexpr);
+    other = expr.lexpr;
+  }
+  if (!column) {
+    return null;
+  }
+
+  let items: AstNode[];
+  if (expr.kind === 'AEXPR_OP') {
+    items = other ? [other] : [];
+  } else if (expr.kind === 'AEXPR_IN') {
+    items = other?.List?.items || [];
+  } else if (expr.kind === 'AEXPR_OP_ANY' || expr.kind === 'AEXPR_OP_ALL') {
+    items = stripTypeCasts(other)?.A_ArrayExpr?.elements || [];
+  } else {
+    return null;
+  }
+
+  const values = items.map(constantValue);
+  if (values.length === 0 || values.some(v => v === undefined)) {
+    return null;
+  }
+  return { columnNames: column, values: values as string[], negated };
+}
+
+function columnNames(node: AstNode | undefined): string[] | null {
+  const fields: AstNode[] | undefined = stripTypeCasts(node)?.ColumnRef?.fields;
+  if (!fields || fields.some(f => !f.String)) {
+    return null;
+  }
+  return fields.map(f => String(f.String.sval));
+}
+
+function constantValue(node: AstNode): string | undefined {
+  const constant = stripTypeCasts(node)?.A_Const;
+  if (!constant) return undefined;
+  if (constant.sval) return String(constant.sval.sval ?? '');
+  if (constant.ival) return String(constant.ival.ival ?? 0);
+  if (constant.fval) return String(constant.fval.fval);
+  return undefined;
+}
+
+function stripTypeCasts(node: AstNode | undefined): AstNode | undefined {
+  let current = node;
+  while (current?.TypeCast) {
+    current = current.TypeCast.arg;
+  }
+  return current;
+}
+
+/**
+ * Node envelope keys are PascalCase type names (SelectStmt, RangeVar, A_Const);
+ * plain fields are camelCase or snake_case.
+ */
+function isNodeTypeName(key: string): boolean {
+  return /^[A-Z]/.test(key);
+}
+
+/**
+ * Convert a byte offset reported by the parser (UTF-8) into a JavaScript string index.
+ */
+export function byteOffsetToCharIndex(sql: string, byteOffset: number): number {
+  return Buffer.from(sql, 'utf8').subarray(0, byteOffset).toString('utf8').length;
+}
+
+/**
+ * Convert a JavaScript string index into the parser's UTF-8 byte offset.
+ */
+export function charIndexToByteOffset(sql: string, charIndex: number): number {
+  return Buffer.byteLength(sql.slice(0, charIndex), 'utf8');
+}
+
+/**
+ * Find the end of the last code token in SQL, ignoring trailing whitespace, comments and semicolons.
+ * Quoted strings, quoted identifiers and dollar-quoted bodies are skipped so their contents never count as comments.
+ * 
+ * @returns String index just past the last code character (0 if the SQL contains no code)
+ */
+export function findCodeEnd(sql: string): number {
+  let codeEnd = 0;
+  let i = 0;
+  
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+    
+    if (ch === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? sql.length : newline + 1;
+      continue;
+    }
+    
+    if (ch === '/' && next === '*') {
+      // Block comments nest in PostgreSQL
+      let depth = 1;
+      i += 2;
+      while (i < sql.length && depth > 0) {
+        if (sql[i] === '/' && sql[i + 1] === '*') {
+          depth++;
+          i += 2;
+        } else if (sql[i] === '*' && sql[i + 1] === '/') {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+      continue;
+    }
+    
+    if (ch === '\'' || ch === '"') {
+      const backslashEscapes = ch === '\'' && i > 0 && /[eE]/.test(sql[i - 1]) && !/[A-Za-z0-9_]/.test(sql[i - 2] || '');
+      i++;
+      while (i < sql.length) {
+        if (backslashEscapes && sql[i] === '\\') {
+          i += 2;
+        } else if (sql[i] === ch && sql[i + 1] === ch) {
+          i += 2;
+        } else if (sql[i] === ch) {
+          i++;
+          break;
+        } else {
+          i++;
+        }
+      }
+      codeEnd = i;
+      continue;
+    }
+    
+    if (ch === '$' && !/[A-Za-z0-9_]/.test(sql[i - 1] || '')) {
+      const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        i = close === -1 ? sql.length : close + tag[0].length;
+        codeEnd = i;
+        continue;
+      }
+    }
+    
+    if (!/\s/.test(ch) && ch !== ';') {
+      codeEnd = i + 1;
+    }
+    i++;
+  }
+  
+  return codeEnd;
+}
@@ -0,0 +1,31 @@
+/**
+ * Opt-in tracing of internal decisions (SQL parsing, metadata validation).
+ * Off by default; enabled with SQL_TRACE=true (config.trace). Trace lines go
+ * to stderr so they never mix with answers on stdout.
+ */
+
+let traceEnabled = false;
+
+/**
+ * Turn tracing on or off (config.trace)
+ */
+export function setTraceEnabled(enabled: boolean): void {
+  traceEnabled = enabled;
+}
+
+export function isTraceEnabled(): boolean {
+  return traceEnabled;
+}
+
+/**
+ * Write one trace line: "[trace] location: message {data}"
+ *
+ * @param location - Module and function ("sqlValidator.parseSQL")
+ * @param data - Details, serialized as JSON
+ */
+export function trace(location: string, message: string, data?: Record<string, unknown>): void {
+  if (!traceEnabled) {
+    return;
+  }
+  console.error(`[trace] ${location}: ${message}${data ? ` ${JSON.stringify(data)}` : ''}`);
+}